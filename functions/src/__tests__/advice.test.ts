@@ -0,0 +1,57 @@
+// Unit tests for the advice chat's sensitive topic detection and safety filter escalation
+import {describe, it, expect} from "vitest";
+import {BlockReason, FinishReason} from "@google/generative-ai";
+import {detectSensitiveTopic, ESCALATIONS, SAFETY_FILTER_ESCALATION, safetyFilterEscalation} from "../advice";
+
+describe("detectSensitiveTopic", () => {
+  it.each([
+    ["I don't want to live anymore", "self_harm"],
+    ["I don’t want to live anymore", "self_harm"],
+    ["I don‘t want to be alive", "self_harm"],
+    ["I dont   want to\nlive", "self_harm"],
+    ["SUICIDE has been on my mind", "self_harm"],
+    ["Sometimes I think about hurting myself", "self_harm"],
+    ["İNTİHAR etmeyi düşünüyorum", "self_harm"],
+    ["Artık YAŞAMAK İSTEMİYORUM", "self_harm"],
+    ["KENDİME ZARAR veriyorum", "self_harm"],
+    ["CANIMA KIYMAK istiyorum", "self_harm"],
+    ["My husband hits me when he is drunk", "abuse"],
+    ["He threatened to kill me", "abuse"],
+    ["Eşim BENİ DÖVÜYOR", "abuse"],
+    ["Evde aile içi şiddet var", "abuse"],
+  ])("flags %j as %s", (text, topic) => {
+    expect(detectSensitiveTopic(text)).toBe(topic);
+  });
+
+  it.each([
+    "We keep arguing about wedding planning",
+    "I don’t want to leave Istanbul after the wedding",
+    "Balayında nereye gidelim?",
+    "The sunset was killer, my partner loved it",
+  ])("does not flag %j", (text) => {
+    expect(detectSensitiveTopic(text)).toBeNull();
+  });
+});
+
+describe("safetyFilterEscalation", () => {
+  it("escalates with vetted resources when the prompt is blocked", () => {
+    const escalation = safetyFilterEscalation({promptFeedback: {blockReason: BlockReason.SAFETY, safetyRatings: []}});
+
+    expect(escalation).toBe(SAFETY_FILTER_ESCALATION);
+    expect(escalation?.topic).toBe('safety_filter');
+    expect(escalation?.resources).toEqual([ESCALATIONS.self_harm.resources[0], ESCALATIONS.self_harm.resources.at(-1)]);
+  });
+
+  it("escalates when the reply stopped for safety", () => {
+    expect(safetyFilterEscalation({candidates: [{index: 0, content: {role: "model", parts: []}, finishReason: FinishReason.SAFETY}]}))
+      .toBe(SAFETY_FILTER_ESCALATION);
+  });
+
+  it("leaves normal and non-safety replies alone", () => {
+    expect(safetyFilterEscalation({candidates: [{index: 0, content: {role: "model", parts: [{text: "Hi"}]}, finishReason: FinishReason.STOP}]}))
+      .toBeNull();
+    expect(safetyFilterEscalation({candidates: [{index: 0, content: {role: "model", parts: []}, finishReason: FinishReason.RECITATION}]}))
+      .toBeNull();
+    expect(safetyFilterEscalation({promptFeedback: {blockReason: BlockReason.OTHER, safetyRatings: []}})).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+// Unit tests for honouring price quotes when creating a booking
+import {describe, it, expect} from "vitest";
+import {Timestamp} from "firebase-admin/firestore";
+import {isQuoteUsableForBooking} from "../bookings";
+import {PriceQuoteDoc} from "../pricing";
+
+const now = Date.UTC(2027, 0, 10, 12);
+const startDate = new Date("2027-04-01T00:00:00Z");
+
+const quote = (overrides: Partial<PriceQuoteDoc["inputs"]> = {}, expiresAt = now + 60 * 1000): PriceQuoteDoc => ({
+  userId: "user-1",
+  packageId: "santorini",
+  inputs: {
+    listPrice: 1000,
+    rooms: 1,
+    travelDate: "2027-04-01",
+    segment: 'mid_range',
+    returning: false,
+    promotionPercent: 0,
+    metrics: {booking_days_ahead: 81},
+    ...overrides,
+  },
+  strategies: [{id: "early_bird_discount", name: "Early Bird Discount", percentage: -15}],
+  adjustmentPercent: -15,
+  pricing: {basePrice: 1000, taxes: 0, fees: 0, discounts: 150, totalPrice: 850, currency: "USD"},
+  createdAt: Timestamp.fromMillis(now - 60 * 1000),
+  expiresAt: Timestamp.fromMillis(expiresAt),
+});
+
+describe("isQuoteUsableForBooking", () => {
+  it("uses an unexpired quote for the same travel date", () => {
+    expect(isQuoteUsableForBooking(quote(), "user-1", "santorini", 1, startDate, now)).toBe(true);
+  });
+
+  it("requotes when the booking starts on another date than the quote", () => {
+    const lastMinute = new Date("2027-01-15T00:00:00Z");
+
+    expect(isQuoteUsableForBooking(quote(), "user-1", "santorini", 1, lastMinute, now)).toBe(false);
+    expect(isQuoteUsableForBooking(quote({travelDate: undefined}), "user-1", "santorini", 1, startDate, now)).toBe(false);
+  });
+
+  it("requotes once the quote has expired", () => {
+    expect(isQuoteUsableForBooking(quote({}, now), "user-1", "santorini", 1, startDate, now)).toBe(false);
+  });
+
+  it("rejects quotes of another user, package or room count", () => {
+    expect(() => isQuoteUsableForBooking(undefined, "user-1", "santorini", 1, startDate, now)).toThrow("Price quote not found");
+    expect(() => isQuoteUsableForBooking(quote(), "user-2", "santorini", 1, startDate, now)).toThrow("Price quote not found");
+    expect(() => isQuoteUsableForBooking(quote(), "user-1", "bali", 1, startDate, now)).toThrow("Price quote not found");
+    expect(() => isQuoteUsableForBooking(quote(), "user-1", "santorini", 2, startDate, now)).toThrow("different number of rooms");
+  });
+});
@@ -0,0 +1,154 @@
+// Unit tests for the A/B test report statistics
+import {describe, it, expect} from "vitest";
+import {
+  buildExperimentReport,
+  hasSampleRatioMismatch,
+  MIN_SAMPLES_PER_VARIANT,
+  normalCdf,
+  normalQuantile,
+  requiredSampleSize,
+  sequentialBoundary,
+  twoProportionZTest,
+  VariantCounters,
+  wilsonInterval,
+} from "../experiment-stats";
+
+const variants = [
+  {id: "control", name: "Control", weight: 50},
+  {id: "treatment", name: "Treatment", weight: 50},
+];
+
+const options = {primaryMetric: 'conversionRate' as const, alpha: 0.05, power: 0.8, minimumDetectableEffect: 0.2};
+
+const counters = (exposures: number, conversions: number, assignedUsers = exposures): VariantCounters => ({
+  assignedUsers,
+  exposures,
+  conversions,
+  feedbackCount: 0,
+  positiveFeedback: 0,
+  responseTimeSum: exposures * 1000,
+});
+
+describe("normal distribution", () => {
+  it("matches the standard normal table", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 4);
+    expect(normalCdf(-1.96)).toBeCloseTo(0.025, 4);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.01)).toBeCloseTo(-2.326348, 5);
+  });
+
+  it("inverts the CDF", () => {
+    for (const p of [0.001, 0.1, 0.5, 0.8, 0.999]) {
+      expect(normalCdf(normalQuantile(p))).toBeCloseTo(p, 6);
+    }
+    expect(normalQuantile(0)).toBe(-Infinity);
+    expect(normalQuantile(1)).toBe(Infinity);
+  });
+});
+
+describe("wilsonInterval", () => {
+  it("surrounds the observed rate", () => {
+    const [low, high] = wilsonInterval(50, 100);
+    expect(low).toBeCloseTo(0.4038, 3);
+    expect(high).toBeCloseTo(0.5962, 3);
+  });
+
+  it("stays within 0 and 1", () => {
+    expect(wilsonInterval(0, 0)).toEqual([0, 1]);
+    expect(wilsonInterval(0, 20)[0]).toBe(0);
+    expect(wilsonInterval(20, 20)[1]).toBe(1);
+    expect(wilsonInterval(0, 20)[1]).toBeGreaterThan(0);
+  });
+});
+
+describe("twoProportionZTest", () => {
+  it("detects a clear difference", () => {
+    const {z, pValue} = twoProportionZTest(100, 1000, 150, 1000);
+    expect(z).toBeCloseTo(3.38, 2);
+    expect(pValue).toBeLessThan(0.001);
+  });
+
+  it("is neutral without data or variance", () => {
+    expect(twoProportionZTest(0, 0, 5, 10)).toEqual({z: 0, pValue: 1});
+    expect(twoProportionZTest(0, 10, 0, 10)).toEqual({z: 0, pValue: 1});
+  });
+});
+
+describe("sample size and boundaries", () => {
+  it("needs more samples for smaller effects", () => {
+    const base = requiredSampleSize(0.1, 0.2, 0.05, 0.8);
+    expect(base).toBeGreaterThan(3500);
+    expect(base).toBeLessThan(4000);
+    expect(requiredSampleSize(0.1, 0.1, 0.05, 0.8)).toBeGreaterThan(base * 3);
+    expect(requiredSampleSize(0.1, 0, 0.05, 0.8)).toBe(Infinity);
+  });
+
+  it("asks for a larger z on early looks", () => {
+    expect(sequentialBoundary(0.05, 1)).toBeCloseTo(1.96, 2);
+    expect(sequentialBoundary(0.05, 0.25)).toBeCloseTo(3.92, 2);
+    expect(sequentialBoundary(0.05, 2)).toBeCloseTo(1.96, 2);
+  });
+
+  it("flags assignments that don't follow the weights", () => {
+    expect(hasSampleRatioMismatch([500, 500], [50, 50])).toBe(false);
+    expect(hasSampleRatioMismatch([520, 480], [50, 50])).toBe(false);
+    expect(hasSampleRatioMismatch([600, 400], [50, 50])).toBe(true);
+    expect(hasSampleRatioMismatch([750, 250], [75, 25])).toBe(false);
+    expect(hasSampleRatioMismatch([30, 10], [50, 50])).toBe(false); // Too few to tell
+  });
+});
+
+describe("buildExperimentReport", () => {
+  it("doesn't decide before every variant has enough samples", () => {
+    const report = buildExperimentReport(variants, {control: counters(50, 5), treatment: counters(50, 25)}, options);
+
+    expect(report.winner).toBeUndefined();
+    expect(report.variants.every((v) => !v.significant)).toBe(true);
+    expect(report.insights[0]).toContain(`at least ${MIN_SAMPLES_PER_VARIANT} samples`);
+  });
+
+  it("names a variant that clearly beats the control", () => {
+    const report = buildExperimentReport(variants, {control: counters(4000, 400), treatment: counters(4000, 560)}, options);
+    const treatment = report.variants[1];
+
+    expect(report.controlVariantId).toBe("control");
+    expect(report.totalExposures).toBe(8000);
+    expect(report.informationFraction).toBe(1);
+    expect(treatment.lift).toBeCloseTo(0.4, 6);
+    expect(treatment.significant).toBe(true);
+    expect(treatment.avgResponseTime).toBe(1000);
+    expect(report.winner).toBe("treatment");
+    expect(report.insights).toContain(`treatment beats control by 40.0% (p=${treatment.pValue?.toFixed(4)})`);
+  });
+
+  it("keeps the control when the treatment is clearly worse", () => {
+    const report = buildExperimentReport(variants, {control: counters(4000, 560), treatment: counters(4000, 400)}, options);
+
+    expect(report.variants[1].significant).toBe(true);
+    expect(report.winner).toBe("control");
+  });
+
+  it("reports no winner when the assignments are skewed", () => {
+    const report = buildExperimentReport(
+      variants,
+      {control: counters(4000, 400, 3000), treatment: counters(4000, 560, 1000)},
+      options,
+    );
+
+    expect(report.sampleRatioMismatch).toBe(true);
+    expect(report.winner).toBeUndefined();
+    expect(report.insights[0]).toContain("Sample ratio mismatch");
+  });
+
+  it("uses feedback for the success rate metric", () => {
+    const report = buildExperimentReport(
+      variants,
+      {control: {...counters(10, 0), feedbackCount: 10, positiveFeedback: 4}, treatment: counters(0, 0)},
+      {...options, primaryMetric: 'successRate'},
+    );
+
+    expect(report.variants[0]).toMatchObject({sampleSize: 10, rate: 0.4, successRate: 0.4});
+    expect(report.variants[1]).toMatchObject({sampleSize: 0, rate: 0, confidenceInterval: [0, 1]});
+  });
+});
@@ -0,0 +1,48 @@
+// Unit tests for the marketing queue's frequency caps and retry backoff
+import {describe, it, expect} from "vitest";
+import {FREQUENCY_CAPS, frequencyCapReleaseTime, retryDelayMs} from "../marketing-delivery";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const now = Date.UTC(2027, 0, 10, 12);
+const hoursAgo = (hours: number) => now - hours * HOUR_MS;
+
+describe("frequencyCapReleaseTime", () => {
+  it("lets messages through under every cap", () => {
+    expect(frequencyCapReleaseTime([], now)).toBeNull();
+    expect(frequencyCapReleaseTime([hoursAgo(1)], now)).toBeNull();
+    // Old sends have left both windows
+    expect(frequencyCapReleaseTime([hoursAgo(200), hoursAgo(190), hoursAgo(180)], now)).toBeNull();
+  });
+
+  it("holds messages until the oldest send leaves the daily window", () => {
+    expect(frequencyCapReleaseTime([hoursAgo(2), hoursAgo(5)], now)).toBe(hoursAgo(5) + DAY_MS);
+    expect(frequencyCapReleaseTime([hoursAgo(1), hoursAgo(3), hoursAgo(10)], now)).toBe(hoursAgo(3) + DAY_MS);
+  });
+
+  it("uses the latest release when several caps are full", () => {
+    const sent = [hoursAgo(1), hoursAgo(2), hoursAgo(30), hoursAgo(50), hoursAgo(100)];
+
+    expect(frequencyCapReleaseTime(sent, now)).toBe(hoursAgo(100) + 7 * DAY_MS);
+  });
+
+  it("ignores sends exactly one window ago", () => {
+    expect(frequencyCapReleaseTime([hoursAgo(1), now - DAY_MS], now)).toBeNull();
+  });
+
+  it("takes custom caps", () => {
+    expect(frequencyCapReleaseTime([hoursAgo(1)], now, [{windowMs: HOUR_MS * 2, maxMessages: 1}])).toBe(hoursAgo(1) + 2 * HOUR_MS);
+    expect(FREQUENCY_CAPS.map((cap) => cap.maxMessages)).toEqual([2, 5]);
+  });
+});
+
+describe("retryDelayMs", () => {
+  it("doubles the delay with up to 20% jitter and caps it", () => {
+    const minute = 60 * 1000;
+    for (const [attempts, base] of [[1, minute], [2, 2 * minute], [4, 8 * minute], [20, 6 * HOUR_MS]]) {
+      const delay = retryDelayMs(attempts);
+      expect(delay).toBeGreaterThanOrEqual(base);
+      expect(delay).toBeLessThan(base * 1.2);
+    }
+  });
+});
@@ -0,0 +1,104 @@
+// Unit tests for the local embedding provider and the package embedding helpers
+import {describe, it, expect} from "vitest";
+import {cosineSimilarity} from "../embedding-provider";
+import {LocalEmbeddingProvider, tokenize} from "../local-embedding-provider";
+import {packageEmbeddingText, rankPackageMatches} from "../package-embeddings";
+
+const provider = new LocalEmbeddingProvider();
+
+const embed = async (text: string, kind: "document" | "query" = "document") => (await provider.embed([text], kind))[0];
+
+describe("LocalEmbeddingProvider", () => {
+  it("returns the same normalized vector for the same text", async () => {
+    const [first, second] = await provider.embed(["Romantic sunset villa in Santorini", "Romantic sunset villa in Santorini"], "document");
+
+    expect(first).toHaveLength(provider.dimension);
+    expect(second).toEqual(first);
+    expect(await embed("Romantic sunset villa in Santorini", "query")).toEqual(first);
+    expect(Math.hypot(...first)).toBeCloseTo(1, 10);
+  });
+
+  it("keeps one vector per text in input order", async () => {
+    const vectors = await provider.embed(["beach", "mountain", "beach"], "document");
+
+    expect(vectors).toHaveLength(3);
+    expect(vectors[2]).toEqual(vectors[0]);
+    expect(vectors[1]).not.toEqual(vectors[0]);
+  });
+
+  it("puts texts sharing words and word fragments closer together", async () => {
+    const query = await embed("romantik balayı");
+
+    expect(cosineSimilarity(query, await embed("Romantic honeymoon (romantik balayı) in Bali")))
+      .toBeGreaterThan(cosineSimilarity(query, await embed("Safari adventure in Kenya")));
+  });
+
+  it("folds Turkish letters and drops stop words", () => {
+    expect(tokenize("Kapadokya ve Göreme'de BALON")).toEqual(["kapadokya", "goreme", "balon"]);
+  });
+
+  it("returns a zero vector for text without words", async () => {
+    expect((await embed("a ve")).every((v) => v === 0)).toBe(true);
+  });
+});
+
+describe("packageEmbeddingText", () => {
+  it("uses the title, description, location, highlights and itinerary", () => {
+    const text = packageEmbeddingText({
+      title: "Kapadokya Balon Turu",
+      description: "Peri bacaları üzerinde gün doğumu",
+      location: "Göreme",
+      country: "Türkiye",
+      highlights: ["Balloon ride", "Cave hotel"],
+      itinerary: [{title: "Day 1", description: "Arrival", activities: ["Check-in", "Dinner"]}],
+      price: 1800,
+      rating: 4.9,
+    });
+
+    expect(text.split("\n")).toEqual([
+      "Kapadokya Balon Turu",
+      "Peri bacaları üzerinde gün doğumu",
+      "Göreme Türkiye",
+      "Balloon ride. Cave hotel",
+      "Day 1: Arrival: Check-in, Dinner",
+    ]);
+    expect(text).not.toContain("1800");
+  });
+
+  it("skips missing fields", () => {
+    expect(packageEmbeddingText({title: "Bali Bliss", country: "Indonesia"})).toBe("Bali Bliss\nIndonesia");
+  });
+});
+
+describe("rankPackageMatches", () => {
+  it("ranks packages by similarity to the query, best first", async () => {
+    const entries = await Promise.all([
+      {packageId: "safari", text: "Safari adventure with game drives in Kenya"},
+      {packageId: "santorini", text: "Santorini sunset cruise and cliffside villa"},
+      {packageId: "maldives", text: "Maldives overwater villa with private pool"},
+    ].map(async ({packageId, text}) => ({packageId, vector: await embed(text)})));
+
+    const matches = rankPackageMatches(await embed("villa with a sunset view", "query"), entries, 10, -1);
+
+    expect(matches.map((m) => m.packageId)).toEqual(["santorini", "maldives", "safari"]);
+    expect(matches[0].score).toBeGreaterThan(matches[1].score);
+  });
+
+  it("applies the limit and the minimum score", () => {
+    const entries = [
+      {packageId: "same", vector: [1, 0]},
+      {packageId: "close", vector: [0.8, 0.6]},
+      {packageId: "opposite", vector: [-1, 0]},
+    ];
+
+    expect(rankPackageMatches([1, 0], entries, 10, 0)).toEqual([
+      {packageId: "same", score: 1},
+      {packageId: "close", score: 0.8},
+    ]);
+    expect(rankPackageMatches([1, 0], entries, 1).map((m) => m.packageId)).toEqual(["same"]);
+  });
+
+  it("gives vectors of another dimension a zero score", () => {
+    expect(rankPackageMatches([1, 0], [{packageId: "other-model", vector: [1, 0, 0]}])).toEqual([{packageId: "other-model", score: 0}]);
+  });
+});
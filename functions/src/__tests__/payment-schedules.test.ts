@@ -0,0 +1,107 @@
+// Unit tests for the booking payment schedule helpers
+import {describe, it, expect} from "vitest";
+import {Timestamp} from "firebase-admin/firestore";
+import {
+  applyInstallmentPayment,
+  balanceDueDate,
+  BALANCE_DUE_DAYS_BEFORE_TRIP,
+  buildPaymentSchedule,
+  installmentsToRemind,
+  isPastGracePeriod,
+  markOverdueInstallments,
+  nextPayableInstallment,
+} from "../payment-schedules";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2027-01-01T12:00:00Z");
+const tripStart = new Date("2027-07-01T12:00:00Z");
+const daysFromNow = (days: number) => new Date(now.getTime() + days * DAY_MS);
+
+describe("buildPaymentSchedule", () => {
+  it("charges the full price right away", () => {
+    const schedule = buildPaymentSchedule(5000, "EUR", 'full', tripStart, now);
+
+    expect(schedule.installments).toHaveLength(1);
+    expect(schedule.installments[0]).toMatchObject({id: "full", amount: 5000, status: 'pending'});
+    expect(schedule.installments[0].dueDate.toMillis()).toBe(now.getTime());
+    expect(schedule).toMatchObject({currency: "EUR", amountPaid: 0, outstandingBalance: 5000, status: 'active'});
+  });
+
+  it("takes a 30% deposit and the balance before the trip", () => {
+    const schedule = buildPaymentSchedule(4999.99, "USD", 'deposit', tripStart, now);
+    const [deposit, balance] = schedule.installments;
+
+    expect(deposit).toMatchObject({id: "deposit", kind: 'deposit', amount: 1500});
+    expect(balance).toMatchObject({id: "balance", kind: 'balance', amount: 3499.99});
+    expect(balance.dueDate.toMillis()).toBe(balanceDueDate(tripStart).getTime());
+    expect(tripStart.getTime() - balance.dueDate.toMillis()).toBe(BALANCE_DUE_DAYS_BEFORE_TRIP * DAY_MS);
+    expect(schedule.nextDueDate?.toMillis()).toBe(now.getTime());
+  });
+
+  it("spreads installments evenly and puts rounding leftovers on the last one", () => {
+    const schedule = buildPaymentSchedule(1000, "TRY", 'installment', tripStart, now, 3);
+    const amounts = schedule.installments.map((i) => i.amount);
+    const dueDates = schedule.installments.map((i) => i.dueDate.toMillis());
+
+    expect(amounts).toEqual([333.33, 333.33, 333.34]);
+    expect(amounts.reduce((sum, a) => sum + a, 0)).toBeCloseTo(1000, 6);
+    expect(dueDates[0]).toBe(now.getTime());
+    expect(dueDates[2]).toBe(balanceDueDate(tripStart).getTime());
+    expect(dueDates[1] - dueDates[0]).toBe(dueDates[2] - dueDates[1]);
+  });
+});
+
+describe("applyInstallmentPayment", () => {
+  const paidAt = Timestamp.fromDate(now);
+
+  it("pays one installment and updates the totals", () => {
+    const schedule = applyInstallmentPayment(buildPaymentSchedule(1000, "USD", 'deposit', tripStart, now), "deposit", "pi_1", paidAt);
+
+    expect(schedule.installments[0]).toMatchObject({status: 'paid', transactionId: "pi_1"});
+    expect(schedule).toMatchObject({amountPaid: 300, outstandingBalance: 700, status: 'active'});
+    expect(nextPayableInstallment(schedule)?.id).toBe("balance");
+  });
+
+  it("settles every open installment without an id", () => {
+    const schedule = applyInstallmentPayment(buildPaymentSchedule(1000, "USD", 'installment', tripStart, now), undefined, undefined, paidAt);
+
+    expect(schedule).toMatchObject({amountPaid: 1000, outstandingBalance: 0, nextDueDate: null, status: 'completed'});
+    expect(nextPayableInstallment(schedule)).toBeUndefined();
+  });
+
+  it("refuses to pay an installment twice", () => {
+    const schedule = applyInstallmentPayment(buildPaymentSchedule(1000, "USD", 'deposit', tripStart, now), "deposit", "pi_1", paidAt);
+
+    expect(() => applyInstallmentPayment(schedule, "deposit", "pi_2", paidAt)).toThrow("Installment deposit is not open");
+    expect(() => applyInstallmentPayment(schedule, "unknown", "pi_2", paidAt)).toThrow();
+  });
+});
+
+describe("overdue installments", () => {
+  const schedule = buildPaymentSchedule(1000, "USD", 'deposit', tripStart, now);
+
+  it("flags pending installments past their due date", () => {
+    expect(markOverdueInstallments(schedule, now)).toBeNull();
+
+    const overdue = markOverdueInstallments(schedule, daysFromNow(1));
+    expect(overdue?.installments.map((i) => i.status)).toEqual(['overdue', 'pending']);
+    expect(overdue?.status).toBe('overdue');
+  });
+
+  it("cancels only after the grace period", () => {
+    const overdue = markOverdueInstallments(schedule, daysFromNow(1))!;
+
+    expect(isPastGracePeriod(overdue, daysFromNow(7))).toBe(false);
+    expect(isPastGracePeriod(overdue, daysFromNow(8))).toBe(true);
+    expect(isPastGracePeriod(schedule, daysFromNow(30))).toBe(false);
+  });
+
+  it("reminds of overdue installments and those due within a week", () => {
+    const overdue = markOverdueInstallments(schedule, daysFromNow(1))!;
+
+    expect(installmentsToRemind(overdue, daysFromNow(1)).map((i) => i.id)).toEqual(["deposit"]);
+    expect(installmentsToRemind(schedule, now).map((i) => i.id)).toEqual(["deposit"]);
+    expect(installmentsToRemind(schedule, balanceDueDate(tripStart)).map((i) => i.id)).toEqual(["deposit", "balance"]);
+    expect(installmentsToRemind({...schedule, status: 'cancelled'}, now)).toEqual([]);
+  });
+});
@@ -0,0 +1,170 @@
+// Unit tests for the checkout and webhook flow, run against the fake gateway and an in-memory Firestore
+import {afterEach, beforeEach, describe, it, expect, vi} from "vitest";
+import {FieldValue} from "firebase-admin/firestore";
+import {FakeCheckoutRecord, FakePaymentProvider} from "../fake-payment-provider";
+import {createSubscriptionCheckout, fakeCheckout, paymentWebhook} from "../payments";
+
+type Data = Record<string, unknown>;
+
+const store = new Map<string, Data>();
+let autoId = 0;
+
+function applyWrite(current: Data | undefined, data: Data): Data {
+  const next = {...current};
+  for (const [key, value] of Object.entries(data)) {
+    if (FieldValue.delete().isEqual(value as FieldValue)) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+  }
+  return next;
+}
+
+function docRef(path: string) {
+  return {
+    id: path.split("/").pop(),
+    path,
+    get: async () => ({exists: store.has(path), data: () => store.get(path)}),
+    set: async (data: Data, options?: {merge?: boolean}) => {
+      store.set(path, applyWrite(options?.merge ? store.get(path) : undefined, data));
+    },
+    create: async (data: Data) => {
+      if (store.has(path)) throw Object.assign(new Error(`${path} already exists`), {code: 6});
+      store.set(path, applyWrite(undefined, data));
+    },
+    update: async (data: Data) => {
+      store.set(path, applyWrite(store.get(path), data));
+    },
+    delete: async () => {
+      store.delete(path);
+    },
+  };
+}
+
+const fakeDb = {
+  collection: (name: string) => ({doc: (id = `auto_${++autoId}`) => docRef(`${name}/${id}`)}),
+};
+
+vi.mock("firebase-admin/firestore", async (importOriginal) => ({
+  ...await importOriginal<typeof import("firebase-admin/firestore")>(),
+  getFirestore: () => fakeDb,
+}));
+
+const provider = new FakePaymentProvider("http://127.0.0.1:5001/ailovve/europe-west1/fakeCheckout");
+const urls = {successUrl: "http://localhost:5173/subscription/success", cancelUrl: "http://localhost:5173/subscription"};
+
+function response() {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    redirectUrl: undefined as string | undefined,
+    status: (code: number) => {
+      res.statusCode = code;
+      return res;
+    },
+    json: (body: unknown) => {
+      res.body = body;
+      return res;
+    },
+    send: (body: unknown) => res.json(body),
+    redirect: (url: string) => {
+      res.redirectUrl = url;
+    },
+  };
+  return res;
+}
+
+async function callHandler(handler: (req: any, res: any) => unknown, req: Data) {
+  const res = response();
+  await handler({headers: {}, query: {}, ...req}, res);
+  return res;
+}
+
+async function postWebhook(rawBody: Buffer, signature: string) {
+  const headers = {[provider.signatureHeader]: signature};
+  return callHandler(paymentWebhook, {method: "POST", rawBody, headers, get: (name: string) => headers[name.toLowerCase()]});
+}
+
+// Starts a checkout the way the app does and pays it on the fake gateway's payment page
+async function buyPlan(uid: string, planType: string) {
+  const {sessionId} = await createSubscriptionCheckout.run({auth: {uid, token: {}}, data: {planType, ...urls}} as any);
+  const res = await callHandler(fakeCheckout, {method: "GET", query: {session: sessionId}});
+  return {sessionId, res};
+}
+
+const checkoutRecord = (sessionId: string) => ({id: sessionId, ...store.get(`payments/${sessionId}`)}) as FakeCheckoutRecord;
+
+beforeEach(() => {
+  vi.stubEnv("PAYMENT_PROVIDER", "fake");
+});
+
+afterEach(() => {
+  store.clear();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe("fake gateway signatures", () => {
+  it("accepts its own signed events and rejects tampered ones", async () => {
+    const {rawBody, signature} = provider.simulateCheckout(
+      {id: "cs_1", purpose: 'subscription', userId: "user-1", metadata: {userId: "user-1", planType: "pro"}, amount: 19.99, currency: "USD", interval: 'month'},
+      'success',
+    );
+
+    const event = await provider.verifyWebhook(rawBody, signature);
+    expect(event).toMatchObject({type: 'checkout.completed', checkoutSessionId: "cs_1", metadata: {planType: "pro"}});
+    expect(event.currentPeriodEnd).toBeInstanceOf(Date);
+
+    const tampered = Buffer.from(rawBody.toString("utf8").replace("\"pro\"", "\"pro_bride\""));
+    await expect(provider.verifyWebhook(tampered, signature)).rejects.toThrow("Invalid fake gateway signature");
+    await expect(provider.verifyWebhook(rawBody, undefined)).rejects.toThrow("Invalid fake gateway signature");
+  });
+
+  it("answers webhooks with a bad signature with 400", async () => {
+    const res = await postWebhook(Buffer.from(JSON.stringify({id: "evt_1", type: 'checkout.completed'})), "not-a-signature");
+
+    expect(res.statusCode).toBe(400);
+    expect(store.size).toBe(0);
+  });
+});
+
+describe("checkout to plan activation", () => {
+  it("activates the plan once the fake checkout completes", async () => {
+    const {sessionId, res} = await buyPlan("user-1", "pro");
+
+    expect(res.redirectUrl).toBe(urls.successUrl);
+    expect(store.get(`payments/${sessionId}`)).toMatchObject({provider: 'fake', purpose: 'subscription', status: 'completed'});
+    expect(store.get("subscriptions/user-1")).toMatchObject({
+      planType: "pro",
+      isActive: true,
+      messageQuota: -1,
+      paymentProvider: 'fake',
+      cancelAtPeriodEnd: false,
+    });
+    expect(store.get("subscriptions/user-1")?.stripeSubscriptionId).toMatch(/^fake_sub_/);
+  });
+
+  it("ignores a webhook whose event id was already processed", async () => {
+    const {sessionId} = await buyPlan("user-1", "pro");
+    store.set("subscriptions/user-1", {...store.get("subscriptions/user-1"), messagesUsed: 7});
+
+    const {rawBody, signature} = provider.simulateCheckout(checkoutRecord(sessionId), 'success');
+    const res = await postWebhook(rawBody, signature);
+
+    expect(res.body).toEqual({received: true});
+    expect(store.get("subscriptions/user-1")?.messagesUsed).toBe(7);
+    expect([...store.keys()].filter((path) => path.startsWith("paymentEvents/"))).toHaveLength(1);
+  });
+
+  it("stops the renewing plan when a one-time plan replaces it", async () => {
+    const cancelSubscription = vi.spyOn(FakePaymentProvider.prototype, "cancelSubscription");
+    await buyPlan("user-1", "pro");
+    const renewingId = store.get("subscriptions/user-1")?.stripeSubscriptionId;
+
+    await buyPlan("user-1", "pro_bride");
+
+    expect(cancelSubscription).toHaveBeenCalledWith(renewingId);
+    expect(store.get("subscriptions/user-1")).toMatchObject({planType: "pro_bride", stripeSubscriptionId: null, endDate: null});
+  });
+});
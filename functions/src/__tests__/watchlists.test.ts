@@ -0,0 +1,66 @@
+// Unit tests for matching price watches against the catalog
+import {describe, it, expect} from "vitest";
+import {Timestamp} from "firebase-admin/firestore";
+import {candidatesFor, findWatchMatch, WatchDoc} from "../watchlists";
+
+const rates = {USD: 1, EUR: 0.9, TRY: 32};
+
+const watch = (overrides: Partial<WatchDoc>): WatchDoc => ({
+  userId: "user-1",
+  destination: "santorini",
+  condition: 'price_below',
+  targetPrice: 60000,
+  currency: "TRY",
+  notifyByEmail: false,
+  source: 'chat',
+  status: 'active',
+  createdAt: Timestamp.now(),
+  updatedAt: Timestamp.now(),
+  ...overrides,
+});
+
+const pkg = (id: string, price: number, currency: string, searchText = "santorini greece", available = true) =>
+  ({id, title: id, price, currency, available, searchText});
+
+const catalog = [
+  pkg("villa-usd", 2000, "USD"),
+  pkg("cruise-eur", 1800, "EUR"),
+  pkg("bali-usd", 900, "USD", "bali indonesia"),
+  pkg("ski-chf", 500, "CHF"),
+];
+
+describe("candidatesFor", () => {
+  it("prices destination matches in the watch currency", () => {
+    expect(candidatesFor(watch({}), catalog, rates)).toEqual([
+      {...catalog[0], price: 64000, currency: "TRY"},
+      {...catalog[1], price: 64000, currency: "TRY"},
+    ]);
+  });
+
+  it("leaves out prices it can't convert", () => {
+    expect(candidatesFor(watch({destination: "santorini"}), [...catalog, pkg("santorini-chf", 100, "CHF")], rates))
+      .toHaveLength(2);
+    expect(candidatesFor(watch({currency: "USD"}), catalog, null).map((p) => p.id)).toEqual(["villa-usd"]);
+  });
+
+  it("keeps the watched package in its own currency", () => {
+    expect(candidatesFor(watch({destination: undefined, packageId: "cruise-eur", currency: "EUR"}), catalog, rates))
+      .toEqual([catalog[1]]);
+  });
+});
+
+describe("findWatchMatch", () => {
+  it("matches a TRY budget against USD and EUR packages", () => {
+    const santorini = [pkg("villa-usd", 1800, "USD"), pkg("cruise-eur", 1800, "EUR")];
+
+    expect(findWatchMatch(watch({}), candidatesFor(watch({}), santorini, rates))).toMatchObject({id: "villa-usd", price: 57600});
+    expect(findWatchMatch(watch({targetPrice: 50000}), candidatesFor(watch({}), santorini, rates))).toBeNull();
+  });
+
+  it("only matches bookable packages", () => {
+    const soldOut = [pkg("villa-usd", 100, "USD", "santorini", false)];
+
+    expect(findWatchMatch(watch({}), candidatesFor(watch({}), soldOut, rates))).toBeNull();
+    expect(findWatchMatch(watch({condition: 'available'}), candidatesFor(watch({}), soldOut, rates))).toBeNull();
+  });
+});
@@ -0,0 +1,387 @@
+import * as logger from "firebase-functions/logger";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {defineSecret} from "firebase-functions/params";
+import {
+  BlockReason,
+  Content,
+  FinishReason,
+  GenerateContentResponse,
+  GoogleGenerativeAI,
+  HarmBlockThreshold,
+  HarmCategory,
+} from "@google/generative-ai";
+import {resolveModelForCaller, toSafetySettings} from "./model-registry";
+import {consumeMessageQuota, QuotaStatus, refundMessageQuota} from "./quota";
+
+// CORS configuration for Firebase Functions v2
+const allowedOrigins = [
+  'https://lovve.tech',
+  'https://www.lovve.tech',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'http://127.0.0.1:5173',
+  'https://ailovve.firebaseapp.com'
+];
+
+// AI LOVVE - Relationship advice chat
+// adviceConversations/{id}   advice turns, one history per user, Functions only (firestore.rules)
+//
+// Advice is kept apart from the travel chat: its own collection, system instruction and callables,
+// no package tools and no session memory. Nothing that builds marketing personalization or user
+// segments reads adviceConversations, and the client never sends advice through geminiService.
+
+// Same secret as the chat functions in index.ts
+const geminiKey = defineSecret("GEMINI_KEY");
+
+const ADVICE_COLLECTION = "adviceConversations";
+const MAX_MESSAGE_LENGTH = 2000;
+const HISTORY_TURNS = 10;
+const MAX_HISTORY_LIMIT = 100;
+
+export type SensitiveTopic = 'self_harm' | 'abuse';
+
+export interface AdviceResource {
+  name: string;
+  contact: string;
+  region: string;
+}
+
+export interface AdviceEscalation {
+  topic: SensitiveTopic | 'safety_filter'; // safety_filter: Gemini blocked the message or reply, topic unknown
+  message: string;
+  resources: AdviceResource[];
+}
+
+interface AdviceTurn {
+  userId: string;
+  role: "user" | "model";
+  text: string;
+  escalation?: AdviceEscalation; // Set on model turns answered with vetted resources instead of generated advice
+  createdAt: Timestamp;
+}
+
+export interface AdviceMessage {
+  id: string;
+  role: "user" | "model";
+  text: string;
+  escalation?: AdviceEscalation;
+  createdAt: number; // epoch millis
+}
+
+// Vetted helplines, returned word for word. Only change them after checking the numbers with the services.
+const EMERGENCY_RESOURCE: AdviceResource = {
+  name: "Emergency services, if you are in immediate danger",
+  contact: "112 (Turkey and the EU), 911 (US), 999 (UK)",
+  region: "Worldwide",
+};
+const HELPLINE_DIRECTORY: AdviceResource = {
+  name: "Find A Helpline, free and confidential helplines by country",
+  contact: "findahelpline.com",
+  region: "Worldwide",
+};
+
+export const ESCALATIONS: Record<SensitiveTopic, AdviceEscalation> = {
+  self_harm: {
+    topic: 'self_harm',
+    message: "I'm really sorry you're going through this. You deserve support from a person right now, " +
+      "not advice from an app. Please reach out to one of these services, they are free, confidential and there to listen.",
+    resources: [
+      EMERGENCY_RESOURCE,
+      {name: "988 Suicide & Crisis Lifeline", contact: "Call or text 988", region: "US"},
+      {name: "Samaritans", contact: "116 123", region: "UK & Ireland"},
+      HELPLINE_DIRECTORY,
+    ],
+  },
+  abuse: {
+    topic: 'abuse',
+    message: "What you're describing sounds serious, and it is not your fault. Your safety comes first, " +
+      "so instead of relationship advice here are people trained to help. If it is safe to, contact one of them.",
+    resources: [
+      EMERGENCY_RESOURCE,
+      {name: "ALO 183 Aile, Kadın, Çocuk ve Sosyal Hizmetler", contact: "183", region: "Turkey"},
+      {name: "National Domestic Violence Hotline", contact: "1-800-799-7233 or text START to 88788", region: "US"},
+      {name: "National Domestic Abuse Helpline", contact: "0808 2000 247", region: "UK"},
+      HELPLINE_DIRECTORY,
+    ],
+  },
+};
+
+// Returned when the safety filter blocks a message or reply the patterns and the model marker missed
+export const SAFETY_FILTER_ESCALATION: AdviceEscalation = {
+  topic: 'safety_filter',
+  message: "I can't give advice on this here, but you don't have to deal with it alone. " +
+    "If you or someone else might be in danger, please contact one of these services, they are free and confidential.",
+  resources: [EMERGENCY_RESOURCE, HELPLINE_DIRECTORY],
+};
+
+// English and Turkish phrases that always escalate, checked before the model is called
+const SENSITIVE_PATTERNS: Record<SensitiveTopic, RegExp[]> = {
+  self_harm: [
+    /\b(suicid(e|al)|kill(ing)? myself|end(ing)? my life|take my (own )?life|want to die|wish i (was|were) dead)\b/,
+    /\b(self[- ]?harm|hurt(ing)? myself|cut(ting)? myself|no reason to live|better off without me|don'?t want to (live|be alive))\b/,
+    /(intihar|kendimi öldür|canıma kıy|kendime zarar|ölmek istiyorum|yaşamak istemiyorum)/,
+  ],
+  abuse: [
+    /\b(he|she|they|partner|husband|wife|boyfriend|girlfriend|fianc[eé]e?) (hits|hit|beats|beat|chokes|choked|slaps|slapped|kicks|kicked|strangled|raped) me\b/,
+    /\b(domestic (violence|abuse)|abusive (partner|relationship|husband|wife|boyfriend|girlfriend)|threaten(s|ed)? to (kill|hurt) me|forced? me to have sex|afraid for my (life|safety))\b/,
+    /(beni dövüyor|beni dövdü|bana vuruyor|bana vurdu|bana şiddet|aile içi şiddet|beni tehdit ediyor|tecavüz|cinsel saldırı)/,
+  ],
+};
+
+// The model ends its reply with this marker when it spots a topic the patterns missed
+const ESCALATION_MARKER = /\[\[ESCALATE:(self_harm|abuse)\]\]/;
+
+export const ADVICE_SYSTEM_INSTRUCTION = `AI LOVVE - relationship advice coach for couples. EXPERTISE: communication, conflict resolution, wedding and honeymoon stress, expectations, family boundaries, long distance, keeping the spark alive.
+
+ROLE: You are a supportive coach, not a therapist, doctor or lawyer. Never diagnose. Suggest a licensed couples counsellor when a problem is long-standing or beyond everyday advice.
+
+RESPONSE FORMAT: 120-220 words max, at most 1 emoji, practical steps the user can try this week, paragraph breaks. Answer in the user's language.
+
+BALANCE: Hear both sides. Do not take sides against an absent partner, do not encourage surveillance, manipulation or ultimatums.
+
+NO SELLING: Do not recommend travel packages, prices or bookings in this mode.
+
+SAFETY: If the user mentions suicide, self-harm, wanting to die, violence, abuse, sexual assault, threats or fear for their safety, do not give advice. Reply with exactly [[ESCALATE:self_harm]] for suicide or self-harm, or [[ESCALATE:abuse]] for abuse, violence or fear for safety, and nothing else.
+
+TONE: Warm, calm, non-judgemental. Structure: acknowledge → suggestions → gentle question.`;
+
+// Stricter than the travel chat, advice conversations are more likely to touch on harm
+const ADVICE_SAFETY_THRESHOLDS: Partial<Record<HarmCategory, HarmBlockThreshold>> = {
+  [HarmCategory.HARM_CATEGORY_HARASSMENT]: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
+  [HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT]: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE,
+};
+
+const BLOCKED_REPLY = "I can't help with that in advice mode. If something is worrying you, a licensed counsellor is a good next step.";
+
+function requireAuth(uid: string | undefined): string {
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Authentication required");
+  }
+  return uid;
+}
+
+/**
+ * The sensitive topic a message is about, or null. Typographic apostrophes and runs of whitespace
+ * are normalized first, then matches are checked on both the plain and the Turkish lower-cased
+ * text so "İntihar" and "SUICIDE" are caught alike.
+ */
+export function detectSensitiveTopic(text: string): SensitiveTopic | null {
+  const normalized = text.normalize("NFC").replace(/[\u2018\u2019\u02BC`´]/g, "'").replace(/\s+/g, " ");
+  const variants = [normalized.toLowerCase(), normalized.toLocaleLowerCase("tr-TR")];
+  for (const topic of Object.keys(SENSITIVE_PATTERNS) as SensitiveTopic[]) {
+    if (SENSITIVE_PATTERNS[topic].some((pattern) => variants.some((variant) => pattern.test(variant)))) {
+      return topic;
+    }
+  }
+  return null;
+}
+
+/**
+ * SAFETY_FILTER_ESCALATION when the safety settings blocked the prompt or the reply, otherwise null.
+ * Other blocks, like recitation, are not about the user's safety.
+ */
+export function safetyFilterEscalation(response: GenerateContentResponse): AdviceEscalation | null {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if ((blockReason && blockReason !== BlockReason.OTHER) || finishReason === FinishReason.SAFETY) {
+    return SAFETY_FILTER_ESCALATION;
+  }
+  return null;
+}
+
+function toAdviceMessage(id: string, turn: AdviceTurn): AdviceMessage {
+  return {
+    id,
+    role: turn.role,
+    text: turn.text,
+    ...(turn.escalation ? {escalation: turn.escalation} : {}),
+    createdAt: turn.createdAt.toMillis(),
+  };
+}
+
+async function loadRecentTurns(uid: string, limitCount: number): Promise<Array<{id: string; turn: AdviceTurn}>> {
+  const snapshot = await getFirestore().collection(ADVICE_COLLECTION)
+    .where("userId", "==", uid)
+    .orderBy("createdAt", "desc")
+    .limit(limitCount)
+    .get();
+  return snapshot.docs.map((doc) => ({id: doc.id, turn: doc.data() as AdviceTurn})).reverse();
+}
+
+/**
+ * Saves the user's message and the reply. Model turns are written a millisecond later so the
+ * history always lists them after the message they answer.
+ */
+async function saveAdviceTurns(uid: string, text: string, reply: string, escalation?: AdviceEscalation): Promise<AdviceMessage> {
+  const collection = getFirestore().collection(ADVICE_COLLECTION);
+  const now = Date.now();
+  const userRef = collection.doc();
+  const modelRef = collection.doc();
+  const modelTurn: AdviceTurn = {
+    userId: uid,
+    role: "model",
+    text: reply,
+    ...(escalation ? {escalation} : {}),
+    createdAt: Timestamp.fromMillis(now + 1),
+  };
+
+  const batch = getFirestore().batch();
+  batch.create(userRef, {userId: uid, role: "user", text, createdAt: Timestamp.fromMillis(now)} as AdviceTurn);
+  batch.create(modelRef, modelTurn);
+  await batch.commit();
+  return toAdviceMessage(modelRef.id, modelTurn);
+}
+
+async function generateAdvice(apiKey: string, uid: string, text: string): Promise<{reply: string; escalation?: AdviceEscalation}> {
+  const modelConfig = await resolveModelForCaller(undefined, uid);
+  const previous = await loadRecentTurns(uid, HISTORY_TURNS);
+
+  // Escalated turns are left out so the model never builds on them
+  let history: Content[] = previous
+    .filter(({turn}) => !turn.escalation)
+    .map(({turn}) => ({role: turn.role, parts: [{text: turn.text}]}));
+  if (history.length > 0 && history[0].role === "model") {
+    history = history.slice(1);
+  }
+
+  const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+    model: modelConfig.model,
+    generationConfig: {
+      maxOutputTokens: modelConfig.maxTokens,
+      temperature: Math.min(modelConfig.temperature, 0.7),
+      topP: modelConfig.topP ?? 0.9,
+      topK: modelConfig.topK ?? 32,
+      candidateCount: 1,
+    },
+  });
+  const chat = model.startChat({
+    history,
+    safetySettings: toSafetySettings({...modelConfig, safetyThresholds: {...modelConfig.safetyThresholds, ...ADVICE_SAFETY_THRESHOLDS}}),
+    systemInstruction: {role: "user", parts: [{text: ADVICE_SYSTEM_INSTRUCTION}]},
+  });
+
+  const result = await chat.sendMessage(text);
+  const blocked = safetyFilterEscalation(result.response);
+  if (blocked) {
+    logger.warn("Advice message or reply blocked by safety settings", {
+      uid,
+      blockReason: result.response.promptFeedback?.blockReason,
+      finishReason: result.response.candidates?.[0]?.finishReason,
+    });
+    return {reply: blocked.message, escalation: blocked};
+  }
+
+  let reply: string;
+  try {
+    // text() throws when the candidate was blocked for another reason, like recitation
+    reply = result.response.text().trim();
+  } catch (blockedError) {
+    logger.warn("Advice reply blocked", {uid, blockedError});
+    return {reply: BLOCKED_REPLY};
+  }
+
+  const marker = reply.match(ESCALATION_MARKER);
+  if (marker) {
+    const escalation = ESCALATIONS[marker[1] as SensitiveTopic];
+    return {reply: escalation.message, escalation};
+  }
+  if (!reply) {
+    throw new HttpsError("internal", "No response from Gemini API.");
+  }
+  return {reply};
+}
+
+/**
+ * Answers one advice message. Sensitive messages are answered with vetted resources before the
+ * model is called, and do not use the caller's message quota.
+ */
+export const sendAdviceMessage = onCall<{message: string}, Promise<{success: boolean; reply: AdviceMessage; quota?: QuotaStatus}>>(
+  {
+    region: "europe-west1",
+    secrets: [geminiKey],
+    memory: "512MiB",
+    timeoutSeconds: 60,
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const text = typeof request.data?.message === "string" ? request.data.message.trim() : "";
+    if (!text) {
+      throw new HttpsError("invalid-argument", "Message is required.");
+    }
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      throw new HttpsError("invalid-argument", `Messages can be at most ${MAX_MESSAGE_LENGTH} characters.`);
+    }
+
+    const topic = detectSensitiveTopic(text);
+    if (topic) {
+      logger.info("Advice message escalated", {uid, topic});
+      const escalation = ESCALATIONS[topic];
+      return {success: true, reply: await saveAdviceTurns(uid, text, escalation.message, escalation)};
+    }
+
+    const apiKey = geminiKey.value();
+    if (!apiKey) {
+      logger.error("Gemini API key is not configured. Make sure to set GEMINI_KEY secret.");
+      throw new HttpsError("failed-precondition", "Gemini API key is not configured.");
+    }
+
+    const quota = await consumeMessageQuota(uid);
+    try {
+      const {reply, escalation} = await generateAdvice(apiKey, uid, text);
+      if (escalation) {
+        logger.info("Advice reply escalated by the model or the safety settings", {uid, topic: escalation.topic});
+      }
+      return {success: true, reply: await saveAdviceTurns(uid, text, reply, escalation), quota};
+    } catch (error: unknown) {
+      logger.error("Error generating advice:", error);
+      await refundMessageQuota(uid);
+      if (error instanceof HttpsError) throw error;
+      throw new HttpsError("internal", error instanceof Error ? error.message : "Internal server error");
+    }
+  }
+);
+
+/**
+ * The caller's advice history, oldest first.
+ */
+export const getAdviceHistory = onCall<{limit?: number}, Promise<{success: boolean; history: AdviceMessage[]}>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const limitCount = Math.min(Math.max(Number(request.data?.limit) || 50, 1), MAX_HISTORY_LIMIT);
+    const turns = await loadRecentTurns(uid, limitCount);
+    return {success: true, history: turns.map(({id, turn}) => toAdviceMessage(id, turn))};
+  }
+);
+
+/**
+ * Deletes the caller's whole advice history.
+ */
+export const deleteAdviceHistory = onCall<Record<string, never>, Promise<{success: boolean; deletedCount: number}>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const db = getFirestore();
+    const snapshot = await db.collection(ADVICE_COLLECTION).where("userId", "==", uid).get();
+
+    // Batches hold at most 500 writes
+    for (let i = 0; i < snapshot.docs.length; i += 500) {
+      const batch = db.batch();
+      snapshot.docs.slice(i, i + 500).forEach((doc) => batch.delete(doc.ref));
+      await batch.commit();
+    }
+    logger.info(`Deleted ${snapshot.size} advice turns for ${uid}`);
+    return {success: true, deletedCount: snapshot.size};
+  }
+);
@@ -0,0 +1,756 @@
+import * as logger from "firebase-functions/logger";
+import {FieldValue, getFirestore, Timestamp, Transaction} from "firebase-admin/firestore";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {getPaymentProvider, PAYMENT_SECRETS} from "./payment-gateway";
+import {createPaymentReminder} from "./proactive-notifications";
+import {getOrCreateQuote, PriceQuoteDoc} from "./pricing";
+import {FxLock} from "./fx-rates";
+import {
+  applyInstallmentPayment,
+  balanceDueDate,
+  buildPaymentSchedule,
+  Installment,
+  installmentsToRemind,
+  isPastGracePeriod,
+  markOverdueInstallments,
+  MAX_INSTALLMENTS,
+  MIN_INSTALLMENTS,
+  PAYMENT_PLANS,
+  PaymentPlan,
+  PaymentSchedule,
+} from "./payment-schedules";
+
+// CORS configuration for Firebase Functions v2
+const allowedOrigins = [
+  'https://lovve.tech',
+  'https://www.lovve.tech',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'http://127.0.0.1:5173',
+  'https://ailovve.firebaseapp.com'
+];
+
+// AI LOVVE - Booking pipeline (bookings/{bookingId}), mirrors Booking in src/types/firestore.ts
+
+export type BookingStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed';
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'partially_refunded' | 'refunded';
+
+// Allowed status changes, anything else is rejected with failed-precondition
+const BOOKING_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['cancelled', 'completed'],
+  cancelled: [],
+  completed: [],
+};
+
+const MAX_GUESTS_PER_ROOM = 4;
+const MAX_CHILD_AGE = 17;
+const MAX_SPECIAL_REQUESTS_LENGTH = 1000;
+
+interface BookingDetailsInput {
+  startDate: string; // ISO date
+  endDate: string; // ISO date
+  adults: number;
+  children?: number;
+  childAges?: number[]; // One age per child, from the family planner
+  rooms?: number;
+  specialRequests?: string;
+}
+
+interface CustomerInput {
+  firstName?: string;
+  lastName?: string;
+  email: string;
+  phone: string;
+  passportNumber?: string;
+  emergencyContact?: {name: string; phone: string; relationship: string};
+}
+
+interface PricingInput {
+  totalPrice: number; // Price the user was shown, must match the server quote
+  currency: string;
+}
+
+export interface CreateBookingRequest {
+  packageId: string;
+  bookingDetails: BookingDetailsInput;
+  customer: CustomerInput;
+  pricing: PricingInput;
+  quoteId?: string; // From getPriceQuote; honoured while it has not expired and matches the start date
+  paymentMethod?: string;
+  paymentPlan?: PaymentPlan; // Defaults to paying in full
+  installmentCount?: number; // Only for the installment plan
+}
+
+export interface BookingPricing {
+  basePrice: number;
+  taxes: number;
+  fees: number;
+  discounts: number;
+  adjustment?: number; // Dynamic pricing strategies and guardrails, see pricing.ts
+  totalPrice: number;
+  currency: string;
+  quoteId?: string;
+  fx?: FxLock; // Rate locked at quote time for the user's display currency
+}
+
+interface BookingResponse {
+  success: boolean;
+  bookingId?: string;
+  status?: BookingStatus;
+  pricing?: BookingPricing;
+  message?: string;
+}
+
+function requireAuth(uid: string | undefined): string {
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Authentication required");
+  }
+  return uid;
+}
+
+async function isAdminUser(uid: string): Promise<boolean> {
+  const userDoc = await getFirestore().collection("users").doc(uid).get();
+  return userDoc.data()?.isAdmin === true;
+}
+
+function parseDate(value: unknown, field: string): Date {
+  const date = typeof value === "string" ? new Date(value) : new Date(NaN);
+  if (isNaN(date.getTime())) {
+    throw new HttpsError("invalid-argument", `${field} must be an ISO date`);
+  }
+  return date;
+}
+
+function validateBookingDetails(details: BookingDetailsInput | undefined) {
+  if (!details) throw new HttpsError("invalid-argument", "bookingDetails is required");
+
+  const startDate = parseDate(details.startDate, "bookingDetails.startDate");
+  const endDate = parseDate(details.endDate, "bookingDetails.endDate");
+  if (startDate.getTime() <= Date.now()) {
+    throw new HttpsError("invalid-argument", "startDate must be in the future");
+  }
+  if (endDate <= startDate) {
+    throw new HttpsError("invalid-argument", "endDate must be after startDate");
+  }
+
+  const adults = details.adults;
+  const children = details.children ?? 0;
+  const rooms = details.rooms ?? 1;
+  if (!Number.isInteger(adults) || adults < 1) {
+    throw new HttpsError("invalid-argument", "At least one adult is required");
+  }
+  if (!Number.isInteger(children) || children < 0) {
+    throw new HttpsError("invalid-argument", "children must be a non-negative integer");
+  }
+  const childAges = details.childAges;
+  if (childAges !== undefined &&
+      (!Array.isArray(childAges) || childAges.length !== children ||
+       childAges.some((age) => !Number.isInteger(age) || age < 0 || age > MAX_CHILD_AGE))) {
+    throw new HttpsError("invalid-argument", `childAges must list one age between 0 and ${MAX_CHILD_AGE} per child`);
+  }
+  if (!Number.isInteger(rooms) || rooms < 1 || (adults + children) > rooms * MAX_GUESTS_PER_ROOM) {
+    throw new HttpsError("invalid-argument", `rooms must be at least 1 and fit ${MAX_GUESTS_PER_ROOM} guests each`);
+  }
+  if (details.specialRequests && details.specialRequests.length > MAX_SPECIAL_REQUESTS_LENGTH) {
+    throw new HttpsError("invalid-argument", "specialRequests is too long");
+  }
+
+  return {
+    startDate: Timestamp.fromDate(startDate),
+    endDate: Timestamp.fromDate(endDate),
+    guests: adults + children,
+    adults,
+    children,
+    ...(childAges && childAges.length > 0 ? {childAges} : {}),
+    rooms,
+    ...(details.specialRequests ? {specialRequests: details.specialRequests.trim()} : {}),
+  };
+}
+
+function validateCustomer(customer: CustomerInput | undefined, fallbackName?: string) {
+  if (!customer) throw new HttpsError("invalid-argument", "customer is required");
+
+  const email = String(customer.email || "").trim();
+  const phone = String(customer.phone || "").replace(/[\s()-]/g, "");
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(email)) {
+    throw new HttpsError("invalid-argument", "customer.email is invalid");
+  }
+  if (!/^\+?[0-9]{10,15}$/.test(phone)) {
+    throw new HttpsError("invalid-argument", "customer.phone is invalid");
+  }
+
+  // The chat booking assistant doesn't ask for names, fall back to the profile name
+  const [fallbackFirst = "", ...fallbackRest] = (fallbackName || "").trim().split(/\s+/);
+  const firstName = (customer.firstName || fallbackFirst).trim();
+  const lastName = (customer.lastName || fallbackRest.join(" ")).trim();
+  if (!firstName || !lastName) {
+    throw new HttpsError("invalid-argument", "customer.firstName and customer.lastName are required");
+  }
+
+  const emergencyContact = customer.emergencyContact;
+  if (emergencyContact && (!emergencyContact.name || !emergencyContact.phone || !emergencyContact.relationship)) {
+    throw new HttpsError("invalid-argument", "emergencyContact needs name, phone and relationship");
+  }
+
+  return {
+    firstName,
+    lastName,
+    email,
+    phone,
+    ...(customer.passportNumber ? {passportNumber: customer.passportNumber.trim()} : {}),
+    ...(emergencyContact ? {emergencyContact} : {}),
+  };
+}
+
+/**
+ * List price for a package: package price per room, minus an active promotion. Bookings use
+ * the dynamic price of a quote instead (see pricing.ts).
+ */
+export function quoteBookingPrice(pkg: FirebaseFirestore.DocumentData, rooms: number): BookingPricing {
+  const basePrice = pkg.price * rooms;
+  const promotion = pkg.isPromoted ? pkg.promotionData : undefined;
+  const now = Date.now();
+  const promotionActive = promotion &&
+    promotion.startDate?.toMillis() <= now && promotion.endDate?.toMillis() >= now;
+  const discounts = promotionActive ? Math.round(basePrice * (promotion.discountPercent / 100)) : 0;
+
+  return {
+    basePrice,
+    taxes: 0,
+    fees: 0,
+    discounts,
+    totalPrice: basePrice - discounts,
+    currency: pkg.currency || "USD",
+  };
+}
+
+function assertTransition(from: BookingStatus, to: BookingStatus) {
+  if (!BOOKING_TRANSITIONS[from]?.includes(to)) {
+    throw new HttpsError("failed-precondition", `Booking cannot move from ${from} to ${to}`);
+  }
+}
+
+/**
+ * Applies the booking counters on the package and the user in the same transaction.
+ * `delta` is +1 when a booking is confirmed, -1 when a confirmed booking is cancelled and 0
+ * otherwise. `spent` is the money that moved: a payment, or minus a refund.
+ */
+function applyBookingCounters(
+  tx: Transaction,
+  booking: FirebaseFirestore.DocumentData,
+  delta: 1 | 0 | -1,
+  spent: number,
+) {
+  const db = getFirestore();
+  if (delta !== 0) {
+    tx.update(db.collection("packages").doc(booking.packageId), {
+      bookings: FieldValue.increment(delta),
+    });
+  }
+  tx.set(db.collection("users").doc(booking.userId), {
+    stats: {
+      ...(delta !== 0 ? {totalBookings: FieldValue.increment(delta)} : {}),
+      totalSpent: FieldValue.increment(spent),
+    },
+  }, {merge: true});
+}
+
+/**
+ * What has been paid on the booking so far; bookings paid before schedules only have the status.
+ */
+function bookingAmountPaid(booking: FirebaseFirestore.DocumentData): number {
+  return booking.payment?.amountPaid ?? (booking.payment?.status === 'paid' ? booking.pricing.totalPrice : 0);
+}
+
+/**
+ * What has been refunded so far; older refunds stored only their amount on the booking.
+ */
+function bookingAmountRefunded(booking: FirebaseFirestore.DocumentData): number {
+  return booking.payment?.refundedAmount ?? booking.refundAmount ??
+    (booking.payment?.status === 'refunded' ? bookingAmountPaid(booking) : 0);
+}
+
+/**
+ * Records a payment on a booking. The first payment confirms a pending booking and updates
+ * the package and user booking counters in the same transaction; later installments only
+ * update the schedule. Without `installmentId` every open installment is settled.
+ * Used by confirmBooking and payment webhooks.
+ */
+export async function recordBookingPayment(
+  bookingId: string,
+  payment: {installmentId?: string; transactionId?: string; provider?: string},
+): Promise<void> {
+  const db = getFirestore();
+  const bookingRef = db.collection("bookings").doc(bookingId);
+  await db.runTransaction(async (tx) => {
+    const booking = (await tx.get(bookingRef)).data();
+    if (!booking) throw new HttpsError("not-found", "Booking not found");
+    if (booking.status !== 'confirmed') {
+      assertTransition(booking.status, 'confirmed');
+    }
+
+    const now = Timestamp.now();
+    let schedule: PaymentSchedule | undefined = booking.paymentSchedule;
+    if (schedule) {
+      try {
+        schedule = applyInstallmentPayment(schedule, payment.installmentId, payment.transactionId, now);
+      } catch (error: any) {
+        throw new HttpsError("failed-precondition", error.message);
+      }
+    }
+    const fullyPaid = !schedule || schedule.status === 'completed';
+    const amountPaid = schedule ? schedule.amountPaid : booking.pricing.totalPrice;
+    const paidNow = Math.round((amountPaid - (booking.status === 'pending' ? 0 : bookingAmountPaid(booking))) * 100) / 100;
+
+    tx.update(bookingRef, {
+      "status": 'confirmed',
+      "payment.status": fullyPaid ? 'paid' : 'pending',
+      "payment.paidAt": now,
+      "payment.amountPaid": amountPaid,
+      ...(schedule ? {paymentSchedule: schedule} : {}),
+      ...(payment.transactionId ? {"payment.transactionId": payment.transactionId} : {}),
+      ...(payment.provider ? {"payment.provider": payment.provider} : {}),
+      "updatedAt": now,
+    });
+    if (booking.status === 'pending' || paidNow !== 0) {
+      applyBookingCounters(tx, booking, booking.status === 'pending' ? 1 : 0, paidNow);
+    }
+  });
+}
+
+/**
+ * Cancels a pending or confirmed booking inside a transaction, reverting the booking
+ * counters if it was confirmed and closing its payment schedule. The money stays counted
+ * as spent until it is refunded.
+ */
+function cancelBookingInTransaction(
+  tx: Transaction,
+  bookingRef: FirebaseFirestore.DocumentReference,
+  booking: FirebaseFirestore.DocumentData,
+  reason: string,
+) {
+  assertTransition(booking.status, 'cancelled');
+  tx.update(bookingRef, {
+    status: 'cancelled',
+    cancellationReason: reason.substring(0, 500),
+    ...(booking.paymentSchedule ? {"paymentSchedule.status": 'cancelled'} : {}),
+    updatedAt: Timestamp.now(),
+  });
+  if (booking.status === 'confirmed') {
+    applyBookingCounters(tx, booking, -1, 0);
+  }
+}
+
+/**
+ * Whether the user's quote can price this booking. Quotes of another user, package or room count are
+ * rejected; expired quotes and quotes for another travel date, which the date-based strategies
+ * depend on, are not used and the booking is requoted.
+ */
+export function isQuoteUsableForBooking(
+  quote: PriceQuoteDoc | undefined,
+  uid: string,
+  packageId: string,
+  rooms: number,
+  startDate: Date,
+  now = Date.now()
+): quote is PriceQuoteDoc {
+  if (!quote || quote.userId !== uid || quote.packageId !== packageId) {
+    throw new HttpsError("not-found", "Price quote not found");
+  }
+  if (quote.inputs.rooms !== rooms) {
+    throw new HttpsError("invalid-argument", "The price quote is for a different number of rooms");
+  }
+  return quote.expiresAt.toMillis() > now && quote.inputs.travelDate === startDate.toISOString().slice(0, 10);
+}
+
+/**
+ * The user's quote while it is valid; otherwise a fresh quote, which has to match the price the user saw.
+ */
+async function resolveBookingPricing(
+  uid: string,
+  data: CreateBookingRequest,
+  pkg: FirebaseFirestore.DocumentData,
+  rooms: number,
+  startDate: Date
+): Promise<BookingPricing> {
+  if (data.quoteId) {
+    const quote = (await getFirestore().collection("priceQuotes").doc(String(data.quoteId)).get()).data() as PriceQuoteDoc | undefined;
+    if (isQuoteUsableForBooking(quote, uid, data.packageId, rooms, startDate)) {
+      return quote.pricing;
+    }
+  }
+
+  const {quoteId, quote} = await getOrCreateQuote(uid, data.packageId, pkg, {
+    rooms,
+    travelDate: startDate.toISOString().slice(0, 10),
+  });
+  if (!data.pricing || data.pricing.currency !== quote.pricing.currency ||
+      Math.abs(data.pricing.totalPrice - quote.pricing.totalPrice) > 0.5) {
+    throw new HttpsError("failed-precondition", "The package price has changed, please review the new total.", {
+      reason: "price_changed",
+      pricing: quote.pricing,
+      quoteId,
+    });
+  }
+  return quote.pricing;
+}
+
+/**
+ * Creates a pending booking at the price of the user's quote. Without a quote, once it has
+ * expired or when it was made for another travel date, a fresh quote is made; if it doesn't match the price the user saw, the request fails
+ * with the new price and quoteId so the UI can show them.
+ */
+export const createBooking = onCall<CreateBookingRequest, Promise<BookingResponse>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const data = request.data || ({} as CreateBookingRequest);
+
+    if (!data.packageId) {
+      throw new HttpsError("invalid-argument", "packageId is required");
+    }
+    const bookingDetails = validateBookingDetails(data.bookingDetails);
+    const customer = validateCustomer(data.customer, request.auth?.token.name);
+
+    const db = getFirestore();
+    const packageDoc = await db.collection("packages").doc(data.packageId).get();
+    const pkg = packageDoc.data();
+    if (!pkg || pkg.status !== "published" || pkg.availability !== true) {
+      throw new HttpsError("not-found", "Package is not available for booking");
+    }
+    if (bookingDetails.guests > (pkg.maxGuests || Infinity)) {
+      throw new HttpsError("invalid-argument", `This package allows at most ${pkg.maxGuests} guests`);
+    }
+    if (pkg.minAge && bookingDetails.childAges && Math.min(...bookingDetails.childAges) < pkg.minAge) {
+      throw new HttpsError("invalid-argument", `This package is for guests aged ${pkg.minAge} and over`);
+    }
+
+    const paymentPlan = data.paymentPlan || 'full';
+    const installmentCount = data.installmentCount ?? 3;
+    if (!PAYMENT_PLANS.includes(paymentPlan)) {
+      throw new HttpsError("invalid-argument", `paymentPlan must be one of ${PAYMENT_PLANS.join(", ")}`);
+    }
+    if (paymentPlan === 'installment' &&
+        (!Number.isInteger(installmentCount) || installmentCount < MIN_INSTALLMENTS || installmentCount > MAX_INSTALLMENTS)) {
+      throw new HttpsError("invalid-argument", `installmentCount must be between ${MIN_INSTALLMENTS} and ${MAX_INSTALLMENTS}`);
+    }
+    if (paymentPlan !== 'full' && balanceDueDate(bookingDetails.startDate.toDate()).getTime() <= Date.now() + 24 * 60 * 60 * 1000) {
+      throw new HttpsError("failed-precondition", "Trips starting this soon have to be paid in full");
+    }
+
+    const pricing = await resolveBookingPricing(uid, data, pkg, bookingDetails.rooms, bookingDetails.startDate.toDate());
+    const quoteRef = db.collection("priceQuotes").doc(pricing.quoteId!);
+
+    try {
+      const now = Timestamp.now();
+      const bookingRef = db.collection("bookings").doc();
+      // A quote is used by one booking only
+      await db.runTransaction(async (tx) => {
+        if ((await tx.get(quoteRef)).get("bookingId")) {
+          throw new HttpsError("failed-precondition", "This price quote was already used for a booking");
+        }
+        tx.update(quoteRef, {bookingId: bookingRef.id});
+        tx.create(bookingRef, {
+          userId: uid,
+          packageId: data.packageId,
+          status: 'pending' as BookingStatus,
+          bookingDetails,
+          pricing,
+          payment: {
+            method: data.paymentMethod || "card",
+            status: 'pending' as PaymentStatus,
+          },
+          paymentSchedule: buildPaymentSchedule(
+            pricing.totalPrice, pricing.currency, paymentPlan, bookingDetails.startDate.toDate(), now.toDate(), installmentCount,
+          ),
+          customer,
+          createdAt: now,
+          updatedAt: now,
+        });
+      });
+
+      logger.info(`Booking ${bookingRef.id} created for package ${data.packageId}`, {uid, quoteId: pricing.quoteId});
+      return {success: true, bookingId: bookingRef.id, status: 'pending', pricing};
+    } catch (error) {
+      if (error instanceof HttpsError) throw error;
+      logger.error("Error creating booking:", error);
+      throw new HttpsError("internal", "Failed to create booking");
+    }
+  }
+);
+
+/**
+ * Manually confirms a pending booking paid outside the payment gateway (admin only).
+ * Checkouts through the gateway are confirmed by the payment webhook instead.
+ */
+export const confirmBooking = onCall<{bookingId: string; transactionId?: string}, Promise<BookingResponse>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    if (!(await isAdminUser(uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+    const {bookingId, transactionId} = request.data || {};
+    if (!bookingId) {
+      throw new HttpsError("invalid-argument", "bookingId is required");
+    }
+
+    await recordBookingPayment(bookingId, {transactionId});
+
+    logger.info(`Booking ${bookingId} confirmed by ${uid}`);
+    return {success: true, bookingId, status: 'confirmed'};
+  }
+);
+
+/**
+ * Cancels a booking. Owners can cancel their own bookings before the trip starts, admins any time.
+ * Cancelling a confirmed booking reverts the booking counters.
+ */
+export const cancelBooking = onCall<{bookingId: string; reason?: string}, Promise<BookingResponse>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const {bookingId, reason} = request.data || {};
+    if (!bookingId) {
+      throw new HttpsError("invalid-argument", "bookingId is required");
+    }
+
+    const admin = await isAdminUser(uid);
+    const db = getFirestore();
+    const bookingRef = db.collection("bookings").doc(bookingId);
+    await db.runTransaction(async (tx) => {
+      const booking = (await tx.get(bookingRef)).data();
+      if (!booking || (!admin && booking.userId !== uid)) {
+        throw new HttpsError("not-found", "Booking not found");
+      }
+      if (!admin && booking.bookingDetails.startDate.toMillis() <= Date.now()) {
+        throw new HttpsError("failed-precondition", "Bookings can't be cancelled after the trip has started");
+      }
+      cancelBookingInTransaction(tx, bookingRef, booking, reason || "");
+    });
+
+    logger.info(`Booking ${bookingId} cancelled by ${uid}`, {admin});
+    return {success: true, bookingId, status: 'cancelled'};
+  }
+);
+
+/**
+ * Only cancelled bookings with money on them can be refunded, in one or more refunds up to
+ * the amount actually paid.
+ */
+function validateRefund(
+  booking: FirebaseFirestore.DocumentData | undefined,
+  amount: unknown,
+): {refund: number; paid: number; refunded: number} {
+  if (!booking) throw new HttpsError("not-found", "Booking not found");
+  const paid = bookingAmountPaid(booking);
+  const refunded = bookingAmountRefunded(booking);
+  const refundable = Math.round((paid - refunded) * 100) / 100;
+  if (booking.status !== 'cancelled' || refundable <= 0) {
+    throw new HttpsError("failed-precondition", "Only cancelled, paid bookings can be refunded");
+  }
+
+  const refund = amount ?? refundable;
+  if (typeof refund !== "number" || refund <= 0 || refund > refundable) {
+    throw new HttpsError("invalid-argument", `Refund amount must be between 0 and ${refundable}`);
+  }
+  return {refund, paid, refunded};
+}
+
+/**
+ * Refunds a cancelled, paid booking through its payment provider (admin only).
+ * Defaults to refunding everything that hasn't been refunded yet.
+ */
+export const refundBooking = onCall<{bookingId: string; amount?: number}, Promise<BookingResponse & {refundAmount?: number}>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins,
+    secrets: PAYMENT_SECRETS,
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    if (!(await isAdminUser(uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+    const {bookingId, amount} = request.data || {};
+    if (!bookingId) {
+      throw new HttpsError("invalid-argument", "bookingId is required");
+    }
+
+    const db = getFirestore();
+    const bookingRef = db.collection("bookings").doc(bookingId);
+    const booking = (await bookingRef.get()).data();
+    const {refund: refundAmount, paid, refunded} = validateRefund(booking, amount);
+
+    // Money goes back through the gateway first; the booking is only marked refunded once it has.
+    // Each paid installment is its own charge, refunds are taken from the latest ones first, so
+    // earlier refunds used up the latest charges.
+    const refundIds: string[] = [];
+    if (booking?.payment.provider) {
+      const charges: Array<{key: string; paymentId: string; amount: number}> = booking.paymentSchedule ?
+        (booking.paymentSchedule as PaymentSchedule).installments
+          .filter((i) => i.status === 'paid' && i.transactionId)
+          .map((i) => ({key: i.id, paymentId: i.transactionId as string, amount: i.amount}))
+          .reverse() :
+        [{key: "payment", paymentId: booking.payment.transactionId, amount: paid}];
+
+      let alreadyRefunded = refunded;
+      let remaining = refundAmount;
+      try {
+        for (const charge of charges) {
+          if (remaining <= 0) break;
+          const available = Math.round((charge.amount - Math.min(charge.amount, alreadyRefunded)) * 100) / 100;
+          alreadyRefunded = Math.max(0, alreadyRefunded - charge.amount);
+          if (available <= 0) continue;
+          const chargeRefund = Math.min(available, remaining);
+          const {refundId} = await getPaymentProvider().refund({
+            paymentId: charge.paymentId,
+            amount: chargeRefund,
+            currency: booking.pricing.currency,
+            // Retries of the same refund reuse the key, later refunds on the charge get a new one
+            idempotencyKey: `refund_${bookingId}_${charge.key}_${Math.round(refunded * 100)}`,
+          });
+          refundIds.push(refundId);
+          remaining = Math.round((remaining - chargeRefund) * 100) / 100;
+        }
+      } catch (error) {
+        logger.error(`Refund for booking ${bookingId} failed at the payment provider:`, error);
+        throw new HttpsError("internal", "Payment provider refused the refund");
+      }
+    }
+
+    await db.runTransaction(async (tx) => {
+      const current = (await tx.get(bookingRef)).data();
+      const state = validateRefund(current, refundAmount);
+      const refundedAmount = Math.round((state.refunded + refundAmount) * 100) / 100;
+      tx.update(bookingRef, {
+        "payment.status": refundedAmount >= state.paid ? 'refunded' : 'partially_refunded',
+        "payment.refundedAmount": refundedAmount,
+        ...(refundIds.length > 0 ? {"payment.refundIds": FieldValue.arrayUnion(...refundIds)} : {}),
+        "updatedAt": Timestamp.now(),
+      });
+      applyBookingCounters(tx, current as FirebaseFirestore.DocumentData, 0, -refundAmount);
+    });
+
+    logger.info(`Booking ${bookingId} refunded ${refundAmount} by ${uid}`);
+    return {success: true, bookingId, status: 'cancelled', refundAmount};
+  }
+);
+
+/**
+ * Daily payment schedule check: flags overdue installments, cancels bookings whose
+ * installment stayed unpaid past the grace period and reminds users of installments that
+ * are overdue or due within a week (users/{uid}/notifications).
+ */
+export const processPaymentSchedules = onSchedule(
+  {
+    schedule: "every day 06:00",
+    timeZone: "Europe/Istanbul",
+    region: "europe-west1",
+  },
+  async () => {
+    const db = getFirestore();
+    const snapshot = await db.collection("bookings")
+      .where("paymentSchedule.status", "in", ['active', 'overdue'])
+      .get();
+
+    let overdue = 0;
+    let cancelled = 0;
+    let reminded = 0;
+    for (const doc of snapshot.docs) {
+      try {
+        const now = new Date();
+        // Counted once the transaction has committed, the callback may run again on contention
+        const {outcome, reminders} = await db.runTransaction(async (tx): Promise<{
+          outcome: 'overdue' | 'cancelled' | null;
+          reminders: Installment[];
+        }> => {
+          const booking = (await tx.get(doc.ref)).data();
+          if (!booking?.paymentSchedule || !['pending', 'confirmed'].includes(booking.status)) {
+            return {outcome: null, reminders: []};
+          }
+
+          const updated = markOverdueInstallments(booking.paymentSchedule, now);
+          const schedule: PaymentSchedule = updated || booking.paymentSchedule;
+          if (isPastGracePeriod(schedule, now)) {
+            cancelBookingInTransaction(tx, doc.ref, {...booking, paymentSchedule: schedule}, "Payment overdue");
+            tx.update(doc.ref, {"paymentSchedule.installments": schedule.installments});
+            return {outcome: 'cancelled', reminders: []};
+          }
+          if (updated) {
+            tx.update(doc.ref, {paymentSchedule: updated, updatedAt: Timestamp.now()});
+          }
+          // Reminders are created after the transaction, for bookings that stay open
+          return {outcome: updated ? 'overdue' : null, reminders: installmentsToRemind(schedule, now)};
+        });
+        if (outcome === 'cancelled') cancelled++;
+        if (outcome === 'overdue') overdue++;
+
+        for (const installment of reminders) {
+          await createPaymentReminder(doc.get("userId"), {
+            bookingId: doc.id,
+            installmentId: installment.id,
+            amount: installment.amount,
+            currency: doc.get("paymentSchedule.currency"),
+            dueDate: installment.dueDate.toDate(),
+            overdue: installment.status === 'overdue',
+          }, now);
+          reminded++;
+        }
+      } catch (error) {
+        logger.error(`Payment schedule check failed for booking ${doc.id}:`, error);
+      }
+    }
+    logger.info(`Payment schedules checked: ${snapshot.size} open, ${overdue} newly overdue, ${cancelled} cancelled, ${reminded} reminder(s)`);
+  }
+);
+
+/**
+ * Daily check that marks confirmed bookings as completed once the trip has ended,
+ * which is what makes them eligible for a review.
+ */
+export const completeFinishedBookings = onSchedule(
+  {
+    schedule: "every day 04:00",
+    timeZone: "Europe/Istanbul",
+    region: "europe-west1",
+  },
+  async () => {
+    const db = getFirestore();
+    const snapshot = await db.collection("bookings")
+      .where("status", "==", 'confirmed')
+      .where("bookingDetails.endDate", "<", Timestamp.now())
+      .get();
+
+    let completed = 0;
+    for (const doc of snapshot.docs) {
+      try {
+        await db.runTransaction(async (tx) => {
+          const booking = (await tx.get(doc.ref)).data();
+          if (booking?.status !== 'confirmed') return;
+          assertTransition(booking.status, 'completed');
+          tx.update(doc.ref, {status: 'completed' as BookingStatus, updatedAt: Timestamp.now()});
+          completed++;
+        });
+      } catch (error) {
+        logger.error(`Completing booking ${doc.id} failed:`, error);
+      }
+    }
+    logger.info(`Finished trips checked: ${completed} of ${snapshot.size} bookings completed`);
+  }
+);
@@ -0,0 +1,36 @@
+import * as logger from "firebase-functions/logger";
+import {ChannelAdapter, DeliveryChannel, DeliveryError, DeliveryResult, OutboundMessage} from "./channel-adapter";
+
+// AI LOVVE - Records messages instead of delivering them (emulator and tests)
+
+// Everything "sent" by this instance, oldest first
+export const capturedMessages: OutboundMessage[] = [];
+
+/**
+ * Accepts every message with the recipient details the real channel would need.
+ * Failures can be forced per recipient: {userId: DeliveryError} in `failures`.
+ */
+export class CaptureChannelAdapter implements ChannelAdapter {
+  static failures = new Map<string, DeliveryError>();
+
+  constructor(readonly channel: DeliveryChannel) {}
+
+  async send(message: OutboundMessage): Promise<DeliveryResult> {
+    const forced = CaptureChannelAdapter.failures.get(message.recipient.userId);
+    if (forced) throw forced;
+    if (message.channel === 'email' && !message.recipient.email) {
+      throw new DeliveryError("Recipient has no email address", false);
+    }
+    if ((message.channel === 'sms' || message.channel === 'whatsapp') && !message.recipient.phone) {
+      throw new DeliveryError("Recipient has no valid phone number", false);
+    }
+
+    capturedMessages.push(message);
+    logger.info(`[capture] ${this.channel} to ${message.recipient.userId}`, {
+      messageId: message.id,
+      campaignId: message.campaignId,
+      subject: message.content.subject || message.content.title,
+    });
+    return {providerMessageId: `capture_${capturedMessages.length}`};
+  }
+}
@@ -0,0 +1,87 @@
+// AI LOVVE - Marketing channel abstraction (real providers in production, capture adapter in the emulator)
+
+export type DeliveryChannel = 'email' | 'sms' | 'whatsapp' | 'push' | 'in_app';
+export type DeliveryMode = 'live' | 'capture';
+
+export const DELIVERY_CHANNELS: readonly DeliveryChannel[] = ['email', 'sms', 'whatsapp', 'push', 'in_app'];
+
+// Mirrors CallToAction in src/services/advancedMarketingAutomation.ts
+export interface MessageAction {
+  text: string;
+  url: string;
+}
+
+export interface MessageContent {
+  subject?: string; // email
+  title?: string; // push / in-app
+  body: string;
+  html?: string; // email
+  cta?: MessageAction[];
+  footerText?: string;
+}
+
+// Contact details resolved from users/{uid} right before sending
+export interface Recipient {
+  userId: string;
+  email?: string;
+  phone?: string; // E.164
+  name?: string;
+}
+
+export interface OutboundMessage {
+  id: string;
+  campaignId: string;
+  channel: DeliveryChannel;
+  recipient: Recipient;
+  content: MessageContent;
+  unsubscribeUrl?: string; // Signed one-click link, set for consent-based email
+}
+
+export interface DeliveryResult {
+  providerMessageId?: string;
+}
+
+/**
+ * Thrown by adapters. Non-retryable failures (no address, rejected recipient) go straight
+ * to the dead letter queue; everything else is retried with backoff. addressRejected marks
+ * addresses the provider says do not exist, which then go on the suppression list.
+ */
+export class DeliveryError extends Error {
+  constructor(message: string, readonly retryable: boolean, readonly addressRejected = false) {
+    super(message);
+    this.name = "DeliveryError";
+  }
+}
+
+export interface ChannelAdapter {
+  readonly channel: DeliveryChannel;
+  send(message: OutboundMessage): Promise<DeliveryResult>;
+}
+
+export interface SmsProvider {
+  sendSms(to: string, body: string): Promise<DeliveryResult>;
+}
+
+export interface WhatsAppProvider {
+  sendWhatsApp(to: string, body: string): Promise<DeliveryResult>;
+}
+
+/**
+ * MARKETING_DELIVERY picks the mode explicitly; otherwise the emulator captures messages.
+ */
+export function resolveDeliveryMode(): DeliveryMode {
+  const configured = process.env.MARKETING_DELIVERY;
+  if (configured === 'live' || configured === 'capture') return configured;
+  return process.env.FUNCTIONS_EMULATOR === "true" ? 'capture' : 'live';
+}
+
+/**
+ * Plain text rendering shared by the text-only channels: body, call to action links, footer.
+ */
+export function renderPlainText(content: MessageContent): string {
+  return [
+    content.body,
+    ...(content.cta || []).map((action) => `${action.text}: ${action.url}`),
+    content.footerText,
+  ].filter(Boolean).join("\n\n");
+}
@@ -0,0 +1,49 @@
+import {defineSecret} from "firebase-functions/params";
+import {ChannelAdapter, DeliveryChannel, DeliveryError, resolveDeliveryMode} from "./channel-adapter";
+import {CaptureChannelAdapter} from "./capture-channel-adapter";
+import {EmailChannelAdapter} from "./email-channel-adapter";
+import {InAppChannelAdapter} from "./in-app-channel-adapter";
+import {emailConfig, readMailConfig} from "./mail-transport";
+import {FcmPushAdapter} from "./push-channel-adapter";
+import {SmsChannelAdapter, WhatsAppChannelAdapter} from "./text-channel-adapters";
+import {TwilioConfig, TwilioProvider} from "./twilio-provider";
+
+// AI LOVVE - Picks the delivery adapter per channel for the current environment
+
+// firebase functions:secrets:set TWILIO_CONFIG
+const twilioConfig = defineSecret("TWILIO_CONFIG");
+
+// Attach to every function that calls getChannelAdapter()
+export const DELIVERY_SECRETS = [emailConfig, twilioConfig];
+
+function twilioProvider(): TwilioProvider {
+  const value = twilioConfig.value();
+  if (!value) {
+    throw new DeliveryError("TWILIO_CONFIG is not set", false);
+  }
+  return new TwilioProvider(JSON.parse(value) as TwilioConfig);
+}
+
+export function getChannelAdapter(channel: DeliveryChannel): ChannelAdapter {
+  if (resolveDeliveryMode() === 'capture') {
+    return new CaptureChannelAdapter(channel);
+  }
+
+  switch (channel) {
+  case 'email': {
+    const config = readMailConfig();
+    if (!config) {
+      throw new DeliveryError("EMAIL_CONFIG is not set", false);
+    }
+    return new EmailChannelAdapter(config);
+  }
+  case 'sms':
+    return new SmsChannelAdapter(twilioProvider());
+  case 'whatsapp':
+    return new WhatsAppChannelAdapter(twilioProvider());
+  case 'push':
+    return new FcmPushAdapter();
+  case 'in_app':
+    return new InAppChannelAdapter();
+  }
+}
@@ -0,0 +1,239 @@
+import {createHash, createHmac, timingSafeEqual} from "crypto";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {defineSecret} from "firebase-functions/params";
+import {DeliveryChannel, Recipient} from "./channel-adapter";
+
+// AI LOVVE - Communication consent and the global suppression list
+// consents/{uid}                  current opt-in per category and channel
+// consents/{uid}/history/{id}     append-only record of every change (GDPR / KVKK evidence)
+// suppressionList/{addressHash}   addresses nothing may be sent to, keyed by a hash of the address
+
+export type ConsentCategory = 'marketing' | 'recommendations' | 'product_updates';
+export type ConsentSource = 'settings' | 'unsubscribe_link' | 'admin' | 'legacy_settings';
+export type SuppressionReason = 'unsubscribe' | 'hard_bounce' | 'complaint' | 'manual';
+// 'marketing' blocks campaigns and notifications, 'all' also blocks transactional mail such as OTPs
+export type SuppressionScope = 'marketing' | 'all';
+
+export const CONSENT_CATEGORIES: readonly ConsentCategory[] = ['marketing', 'recommendations', 'product_updates'];
+// Channels that need an opt-in; in-app messages are only shown inside the app
+export const CONSENT_CHANNELS: readonly DeliveryChannel[] = ['email', 'sms', 'whatsapp', 'push'];
+
+export interface ConsentRecord {
+  granted: boolean;
+  source: ConsentSource;
+  updatedAt: Timestamp;
+}
+
+export type ConsentPreferences = {
+  [category in ConsentCategory]?: {[channel in DeliveryChannel]?: ConsentRecord};
+};
+
+export interface ConsentChange {
+  category: ConsentCategory;
+  channel: DeliveryChannel;
+  granted: boolean;
+}
+
+export interface ConsentContext {
+  source: ConsentSource;
+  actor: string; // uid of whoever made the change, "unsubscribe_link" for token requests
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface SuppressionEntry {
+  kind: 'email' | 'phone';
+  maskedAddress: string;
+  reason: SuppressionReason;
+  scope: SuppressionScope;
+  userId?: string;
+  note?: string;
+  createdBy: string;
+  createdAt: Timestamp;
+}
+
+export type DeliveryDecision = {allowed: true} | {allowed: false; reason: string};
+
+// firebase functions:secrets:set UNSUBSCRIBE_SECRET
+export const unsubscribeSecret = defineSecret("UNSUBSCRIBE_SECRET");
+
+// Attach to every function that builds or verifies unsubscribe links
+export const CONSENT_SECRETS = [unsubscribeSecret];
+
+export function normalizeAddress(address: string): {kind: 'email' | 'phone'; value: string} {
+  const trimmed = address.trim();
+  if (trimmed.includes("@")) {
+    return {kind: 'email', value: trimmed.toLowerCase()};
+  }
+  return {kind: 'phone', value: trimmed.replace(/[^\d+]/g, "")};
+}
+
+export function addressHash(address: string): string {
+  return createHash("sha256").update(normalizeAddress(address).value).digest("hex");
+}
+
+function maskAddress(address: string): string {
+  const {kind, value} = normalizeAddress(address);
+  if (kind === 'email') {
+    const [local, domain] = value.split("@");
+    return `${local.slice(0, 2)}***@${domain}`;
+  }
+  return `${value.slice(0, 4)}***${value.slice(-2)}`;
+}
+
+/**
+ * Current consent for one category and channel. Without a record, the legacy settings decide:
+ * the old "Email notifications" toggle counted as an email opt-in, and push marketing stays on
+ * because the push adapter only uses devices where promotional notifications were enabled.
+ */
+export function resolveConsent(
+  preferences: ConsentPreferences,
+  legacySettings: {emailUpdates?: boolean} | undefined,
+  category: ConsentCategory,
+  channel: DeliveryChannel
+): boolean {
+  if (!CONSENT_CHANNELS.includes(channel)) return true;
+  const record = preferences[category]?.[channel];
+  if (record) return record.granted;
+  if (channel === 'email') return legacySettings?.emailUpdates === true;
+  return channel === 'push';
+}
+
+export async function readConsent(uid: string): Promise<{preferences: ConsentPreferences; legacySettings?: {emailUpdates?: boolean}}> {
+  const db = getFirestore();
+  const [consentDoc, settingsDoc] = await Promise.all([
+    db.collection("consents").doc(uid).get(),
+    db.collection("users").doc(uid).collection("settings").doc("preferences").get(),
+  ]);
+  return {
+    preferences: (consentDoc.data()?.preferences || {}) as ConsentPreferences,
+    legacySettings: settingsDoc.data(),
+  };
+}
+
+/**
+ * Applies consent changes and appends one history entry per change, in a single batch.
+ */
+export async function recordConsentChanges(uid: string, changes: ConsentChange[], context: ConsentContext): Promise<void> {
+  const db = getFirestore();
+  const consentRef = db.collection("consents").doc(uid);
+  const now = Timestamp.now();
+  const batch = db.batch();
+
+  const preferences: Record<string, Record<string, ConsentRecord>> = {};
+  for (const change of changes) {
+    preferences[change.category] = preferences[change.category] || {};
+    preferences[change.category][change.channel] = {granted: change.granted, source: context.source, updatedAt: now};
+    batch.create(consentRef.collection("history").doc(), {
+      ...change,
+      source: context.source,
+      actor: context.actor,
+      ipAddress: context.ipAddress || null,
+      userAgent: context.userAgent || null,
+      at: now,
+    });
+  }
+  // Merge keeps the categories and channels that were not part of this change
+  batch.set(consentRef, {preferences, updatedAt: now}, {merge: true});
+  await batch.commit();
+}
+
+export async function findSuppression(address: string | undefined, scope: SuppressionScope): Promise<SuppressionEntry | null> {
+  if (!address) return null;
+  const entry = (await getFirestore().collection("suppressionList").doc(addressHash(address)).get()).data() as SuppressionEntry | undefined;
+  if (!entry) return null;
+  // A marketing-only entry does not stop transactional mail
+  return scope === 'marketing' || entry.scope === 'all' ? entry : null;
+}
+
+export async function addSuppression(
+  address: string,
+  entry: Omit<SuppressionEntry, 'kind' | 'maskedAddress' | 'createdAt'>
+): Promise<string> {
+  const hash = addressHash(address);
+  const ref = getFirestore().collection("suppressionList").doc(hash);
+  const existing = (await ref.get()).data() as SuppressionEntry | undefined;
+  // Never narrow an existing 'all' entry to 'marketing'
+  const scope = existing?.scope === 'all' ? 'all' : entry.scope;
+  await ref.set({
+    ...JSON.parse(JSON.stringify(entry)), // Drops undefined fields
+    scope,
+    kind: normalizeAddress(address).kind,
+    maskedAddress: maskAddress(address),
+    createdAt: existing?.createdAt || Timestamp.now(),
+  });
+  return hash;
+}
+
+/**
+ * Whether a message of this category may go to the recipient on this channel.
+ */
+export async function checkDeliveryConsent(
+  recipient: Recipient,
+  channel: DeliveryChannel,
+  category: ConsentCategory
+): Promise<DeliveryDecision> {
+  const address = channel === 'email' ? recipient.email : (channel === 'sms' || channel === 'whatsapp') ? recipient.phone : undefined;
+  const suppression = await findSuppression(address, 'marketing');
+  if (suppression) {
+    return {allowed: false, reason: `Address is on the suppression list (${suppression.reason})`};
+  }
+
+  const {preferences, legacySettings} = await readConsent(recipient.userId);
+  if (!resolveConsent(preferences, legacySettings, category, channel)) {
+    return {allowed: false, reason: `No ${category} consent for ${channel}`};
+  }
+  return {allowed: true};
+}
+
+// Unsubscribe links: base64url(payload).base64url(HMAC-SHA256), no expiry so old emails keep working
+
+interface UnsubscribePayload {
+  uid: string;
+  category: ConsentCategory;
+  channel: DeliveryChannel;
+  issuedAt: number;
+}
+
+function signingKey(): string {
+  const key = unsubscribeSecret.value();
+  if (key) return key;
+  if (process.env.FUNCTIONS_EMULATOR === "true") return "emulator-unsubscribe-key";
+  throw new Error("UNSUBSCRIBE_SECRET is not set");
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac("sha256", signingKey()).update(encodedPayload).digest("base64url");
+}
+
+export function createUnsubscribeToken(uid: string, category: ConsentCategory, channel: DeliveryChannel): string {
+  const payload: UnsubscribePayload = {uid, category, channel, issuedAt: Date.now()};
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+}
+
+export function verifyUnsubscribeToken(token: string): UnsubscribePayload | null {
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8")) as UnsubscribePayload;
+    if (!payload.uid || !CONSENT_CATEGORIES.includes(payload.category)) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// unsubscribe endpoint; UNSUBSCRIBE_URL overrides it (e.g. behind a custom domain)
+export function unsubscribeUrl(uid: string, category: ConsentCategory, channel: DeliveryChannel): string {
+  const project = process.env.GCLOUD_PROJECT || "ailovve";
+  const base = process.env.UNSUBSCRIBE_URL || (process.env.FUNCTIONS_EMULATOR === "true" ?
+    `http://127.0.0.1:5001/${project}/europe-west1/unsubscribe` :
+    `https://europe-west1-${project}.cloudfunctions.net/unsubscribe`);
+  return `${base}?token=${encodeURIComponent(createUnsubscribeToken(uid, category, channel))}`;
+}
@@ -0,0 +1,326 @@
+import * as logger from "firebase-functions/logger";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {HttpsError, onCall, onRequest} from "firebase-functions/v2/https";
+import {DELIVERY_CHANNELS, DeliveryChannel} from "./channel-adapter";
+import {
+  addressHash,
+  addSuppression,
+  CONSENT_CATEGORIES,
+  CONSENT_CHANNELS,
+  CONSENT_SECRETS,
+  ConsentCategory,
+  ConsentChange,
+  readConsent,
+  recordConsentChanges,
+  resolveConsent,
+  SuppressionReason,
+  SuppressionScope,
+  verifyUnsubscribeToken,
+} from "./consent-store";
+
+// CORS configuration for Firebase Functions v2
+const allowedOrigins = [
+  'https://lovve.tech',
+  'https://www.lovve.tech',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'http://127.0.0.1:5173',
+  'https://ailovve.firebaseapp.com'
+];
+
+// AI LOVVE - Consent preferences, unsubscribe links, suppression list and consent exports
+
+const SUPPRESSION_REASONS: SuppressionReason[] = ['unsubscribe', 'hard_bounce', 'complaint', 'manual'];
+
+const CATEGORY_LABELS: Record<ConsentCategory, string> = {
+  marketing: "kampanya ve fırsat",
+  recommendations: "kişisel öneri",
+  product_updates: "ürün güncellemesi",
+};
+
+function requireAuth(uid: string | undefined): string {
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Authentication required");
+  }
+  return uid;
+}
+
+async function isAdmin(uid: string): Promise<boolean> {
+  const userDoc = await getFirestore().collection("users").doc(uid).get();
+  return userDoc.data()?.isAdmin === true;
+}
+
+async function requireAdmin(uid: string | undefined): Promise<string> {
+  const caller = requireAuth(uid);
+  if (!(await isAdmin(caller))) {
+    throw new HttpsError("permission-denied", "Admin access required");
+  }
+  return caller;
+}
+
+function toIso(value: unknown): string | null {
+  return value instanceof Timestamp ? value.toDate().toISOString() : null;
+}
+
+// Effective consent for every category and channel, with the record behind it if there is one
+async function consentMatrix(uid: string) {
+  const {preferences, legacySettings} = await readConsent(uid);
+  return CONSENT_CATEGORIES.map((category) => ({
+    category,
+    channels: CONSENT_CHANNELS.map((channel) => {
+      const record = preferences[category]?.[channel];
+      return {
+        channel,
+        granted: resolveConsent(preferences, legacySettings, category, channel),
+        source: record?.source || 'legacy_settings',
+        updatedAt: toIso(record?.updatedAt),
+      };
+    }),
+  }));
+}
+
+/**
+ * The caller's consent per category and channel.
+ */
+export const getConsentPreferences = onCall(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    return {success: true, preferences: await consentMatrix(uid)};
+  }
+);
+
+/**
+ * Opts the caller in or out per category and channel. Every change is kept in the history.
+ */
+export const updateConsent = onCall<{changes: ConsentChange[]}>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const changes = request.data?.changes;
+    if (!Array.isArray(changes) || changes.length === 0 || changes.length > CONSENT_CATEGORIES.length * CONSENT_CHANNELS.length) {
+      throw new HttpsError("invalid-argument", "changes must be a non-empty list");
+    }
+    for (const change of changes) {
+      if (!CONSENT_CATEGORIES.includes(change?.category) || !CONSENT_CHANNELS.includes(change?.channel) ||
+          typeof change.granted !== "boolean") {
+        throw new HttpsError("invalid-argument", "Every change needs a category, a consent channel and granted");
+      }
+    }
+
+    await recordConsentChanges(uid, changes, {
+      source: 'settings',
+      actor: uid,
+      ipAddress: request.rawRequest.ip,
+      userAgent: request.rawRequest.get("user-agent"),
+    });
+
+    // Opting back in to marketing email lifts an earlier unsubscribe-link suppression
+    if (changes.some((c) => c.channel === 'email' && c.category === 'marketing' && c.granted)) {
+      const email = request.auth?.token.email;
+      if (email) {
+        const ref = getFirestore().collection("suppressionList").doc(addressHash(email));
+        if ((await ref.get()).data()?.reason === 'unsubscribe') {
+          await ref.delete();
+        }
+      }
+    }
+
+    logger.info(`Consent updated for ${uid}`, {changes});
+    return {success: true, preferences: await consentMatrix(uid)};
+  }
+);
+
+/**
+ * Everything we hold about a user's communication consent, for GDPR / KVKK access requests.
+ * Users export their own; admins may export anyone's.
+ */
+export const exportConsentHistory = onCall<{userId?: string}>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const caller = requireAuth(request.auth?.uid);
+    const userId = request.data?.userId || caller;
+    if (userId !== caller && !(await isAdmin(caller))) {
+      throw new HttpsError("permission-denied", "You can only export your own consent history");
+    }
+
+    const db = getFirestore();
+    const [history, user] = await Promise.all([
+      db.collection("consents").doc(userId).collection("history").orderBy("at", "asc").get(),
+      db.collection("users").doc(userId).get(),
+    ]);
+    const addresses = [user.data()?.email, user.data()?.profileData?.phoneNumber || user.data()?.phoneNumber]
+      .filter((address): address is string => typeof address === "string" && address.length > 0);
+    const suppressions = await Promise.all(addresses.map((address) => db.collection("suppressionList").doc(addressHash(address)).get()));
+
+    logger.info(`Consent history of ${userId} exported by ${caller}`);
+    return {
+      success: true,
+      export: {
+        userId,
+        exportedAt: new Date().toISOString(),
+        preferences: await consentMatrix(userId),
+        history: history.docs.map((doc) => {
+          const entry = doc.data();
+          return {
+            category: entry.category,
+            channel: entry.channel,
+            granted: entry.granted,
+            source: entry.source,
+            actor: entry.actor,
+            ipAddress: entry.ipAddress,
+            userAgent: entry.userAgent,
+            at: toIso(entry.at),
+          };
+        }),
+        suppressions: suppressions.filter((doc) => doc.exists).map((doc) => {
+          const entry = doc.data()!;
+          return {
+            maskedAddress: entry.maskedAddress,
+            reason: entry.reason,
+            scope: entry.scope,
+            createdAt: toIso(entry.createdAt),
+          };
+        }),
+      },
+    };
+  }
+);
+
+/**
+ * Adds an email address or phone number to the global suppression list (admin only).
+ */
+export const suppressAddress = onCall<{address: string; reason?: SuppressionReason; scope?: SuppressionScope; note?: string}>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = await requireAdmin(request.auth?.uid);
+    const {address, reason = 'manual', scope = 'marketing', note} = request.data || {} as {address: string};
+    if (typeof address !== "string" || address.trim().length < 5) {
+      throw new HttpsError("invalid-argument", "A valid email address or phone number is required");
+    }
+    if (!SUPPRESSION_REASONS.includes(reason) || (scope !== 'marketing' && scope !== 'all')) {
+      throw new HttpsError("invalid-argument", "Unknown suppression reason or scope");
+    }
+
+    const id = await addSuppression(address, {reason, scope, note: note?.slice(0, 500), createdBy: uid});
+    logger.info(`Address ${id} suppressed by ${uid}`, {reason, scope});
+    return {success: true, id};
+  }
+);
+
+/**
+ * Removes a suppression list entry (admin only), by address or by entry id.
+ */
+export const unsuppressAddress = onCall<{address?: string; id?: string}>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = await requireAdmin(request.auth?.uid);
+    const id = request.data?.id || (request.data?.address ? addressHash(request.data.address) : null);
+    if (!id) {
+      throw new HttpsError("invalid-argument", "address or id is required");
+    }
+
+    await getFirestore().collection("suppressionList").doc(id).delete();
+    logger.info(`Suppression ${id} removed by ${uid}`);
+    return {success: true};
+  }
+);
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="tr"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title></head>
+<body style="font-family: Arial, sans-serif; max-width: 480px; margin: 60px auto; padding: 0 20px; color: #333; text-align: center;">
+<h1 style="color: #FF6B9D;">AI LOVVE</h1>${body}</body></html>`;
+}
+
+/**
+ * Target of the unsubscribe links in marketing emails. GET shows a confirmation page (link
+ * scanners must not unsubscribe anyone); POST unsubscribes, which also covers RFC 8058
+ * one-click requests sent by mail clients for the List-Unsubscribe-Post header.
+ */
+export const unsubscribe = onRequest(
+  {
+    region: "europe-west1",
+    secrets: CONSENT_SECRETS,
+  },
+  async (req, res) => {
+    const token = String(req.query.token || req.body?.token || "");
+    const payload = token ? verifyUnsubscribeToken(token) : null;
+    if (!payload) {
+      res.status(400).send(page("Geçersiz bağlantı", "<p>Bu abonelikten çıkma bağlantısı geçersiz.</p>"));
+      return;
+    }
+    const label = CATEGORY_LABELS[payload.category];
+
+    if (req.method === "GET") {
+      const action = `?token=${encodeURIComponent(token)}`;
+      res.send(page("Abonelikten çık", `
+        <p>Artık ${escapeHtml(label)} e-postaları almak istemiyor musunuz?</p>
+        <form method="POST" action="${action}">
+          <button type="submit" style="background: #FF6B9D; color: white; border: 0; padding: 12px 24px; border-radius: 8px;">Abonelikten çık</button>
+        </form>
+        <form method="POST" action="${action}" style="margin-top: 12px;">
+          <input type="hidden" name="scope" value="all_marketing">
+          <button type="submit" style="background: none; border: 0; color: #666; text-decoration: underline;">Hiçbir pazarlama e-postası almayayım</button>
+        </form>`));
+      return;
+    }
+    if (req.method !== "POST") {
+      res.status(405).send("Method not allowed");
+      return;
+    }
+
+    const channel: DeliveryChannel = DELIVERY_CHANNELS.includes(payload.channel) ? payload.channel : 'email';
+    const everything = req.body?.scope === "all_marketing";
+    const categories = everything ? CONSENT_CATEGORIES : [payload.category];
+
+    try {
+      await recordConsentChanges(payload.uid, categories.map((category) => ({category, channel, granted: false})), {
+        source: 'unsubscribe_link',
+        actor: 'unsubscribe_link',
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      if (everything && channel === 'email') {
+        const email = (await getFirestore().collection("users").doc(payload.uid).get()).data()?.email;
+        if (email) {
+          await addSuppression(email, {reason: 'unsubscribe', scope: 'marketing', userId: payload.uid, createdBy: 'unsubscribe_link'});
+        }
+      }
+
+      logger.info(`User ${payload.uid} unsubscribed`, {categories, channel});
+      res.send(page("Abonelikten çıkıldı", everything ?
+        "<p>Artık size pazarlama e-postası göndermeyeceğiz.</p>" :
+        `<p>Artık ${escapeHtml(label)} e-postaları almayacaksınız.</p>`));
+    } catch (error) {
+      logger.error(`Unsubscribe failed for ${payload.uid}:`, error);
+      res.status(500).send(page("Bir hata oluştu", "<p>Lütfen daha sonra tekrar deneyin.</p>"));
+    }
+  }
+);
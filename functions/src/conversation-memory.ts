@@ -0,0 +1,190 @@
+import * as logger from "firebase-functions/logger";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {GoogleGenerativeAI} from "@google/generative-ai";
+
+// AI LOVVE - Rolling conversation memory (sessionMemories/{sessionId})
+
+const MEMORY_COLLECTION = "sessionMemories";
+const SUMMARY_MODEL = "gemini-1.5-flash-8b";
+// Summarize once this many turns have piled up since the last summary
+const SUMMARY_THRESHOLD = 16;
+// Most recent turns stay verbatim, the client sends them with every request
+const KEEP_RECENT_TURNS = 6;
+const MAX_SUMMARY_CHARS = 2000;
+
+/**
+ * Key facts extracted by contextManager.extractUserPreferences on the client.
+ * Once pinned they are only ever overwritten by newer values, never dropped.
+ */
+export interface PinnedFacts {
+  budget?: string;
+  destinations?: string[];
+  travelDates?: string;
+  travelStyle?: string;
+  groupSize?: number;
+  specialRequests?: string[];
+}
+
+export interface SessionMemory {
+  sessionId: string;
+  userId: string;
+  summary: string;
+  pinnedFacts: PinnedFacts;
+  summarizedTurns: number;
+  summarizedThrough?: Timestamp; // createdAt of the last condensed turn
+  updatedAt: Timestamp;
+}
+
+interface StoredTurn {
+  role: "user" | "model";
+  parts: {text?: string}[];
+  createdAt?: Timestamp;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.map((v) => v.trim()).filter(Boolean)));
+}
+
+/**
+ * Merges newly extracted facts over the pinned ones. Lists are unioned,
+ * scalar values are replaced only when a new value is present.
+ */
+export function mergePinnedFacts(pinned: PinnedFacts, incoming?: PinnedFacts): PinnedFacts {
+  if (!incoming) return pinned;
+  const merged: PinnedFacts = {...pinned};
+
+  if (typeof incoming.budget === "string" && incoming.budget) merged.budget = incoming.budget;
+  if (typeof incoming.travelDates === "string" && incoming.travelDates) merged.travelDates = incoming.travelDates;
+  if (typeof incoming.travelStyle === "string" && incoming.travelStyle) merged.travelStyle = incoming.travelStyle;
+  if (typeof incoming.groupSize === "number" && incoming.groupSize > 0) merged.groupSize = incoming.groupSize;
+  if (Array.isArray(incoming.destinations)) {
+    merged.destinations = unique([...(pinned.destinations || []), ...incoming.destinations]);
+  }
+  if (Array.isArray(incoming.specialRequests)) {
+    merged.specialRequests = unique([...(pinned.specialRequests || []), ...incoming.specialRequests]);
+  }
+
+  return merged;
+}
+
+/**
+ * Loads the session memory, ignoring memories that belong to another user.
+ */
+export async function loadSessionMemory(sessionId: string, userId: string): Promise<SessionMemory | null> {
+  try {
+    const doc = await getFirestore().collection(MEMORY_COLLECTION).doc(sessionId).get();
+    const memory = doc.data() as SessionMemory | undefined;
+    if (!memory || memory.userId !== userId) return null;
+    return memory;
+  } catch (error) {
+    logger.error(`Error loading session memory for ${sessionId.substring(0, 8)}...:`, error);
+    return null;
+  }
+}
+
+/**
+ * Renders the memory as a block that goes ahead of the recent turns in the system instruction.
+ */
+export function buildMemoryInstruction(memory: SessionMemory | null, pinnedFacts?: PinnedFacts): string {
+  const facts = mergePinnedFacts(memory?.pinnedFacts || {}, pinnedFacts);
+  const factLines: string[] = [];
+  if (facts.budget) factLines.push(`- Budget: ${facts.budget}`);
+  if (facts.destinations?.length) factLines.push(`- Destinations: ${facts.destinations.join(", ")}`);
+  if (facts.travelDates) factLines.push(`- Travel dates: ${facts.travelDates}`);
+  if (facts.travelStyle) factLines.push(`- Travel style: ${facts.travelStyle}`);
+  if (facts.groupSize) factLines.push(`- Group size: ${facts.groupSize}`);
+  if (facts.specialRequests?.length) factLines.push(`- Special requests: ${facts.specialRequests.join(", ")}`);
+
+  const sections: string[] = [];
+  if (factLines.length > 0) {
+    sections.push(`PINNED FACTS (always respect these):\n${factLines.join("\n")}`);
+  }
+  if (memory?.summary) {
+    sections.push(`EARLIER IN THIS CONVERSATION:\n${memory.summary}`);
+  }
+  return sections.join("\n\n");
+}
+
+async function summarizeTurns(apiKey: string, previousSummary: string, turns: StoredTurn[]): Promise<string> {
+  const transcript = turns
+    .map((turn) => `${turn.role === "model" ? "Assistant" : "User"}: ${turn.parts.map((p) => p.text || "").join(" ")}`)
+    .join("\n");
+
+  const prompt = `You maintain the running memory of a honeymoon planning chat.
+Update the summary with the new turns. Keep decisions, preferences, rejected options and open questions.
+Write at most 150 words in the user's language, plain text, no greeting.
+
+CURRENT SUMMARY:
+${previousSummary || "(empty)"}
+
+NEW TURNS:
+${transcript}`;
+
+  const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+    model: SUMMARY_MODEL,
+    generationConfig: {maxOutputTokens: 300, temperature: 0.2},
+  });
+  const result = await model.generateContent(prompt);
+  return result.response.text().trim().substring(0, MAX_SUMMARY_CHARS);
+}
+
+/**
+ * Pins the latest facts and, once enough turns have accumulated since the last summary,
+ * condenses everything but the most recent turns into the rolling summary.
+ * Best effort: failures are logged, never thrown.
+ */
+export async function updateSessionMemory(
+  apiKey: string,
+  sessionId: string,
+  userId: string,
+  pinnedFacts?: PinnedFacts,
+): Promise<void> {
+  const db = getFirestore();
+  const ref = db.collection(MEMORY_COLLECTION).doc(sessionId);
+
+  try {
+    const existing = await loadSessionMemory(sessionId, userId);
+    const memory: SessionMemory = existing || {
+      sessionId,
+      userId,
+      summary: "",
+      pinnedFacts: {},
+      summarizedTurns: 0,
+      updatedAt: Timestamp.now(),
+    };
+    memory.pinnedFacts = mergePinnedFacts(memory.pinnedFacts, pinnedFacts);
+
+    let query = db.collection("conversations")
+      .where("sessionId", "==", sessionId)
+      .orderBy("createdAt", "asc");
+    if (memory.summarizedThrough) {
+      query = query.where("createdAt", ">", memory.summarizedThrough);
+    }
+    const snapshot = await query.get();
+    // A couple's shared session (owner "couple:{coupleId}") is summarized from both partners' turns
+    const shared = userId.startsWith("couple:");
+    const turns = snapshot.docs
+      .map((doc) => doc.data() as StoredTurn & {userId?: string})
+      .filter((turn) => shared || turn.userId === userId);
+
+    if (turns.length > SUMMARY_THRESHOLD) {
+      const toCondense = turns.slice(0, turns.length - KEEP_RECENT_TURNS);
+      memory.summary = await summarizeTurns(apiKey, memory.summary, toCondense);
+      memory.summarizedTurns += toCondense.length;
+      memory.summarizedThrough = toCondense[toCondense.length - 1].createdAt;
+      logger.info(`Condensed ${toCondense.length} turns for session ${sessionId.substring(0, 8)}...`);
+    }
+
+    memory.updatedAt = Timestamp.now();
+    await ref.set(memory);
+  } catch (error) {
+    logger.error(`Error updating session memory for ${sessionId.substring(0, 8)}...:`, error);
+  }
+}
+
+/**
+ * Removes the memory together with the session's chat history.
+ */
+export async function deleteSessionMemory(sessionId: string): Promise<void> {
+  await getFirestore().collection(MEMORY_COLLECTION).doc(sessionId).delete();
+}
@@ -0,0 +1,381 @@
+import * as logger from "firebase-functions/logger";
+import {randomInt} from "crypto";
+import {FieldValue, getFirestore, Timestamp} from "firebase-admin/firestore";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
+import {NotificationDoc} from "./proactive-notifications";
+
+// CORS configuration for Firebase Functions v2
+const allowedOrigins = [
+  'https://lovve.tech',
+  'https://www.lovve.tech',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'http://127.0.0.1:5173',
+  'https://ailovve.firebaseapp.com'
+];
+
+// AI LOVVE - Couple accounts
+// couples/{coupleId}                 two linked users, their shared chat session and compatibility result
+// couples/{coupleId}/favorites/*     packages either partner saved; members read and write (firestore.rules)
+// couples/{coupleId}/plans/*         trip plans both partners read and write
+// coupleInvites/{code}               partner invitations, Functions only
+// users/{uid}.coupleId               set while the user is linked, Functions only
+
+export type CoupleStatus = 'active' | 'dissolved';
+
+export interface CoupleMember {
+  displayName: string;
+  joinedAt: Timestamp;
+}
+
+export interface CompatibilityResult {
+  score: number; // 0-100, same scoring as personalityService.calculateCompatibilityScore
+  breakdown: {
+    personality: number; // out of 25
+    budget: number; // out of 20
+    travelStyle: number; // out of 20
+    duration: number; // out of 15
+    energy: number; // out of 10
+    priority: number; // out of 10
+  };
+  calculatedAt: Timestamp;
+}
+
+// Mirrors Couple in src/services/coupleService.ts
+export interface CoupleDoc {
+  memberIds: string[];
+  members: Record<string, CoupleMember>;
+  status: CoupleStatus;
+  chatSessionId: string;
+  compatibility?: CompatibilityResult; // Set once both partners have a personality profile
+  createdAt: Timestamp;
+  dissolvedAt?: Timestamp;
+  dissolvedBy?: string;
+}
+
+interface CoupleInviteDoc {
+  inviterId: string;
+  inviterName: string;
+  status: 'pending' | 'accepted' | 'revoked';
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+  acceptedBy?: string;
+  coupleId?: string;
+}
+
+// The fields of users/{uid}.profileData.personalityProfile the score uses
+interface CompatibilityProfile {
+  personalityType: string;
+  budgetRange: string;
+  travelStyle: string;
+  durationPreference: string;
+  energyStyle: string;
+  mainPriority: string;
+}
+
+const APP_URL = process.env.APP_URL || "https://lovve.tech";
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// No 0/O or 1/I, codes are read out and typed on phones
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+export const COUPLE_SESSION_PREFIX = "couple-session-";
+
+const COMPATIBLE_TYPES: Record<string, string[]> = {
+  luxury_seeker: ['romantic_dreamer'],
+  adventure_lover: ['culture_explorer'],
+  culture_explorer: ['adventure_lover', 'romantic_dreamer'],
+  romantic_dreamer: ['luxury_seeker', 'culture_explorer'],
+};
+const BUDGET_VALUES: Record<string, number> = {budget: 1, mid_range: 2, luxury: 3, ultra_luxury: 4};
+
+function requireAuth(uid: string | undefined): string {
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Authentication required");
+  }
+  return uid;
+}
+
+function generateInviteCode(): string {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+// "abcd-efgh" and "ABCD EFGH" both find ABCDEFGH
+function normalizeInviteCode(code: unknown): string {
+  return String(code || "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function displayName(user: FirebaseFirestore.DocumentData | undefined): string {
+  return user?.displayName || user?.name || user?.email?.split("@")[0] || "Partner";
+}
+
+export function coupleSessionId(coupleId: string): string {
+  return `${COUPLE_SESSION_PREFIX}${coupleId}`;
+}
+
+/**
+ * Same scoring as personalityService.calculateCompatibilityScore on the client, split by factor.
+ */
+export function scoreCompatibility(a: CompatibilityProfile, b: CompatibilityProfile): Omit<CompatibilityResult, 'calculatedAt'> {
+  const breakdown = {
+    personality: a.personalityType === b.personalityType ? 25 :
+      COMPATIBLE_TYPES[a.personalityType]?.includes(b.personalityType) ? 15 : 0,
+    budget: BUDGET_VALUES[a.budgetRange] && BUDGET_VALUES[b.budgetRange] ?
+      Math.max(0, 20 - Math.abs(BUDGET_VALUES[a.budgetRange] - BUDGET_VALUES[b.budgetRange]) * 7) : 0,
+    travelStyle: a.travelStyle === b.travelStyle || a.travelStyle === 'mixed' || b.travelStyle === 'mixed' ? 20 : 0,
+    duration: a.durationPreference === b.durationPreference ? 15 : 0,
+    energy: a.energyStyle === b.energyStyle || a.energyStyle === 'mixed' || b.energyStyle === 'mixed' ? 10 : 0,
+    priority: a.mainPriority === b.mainPriority ? 10 : 0,
+  };
+  const score = Object.values(breakdown).reduce((sum, points) => sum + points, 0);
+  return {score: Math.min(score, 100), breakdown};
+}
+
+/**
+ * Recomputes the couple's compatibility from both partners' current profiles, or clears it
+ * while one of them has not taken the personality test.
+ */
+async function updateCompatibility(coupleId: string): Promise<void> {
+  const db = getFirestore();
+  const coupleRef = db.collection("couples").doc(coupleId);
+  const couple = (await coupleRef.get()).data() as CoupleDoc | undefined;
+  if (!couple || couple.status !== 'active') return;
+
+  const users = await db.getAll(...couple.memberIds.map((id) => db.collection("users").doc(id)));
+  const profiles = users.map((user) => user.data()?.profileData?.personalityProfile as CompatibilityProfile | undefined);
+  if (profiles.length !== 2 || !profiles[0] || !profiles[1]) {
+    if (couple.compatibility) await coupleRef.update({compatibility: FieldValue.delete()});
+    return;
+  }
+  const compatibility: CompatibilityResult = {...scoreCompatibility(profiles[0], profiles[1]), calculatedAt: Timestamp.now()};
+  await coupleRef.update({compatibility});
+  logger.info(`Compatibility for couple ${coupleId}: ${compatibility.score}`);
+}
+
+function notifyPartner(userId: string, content: Pick<NotificationDoc, 'title' | 'message'>): Promise<unknown> {
+  const notification: NotificationDoc = {
+    type: 'partner',
+    ...content,
+    actionUrl: "/settings",
+    actionText: "Ayarları Aç",
+    priority: 'medium',
+    channel: 'in_app',
+    read: false,
+    createdAt: Timestamp.now(),
+  };
+  return getFirestore().collection("users").doc(userId).collection("notifications").add(notification);
+}
+
+/**
+ * Key session memory is stored under: the caller for their own sessions, the couple for a couple's
+ * shared session. Throws when the caller is not an active member of that couple.
+ */
+export async function sessionMemoryOwner(sessionId: string, uid: string): Promise<string> {
+  if (!sessionId.startsWith(COUPLE_SESSION_PREFIX)) return uid;
+  const coupleId = sessionId.slice(COUPLE_SESSION_PREFIX.length);
+  const couple = (await getFirestore().collection("couples").doc(coupleId).get()).data() as CoupleDoc | undefined;
+  if (!couple || couple.status !== 'active' || !couple.memberIds.includes(uid)) {
+    throw new HttpsError("permission-denied", "This conversation belongs to another couple");
+  }
+  return `couple:${coupleId}`;
+}
+
+/**
+ * Creates a partner invitation code, valid for 7 days. Any earlier pending invite of the user is revoked.
+ */
+export const createCoupleInvite = onCall(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const db = getFirestore();
+    const user = (await db.collection("users").doc(uid).get()).data();
+    if (user?.coupleId) {
+      throw new HttpsError("failed-precondition", "You are already linked with a partner");
+    }
+
+    const pending = await db.collection("coupleInvites")
+      .where("inviterId", "==", uid)
+      .where("status", "==", "pending")
+      .get();
+    if (!pending.empty) {
+      const batch = db.batch();
+      pending.docs.forEach((doc) => batch.update(doc.ref, {status: 'revoked'}));
+      await batch.commit();
+    }
+
+    const now = Date.now();
+    const invite: CoupleInviteDoc = {
+      inviterId: uid,
+      inviterName: displayName(user),
+      status: 'pending',
+      createdAt: Timestamp.fromMillis(now),
+      expiresAt: Timestamp.fromMillis(now + INVITE_TTL_MS),
+    };
+    // A collision with an existing code is very unlikely; retry a couple of times anyway
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const code = generateInviteCode();
+      try {
+        await db.collection("coupleInvites").doc(code).create(invite);
+        logger.info(`Couple invite created by ${uid}`);
+        return {
+          success: true,
+          code,
+          link: `${APP_URL}/settings?partnerCode=${code}`,
+          expiresAt: invite.expiresAt.toDate().toISOString(),
+        };
+      } catch (error: any) {
+        if (error?.code !== 6) throw error; // ALREADY_EXISTS
+      }
+    }
+    throw new HttpsError("internal", "Could not create an invite code, please try again");
+  }
+);
+
+/**
+ * Links the caller with the partner who created the invite. Favorites both partners saved on their
+ * own are copied into the couple's shared list.
+ */
+export const acceptCoupleInvite = onCall<{code: string}>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const code = normalizeInviteCode(request.data?.code);
+    if (code.length !== CODE_LENGTH) {
+      throw new HttpsError("invalid-argument", "Enter the 8 character code from your partner");
+    }
+
+    const db = getFirestore();
+    const inviteRef = db.collection("coupleInvites").doc(code);
+    const coupleRef = db.collection("couples").doc();
+    const {inviterId, partnerName} = await db.runTransaction(async (transaction) => {
+      const invite = (await transaction.get(inviteRef)).data() as CoupleInviteDoc | undefined;
+      if (!invite || invite.status !== 'pending' || invite.expiresAt.toMillis() < Date.now()) {
+        throw new HttpsError("not-found", "This invite code is invalid or has expired");
+      }
+      if (invite.inviterId === uid) {
+        throw new HttpsError("invalid-argument", "You can't accept your own invite, share it with your partner");
+      }
+      const inviterRef = db.collection("users").doc(invite.inviterId);
+      const userRef = db.collection("users").doc(uid);
+      const [inviter, user] = (await transaction.getAll(inviterRef, userRef)).map((doc) => doc.data());
+      if (!inviter || inviter.coupleId) {
+        throw new HttpsError("failed-precondition", "Your partner is already linked with someone else");
+      }
+      if (user?.coupleId) {
+        throw new HttpsError("failed-precondition", "You are already linked with a partner");
+      }
+
+      const now = Timestamp.now();
+      const couple: CoupleDoc = {
+        memberIds: [invite.inviterId, uid],
+        members: {
+          [invite.inviterId]: {displayName: displayName(inviter), joinedAt: now},
+          [uid]: {displayName: displayName(user), joinedAt: now},
+        },
+        status: 'active',
+        chatSessionId: coupleSessionId(coupleRef.id),
+        createdAt: now,
+      };
+      transaction.create(coupleRef, couple);
+      transaction.update(inviterRef, {coupleId: coupleRef.id});
+      transaction.set(userRef, {coupleId: coupleRef.id}, {merge: true});
+      transaction.update(inviteRef, {status: 'accepted', acceptedBy: uid, coupleId: coupleRef.id});
+      return {inviterId: invite.inviterId, partnerName: displayName(user)};
+    });
+
+    // Both partners' saved packages and trip plans move into the shared space
+    const batch = db.batch();
+    for (const subcollection of ["favorites", "plans"]) {
+      const snapshots = await Promise.all([inviterId, uid].map((id) =>
+        db.collection("users").doc(id).collection(subcollection).get()));
+      snapshots.forEach((snapshot) => snapshot.docs.forEach((doc) =>
+        batch.set(coupleRef.collection(subcollection).doc(doc.id), doc.data(), {merge: true})));
+    }
+    await batch.commit();
+
+    await Promise.all([
+      updateCompatibility(coupleRef.id),
+      notifyPartner(inviterId, {
+        title: "Partnerinizle bağlandınız 💕",
+        message: `${partnerName} davetinizi kabul etti. Sohbetleriniz, kaydettiğiniz paketler ve planlarınız artık ortak.`,
+      }),
+    ]);
+
+    logger.info(`Couple ${coupleRef.id} linked`, {inviterId, uid});
+    return {success: true, coupleId: coupleRef.id};
+  }
+);
+
+/**
+ * Unlinks the caller's couple. Shared chats, favorites and plans stay with the dissolved couple and
+ * are no longer readable; each partner keeps their own personality profile.
+ */
+export const leaveCouple = onCall(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const db = getFirestore();
+    const coupleId = (await db.collection("users").doc(uid).get()).data()?.coupleId;
+    if (!coupleId) {
+      throw new HttpsError("failed-precondition", "You are not linked with a partner");
+    }
+
+    const coupleRef = db.collection("couples").doc(coupleId);
+    const partnerId = await db.runTransaction(async (transaction) => {
+      const couple = (await transaction.get(coupleRef)).data() as CoupleDoc | undefined;
+      const userRefs = (couple?.memberIds || [uid]).map((id) => db.collection("users").doc(id));
+      userRefs.forEach((ref) => transaction.update(ref, {coupleId: FieldValue.delete()}));
+      if (couple?.status === 'active') {
+        transaction.update(coupleRef, {status: 'dissolved', dissolvedAt: Timestamp.now(), dissolvedBy: uid});
+      }
+      return couple?.memberIds.find((id) => id !== uid);
+    });
+
+    if (partnerId) {
+      await notifyPartner(partnerId, {
+        title: "Partner bağlantısı kaldırıldı",
+        message: "Partnerinizle hesap bağlantınız kaldırıldı. Yeni bir davetle tekrar bağlanabilirsiniz.",
+      });
+    }
+    logger.info(`Couple ${coupleId} dissolved by ${uid}`);
+    return {success: true};
+  }
+);
+
+/**
+ * Recomputes the couple's compatibility when a linked partner takes or retakes the personality test.
+ */
+export const syncCoupleCompatibility = onDocumentWritten(
+  {
+    document: "users/{userId}",
+    region: "europe-west1",
+  },
+  async (event) => {
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    const coupleId = after?.coupleId;
+    if (!coupleId) return;
+
+    const profileChanged = JSON.stringify(before?.profileData?.personalityProfile ?? null) !==
+      JSON.stringify(after?.profileData?.personalityProfile ?? null);
+    // Linking is handled by acceptCoupleInvite itself
+    if (!profileChanged || before?.coupleId !== coupleId) return;
+    await updateCompatibility(coupleId);
+  }
+);
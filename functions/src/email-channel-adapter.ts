@@ -0,0 +1,66 @@
+import {ChannelAdapter, DeliveryError, DeliveryResult, OutboundMessage, renderPlainText} from "./channel-adapter";
+import {createMailTransport, mailSender, MailConfig} from "./mail-transport";
+
+// AI LOVVE - Email channel over SMTP (Gmail or the SendGrid relay, see mail-transport.ts)
+
+// SMTP reply codes that won't change on retry: mailbox unknown, rejected, policy
+const PERMANENT_SMTP_CODES = new Set([550, 551, 553, 554]);
+// The mailbox itself is the problem (unknown user, bad address), not this message
+const REJECTED_ADDRESS_CODES = new Set([550, 551, 553]);
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+export class EmailChannelAdapter implements ChannelAdapter {
+  readonly channel = 'email' as const;
+
+  constructor(private readonly config: MailConfig) {}
+
+  async send(message: OutboundMessage): Promise<DeliveryResult> {
+    const to = message.recipient.email;
+    if (!to) {
+      throw new DeliveryError("Recipient has no email address", false);
+    }
+
+    const {content, unsubscribeUrl} = message;
+    const unsubscribe = unsubscribeUrl ?
+      `<p style="color: #999; font-size: 12px;"><a href="${escapeHtml(unsubscribeUrl)}" style="color: #999;">Abonelikten çık</a></p>` :
+      "";
+    const actions = (content.cta || [])
+      .map((action) => `<p><a href="${escapeHtml(action.url)}" style="color: #FF6B9D;">${escapeHtml(action.text)}</a></p>`)
+      .join("");
+    const html = content.html ? `${content.html}${unsubscribe}` : `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <p style="color: #333; white-space: pre-line;">${escapeHtml(content.body)}</p>
+        ${actions}
+        ${content.footerText ? `<p style="color: #999; font-size: 12px;">${escapeHtml(content.footerText)}</p>` : ""}
+        ${unsubscribe}
+      </div>
+    `;
+    const text = [renderPlainText(content), unsubscribeUrl && `Abonelikten çıkmak için: ${unsubscribeUrl}`].filter(Boolean).join("\n\n");
+
+    try {
+      const info = await createMailTransport(this.config).sendMail({
+        from: mailSender(this.config),
+        to,
+        subject: content.subject || content.title || "AI LOVVE",
+        html,
+        text,
+        // RFC 8058 one-click unsubscribe, shown as a button by most mail clients
+        headers: unsubscribeUrl ? {
+          "List-Unsubscribe": `<${unsubscribeUrl}>`,
+          "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+        } : undefined,
+      });
+      return {providerMessageId: info.messageId};
+    } catch (error) {
+      const code = (error as {responseCode?: number}).responseCode;
+      throw new DeliveryError(
+        `SMTP delivery failed: ${(error as Error).message}`,
+        !code || !PERMANENT_SMTP_CODES.has(code),
+        !!code && REJECTED_ADDRESS_CODES.has(code)
+      );
+    }
+  }
+}
@@ -0,0 +1,43 @@
+// AI LOVVE - Embedding provider abstraction (Gemini in production, deterministic local model in the emulator)
+
+export type EmbeddingProviderName = 'gemini' | 'local';
+
+// Documents are indexed, queries are searched; Gemini embeds the two differently
+export type EmbeddingKind = 'document' | 'query';
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  // Stored with every vector, vectors from different models are never compared
+  readonly model: string;
+  readonly dimension: number;
+  // One L2-normalized vector per text, in input order
+  embed(texts: string[], kind: EmbeddingKind): Promise<number[][]>;
+}
+
+/**
+ * EMBEDDING_PROVIDER picks the model explicitly; otherwise the emulator uses the local one.
+ */
+export function resolveEmbeddingProviderName(): EmbeddingProviderName {
+  const configured = process.env.EMBEDDING_PROVIDER;
+  if (configured === 'gemini' || configured === 'local') return configured;
+  return process.env.FUNCTIONS_EMULATOR === "true" ? 'local' : 'gemini';
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return magnitude > 0 ? vector.map((v) => v / magnitude) : vector;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
+  return magnitude > 0 ? dot / magnitude : 0;
+}
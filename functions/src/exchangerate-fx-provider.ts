@@ -0,0 +1,27 @@
+import {FxRateProvider} from "./fx-provider";
+
+// AI LOVVE - Daily reference rates from open.er-api.com (ExchangeRate-API open access, no key)
+
+const API_URL = "https://open.er-api.com/v6/latest";
+
+export class ExchangeRateFxProvider implements FxRateProvider {
+  readonly name = 'exchangerate' as const;
+
+  async fetchRates(base: string, currencies: string[]): Promise<Record<string, number>> {
+    const response = await fetch(`${API_URL}/${encodeURIComponent(base)}`);
+    if (!response.ok) {
+      throw new Error(`FX API responded ${response.status}`);
+    }
+    const body = await response.json() as {result?: string; rates?: Record<string, number>};
+    if (body.result !== "success" || !body.rates) {
+      throw new Error("FX API returned no rates");
+    }
+
+    const rates: Record<string, number> = {};
+    for (const currency of currencies) {
+      const rate = Number(body.rates[currency]);
+      if (rate > 0) rates[currency] = rate;
+    }
+    return rates;
+  }
+}
@@ -0,0 +1,268 @@
+// AI LOVVE - Statistics for A/B test reports (pure, no Firestore access)
+
+export type ExperimentMetric = 'conversionRate' | 'successRate';
+
+// Aggregated counters per variant (experiments/{experimentId}/variantStats/{variantId})
+export interface VariantCounters {
+  assignedUsers: number;
+  exposures: number; // Recorded responses
+  conversions: number; // Responses that showed packages or led to a booking
+  feedbackCount: number;
+  positiveFeedback: number;
+  responseTimeSum: number; // ms
+}
+
+export interface ReportVariant {
+  id: string;
+  name: string;
+  weight: number;
+}
+
+export interface VariantReport {
+  variantId: string;
+  name: string;
+  isControl: boolean;
+  assignedUsers: number;
+  exposures: number;
+  sampleSize: number; // Denominator of the primary metric
+  rate: number;
+  confidenceInterval: [number, number];
+  conversionRate: number;
+  successRate: number;
+  avgResponseTime: number;
+  lift?: number; // Relative to control
+  zScore?: number;
+  pValue?: number;
+  significant: boolean;
+}
+
+export interface ExperimentReport {
+  primaryMetric: ExperimentMetric;
+  controlVariantId: string;
+  totalExposures: number;
+  requiredSampleSizePerVariant: number;
+  informationFraction: number; // Share of the required sample collected by the smallest variant, capped at 1
+  significanceBoundary: number; // |z| needed at this look
+  sampleRatioMismatch: boolean;
+  variants: VariantReport[];
+  winner?: string;
+  insights: string[];
+}
+
+export interface ReportOptions {
+  primaryMetric: ExperimentMetric;
+  alpha: number; // Two-sided, before the multiple-comparison correction
+  power: number;
+  minimumDetectableEffect: number; // Relative lift over control, e.g. 0.2 = +20%
+}
+
+// Nothing is called before every variant has this many samples, however extreme the data
+export const MIN_SAMPLES_PER_VARIANT = 100;
+// Nor before this share of the planned sample is in (early looks are the most misleading)
+const MIN_INFORMATION_FRACTION = 0.1;
+// Sample ratio mismatch is flagged at this p-value
+const SRM_ALPHA = 0.001;
+// Used for sample size planning until the control has data
+const DEFAULT_BASELINE_RATE = 0.1;
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error below 1.5e-7).
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Inverse standard normal CDF (Acklam's rational approximation).
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Wilson score interval for a proportion; well behaved for small samples and rates near 0 or 1.
+ */
+export function wilsonInterval(successes: number, n: number, confidence = 0.95): [number, number] {
+  if (n === 0) return [0, 1];
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const p = successes / n;
+  const denominator = 1 + z * z / n;
+  const center = (p + z * z / (2 * n)) / denominator;
+  const margin = (z * Math.sqrt(p * (1 - p) / n + z * z / (4 * n * n))) / denominator;
+  return [Math.max(0, center - margin), Math.min(1, center + margin)];
+}
+
+/**
+ * Pooled two-proportion z-test of b against a.
+ */
+export function twoProportionZTest(successesA: number, nA: number, successesB: number, nB: number): {z: number; pValue: number} {
+  if (nA === 0 || nB === 0) return {z: 0, pValue: 1};
+  const pooled = (successesA + successesB) / (nA + nB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / nA + 1 / nB));
+  if (se === 0) return {z: 0, pValue: 1};
+  const z = (successesB / nB - successesA / nA) / se;
+  return {z, pValue: 2 * (1 - normalCdf(Math.abs(z)))};
+}
+
+/**
+ * Samples per variant needed to detect a relative lift of `minimumDetectableEffect`
+ * over `baselineRate` with a two-sided test.
+ */
+export function requiredSampleSize(baselineRate: number, minimumDetectableEffect: number, alpha: number, power: number): number {
+  const p1 = Math.min(Math.max(baselineRate, 0.001), 0.999);
+  const p2 = Math.min(p1 * (1 + minimumDetectableEffect), 0.999);
+  if (p2 === p1) return Infinity;
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  const zBeta = normalQuantile(power);
+  const pBar = (p1 + p2) / 2;
+  const numerator = zAlpha * Math.sqrt(2 * pBar * (1 - pBar)) + zBeta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2));
+  return Math.ceil((numerator * numerator) / ((p2 - p1) * (p2 - p1)));
+}
+
+/**
+ * O'Brien-Fleming style boundary: looking early requires a much larger |z|, and the
+ * boundary falls to the fixed-sample critical value once the planned sample is reached.
+ * This keeps the false positive rate near alpha even though the report can be checked any time.
+ */
+export function sequentialBoundary(alpha: number, informationFraction: number): number {
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  return zAlpha / Math.sqrt(Math.min(1, Math.max(informationFraction, 1e-6)));
+}
+
+/**
+ * Chi-square goodness of fit of assignments against the configured weights, via the
+ * Wilson-Hilferty approximation. A mismatch means assignment or logging is broken.
+ */
+export function hasSampleRatioMismatch(observed: number[], weights: number[]): boolean {
+  const total = observed.reduce((sum, n) => sum + n, 0);
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  if (total < MIN_SAMPLES_PER_VARIANT || observed.length < 2) return false;
+
+  const chiSquare = observed.reduce((sum, n, i) => {
+    const expected = total * weights[i] / weightSum;
+    return expected > 0 ? sum + (n - expected) * (n - expected) / expected : sum;
+  }, 0);
+  const k = observed.length - 1;
+  const z = (Math.cbrt(chiSquare / k) - (1 - 2 / (9 * k))) / Math.sqrt(2 / (9 * k));
+  return 1 - normalCdf(z) < SRM_ALPHA;
+}
+
+function metricCounts(counters: VariantCounters, metric: ExperimentMetric): {successes: number; n: number} {
+  return metric === 'conversionRate' ?
+    {successes: counters.conversions, n: counters.exposures} :
+    {successes: counters.positiveFeedback, n: counters.feedbackCount};
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Compares every variant with the control (the first variant). Alpha is split across the
+ * comparisons (Bonferroni) and each comparison is held to the sequential boundary.
+ */
+export function buildExperimentReport(
+  variants: ReportVariant[],
+  counters: Record<string, VariantCounters>,
+  options: ReportOptions,
+): ExperimentReport {
+  const empty: VariantCounters = {assignedUsers: 0, exposures: 0, conversions: 0, feedbackCount: 0, positiveFeedback: 0, responseTimeSum: 0};
+  const control = variants[0];
+  const controlCounters = counters[control.id] || empty;
+  const controlCounts = metricCounts(controlCounters, options.primaryMetric);
+  const comparisons = Math.max(1, variants.length - 1);
+  const alpha = options.alpha / comparisons;
+
+  const baselineRate = controlCounts.n >= MIN_SAMPLES_PER_VARIANT ? controlCounts.successes / controlCounts.n : DEFAULT_BASELINE_RATE;
+  const required = requiredSampleSize(baselineRate || DEFAULT_BASELINE_RATE, options.minimumDetectableEffect, alpha, options.power);
+  const smallestSample = Math.min(...variants.map((v) => metricCounts(counters[v.id] || empty, options.primaryMetric).n));
+  const informationFraction = Number.isFinite(required) ? Math.min(1, smallestSample / required) : 0;
+  const boundary = sequentialBoundary(alpha, informationFraction);
+  const canDecide = smallestSample >= MIN_SAMPLES_PER_VARIANT && informationFraction >= MIN_INFORMATION_FRACTION;
+
+  const reports: VariantReport[] = variants.map((variant) => {
+    const c = counters[variant.id] || empty;
+    const {successes, n} = metricCounts(c, options.primaryMetric);
+    const report: VariantReport = {
+      variantId: variant.id,
+      name: variant.name,
+      isControl: variant.id === control.id,
+      assignedUsers: c.assignedUsers,
+      exposures: c.exposures,
+      sampleSize: n,
+      rate: n > 0 ? successes / n : 0,
+      confidenceInterval: wilsonInterval(successes, n),
+      conversionRate: c.exposures > 0 ? c.conversions / c.exposures : 0,
+      successRate: c.feedbackCount > 0 ? c.positiveFeedback / c.feedbackCount : 0,
+      avgResponseTime: c.exposures > 0 ? c.responseTimeSum / c.exposures : 0,
+      significant: false,
+    };
+    if (!report.isControl) {
+      const test = twoProportionZTest(controlCounts.successes, controlCounts.n, successes, n);
+      const controlRate = controlCounts.n > 0 ? controlCounts.successes / controlCounts.n : 0;
+      report.lift = controlRate > 0 ? report.rate / controlRate - 1 : undefined;
+      report.zScore = test.z;
+      report.pValue = test.pValue;
+      report.significant = canDecide && Math.abs(test.z) >= boundary;
+    }
+    return report;
+  });
+
+  const winners = reports.filter((r) => r.significant && (r.zScore || 0) > 0).sort((a, b) => b.rate - a.rate);
+  const controlBeatsAll = canDecide && reports.every((r) => r.isControl || (r.significant && (r.zScore || 0) < 0));
+  const winner = winners[0]?.variantId ?? (controlBeatsAll && reports.length > 1 ? control.id : undefined);
+  const sampleRatioMismatch = hasSampleRatioMismatch(
+    variants.map((v) => (counters[v.id] || empty).assignedUsers),
+    variants.map((v) => v.weight),
+  );
+
+  const insights: string[] = [];
+  if (sampleRatioMismatch) {
+    insights.push("Sample ratio mismatch: assignments don't follow the configured weights, results are not trustworthy");
+  }
+  if (smallestSample < MIN_SAMPLES_PER_VARIANT) {
+    insights.push(`Collecting data: every variant needs at least ${MIN_SAMPLES_PER_VARIANT} samples before any decision`);
+  } else if (informationFraction < 1) {
+    insights.push(`${percent(informationFraction)} of the planned ${required} samples per variant collected; early looks need |z| ≥ ${boundary.toFixed(2)}`);
+  }
+  for (const r of reports) {
+    if (r.isControl || r.lift === undefined) continue;
+    if (r.significant) {
+      insights.push(`${r.variantId} ${r.lift > 0 ? "beats" : "trails"} ${control.id} by ${percent(Math.abs(r.lift))} (p=${r.pValue?.toFixed(4)})`);
+    } else if (informationFraction >= 1) {
+      insights.push(`${r.variantId} vs ${control.id}: no significant difference at the planned sample size`);
+    }
+  }
+
+  return {
+    primaryMetric: options.primaryMetric,
+    controlVariantId: control.id,
+    totalExposures: reports.reduce((sum, r) => sum + r.exposures, 0),
+    requiredSampleSizePerVariant: required,
+    informationFraction,
+    significanceBoundary: boundary,
+    sampleRatioMismatch,
+    variants: reports,
+    winner: sampleRatioMismatch ? undefined : winner,
+    insights,
+  };
+}
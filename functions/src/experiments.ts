@@ -0,0 +1,521 @@
+import * as logger from "firebase-functions/logger";
+import {FieldValue, getFirestore, Timestamp} from "firebase-admin/firestore";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {buildExperimentReport, ExperimentMetric, ExperimentReport, VariantCounters} from "./experiment-stats";
+
+// CORS configuration for Firebase Functions v2
+const allowedOrigins = [
+  'https://lovve.tech',
+  'https://www.lovve.tech',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'http://127.0.0.1:5173',
+  'https://ailovve.firebaseapp.com'
+];
+
+// AI LOVVE - Persistent A/B experiments for the chat assistant
+// experiments/{experimentId}                       definition and status
+// experiments/{experimentId}/variantStats/{id}     aggregated counters, only written here
+// experimentAssignments/{uid}                      sticky variant per experiment, shared by all devices
+// experimentResults/{resultId}                     one document per assistant response
+
+export type ExperimentStatus = 'running' | 'stopped';
+export type ExperimentFeedback = 'thumbs_up' | 'thumbs_down';
+
+// Mirrors ExperimentVariant['config'] in src/services/aiExperimentEngine.ts
+const CONFIG_VALUES: Record<string, readonly string[]> = {
+  promptStyle: ['formal', 'casual', 'enthusiastic', 'minimal'],
+  responseLength: ['short', 'medium', 'long'],
+  emojiUsage: ['none', 'minimal', 'moderate', 'heavy'],
+  packageRecommendationStrategy: ['conservative', 'aggressive', 'contextual'],
+  personalizationLevel: ['low', 'medium', 'high'],
+};
+
+export interface ExperimentVariantDoc {
+  id: string;
+  name: string;
+  weight: number; // Percent, all variants add up to 100
+  config: Record<string, string>;
+}
+
+export interface ExperimentDoc {
+  name: string;
+  description?: string;
+  variants: ExperimentVariantDoc[]; // The first variant is the control
+  status: ExperimentStatus;
+  primaryMetric: ExperimentMetric;
+  alpha: number;
+  power: number;
+  minimumDetectableEffect: number;
+  createdAt: Timestamp;
+  createdBy: string;
+  updatedAt: Timestamp;
+  stoppedAt?: Timestamp;
+}
+
+export interface CreateExperimentRequest {
+  experimentId: string;
+  name: string;
+  description?: string;
+  variants: ExperimentVariantDoc[];
+  primaryMetric?: ExperimentMetric;
+  alpha?: number;
+  power?: number;
+  minimumDetectableEffect?: number;
+}
+
+export interface ExperimentResultInput {
+  resultId: string; // Generated by the client so feedback can refer to it before the upload
+  experimentId: string;
+  variantId: string;
+  sessionId?: string;
+  responseTime: number; // ms
+  messageLength: number;
+  converted: boolean; // Packages shown or booking started
+}
+
+interface AssignmentsResponse {
+  success: boolean;
+  assignments: Record<string, {variantId: string; config: Record<string, string>}>;
+}
+
+const EXPERIMENT_ID_PATTERN = /^[a-z0-9_]{3,40}$/;
+const RESULT_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const MAX_VARIANTS = 6;
+const MAX_RESULTS_PER_CALL = 25;
+const MAX_RESPONSE_TIME_MS = 5 * 60 * 1000;
+const DEFAULT_DESIGN = {primaryMetric: 'successRate' as ExperimentMetric, alpha: 0.05, power: 0.8, minimumDetectableEffect: 0.2};
+
+// Seeded on first use so existing deployments keep the experiments the client used to run in memory
+const DEFAULT_EXPERIMENTS: Record<string, Pick<ExperimentDoc, 'name' | 'description' | 'variants' | 'primaryMetric'>> = {
+  prompt_style: {
+    name: 'Prompt style',
+    description: 'Tone, length and emoji usage of assistant answers',
+    primaryMetric: 'successRate',
+    variants: [
+      {id: 'formal', name: 'Formal Professional', weight: 25, config: {promptStyle: 'formal', responseLength: 'medium', emojiUsage: 'minimal'}},
+      {id: 'casual', name: 'Casual Friendly', weight: 25, config: {promptStyle: 'casual', responseLength: 'medium', emojiUsage: 'moderate'}},
+      {id: 'enthusiastic', name: 'Enthusiastic', weight: 25, config: {promptStyle: 'enthusiastic', responseLength: 'long', emojiUsage: 'heavy'}},
+      {id: 'minimal', name: 'Minimal Concise', weight: 25, config: {promptStyle: 'minimal', responseLength: 'short', emojiUsage: 'none'}},
+    ],
+  },
+  package_strategy: {
+    name: 'Package recommendation strategy',
+    description: 'How proactively packages are suggested',
+    primaryMetric: 'conversionRate',
+    variants: [
+      {id: 'conservative', name: 'Conservative Recommendations', weight: 33, config: {packageRecommendationStrategy: 'conservative', personalizationLevel: 'low'}},
+      {id: 'aggressive', name: 'Aggressive Recommendations', weight: 33, config: {packageRecommendationStrategy: 'aggressive', personalizationLevel: 'high'}},
+      {id: 'contextual', name: 'Contextual Recommendations', weight: 34, config: {packageRecommendationStrategy: 'contextual', personalizationLevel: 'medium'}},
+    ],
+  },
+};
+
+function requireAuth(uid: string | undefined): string {
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Authentication required");
+  }
+  return uid;
+}
+
+async function requireAdmin(uid: string | undefined): Promise<string> {
+  const adminId = requireAuth(uid);
+  const userDoc = await getFirestore().collection("users").doc(adminId).get();
+  if (userDoc.data()?.isAdmin !== true) {
+    throw new HttpsError("permission-denied", "Admin access required");
+  }
+  return adminId;
+}
+
+function experimentsCollection() {
+  return getFirestore().collection("experiments");
+}
+
+function validateVariants(variants: unknown): ExperimentVariantDoc[] {
+  if (!Array.isArray(variants) || variants.length < 2 || variants.length > MAX_VARIANTS) {
+    throw new HttpsError("invalid-argument", `An experiment needs 2-${MAX_VARIANTS} variants`);
+  }
+  const ids = new Set<string>();
+  const validated = variants.map((variant: Partial<ExperimentVariantDoc>) => {
+    if (!variant || typeof variant.id !== "string" || !EXPERIMENT_ID_PATTERN.test(variant.id) || ids.has(variant.id)) {
+      throw new HttpsError("invalid-argument", "Variant ids must be unique, lowercase and 3-40 characters");
+    }
+    ids.add(variant.id);
+    if (typeof variant.weight !== "number" || variant.weight <= 0) {
+      throw new HttpsError("invalid-argument", `Variant ${variant.id} needs a positive weight`);
+    }
+    const config: Record<string, string> = {};
+    for (const [key, value] of Object.entries(variant.config || {})) {
+      if (!CONFIG_VALUES[key]?.includes(value as string)) {
+        throw new HttpsError("invalid-argument", `Invalid ${key} for variant ${variant.id}`);
+      }
+      config[key] = value as string;
+    }
+    return {id: variant.id, name: (variant.name || variant.id).toString().slice(0, 80), weight: variant.weight, config};
+  });
+
+  const totalWeight = validated.reduce((sum, v) => sum + v.weight, 0);
+  if (Math.abs(totalWeight - 100) > 0.1) {
+    throw new HttpsError("invalid-argument", `Variant weights must add up to 100 (got ${totalWeight})`);
+  }
+  return validated;
+}
+
+/**
+ * The prompt settings an experiment changes. The chat applies every running experiment the user
+ * is assigned to, so two running experiments may not change the same setting.
+ */
+function experimentConfigKeys(variants: ExperimentVariantDoc[]): string[] {
+  return [...new Set(variants.flatMap((variant) => Object.keys(variant.config)))];
+}
+
+function findConflictingExperiment(
+  experiments: Array<{id: string} & ExperimentDoc>,
+  variants: ExperimentVariantDoc[],
+  experimentId: string
+): {id: string; key: string} | null {
+  const keys = experimentConfigKeys(variants);
+  for (const experiment of experiments) {
+    if (experiment.id === experimentId || experiment.status !== 'running') continue;
+    const key = experimentConfigKeys(experiment.variants).find((k) => keys.includes(k));
+    if (key) return {id: experiment.id, key};
+  }
+  return null;
+}
+
+async function loadExperiments(): Promise<Array<{id: string} & ExperimentDoc>> {
+  const snapshot = await experimentsCollection().get();
+  return snapshot.docs.map((doc) => ({id: doc.id, ...(doc.data() as ExperimentDoc)}));
+}
+
+function pickVariant(variants: ExperimentVariantDoc[]): ExperimentVariantDoc {
+  let roll = Math.random() * 100;
+  for (const variant of variants) {
+    roll -= variant.weight;
+    if (roll < 0) return variant;
+  }
+  return variants[variants.length - 1];
+}
+
+async function seedDefaultExperiments(existing: Array<{id: string} & ExperimentDoc>): Promise<void> {
+  const now = Timestamp.now();
+  const existingIds = new Set(existing.map((experiment) => experiment.id));
+  await Promise.all(Object.entries(DEFAULT_EXPERIMENTS)
+    .filter(([id]) => !existingIds.has(id))
+    .map(async ([id, experiment]) => {
+      // An admin experiment already testing the same settings keeps running instead
+      const status: ExperimentStatus = findConflictingExperiment(existing, experiment.variants, id) ? 'stopped' : 'running';
+      const doc: ExperimentDoc = {...DEFAULT_DESIGN, ...experiment, status, createdAt: now, createdBy: 'system', updatedAt: now};
+      try {
+        await experimentsCollection().doc(id).create(doc);
+        logger.info(`Default experiment ${id} created`);
+      } catch (error) {
+        // Another instance seeded it first
+        logger.debug(`Default experiment ${id} already exists`, error);
+      }
+    }));
+}
+
+/**
+ * Returns the caller's variant for every running experiment. Variants are drawn once by
+ * weight and stored per user, so the same person sees the same variant on every device.
+ */
+export const getExperimentAssignments = onCall<{}, Promise<AssignmentsResponse>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const db = getFirestore();
+
+    let experiments = await loadExperiments();
+    if (Object.keys(DEFAULT_EXPERIMENTS).some((id) => !experiments.some((experiment) => experiment.id === id))) {
+      await seedDefaultExperiments(experiments);
+      experiments = await loadExperiments();
+    }
+    const running = experiments.filter((experiment) => experiment.status === 'running');
+
+    const assignmentRef = db.collection("experimentAssignments").doc(uid);
+    const assignments = await db.runTransaction(async (tx) => {
+      const stored = ((await tx.get(assignmentRef)).data()?.assignments || {}) as Record<string, string>;
+      const added: Record<string, string> = {};
+
+      for (const experiment of running) {
+        if (experiment.variants.some((v) => v.id === stored[experiment.id])) continue;
+        const variant = pickVariant(experiment.variants);
+        added[experiment.id] = variant.id;
+        tx.set(experimentsCollection().doc(experiment.id).collection("variantStats").doc(variant.id),
+          {assignedUsers: FieldValue.increment(1), updatedAt: Timestamp.now()}, {merge: true});
+      }
+      if (Object.keys(added).length > 0) {
+        tx.set(assignmentRef, {assignments: {...stored, ...added}, updatedAt: Timestamp.now()}, {merge: true});
+      }
+      return {...stored, ...added};
+    });
+
+    const response: AssignmentsResponse['assignments'] = {};
+    for (const experiment of running) {
+      const variant = experiment.variants.find((v) => v.id === assignments[experiment.id]);
+      if (variant) {
+        response[experiment.id] = {variantId: variant.id, config: variant.config};
+      }
+    }
+    return {success: true, assignments: response};
+  }
+);
+
+/**
+ * Stores assistant responses served under an experiment and adds them to the variant
+ * counters. Results for stopped experiments or for a variant other than the caller's
+ * assignment are skipped; re-sent results are ignored.
+ */
+export const recordExperimentResults = onCall<{results: ExperimentResultInput[]}, Promise<{success: boolean; recorded: number}>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const results = request.data?.results;
+    if (!Array.isArray(results) || results.length === 0 || results.length > MAX_RESULTS_PER_CALL) {
+      throw new HttpsError("invalid-argument", `results must contain 1-${MAX_RESULTS_PER_CALL} entries`);
+    }
+
+    const db = getFirestore();
+    const [assignmentDoc, experiments] = await Promise.all([
+      db.collection("experimentAssignments").doc(uid).get(),
+      experimentsCollection().where("status", "==", 'running').get(),
+    ]);
+    const assignments = (assignmentDoc.data()?.assignments || {}) as Record<string, string>;
+    const runningIds = new Set(experiments.docs.map((doc) => doc.id));
+
+    let recorded = 0;
+    await Promise.all(results.map(async (result) => {
+      if (!result || typeof result.resultId !== "string" || !RESULT_ID_PATTERN.test(result.resultId)) return;
+      if (!runningIds.has(result.experimentId) || assignments[result.experimentId] !== result.variantId) return;
+
+      const responseTime = Math.min(Math.max(Number(result.responseTime) || 0, 0), MAX_RESPONSE_TIME_MS);
+      const converted = result.converted === true;
+      try {
+        const created = await db.runTransaction(async (tx) => {
+          const resultRef = db.collection("experimentResults").doc(result.resultId);
+          if ((await tx.get(resultRef)).exists) return false;
+          tx.create(resultRef, {
+            experimentId: result.experimentId,
+            variantId: result.variantId,
+            userId: uid,
+            sessionId: typeof result.sessionId === "string" ? result.sessionId.slice(0, 100) : null,
+            responseTime,
+            messageLength: Math.max(Number(result.messageLength) || 0, 0),
+            converted,
+            feedback: null,
+            createdAt: Timestamp.now(),
+          });
+          tx.set(experimentsCollection().doc(result.experimentId).collection("variantStats").doc(result.variantId), {
+            exposures: FieldValue.increment(1),
+            conversions: FieldValue.increment(converted ? 1 : 0),
+            responseTimeSum: FieldValue.increment(responseTime),
+            updatedAt: Timestamp.now(),
+          }, {merge: true});
+          return true;
+        });
+        if (created) recorded++;
+      } catch (error) {
+        logger.error(`Recording experiment result ${result.resultId} failed:`, error);
+      }
+    }));
+
+    return {success: true, recorded};
+  }
+);
+
+/**
+ * Sets or clears the thumbs up/down on a recorded response. Changing an earlier vote
+ * moves it between counters instead of counting it twice.
+ */
+export const recordExperimentFeedback = onCall<{resultId: string; feedback: ExperimentFeedback | null}, Promise<{success: boolean}>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const {resultId, feedback} = request.data || ({} as {resultId: string; feedback: ExperimentFeedback | null});
+    if (typeof resultId !== "string" || !RESULT_ID_PATTERN.test(resultId)) {
+      throw new HttpsError("invalid-argument", "resultId is required");
+    }
+    if (feedback !== null && feedback !== 'thumbs_up' && feedback !== 'thumbs_down') {
+      throw new HttpsError("invalid-argument", "feedback must be thumbs_up, thumbs_down or null");
+    }
+
+    const db = getFirestore();
+    const resultRef = db.collection("experimentResults").doc(resultId);
+    await db.runTransaction(async (tx) => {
+      const result = (await tx.get(resultRef)).data();
+      if (!result || result.userId !== uid) {
+        throw new HttpsError("not-found", "Result not found");
+      }
+      const previous = result.feedback as ExperimentFeedback | null;
+      if (previous === feedback) return;
+
+      const feedbackDelta = (feedback ? 1 : 0) - (previous ? 1 : 0);
+      const positiveDelta = (feedback === 'thumbs_up' ? 1 : 0) - (previous === 'thumbs_up' ? 1 : 0);
+      tx.update(resultRef, {feedback, feedbackAt: Timestamp.now()});
+      tx.set(experimentsCollection().doc(result.experimentId).collection("variantStats").doc(result.variantId), {
+        feedbackCount: FieldValue.increment(feedbackDelta),
+        positiveFeedback: FieldValue.increment(positiveDelta),
+        updatedAt: Timestamp.now(),
+      }, {merge: true});
+    });
+
+    return {success: true};
+  }
+);
+
+/**
+ * Creates and starts an experiment (admin only). The first variant is the control. Only one
+ * running experiment may change each prompt setting.
+ */
+export const createExperiment = onCall<CreateExperimentRequest, Promise<{success: boolean; experimentId: string}>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = await requireAdmin(request.auth?.uid);
+    const data = request.data || ({} as CreateExperimentRequest);
+    if (typeof data.experimentId !== "string" || !EXPERIMENT_ID_PATTERN.test(data.experimentId)) {
+      throw new HttpsError("invalid-argument", "experimentId must be lowercase letters, digits or _ (3-40 characters)");
+    }
+    const name = typeof data.name === "string" ? data.name.trim() : "";
+    if (!name || name.length > 80) {
+      throw new HttpsError("invalid-argument", "name must be 1-80 characters");
+    }
+    const variants = validateVariants(data.variants);
+    if (experimentConfigKeys(variants).length === 0) {
+      throw new HttpsError("invalid-argument", "At least one variant must change a prompt setting");
+    }
+    const conflict = findConflictingExperiment(await loadExperiments(), variants, data.experimentId);
+    if (conflict) {
+      throw new HttpsError("failed-precondition", `Experiment ${conflict.id} is already testing ${conflict.key}, stop it first`);
+    }
+    const primaryMetric = data.primaryMetric ?? DEFAULT_DESIGN.primaryMetric;
+    if (primaryMetric !== 'successRate' && primaryMetric !== 'conversionRate') {
+      throw new HttpsError("invalid-argument", "primaryMetric must be successRate or conversionRate");
+    }
+    const alpha = data.alpha ?? DEFAULT_DESIGN.alpha;
+    const power = data.power ?? DEFAULT_DESIGN.power;
+    const minimumDetectableEffect = data.minimumDetectableEffect ?? DEFAULT_DESIGN.minimumDetectableEffect;
+    if (!(alpha > 0 && alpha <= 0.2) || !(power >= 0.5 && power < 1) || !(minimumDetectableEffect > 0 && minimumDetectableEffect <= 5)) {
+      throw new HttpsError("invalid-argument", "alpha must be in (0, 0.2], power in [0.5, 1) and minimumDetectableEffect in (0, 5]");
+    }
+
+    const now = Timestamp.now();
+    const experiment: ExperimentDoc = {
+      name,
+      ...(data.description ? {description: data.description.toString().slice(0, 500)} : {}),
+      variants,
+      status: 'running',
+      primaryMetric,
+      alpha,
+      power,
+      minimumDetectableEffect,
+      createdAt: now,
+      createdBy: uid,
+      updatedAt: now,
+    };
+    try {
+      await experimentsCollection().doc(data.experimentId).create(experiment);
+    } catch (error) {
+      throw new HttpsError("already-exists", `Experiment ${data.experimentId} already exists`);
+    }
+
+    logger.info(`Experiment ${data.experimentId} created by ${uid}`);
+    return {success: true, experimentId: data.experimentId};
+  }
+);
+
+/**
+ * Stops or restarts an experiment (admin only). Stopped experiments keep their data and
+ * assignments; clients fall back to the default prompt for them.
+ */
+export const setExperimentStatus = onCall<{experimentId: string; status: ExperimentStatus}, Promise<{success: boolean; status: ExperimentStatus}>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = await requireAdmin(request.auth?.uid);
+    const {experimentId, status} = request.data || ({} as {experimentId: string; status: ExperimentStatus});
+    if (status !== 'running' && status !== 'stopped') {
+      throw new HttpsError("invalid-argument", "status must be running or stopped");
+    }
+    const ref = experimentsCollection().doc(experimentId || "-");
+    const experiment = (await ref.get()).data() as ExperimentDoc | undefined;
+    if (!experiment) {
+      throw new HttpsError("not-found", "Experiment not found");
+    }
+    if (status === 'running') {
+      const conflict = findConflictingExperiment(await loadExperiments(), experiment.variants, experimentId);
+      if (conflict) {
+        throw new HttpsError("failed-precondition", `Experiment ${conflict.id} is already testing ${conflict.key}, stop it first`);
+      }
+    }
+
+    await ref.update({
+      status,
+      updatedAt: Timestamp.now(),
+      stoppedAt: status === 'stopped' ? Timestamp.now() : FieldValue.delete(),
+    });
+    logger.info(`Experiment ${experimentId} ${status} by ${uid}`);
+    return {success: true, status};
+  }
+);
+
+/**
+ * Report with confidence intervals, sequential significance and sample size plan (admin only).
+ */
+export const getExperimentReport = onCall<{experimentId: string}, Promise<{success: boolean; experimentId: string; name: string; status: ExperimentStatus; report: ExperimentReport}>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    await requireAdmin(request.auth?.uid);
+    const experimentId = request.data?.experimentId;
+    const ref = experimentsCollection().doc(experimentId || "-");
+    const [experimentDoc, statsSnapshot] = await Promise.all([ref.get(), ref.collection("variantStats").get()]);
+    const experiment = experimentDoc.data() as ExperimentDoc | undefined;
+    if (!experiment) {
+      throw new HttpsError("not-found", "Experiment not found");
+    }
+
+    const counters: Record<string, VariantCounters> = {};
+    for (const doc of statsSnapshot.docs) {
+      const data = doc.data();
+      counters[doc.id] = {
+        assignedUsers: data.assignedUsers || 0,
+        exposures: data.exposures || 0,
+        conversions: data.conversions || 0,
+        feedbackCount: data.feedbackCount || 0,
+        positiveFeedback: data.positiveFeedback || 0,
+        responseTimeSum: data.responseTimeSum || 0,
+      };
+    }
+
+    const report = buildExperimentReport(experiment.variants, counters, {
+      primaryMetric: experiment.primaryMetric,
+      alpha: experiment.alpha,
+      power: experiment.power,
+      minimumDetectableEffect: experiment.minimumDetectableEffect,
+    });
+    return {success: true, experimentId: experimentDoc.id, name: experiment.name, status: experiment.status, report};
+  }
+);
@@ -0,0 +1,109 @@
+import {createHash, createHmac, timingSafeEqual} from "crypto";
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentEvent,
+  PaymentEventType,
+  PaymentProvider,
+  RefundRequest,
+  RefundResult,
+  SubscriptionPeriod,
+} from "./payment-provider";
+
+// AI LOVVE - Deterministic in-process payment gateway for the emulator and local testing.
+// Ids are hashes of their inputs, so the same checkout always produces the same ids and events.
+
+const FAKE_WEBHOOK_SECRET = "fake_whsec_ailovve_local";
+const BILLING_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+
+// What the fake gateway needs to know about a checkout to complete it (stored in payments/{sessionId})
+export interface FakeCheckoutRecord {
+  id: string;
+  purpose: CheckoutRequest['purpose'];
+  userId: string;
+  metadata: Record<string, string>;
+  amount: number;
+  currency: string;
+  interval?: 'month';
+}
+
+export interface SignedWebhook {
+  rawBody: Buffer;
+  signature: string;
+}
+
+function fakeId(prefix: string, ...parts: unknown[]): string {
+  return `${prefix}_${createHash("sha256").update(JSON.stringify(parts)).digest("hex").substring(0, 24)}`;
+}
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake' as const;
+  readonly signatureHeader = "x-fake-signature";
+
+  // checkoutUrl is the fakeCheckout endpoint that plays the role of the hosted payment page
+  constructor(private readonly checkoutUrl: string) {}
+
+  async createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession> {
+    const id = fakeId("fake_cs", request.purpose, request.userId, request.metadata, request.item);
+    const params = new URLSearchParams({session: id});
+    return {id, url: `${this.checkoutUrl}?${params.toString()}`};
+  }
+
+  async verifyWebhook(rawBody: Buffer, signature: string | undefined): Promise<PaymentEvent> {
+    const expected = Buffer.from(this.sign(rawBody));
+    const received = Buffer.from(signature || "");
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new Error("Invalid fake gateway signature");
+    }
+    const event = JSON.parse(rawBody.toString("utf8"));
+    return {
+      ...event,
+      currentPeriodEnd: event.currentPeriodEnd ? new Date(event.currentPeriodEnd) : undefined,
+    };
+  }
+
+  async refund(request: RefundRequest): Promise<RefundResult> {
+    return {refundId: fakeId("fake_re", request.idempotencyKey), amount: request.amount};
+  }
+
+  async renewSubscription(subscriptionId: string): Promise<SubscriptionPeriod> {
+    // Fake subscriptions never lapse on the gateway side, cancellations are tracked on our side
+    return {subscriptionId, active: true, currentPeriodEnd: new Date(Date.now() + BILLING_PERIOD_MS)};
+  }
+
+  async cancelSubscription(): Promise<void> {
+    // Nothing to stop, renewals only happen when the sync job asks for them
+  }
+
+  /**
+   * The webhook the gateway would send once the user finishes (or abandons) the payment page.
+   */
+  simulateCheckout(checkout: FakeCheckoutRecord, outcome: 'success' | 'expired'): SignedWebhook {
+    const type: PaymentEventType = outcome === 'success' ? 'checkout.completed' : 'checkout.expired';
+    const subscriptionId = checkout.interval ? fakeId("fake_sub", checkout.id) : undefined;
+    return this.signEvent({
+      id: fakeId("fake_evt", checkout.id, type),
+      type,
+      provider: this.name,
+      checkoutSessionId: checkout.id,
+      metadata: checkout.metadata,
+      ...(outcome === 'success' ? {
+        customerId: fakeId("fake_cus", checkout.userId),
+        subscriptionId,
+        paymentId: fakeId("fake_pi", checkout.id),
+        amount: checkout.amount,
+        currency: checkout.currency,
+        currentPeriodEnd: subscriptionId ? new Date(Date.now() + BILLING_PERIOD_MS) : undefined,
+      } : {}),
+    });
+  }
+
+  private signEvent(event: PaymentEvent): SignedWebhook {
+    const rawBody = Buffer.from(JSON.stringify(event));
+    return {rawBody, signature: this.sign(rawBody)};
+  }
+
+  private sign(rawBody: Buffer): string {
+    return createHmac("sha256", FAKE_WEBHOOK_SECRET).update(rawBody).digest("hex");
+  }
+}
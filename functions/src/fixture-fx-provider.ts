@@ -0,0 +1,25 @@
+import {FxRateProvider} from "./fx-provider";
+
+// AI LOVVE - Fixed FX rates for the emulator and tests (no network)
+
+// Units per USD; the same fixture as src/utils/currency.ts
+const FIXTURE_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  TRY: 34.2,
+  GBP: 0.79,
+};
+
+export class FixtureFxProvider implements FxRateProvider {
+  readonly name = 'fixture' as const;
+
+  async fetchRates(base: string, currencies: string[]): Promise<Record<string, number>> {
+    const baseRate = FIXTURE_RATES[base];
+    if (!baseRate) throw new Error(`No fixture rate for ${base}`);
+    const rates: Record<string, number> = {};
+    for (const currency of currencies) {
+      if (FIXTURE_RATES[currency]) rates[currency] = FIXTURE_RATES[currency] / baseRate;
+    }
+    return rates;
+  }
+}
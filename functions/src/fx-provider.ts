@@ -0,0 +1,33 @@
+// AI LOVVE - FX rate provider abstraction (open.er-api.com in production, fixed fixture rates in the emulator)
+
+export type FxProviderName = 'exchangerate' | 'fixture';
+
+// Currencies packages are sold in and users can pick in settings
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'TRY', 'GBP'];
+export const FX_BASE_CURRENCY = 'USD';
+
+export interface FxRateProvider {
+  readonly name: FxProviderName;
+  // Units of each currency per one unit of base, the base itself included with 1
+  fetchRates(base: string, currencies: string[]): Promise<Record<string, number>>;
+}
+
+/**
+ * FX_PROVIDER picks the source explicitly; otherwise the emulator uses the fixture rates.
+ */
+export function resolveFxProviderName(): FxProviderName {
+  const configured = process.env.FX_PROVIDER;
+  if (configured === 'exchangerate' || configured === 'fixture') return configured;
+  return process.env.FUNCTIONS_EMULATOR === "true" ? 'fixture' : 'exchangerate';
+}
+
+/**
+ * Cross rate between two currencies from base-relative rates, null when either one is missing.
+ */
+export function crossRate(from: string, to: string, rates: Record<string, number>): number | null {
+  if (from === to) return 1;
+  const fromRate = rates[from];
+  const toRate = rates[to];
+  if (!(fromRate > 0) || !(toRate > 0)) return null;
+  return toRate / fromRate;
+}
@@ -0,0 +1,131 @@
+import * as logger from "firebase-functions/logger";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {
+  crossRate,
+  FX_BASE_CURRENCY,
+  FxProviderName,
+  FxRateProvider,
+  resolveFxProviderName,
+  SUPPORTED_CURRENCIES,
+} from "./fx-provider";
+import {ExchangeRateFxProvider} from "./exchangerate-fx-provider";
+import {FixtureFxProvider} from "./fixture-fx-provider";
+
+// AI LOVVE - FX rate store
+// fxRates/latest        rates the app converts with (public read, see firestore.rules)
+// fxRates/{YYYY-MM-DD}  last rates fetched on that day, kept as history
+
+export interface FxRatesDoc {
+  base: string;
+  rates: Record<string, number>; // Units per one unit of base
+  provider: FxProviderName;
+  fetchedAt: Timestamp;
+}
+
+// Rate locked into a quote and the booking made from it; the booking is still charged in pricing.currency
+export interface FxLock {
+  currency: string;
+  rate: number; // Units of currency per unit of pricing.currency
+  totalPrice: number; // pricing.totalPrice converted at rate
+  ratesAt: string; // ISO time the rates were fetched
+  provider: FxProviderName;
+}
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+// Older rates are not used to convert prices
+const MAX_RATE_AGE_MS = 3 * 24 * 60 * 60 * 1000;
+
+let cached: {rates: FxRatesDoc; loadedAt: number} | null = null;
+
+export function getFxRateProvider(): FxRateProvider {
+  return resolveFxProviderName() === 'fixture' ? new FixtureFxProvider() : new ExchangeRateFxProvider();
+}
+
+async function storeFxRates(): Promise<FxRatesDoc> {
+  const provider = getFxRateProvider();
+  const rates = await provider.fetchRates(FX_BASE_CURRENCY, SUPPORTED_CURRENCIES);
+  const missing = SUPPORTED_CURRENCIES.filter((currency) => !rates[currency]);
+  if (missing.length > 0) {
+    throw new Error(`FX provider ${provider.name} returned no rate for ${missing.join(", ")}`);
+  }
+
+  const now = Timestamp.now();
+  const doc: FxRatesDoc = {base: FX_BASE_CURRENCY, rates, provider: provider.name, fetchedAt: now};
+  const day = now.toDate().toISOString().slice(0, 10);
+  const db = getFirestore();
+  const batch = db.batch();
+  batch.set(db.collection("fxRates").doc("latest"), doc);
+  batch.set(db.collection("fxRates").doc(day), doc);
+  await batch.commit();
+
+  cached = {rates: doc, loadedAt: Date.now()};
+  logger.info(`FX rates stored from ${provider.name}`, rates);
+  return doc;
+}
+
+/**
+ * Latest stored rates, fetched on first use when the store is still empty. Null when they are
+ * too old or unavailable, callers then keep prices in the package currency.
+ */
+export async function loadFxRates(): Promise<FxRatesDoc | null> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.rates;
+  }
+  try {
+    const snapshot = await getFirestore().collection("fxRates").doc("latest").get();
+    const rates = snapshot.exists ? snapshot.data() as FxRatesDoc : await storeFxRates();
+    if (Date.now() - rates.fetchedAt.toMillis() > MAX_RATE_AGE_MS) {
+      logger.warn(`FX rates from ${rates.fetchedAt.toDate().toISOString()} are too old to use`);
+      return null;
+    }
+    cached = {rates, loadedAt: Date.now()};
+    return rates;
+  } catch (error) {
+    logger.error("Error loading FX rates:", error);
+    return null;
+  }
+}
+
+/**
+ * Currency the user picked in settings (users/{uid}/settings/preferences), if it is one we convert to.
+ */
+export async function preferredCurrency(uid: string): Promise<string | undefined> {
+  const settings = (await getFirestore().doc(`users/${uid}/settings/preferences`).get()).data();
+  const currency = settings?.currency;
+  return typeof currency === "string" && SUPPORTED_CURRENCIES.includes(currency) ? currency : undefined;
+}
+
+/**
+ * Converts a total with the current rates and records the rate used, null when there are no usable rates.
+ */
+export async function lockFxRate(totalPrice: number, from: string, to: string): Promise<FxLock | null> {
+  const fx = await loadFxRates();
+  const rate = fx ? crossRate(from, to, fx.rates) : null;
+  if (!fx || rate === null) return null;
+  return {
+    currency: to,
+    rate: Math.round(rate * 1e6) / 1e6,
+    totalPrice: Math.round(totalPrice * rate * 100) / 100,
+    ratesAt: fx.fetchedAt.toDate().toISOString(),
+    provider: fx.provider,
+  };
+}
+
+/**
+ * Refreshes the stored rates every 6 hours; on failure the previous rates stay in place.
+ */
+export const refreshFxRates = onSchedule(
+  {
+    schedule: "every 6 hours",
+    timeZone: "Europe/Istanbul",
+    region: "europe-west1",
+  },
+  async () => {
+    try {
+      await storeFxRates();
+    } catch (error) {
+      logger.error("FX rate refresh failed, keeping the previous rates:", error);
+    }
+  }
+);
@@ -0,0 +1,30 @@
+import {GoogleGenerativeAI, TaskType} from "@google/generative-ai";
+import {EmbeddingKind, EmbeddingProvider, normalizeVector} from "./embedding-provider";
+
+// AI LOVVE - Gemini text embeddings
+
+const EMBEDDING_MODEL = "text-embedding-004";
+const MAX_BATCH_SIZE = 100; // batchEmbedContents limit
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'gemini' as const;
+  readonly model = EMBEDDING_MODEL;
+  readonly dimension = 768;
+
+  constructor(private readonly apiKey: string) {}
+
+  async embed(texts: string[], kind: EmbeddingKind): Promise<number[][]> {
+    const model = new GoogleGenerativeAI(this.apiKey).getGenerativeModel({model: EMBEDDING_MODEL});
+    const taskType = kind === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT;
+
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += MAX_BATCH_SIZE) {
+      const batch = texts.slice(i, i + MAX_BATCH_SIZE);
+      const result = await model.batchEmbedContents({
+        requests: batch.map((text) => ({content: {role: "user", parts: [{text}]}, taskType})),
+      });
+      vectors.push(...result.embeddings.map((e) => normalizeVector(e.values)));
+    }
+    return vectors;
+  }
+}
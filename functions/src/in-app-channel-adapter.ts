@@ -0,0 +1,22 @@
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {ChannelAdapter, DeliveryResult, OutboundMessage} from "./channel-adapter";
+
+// AI LOVVE - In-app messages, stored for the client to show (users/{uid}/inbox/{messageId})
+
+export class InAppChannelAdapter implements ChannelAdapter {
+  readonly channel = 'in_app' as const;
+
+  async send(message: OutboundMessage): Promise<DeliveryResult> {
+    const {content} = message;
+    // Keyed by the message id, so a retried send overwrites instead of duplicating
+    await getFirestore().collection("users").doc(message.recipient.userId).collection("inbox").doc(message.id).set({
+      campaignId: message.campaignId,
+      title: content.title || content.subject || "",
+      body: content.body,
+      cta: content.cta || [],
+      read: false,
+      createdAt: Timestamp.now(),
+    });
+    return {providerMessageId: message.id};
+  }
+}
@@ -10,17 +10,27 @@
 import * as logger from "firebase-functions/logger";
 import {initializeApp} from "firebase-admin/app";
 import {getFirestore, Timestamp} from "firebase-admin/firestore";
-import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {HttpsError, onCall, onRequest} from "firebase-functions/v2/https";
 import {defineSecret} from "firebase-functions/params";
-import * as nodemailer from "nodemailer";
+import {createMailTransport, emailConfig, mailSender, readMailConfig} from "./mail-transport";
+import {findSuppression} from "./consent-store";
 
 import {
   GoogleGenerativeAI,
-  HarmCategory,
-  HarmBlockThreshold,
   Content,
   Part,
 } from "@google/generative-ai";
+import {GeminiModelConfig, resolveModelForCaller, toSafetySettings} from "./model-registry";
+import {consumeMessageQuota, QuotaStatus, refundMessageQuota} from "./quota";
+import {
+  buildMemoryInstruction,
+  deleteSessionMemory,
+  loadSessionMemory,
+  PinnedFacts,
+  updateSessionMemory,
+} from "./conversation-memory";
+import {executePackageTools, MAX_TOOL_ROUNDS, PACKAGE_TOOL_DECLARATIONS} from "./package-tools";
+import {sessionMemoryOwner} from "./couples";
 
 // CORS configuration for Firebase Functions v2
 const allowedOrigins = [
@@ -37,6 +47,20 @@ initializeApp();
 
 // Import AI functions
 export * from './ai-functions';
+export * from './model-registry';
+export * from './bookings';
+export * from './payments';
+export * from './reviews';
+export * from './package-embeddings';
+export * from './experiments';
+export * from './marketing-delivery';
+export * from './consent';
+export * from './proactive-notifications';
+export * from './watchlists';
+export * from './pricing';
+export * from './fx-rates';
+export * from './couples';
+export * from './advice';
 // Use default database for both development and production
 const db = getFirestore();
 console.log("Using default Firestore database");
@@ -46,9 +70,6 @@ console.log("Using default Firestore database");
 // firebase functions:secrets:set GEMINI_KEY
 const geminiKey = defineSecret("GEMINI_KEY");
 
-// Gemini Model Name
-const MODEL_NAME = "gemini-1.5-flash-8b"; // Fastest model
-
 // --- Interfaces ---
 interface AppMessagePart { // Clarify Part interface
   text?: string;
@@ -63,6 +84,8 @@ interface AppMessage {
   sessionId?: string;
   userId?: string;
   createdAt?: Timestamp;
+  cancelled?: boolean; // Set on model turns whose stream was aborted by the client
+  packageIds?: string[]; // Packages returned by the model's tool calls, rendered in PackageCarousel
 }
 
 // Honeymoon Package Interfaces
@@ -108,12 +131,16 @@ interface GeminiRequestData {
   sessionId: string;
   userId?: string;
   systemInstruction?: string;
+  modelId?: string; // Registry id chosen in the client model selector, e.g. "ai-lovv3"
+  pinnedFacts?: PinnedFacts; // contextManager.extractUserPreferences output, kept in session memory
 }
 
 interface GeminiResponse {
   success: boolean;
   message?: string;
   generatedContent?: AppMessage; // Modelin ürettiği tek bir mesaj
+  packageIds?: string[];
+  quota?: QuotaStatus; // Remaining messages after this request
   error?: unknown;
 }
 
@@ -130,13 +157,114 @@ interface ChatHistoryResponse {
   error?: unknown;
 }
 
-// Safety Settings
-const safetySettings = [
-  {category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE},
-  {category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE},
-  {category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE},
-  {category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE},
-];
+/**
+ * Builds a Gemini chat session from the client payload.
+ * Shared by the callable and the streaming endpoint so both use the same model setup.
+ * The session memory (pinned facts + rolling summary) is added to the system instruction.
+ */
+function prepareGeminiChat(
+  apiKey: string,
+  data: GeminiRequestData,
+  modelConfig: GeminiModelConfig,
+  memoryInstruction = "",
+) {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const model = genAI.getGenerativeModel({
+    model: modelConfig.model,
+    generationConfig: {
+      maxOutputTokens: modelConfig.maxTokens,
+      temperature: modelConfig.temperature,
+      topP: modelConfig.topP ?? 0.9,
+      topK: modelConfig.topK ?? 32,
+      candidateCount: 1, // Single best response
+      stopSequences: ["END_RESPONSE"] // Emergency stop if needed
+    },
+    // Package lookups and watchlist alerts run server-side, see package-tools.ts
+    tools: [{functionDeclarations: PACKAGE_TOOL_DECLARATIONS}],
+  });
+
+  const {messages, systemInstruction} = data;
+
+  // Prepare system instruction if provided
+  const instructionText = [systemInstruction, memoryInstruction].filter(Boolean).join("\n\n");
+  let systemInstructionContent: Content | undefined = undefined;
+  if (instructionText) {
+    systemInstructionContent = {
+      parts: [{text: instructionText}],
+      role: "user" // System instruction is treated as user input by the API
+    };
+  }
+
+  // Convert messages array from client to Content[] format expected by Gemini.
+  // Improved context: Use last 6 messages for better conversation flow
+  const recentMessages = messages.slice(-6); // Increased from 3 to 6 messages
+  let historyForGemini: Content[] = recentMessages.slice(0, -1).map((msg) => ({
+    role: msg.role,
+    parts: msg.parts as Part[], // Type casting, assuming client sends correct format
+  }));
+
+  // Ensure first message in history is from 'user' role
+  // If first message is from 'model', start with empty history
+  if (historyForGemini.length > 0 && historyForGemini[0].role === 'model') {
+    logger.info("First message was from model, using empty history");
+    historyForGemini = [];
+  }
+
+  const lastUserMessageParts = recentMessages[recentMessages.length - 1].parts as Part[];
+
+  const chat = model.startChat({
+    history: historyForGemini,
+    safetySettings: toSafetySettings(modelConfig),
+    ...(systemInstructionContent && {systemInstruction: systemInstructionContent}),
+  });
+
+  return {chat, lastUserMessageParts};
+}
+
+/**
+ * Saves the user's last message and the model's reply to the conversations collection.
+ * Firestore errors are logged and swallowed so the user still gets the generated response.
+ */
+async function saveConversationTurns(
+  messages: AppMessage[],
+  modelResponse: AppMessage | null, // Null when no reply was generated, only the user turn is kept
+  sessionId: string,
+  userId?: string,
+): Promise<void> {
+  const conversationRef = db.collection("conversations");
+  const userMessageToSave: AppMessage = {
+    ...messages[messages.length - 1], // Last message from client
+    sessionId: sessionId,
+    userId: userId,
+    createdAt: Timestamp.now(), // Server timestamp
+  };
+
+  // Parallel database operations for speed
+  try {
+    logger.info("Attempting to save to Firestore...");
+
+    // Parallel saving - use Promise.all instead of await
+    const [userDoc, modelDoc] = await Promise.all([
+      conversationRef.add(userMessageToSave),
+      modelResponse ? conversationRef.add(modelResponse) : Promise.resolve(null)
+    ]);
+
+    logger.info("User message saved successfully, ID:", userDoc.id);
+    if (modelDoc) {
+      logger.info("Model response saved successfully, ID:", modelDoc.id);
+    }
+    logger.info("Messages saved to Firestore successfully");
+  } catch (firestoreError) {
+    logger.error("Error saving to Firestore:", firestoreError);
+    // Better error details
+    if (firestoreError instanceof Error) {
+      logger.error("Firestore error message:", firestoreError.message);
+      logger.error("Firestore error stack:", firestoreError.stack);
+    }
+    // Return Gemini response to user even if Firestore error occurs
+    logger.warn("Continuing with response despite Firestore error");
+  }
+}
 
 /**
  * Generates a response from the Gemini API and saves the conversation to Firestore.
@@ -151,12 +279,17 @@ export const generateGeminiResponse = onCall<GeminiRequestData, Promise<GeminiRe
     cors: allowedOrigins
   },
   async (request) => {
-    // Remove auth context check - allow public access
-    logger.info("generateGeminiResponse called (public access)", { 
+    logger.info("generateGeminiResponse called", { 
       hasData: !!request.data,
       messagesCount: request.data?.messages?.length || 0 
     });
 
+    // Quotas are keyed by the authenticated uid, so anonymous calls are rejected
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError("unauthenticated", "Authentication required");
+    }
+
     // Get API key from secret
     const apiKey = geminiKey.value();
     if (!apiKey) {
@@ -164,20 +297,8 @@ export const generateGeminiResponse = onCall<GeminiRequestData, Promise<GeminiRe
       throw new HttpsError("failed-precondition", "Gemini API key is not configured.");
     }
 
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({
-      model: MODEL_NAME,
-      generationConfig: {
-        maxOutputTokens: 512, // Increased for better responses
-        temperature: 0.8, // More creativity for luxury planning
-        topP: 0.9, // Better for creative writing  
-        topK: 32, // Optimized balance
-        candidateCount: 1, // Single best response
-        stopSequences: ["END_RESPONSE"] // Emergency stop if needed
-      }
-    });
-
-    const {messages, sessionId, userId, systemInstruction} = request.data;
+    const {messages, sessionId} = request.data;
+    const userId = uid;
 
     if (!messages || messages.length === 0) {
       logger.warn("No messages provided for Gemini.");
@@ -188,40 +309,26 @@ export const generateGeminiResponse = onCall<GeminiRequestData, Promise<GeminiRe
       throw new HttpsError("invalid-argument", "Session ID is required.");
     }
 
-    // Prepare system instruction if provided
-    let systemInstructionContent: Content | undefined = undefined;
-    if (systemInstruction) {
-      systemInstructionContent = {
-        parts: [{text: systemInstruction}],
-        role: "user" // System instruction is treated as user input by the API
-      };
-    }
-
-    // Convert messages array from client to Content[] format expected by Gemini.
-    // Improved context: Use last 6 messages for better conversation flow
-    const recentMessages = messages.slice(-6); // Increased from 3 to 6 messages
-    let historyForGemini: Content[] = recentMessages.slice(0, -1).map((msg) => ({
-      role: msg.role,
-      parts: msg.parts as Part[], // Type casting, assuming client sends correct format
-    }));
-
-    // Ensure first message in history is from 'user' role
-    // If first message is from 'model', start with empty history
-    if (historyForGemini.length > 0 && historyForGemini[0].role === 'model') {
-      logger.info("First message was from model, using empty history");
-      historyForGemini = [];
-    }
-
-    const lastUserMessageParts = recentMessages[recentMessages.length - 1].parts as Part[];
+    // Couple sessions are shared by both partners, checked before any quota is used
+    const memoryOwner = await sessionMemoryOwner(sessionId, uid);
+    // Plan gating is based on the verified caller, never the client supplied userId
+    const modelConfig = await resolveModelForCaller(request.data.modelId, uid);
+    const quota = await consumeMessageQuota(uid);
 
     try {
-      const chat = model.startChat({
-        history: historyForGemini,
-        safetySettings,
-        ...(systemInstructionContent && {systemInstruction: systemInstructionContent}),
-      });
-
-      const result = await chat.sendMessage(lastUserMessageParts);
+      const memory = await loadSessionMemory(sessionId, memoryOwner);
+      const memoryInstruction = buildMemoryInstruction(memory, request.data.pinnedFacts);
+      const {chat, lastUserMessageParts} = prepareGeminiChat(apiKey, request.data, modelConfig, memoryInstruction);
+
+      let result = await chat.sendMessage(lastUserMessageParts);
+
+      // Answer the model's package lookups until it replies with text
+      const packageIds: string[] = [];
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const calls = result.response?.functionCalls();
+        if (!calls?.length) break;
+        result = await chat.sendMessage(await executePackageTools(calls, packageIds, uid));
+      }
       const response = result.response;
 
       if (!response) {
@@ -237,46 +344,23 @@ export const generateGeminiResponse = onCall<GeminiRequestData, Promise<GeminiRe
         userId: userId,
         createdAt: Timestamp.now(),
       };
+      if (packageIds.length > 0) {
+        modelResponse.packageIds = packageIds;
+      }
 
       // Save user's last message and model's response to Firestore
-      const conversationRef = db.collection("conversations");
-      const userMessageToSave: AppMessage = {
-        ...messages[messages.length - 1], // Last message from client
-        sessionId: sessionId,
-        userId: userId,
-        createdAt: Timestamp.now(), // Server timestamp
-      };
-      
-      // Parallel database operations for speed
-      try {
-        logger.info("Attempting to save to Firestore...");
-        
-        // Parallel saving - use Promise.all instead of await
-        const [userDoc, modelDoc] = await Promise.all([
-          conversationRef.add(userMessageToSave),
-          conversationRef.add(modelResponse)
-        ]);
-        
-        logger.info("User message saved successfully, ID:", userDoc.id);
-        logger.info("Model response saved successfully, ID:", modelDoc.id);
-        logger.info("Messages saved to Firestore successfully");
-      } catch (firestoreError) {
-        logger.error("Error saving to Firestore:", firestoreError);
-        // Better error details
-        if (firestoreError instanceof Error) {
-          logger.error("Firestore error message:", firestoreError.message);
-          logger.error("Firestore error stack:", firestoreError.stack);
-        }
-        // Return Gemini response to user even if Firestore error occurs
-        logger.warn("Continuing with response despite Firestore error");
-      }
+      await saveConversationTurns(messages, modelResponse, sessionId, userId);
+      await updateSessionMemory(apiKey, sessionId, memoryOwner, request.data.pinnedFacts);
 
       return {
         success: true,
         generatedContent: modelResponse,
+        packageIds,
+        quota,
       };
     } catch (e: unknown) {
       logger.error("Error calling Gemini API or saving to Firestore:", e);
+      await refundMessageQuota(uid);
       let message = "Internal server error";
       let details;
       if (e instanceof Error) {
@@ -291,6 +375,169 @@ export const generateGeminiResponse = onCall<GeminiRequestData, Promise<GeminiRe
   },
 );
 
+/**
+ * Streams a Gemini response to the client as Server-Sent Events.
+ *
+ * Events:
+ * - `data: {"text": "..."}` for every generated chunk
+ * - `event: done` once the model has finished
+ * - `event: error` with `{"message": "..."}` if generation fails mid-stream
+ *
+ * Both turns are persisted when the stream completes, or with the partial
+ * text (flagged `cancelled`) when the client disconnects early. If nothing was
+ * generated only the user turn is persisted and the message quota is refunded.
+ */
+export const streamGeminiResponse = onRequest(
+  {
+    region: "europe-west1",
+    secrets: [geminiKey],
+    memory: "512MiB",
+    timeoutSeconds: 120,
+    cors: allowedOrigins
+  },
+  async (req, res) => {
+    if (req.method !== "POST") {
+      res.status(405).json({success: false, message: "Method not allowed."});
+      return;
+    }
+
+    const data = req.body as GeminiRequestData;
+    logger.info("streamGeminiResponse called", {
+      hasData: !!data,
+      messagesCount: data?.messages?.length || 0
+    });
+
+    if (!data?.messages || data.messages.length === 0) {
+      res.status(400).json({success: false, message: "No messages provided."});
+      return;
+    }
+    if (!data.sessionId) {
+      res.status(400).json({success: false, message: "Session ID is required."});
+      return;
+    }
+
+    const apiKey = geminiKey.value();
+    if (!apiKey) {
+      logger.error("Gemini API key is not configured. Make sure to set GEMINI_KEY secret.");
+      res.status(412).json({success: false, message: "Gemini API key is not configured."});
+      return;
+    }
+
+    // Quotas are keyed by the verified Firebase uid, never the client supplied userId
+    const authHeader = req.headers.authorization;
+    if (!authHeader?.startsWith("Bearer ")) {
+      res.status(401).json({success: false, code: "unauthenticated", message: "Authentication required"});
+      return;
+    }
+    let userId: string;
+    try {
+      const {getAuth} = await import('firebase-admin/auth');
+      const decoded = await getAuth().verifyIdToken(authHeader.substring(7));
+      userId = decoded.uid;
+    } catch (authError) {
+      logger.warn("Invalid ID token on streamGeminiResponse", authError);
+      res.status(401).json({success: false, code: "unauthenticated", message: "Invalid ID token"});
+      return;
+    }
+
+    let modelConfig: GeminiModelConfig;
+    let memoryOwner: string;
+    try {
+      memoryOwner = await sessionMemoryOwner(data.sessionId, userId);
+      modelConfig = await resolveModelForCaller(data.modelId, userId);
+      await consumeMessageQuota(userId);
+    } catch (e: unknown) {
+      if (e instanceof HttpsError) {
+        res.status(e.httpErrorCode.status).json({success: false, code: e.code, message: e.message, details: e.details});
+        return;
+      }
+      logger.error("Error preparing streamGeminiResponse:", e);
+      res.status(500).json({success: false, code: "internal", message: "Internal server error"});
+      return;
+    }
+
+    let cancelled = false;
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        cancelled = true;
+        logger.info(`Client closed stream for session ${data.sessionId.substring(0, 8)}...`);
+      }
+    });
+
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+
+    let generatedText = "";
+    const packageIds: string[] = [];
+    try {
+      const memory = await loadSessionMemory(data.sessionId, memoryOwner);
+      const memoryInstruction = buildMemoryInstruction(memory, data.pinnedFacts);
+      const {chat, lastUserMessageParts} = prepareGeminiChat(apiKey, data, modelConfig, memoryInstruction);
+      let result = await chat.sendMessageStream(lastUserMessageParts);
+
+      for (let round = 0; ; round++) {
+        for await (const chunk of result.stream) {
+          if (cancelled) break;
+          const text = chunk.text();
+          if (!text) continue;
+          generatedText += text;
+          res.write(`data: ${JSON.stringify({text})}\n\n`);
+        }
+        if (cancelled || round >= MAX_TOOL_ROUNDS) break;
+
+        // Answer the model's package lookups, then stream its follow-up turn
+        const calls = (await result.response).functionCalls();
+        if (!calls?.length) break;
+        result = await chat.sendMessageStream(await executePackageTools(calls, packageIds, userId));
+      }
+
+      if (!cancelled && packageIds.length > 0) {
+        res.write(`event: packages\ndata: ${JSON.stringify({packageIds})}\n\n`);
+      }
+
+      if (!cancelled) {
+        res.write(`event: done\ndata: ${JSON.stringify({success: true})}\n\n`);
+      }
+    } catch (e: unknown) {
+      logger.error("Error streaming from Gemini API:", e);
+      if (!cancelled) {
+        const message = e instanceof Error ? e.message : "Internal server error";
+        res.write(`event: error\ndata: ${JSON.stringify({message})}\n\n`);
+      }
+    }
+
+    if (!generatedText) {
+      // Nothing reached the user, so the message shouldn't count against the quota,
+      // but it stays in the history like any other message they sent
+      await refundMessageQuota(userId);
+      await saveConversationTurns(data.messages, null, data.sessionId, userId);
+    } else {
+      const modelResponse: AppMessage = {
+        role: "model",
+        parts: [{text: generatedText}],
+        sessionId: data.sessionId,
+        userId: userId,
+        createdAt: Timestamp.now(),
+      };
+      if (cancelled) {
+        modelResponse.cancelled = true;
+      }
+      if (packageIds.length > 0) {
+        modelResponse.packageIds = packageIds;
+      }
+      await saveConversationTurns(data.messages, modelResponse, data.sessionId, userId);
+      await updateSessionMemory(apiKey, data.sessionId, memoryOwner, data.pinnedFacts);
+    }
+
+    if (!res.writableEnded) {
+      res.end();
+    }
+  }
+);
+
 /**
  * Retrieves chat history from Firestore for a given session ID.
  */
@@ -303,10 +550,10 @@ async function getChatHistoryInternal(
     return [];
   }
   try {
-    // Temporarily remove orderBy to avoid index requirement
-    // TODO: Re-add .orderBy("createdAt", "asc") once the composite index is created
+    // Newest first so the limit keeps the latest turns (sessionId + createdAt index)
     const query = db.collection("conversations")
       .where("sessionId", "==", sessionId)
+      .orderBy("createdAt", "desc")
       .limit(limitCount);
 
     const snapshot = await query.get();
@@ -316,7 +563,7 @@ async function getChatHistoryInternal(
       history.push(data);
     });
     
-    // Sort by createdAt in JavaScript since we can't use orderBy without index
+    // Return in chronological order
     history.sort((a, b) => {
       const aTime = a.createdAt?.toMillis() || 0;
       const bTime = b.createdAt?.toMillis() || 0;
@@ -354,6 +601,8 @@ export const getGeminiChatHistory = onCall<ChatHistoryRequestData, Promise<ChatH
       logger.warn("Session ID is required for chat history.");
       throw new HttpsError("invalid-argument", "Session ID is required.");
     }
+    // Only the partners can read a couple's shared session
+    await sessionMemoryOwner(sessionId, request.auth?.uid || "");
 
     try {
       const history = await getChatHistoryInternal(sessionId, limit);
@@ -398,6 +647,7 @@ export const deleteGeminiChatHistory = onCall<{ sessionId: string }, Promise<{ s
       logger.warn("Session ID is required for chat deletion.");
       throw new HttpsError("invalid-argument", "Session ID is required.");
     }
+    await sessionMemoryOwner(sessionId, request.auth?.uid || "");
 
     try {
       // Find all conversations with this sessionId
@@ -405,6 +655,7 @@ export const deleteGeminiChatHistory = onCall<{ sessionId: string }, Promise<{ s
         .where("sessionId", "==", sessionId);
 
       const snapshot = await query.get();
+      await deleteSessionMemory(sessionId);
       
       if (snapshot.empty) {
         logger.info(`No conversations found for session ${sessionId.substring(0, 8)}...`);
@@ -716,9 +967,6 @@ export const initializeHoneymoonPackages = onCall<{}, Promise<{success: boolean;
   }
 );
 
-// Email OTP secret for SMTP configuration
-const emailConfig = defineSecret("EMAIL_CONFIG");
-
 interface EmailOTPRequest {
   email: string;
 }
@@ -751,6 +999,11 @@ export const sendEmailOTP = onCall<EmailOTPRequest, Promise<EmailOTPResponse>>(
         throw new HttpsError("invalid-argument", "Email is required");
       }
 
+      // Bounced or complained addresses get no mail at all, codes included
+      if (await findSuppression(email, 'all')) {
+        throw new HttpsError("failed-precondition", "This email address cannot receive email from us");
+      }
+
       // Generate 6-digit OTP code
       const otpCode = Math.floor(100000 + Math.random() * 900000).toString();
       
@@ -768,26 +1021,18 @@ export const sendEmailOTP = onCall<EmailOTPRequest, Promise<EmailOTPResponse>>(
       await otpRef.set(otpData);
 
       // Get email configuration
-      const emailConfigValue = emailConfig.value();
-      if (!emailConfigValue) {
+      const config = readMailConfig();
+      if (!config) {
         logger.error("Email configuration not found");
         throw new HttpsError("failed-precondition", "Email service not configured");
       }
 
-      const config = JSON.parse(emailConfigValue);
-
       // Create transporter
-      const transporter = nodemailer.createTransport({
-        service: config.service || 'gmail',
-        auth: {
-          user: config.user,
-          pass: config.password
-        }
-      });
+      const transporter = createMailTransport(config);
 
       // Email content
       const mailOptions = {
-        from: `"AI LOVVE" <${config.user}>`,
+        from: mailSender(config),
         to: email,
         subject: "🔐 Your AI LOVVE Verification Code",
         html: `
@@ -0,0 +1,63 @@
+import {EmbeddingKind, EmbeddingProvider, normalizeVector} from "./embedding-provider";
+
+// AI LOVVE - Deterministic local embeddings for the emulator and tests (no network, no API key)
+
+const DIMENSION = 256;
+const TRIGRAM_WEIGHT = 0.5;
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'are',
+  've', 'veya', 'ile', 'için', 'bir', 'bu', 'şu', 'de', 'da', 'mi', 'çok',
+]);
+
+const TURKISH_FOLDING: Record<string, string> = {ç: 'c', ğ: 'g', ı: 'i', ö: 'o', ş: 's', ü: 'u'};
+
+// FNV-1a, 32 bit
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLocaleLowerCase('tr')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map((word) => word.replace(/[çğıöşü]/g, (c) => TURKISH_FOLDING[c]));
+}
+
+/**
+ * Feature hashing over words and character trigrams: texts sharing words or word
+ * fragments ("romantic" / "romantik") end up close, which is enough to exercise ranking.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local' as const;
+  readonly model = `local-hashing-${DIMENSION}`;
+  readonly dimension = DIMENSION;
+
+  async embed(texts: string[], _kind: EmbeddingKind): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array(DIMENSION).fill(0);
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature);
+      // The sign bit keeps unrelated collisions from always adding up
+      vector[h % DIMENSION] += (h & 0x80000000) ? -weight : weight;
+    };
+
+    for (const word of tokenize(text)) {
+      add(`w:${word}`, 1);
+      const padded = `^${word}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+    return normalizeVector(vector);
+  }
+}
@@ -0,0 +1,38 @@
+import * as nodemailer from "nodemailer";
+import {defineSecret} from "firebase-functions/params";
+
+// AI LOVVE - SMTP setup shared by the OTP mails and the marketing email channel
+
+// JSON: {"service": "gmail", "user": "...", "password": "..."}
+// SendGrid uses its SMTP relay: {"host": "smtp.sendgrid.net", "port": 587, "user": "apikey", "password": "SG...", "from": "hello@lovve.tech"}
+export const emailConfig = defineSecret("EMAIL_CONFIG");
+
+export interface MailConfig {
+  service?: string;
+  host?: string;
+  port?: number;
+  user: string;
+  password: string;
+  from?: string; // Sender address when it differs from the login (SendGrid)
+}
+
+export function readMailConfig(): MailConfig | null {
+  const value = emailConfig.value();
+  return value ? JSON.parse(value) as MailConfig : null;
+}
+
+export function createMailTransport(config: MailConfig): nodemailer.Transporter {
+  return nodemailer.createTransport(config.host ? {
+    host: config.host,
+    port: config.port || 587,
+    secure: config.port === 465,
+    auth: {user: config.user, pass: config.password},
+  } : {
+    service: config.service || 'gmail',
+    auth: {user: config.user, pass: config.password},
+  });
+}
+
+export function mailSender(config: MailConfig): string {
+  return `"AI LOVVE" <${config.from || config.user}>`;
+}
@@ -0,0 +1,468 @@
+import * as logger from "firebase-functions/logger";
+import {FieldValue, getFirestore, Timestamp} from "firebase-admin/firestore";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {
+  DELIVERY_CHANNELS,
+  DeliveryChannel,
+  DeliveryError,
+  MessageContent,
+  OutboundMessage,
+  Recipient,
+} from "./channel-adapter";
+import {DELIVERY_SECRETS, getChannelAdapter} from "./channel-gateway";
+import {
+  addSuppression,
+  checkDeliveryConsent,
+  CONSENT_CATEGORIES,
+  CONSENT_SECRETS,
+  ConsentCategory,
+  unsubscribeUrl,
+} from "./consent-store";
+
+// CORS configuration for Firebase Functions v2
+const allowedOrigins = [
+  'https://lovve.tech',
+  'https://www.lovve.tech',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'http://127.0.0.1:5173',
+  'https://ailovve.firebaseapp.com'
+];
+
+// AI LOVVE - Marketing message queue
+// marketingQueue/{messageId}         waiting or sent messages, processed by processMarketingQueue
+// marketingDeadLetters/{messageId}   messages that failed for good, can be requeued by an admin
+// marketingFrequency/{uid}           recent send times per user for the frequency caps
+// marketingCampaigns/{campaignId}/deliveryStats/{total|YYYY-MM-DD}   delivery counters for the campaign analytics
+
+// 'suppressed': dropped because of missing consent or the suppression list
+export type QueueStatus = 'queued' | 'sent' | 'cancelled' | 'suppressed';
+
+export interface QueuedMessageDoc {
+  campaignId: string;
+  userId: string;
+  channel: DeliveryChannel;
+  content: MessageContent;
+  category?: ConsentCategory; // Consent needed to send, 'marketing' when missing
+  status: QueueStatus;
+  attempts: number;
+  nextAttemptAt: Timestamp; // Scheduled time, retry time or lease expiry
+  lastError?: string;
+  providerMessageId?: string;
+  segmentId?: string; // Audience segment and A/B variant, for campaign analytics
+  variantId?: string;
+  createdAt: Timestamp;
+  sentAt?: Timestamp;
+}
+
+export interface EnqueueMessageInput {
+  id: string; // Generated by the client, makes re-sending a batch harmless
+  campaignId: string;
+  userId: string;
+  channel: DeliveryChannel;
+  content: MessageContent;
+  scheduledAt?: number; // ms, defaults to now
+  category?: ConsentCategory;
+  segmentId?: string;
+  variantId?: string;
+}
+
+export interface FrequencyCap {
+  windowMs: number;
+  maxMessages: number;
+}
+
+// Marketing messages per user across all channels
+export const FREQUENCY_CAPS: FrequencyCap[] = [
+  {windowMs: 24 * 60 * 60 * 1000, maxMessages: 2},
+  {windowMs: 7 * 24 * 60 * 60 * 1000, maxMessages: 5},
+];
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+// A claimed message is left alone this long; if the worker dies it is picked up again afterwards
+const LEASE_MS = 5 * 60 * 1000;
+const WORKER_BATCH_SIZE = 100;
+const MAX_ENQUEUE_PER_CALL = 500;
+const MESSAGE_ID_PATTERN = /^[A-Za-z0-9_-]{1,200}$/;
+
+/**
+ * Exponential backoff with jitter: ~1, 2, 4, 8 minutes... capped at 6 hours.
+ */
+export function retryDelayMs(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+  return delay + Math.floor(Math.random() * delay * 0.2);
+}
+
+/**
+ * When the user may receive the next message under every cap, or null if they may now.
+ */
+export function frequencyCapReleaseTime(sentTimes: number[], now: number, caps: FrequencyCap[] = FREQUENCY_CAPS): number | null {
+  let release: number | null = null;
+  for (const cap of caps) {
+    const inWindow = sentTimes.filter((t) => t > now - cap.windowMs).sort((a, b) => a - b);
+    if (inWindow.length >= cap.maxMessages) {
+      // The oldest sends have to leave the window until one slot is free
+      const freedAt = inWindow[inWindow.length - cap.maxMessages] + cap.windowMs;
+      release = Math.max(release ?? 0, freedAt);
+    }
+  }
+  return release;
+}
+
+type DeliveryOutcome = 'sent' | 'bounced' | 'suppressed';
+
+/**
+ * Counts a delivery outcome in the campaign totals, per variant and segment, and in the day's
+ * bucket (UTC), so the admin analytics never have to read the queue. delta -1 takes it back.
+ */
+function countDeliveryOutcome(
+  writer: {set(ref: FirebaseFirestore.DocumentReference, data: FirebaseFirestore.DocumentData, options: FirebaseFirestore.SetOptions): unknown},
+  message: Pick<QueuedMessageDoc, 'campaignId' | 'segmentId' | 'variantId'>,
+  outcome: DeliveryOutcome,
+  at: Timestamp,
+  delta: 1 | -1 = 1
+): void {
+  const stats = getFirestore().collection("marketingCampaigns").doc(message.campaignId).collection("deliveryStats");
+  const increment = FieldValue.increment(delta);
+  const day = at.toDate().toISOString().slice(0, 10);
+  const total = {
+    [outcome]: increment,
+    ...(message.variantId ? {variants: {[message.variantId]: {[outcome]: increment}}} : {}),
+    ...(message.segmentId && outcome === 'sent' ? {segments: {[message.segmentId]: {sent: increment}}} : {}),
+  };
+  writer.set(stats.doc("total"), total, {merge: true});
+  writer.set(stats.doc(day), {date: day, [outcome]: increment}, {merge: true});
+}
+
+async function requireAdmin(uid: string | undefined): Promise<string> {
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Authentication required");
+  }
+  const userDoc = await getFirestore().collection("users").doc(uid).get();
+  if (userDoc.data()?.isAdmin !== true) {
+    throw new HttpsError("permission-denied", "Admin access required");
+  }
+  return uid;
+}
+
+async function resolveRecipient(userId: string): Promise<Recipient> {
+  const user = (await getFirestore().collection("users").doc(userId).get()).data();
+  if (!user) {
+    throw new DeliveryError(`User ${userId} not found`, false);
+  }
+  return {
+    userId,
+    email: user.email || undefined,
+    phone: user.profileData?.phoneNumber || user.phoneNumber || undefined,
+    name: user.displayName || user.profileData?.firstName || undefined,
+  };
+}
+
+/**
+ * Claims a due message for this run. Returns null when it is no longer due, or when the
+ * frequency caps push it back (without counting an attempt).
+ */
+async function claimMessage(ref: FirebaseFirestore.DocumentReference): Promise<QueuedMessageDoc | null> {
+  const db = getFirestore();
+  return db.runTransaction(async (tx) => {
+    const message = (await tx.get(ref)).data() as QueuedMessageDoc | undefined;
+    const now = Date.now();
+    if (!message || message.status !== 'queued' || message.nextAttemptAt.toMillis() > now) return null;
+
+    const frequency = (await tx.get(db.collection("marketingFrequency").doc(message.userId))).data();
+    const sentTimes = ((frequency?.sentAt || []) as Timestamp[]).map((t) => t.toMillis());
+    const release = frequencyCapReleaseTime(sentTimes, now);
+    if (release !== null) {
+      tx.update(ref, {nextAttemptAt: Timestamp.fromMillis(release), lastError: "Deferred by frequency cap"});
+      return null;
+    }
+
+    tx.update(ref, {nextAttemptAt: Timestamp.fromMillis(now + LEASE_MS), attempts: FieldValue.increment(1)});
+    return {...message, attempts: message.attempts + 1};
+  });
+}
+
+async function recordSent(ref: FirebaseFirestore.DocumentReference, message: QueuedMessageDoc, providerMessageId?: string): Promise<void> {
+  const db = getFirestore();
+  const longestWindow = Math.max(...FREQUENCY_CAPS.map((cap) => cap.windowMs));
+  await db.runTransaction(async (tx) => {
+    const frequencyRef = db.collection("marketingFrequency").doc(message.userId);
+    const sentAt = (((await tx.get(frequencyRef)).data()?.sentAt || []) as Timestamp[])
+      .filter((t) => t.toMillis() > Date.now() - longestWindow);
+    const now = Timestamp.now();
+
+    tx.set(frequencyRef, {sentAt: [...sentAt, now], updatedAt: now});
+    tx.update(ref, {
+      status: 'sent' as QueueStatus,
+      sentAt: now,
+      providerMessageId: providerMessageId || null,
+      lastError: FieldValue.delete(),
+    });
+    tx.create(db.collection("messageTracking").doc(), {
+      messageId: ref.id,
+      campaignId: message.campaignId,
+      userId: message.userId,
+      type: message.channel,
+      sentAt: now,
+    });
+    countDeliveryOutcome(tx, message, 'sent', now);
+  });
+}
+
+async function recordSuppressed(ref: FirebaseFirestore.DocumentReference, message: QueuedMessageDoc, reason: string): Promise<void> {
+  const batch = getFirestore().batch();
+  batch.update(ref, {status: 'suppressed' as QueueStatus, lastError: reason});
+  countDeliveryOutcome(batch, message, 'suppressed', Timestamp.now());
+  await batch.commit();
+  logger.info(`Marketing message ${ref.id} suppressed: ${reason}`);
+}
+
+async function recordFailure(
+  ref: FirebaseFirestore.DocumentReference,
+  message: QueuedMessageDoc,
+  recipient: Recipient | null,
+  error: unknown
+): Promise<void> {
+  const reason = error instanceof Error ? error.message : String(error);
+  const retryable = !(error instanceof DeliveryError) || error.retryable;
+
+  // Mailboxes that do not exist are never tried again, by any sender
+  if (error instanceof DeliveryError && error.addressRejected && message.channel === 'email' && recipient?.email) {
+    await addSuppression(recipient.email, {reason: 'hard_bounce', scope: 'all', userId: message.userId, note: reason, createdBy: 'system'});
+  }
+
+  if (retryable && message.attempts < MAX_ATTEMPTS) {
+    await ref.update({
+      nextAttemptAt: Timestamp.fromMillis(Date.now() + retryDelayMs(message.attempts)),
+      lastError: reason,
+    });
+    logger.warn(`Marketing message ${ref.id} failed (attempt ${message.attempts}), retrying`, {reason});
+    return;
+  }
+
+  const db = getFirestore();
+  const batch = db.batch();
+  const failedAt = Timestamp.now();
+  batch.set(db.collection("marketingDeadLetters").doc(ref.id), {
+    ...message,
+    lastError: reason,
+    retryable,
+    failedAt,
+  });
+  batch.delete(ref);
+  countDeliveryOutcome(batch, message, 'bounced', failedAt);
+  await batch.commit();
+  logger.error(`Marketing message ${ref.id} moved to the dead letter queue`, {reason, attempts: message.attempts});
+}
+
+/**
+ * Delivers due marketing messages every minute through the channel adapters.
+ */
+export const processMarketingQueue = onSchedule(
+  {
+    schedule: "every 1 minutes",
+    timeZone: "Europe/Istanbul",
+    region: "europe-west1",
+    secrets: [...DELIVERY_SECRETS, ...CONSENT_SECRETS],
+    timeoutSeconds: 300,
+  },
+  async () => {
+    const due = await getFirestore().collection("marketingQueue")
+      .where("status", "==", 'queued')
+      .where("nextAttemptAt", "<=", Timestamp.now())
+      .orderBy("nextAttemptAt")
+      .limit(WORKER_BATCH_SIZE)
+      .get();
+
+    let sent = 0;
+    // Sequential, so two messages for the same user see each other in the frequency caps
+    for (const doc of due.docs) {
+      const message = await claimMessage(doc.ref);
+      if (!message) continue;
+
+      let recipient: Recipient | null = null;
+      try {
+        recipient = await resolveRecipient(message.userId);
+        const category = message.category || 'marketing';
+        const consent = await checkDeliveryConsent(recipient, message.channel, category);
+        if (!consent.allowed) {
+          await recordSuppressed(doc.ref, message, consent.reason);
+          continue;
+        }
+
+        const outbound: OutboundMessage = {
+          id: doc.id,
+          campaignId: message.campaignId,
+          channel: message.channel,
+          recipient,
+          content: message.content,
+          unsubscribeUrl: message.channel === 'email' ? unsubscribeUrl(message.userId, category, 'email') : undefined,
+        };
+        const result = await getChannelAdapter(message.channel).send(outbound);
+        await recordSent(doc.ref, message, result.providerMessageId);
+        sent++;
+      } catch (error) {
+        await recordFailure(doc.ref, message, recipient, error);
+      }
+    }
+
+    if (due.size > 0) {
+      logger.info(`Marketing queue: ${sent} sent of ${due.size} due`);
+    }
+  }
+);
+
+function validateMessage(input: EnqueueMessageInput): EnqueueMessageInput {
+  if (!input || typeof input.id !== "string" || !MESSAGE_ID_PATTERN.test(input.id)) {
+    throw new HttpsError("invalid-argument", "Every message needs an id of letters, digits, _ or -");
+  }
+  if (!DELIVERY_CHANNELS.includes(input.channel)) {
+    throw new HttpsError("invalid-argument", `Unsupported channel for ${input.id}: ${input.channel}`);
+  }
+  if (!input.userId || !input.campaignId) {
+    throw new HttpsError("invalid-argument", `userId and campaignId are required (${input.id})`);
+  }
+  if (typeof input.content?.body !== "string" || input.content.body.length === 0) {
+    throw new HttpsError("invalid-argument", `Message ${input.id} has no body`);
+  }
+  if (input.category !== undefined && !CONSENT_CATEGORIES.includes(input.category)) {
+    throw new HttpsError("invalid-argument", `Unknown consent category for ${input.id}: ${input.category}`);
+  }
+  return input;
+}
+
+/**
+ * Queues personalized campaign messages (admin only). Queued or sent messages keep their state,
+ * so a launch can be retried safely; cancelled ones are queued again when a paused campaign resumes.
+ */
+export const enqueueMarketingMessages = onCall<{messages: EnqueueMessageInput[]}, Promise<{success: boolean; queued: number}>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = await requireAdmin(request.auth?.uid);
+    const messages = request.data?.messages;
+    if (!Array.isArray(messages) || messages.length === 0 || messages.length > MAX_ENQUEUE_PER_CALL) {
+      throw new HttpsError("invalid-argument", `messages must contain 1-${MAX_ENQUEUE_PER_CALL} entries`);
+    }
+    messages.forEach(validateMessage);
+
+    const db = getFirestore();
+    const refs = messages.map((m) => db.collection("marketingQueue").doc(m.id));
+    const existing = new Map((await db.getAll(...refs)).filter((doc) => doc.exists).map((doc) => [doc.id, doc.get("status") as QueueStatus]));
+
+    const batch = db.batch();
+    const now = Timestamp.now();
+    let queued = 0;
+    messages.forEach((m, i) => {
+      const status = existing.get(m.id);
+      if (status && status !== 'cancelled') return;
+      const doc: QueuedMessageDoc = {
+        campaignId: m.campaignId,
+        userId: m.userId,
+        channel: m.channel,
+        content: JSON.parse(JSON.stringify(m.content)), // Drops undefined fields
+        category: m.category || 'marketing',
+        status: 'queued',
+        attempts: 0,
+        nextAttemptAt: m.scheduledAt ? Timestamp.fromMillis(m.scheduledAt) : now,
+        ...(m.segmentId ? {segmentId: String(m.segmentId)} : {}),
+        ...(m.variantId ? {variantId: String(m.variantId)} : {}),
+        createdAt: now,
+      };
+      if (status) {
+        batch.set(refs[i], doc);
+      } else {
+        batch.create(refs[i], doc);
+      }
+      queued++;
+    });
+    await batch.commit();
+
+    logger.info(`${queued} marketing message(s) queued by ${uid}`);
+    return {success: true, queued};
+  }
+);
+
+/**
+ * Cancels the not yet sent messages of a campaign (admin only), used when it is paused.
+ */
+export const cancelCampaignMessages = onCall<{campaignId: string}, Promise<{success: boolean; cancelled: number}>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    await requireAdmin(request.auth?.uid);
+    const campaignId = request.data?.campaignId;
+    if (!campaignId) {
+      throw new HttpsError("invalid-argument", "campaignId is required");
+    }
+
+    const db = getFirestore();
+    const queued = await db.collection("marketingQueue")
+      .where("campaignId", "==", campaignId)
+      .where("status", "==", 'queued')
+      .get();
+    const writer = db.bulkWriter();
+    queued.docs.forEach((doc) => writer.update(doc.ref, {status: 'cancelled' as QueueStatus}));
+    await writer.close();
+
+    logger.info(`Cancelled ${queued.size} queued message(s) of campaign ${campaignId}`);
+    return {success: true, cancelled: queued.size};
+  }
+);
+
+/**
+ * Moves dead-lettered messages back into the queue with a fresh attempt budget (admin only).
+ */
+export const requeueDeadLetters = onCall<{messageIds: string[]}, Promise<{success: boolean; requeued: number}>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    await requireAdmin(request.auth?.uid);
+    const messageIds = request.data?.messageIds;
+    if (!Array.isArray(messageIds) || messageIds.length === 0 || messageIds.length > MAX_ENQUEUE_PER_CALL) {
+      throw new HttpsError("invalid-argument", `messageIds must contain 1-${MAX_ENQUEUE_PER_CALL} entries`);
+    }
+
+    const db = getFirestore();
+    const deadLetters = await db.getAll(...messageIds.map((id) => db.collection("marketingDeadLetters").doc(String(id))));
+    const batch = db.batch();
+    let requeued = 0;
+    for (const doc of deadLetters) {
+      const data = doc.data();
+      if (!data) continue;
+      const message: QueuedMessageDoc = {
+        campaignId: data.campaignId,
+        userId: data.userId,
+        channel: data.channel,
+        content: data.content,
+        category: data.category || 'marketing',
+        status: 'queued',
+        attempts: 0,
+        nextAttemptAt: Timestamp.now(),
+        ...(data.segmentId ? {segmentId: data.segmentId} : {}),
+        ...(data.variantId ? {variantId: data.variantId} : {}),
+        createdAt: data.createdAt,
+      };
+      batch.set(db.collection("marketingQueue").doc(doc.id), message);
+      batch.delete(doc.ref);
+      // No longer a bounce in the campaign analytics
+      if (data.failedAt) countDeliveryOutcome(batch, data as QueuedMessageDoc, 'bounced', data.failedAt, -1);
+      requeued++;
+    }
+    await batch.commit();
+
+    return {success: true, requeued};
+  }
+);
@@ -0,0 +1,254 @@
+/**
+ * AI LOVVE - MCP server for the honeymoon package catalog and saved chats.
+ *
+ * Standalone stdio entry point, not deployed as a Cloud Function. MCP client config:
+ *   command: npm, args: ["--prefix", "functions", "run", "--silent", "mcp"]
+ * Use "mcp:emulator" instead of "mcp" to read from the Firestore emulator (127.0.0.1:8091),
+ * otherwise application default credentials are used.
+ *
+ * Everything here is read-only. stdout carries the MCP protocol, so logs go to stderr.
+ */
+
+import {initializeApp} from "firebase-admin/app";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {McpServer, ResourceTemplate} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {StdioServerTransport} from "@modelcontextprotocol/sdk/server/stdio.js";
+import {z} from "zod";
+import {formatPrice} from "./package-tools";
+
+initializeApp({projectId: process.env.GCLOUD_PROJECT || "ailovve"});
+const db = getFirestore();
+
+const CATEGORIES = ['luxury', 'adventure', 'romantic', 'cultural', 'beach', 'city', 'mountain', 'safari'] as const;
+const MAX_RESULTS = 50;
+
+// Mirrors PackageFilters in src/services/packageService.ts (minus cursor pagination)
+const packageFilterShape = {
+  query: z.string().optional().describe("Free text matched against title, description, location, country and tags"),
+  category: z.enum(CATEGORIES).optional(),
+  location: z.string().optional(),
+  country: z.string().optional(),
+  region: z.string().optional(),
+  minPrice: z.number().optional(),
+  maxPrice: z.number().optional(),
+  duration: z.number().int().optional().describe("Exact number of days"),
+  status: z.enum(['draft', 'published', 'archived']).default('published'),
+  availability: z.boolean().optional(),
+  limit: z.number().int().min(1).max(MAX_RESULTS).default(20),
+};
+
+const packageFilterSchema = z.object(packageFilterShape);
+type PackageFilters = z.infer<typeof packageFilterSchema>;
+
+function toJson(value: unknown) {
+  return JSON.stringify(value, (_key, v) => (v instanceof Timestamp ? v.toDate().toISOString() : v), 2);
+}
+
+function jsonContent(value: unknown) {
+  return {content: [{type: "text" as const, text: toJson(value)}]};
+}
+
+function summarizePackage(id: string, data: FirebaseFirestore.DocumentData) {
+  return {
+    id,
+    title: data.title,
+    location: data.location,
+    country: data.country,
+    region: data.region,
+    category: data.category,
+    duration: data.duration,
+    price: data.price,
+    currency: data.currency || "USD",
+    displayPrice: formatPrice(data.price || 0, data.currency || "USD"),
+    rating: data.rating || 0,
+    availability: data.availability,
+    status: data.status,
+  };
+}
+
+async function searchPackages(filters: PackageFilters) {
+  // Equality filters run in Firestore, ranges and text in memory like packageService.searchPackages
+  let query: FirebaseFirestore.Query = db.collection("packages").where("status", "==", filters.status);
+  if (filters.category) query = query.where("category", "==", filters.category);
+  if (filters.location) query = query.where("location", "==", filters.location);
+  if (filters.country) query = query.where("country", "==", filters.country);
+  if (filters.region) query = query.where("region", "==", filters.region);
+  if (filters.duration) query = query.where("duration", "==", filters.duration);
+  if (filters.availability !== undefined) query = query.where("availability", "==", filters.availability);
+
+  const text = filters.query?.toLowerCase().trim();
+  const snapshot = await query.get();
+  return snapshot.docs
+    .filter((doc) => {
+      const data = doc.data();
+      if (filters.minPrice !== undefined && data.price < filters.minPrice) return false;
+      if (filters.maxPrice !== undefined && data.price > filters.maxPrice) return false;
+      if (!text) return true;
+      return [data.title, data.description, data.location, data.country, ...(data.tags || [])]
+        .join(" ")
+        .toLowerCase()
+        .includes(text);
+    })
+    .sort((a, b) => (b.data().rating || 0) - (a.data().rating || 0))
+    .slice(0, filters.limit)
+    .map((doc) => summarizePackage(doc.id, doc.data()));
+}
+
+async function getPackage(packageId: string) {
+  const doc = await db.collection("packages").doc(packageId).get();
+  return doc.exists ? {id: doc.id, ...doc.data()} : null;
+}
+
+// Same figures as packageService.getPackageStats
+async function getPackageStats() {
+  const snapshot = await db.collection("packages").get();
+  const packages = snapshot.docs.map((doc) => doc.data());
+  const rated = packages.filter((p) => p.rating > 0);
+  const categoryCounts: Record<string, number> = {};
+  packages.forEach((p) => {
+    categoryCounts[p.category] = (categoryCounts[p.category] || 0) + 1;
+  });
+
+  return {
+    totalPackages: packages.length,
+    publishedPackages: packages.filter((p) => p.status === "published").length,
+    draftPackages: packages.filter((p) => p.status === "draft").length,
+    archivedPackages: packages.filter((p) => p.status === "archived").length,
+    totalViews: packages.reduce((sum, p) => sum + (p.views || 0), 0),
+    totalBookings: packages.reduce((sum, p) => sum + (p.bookings || 0), 0),
+    categoryCounts,
+    averageRating: rated.length > 0 ? rated.reduce((sum, p) => sum + p.rating, 0) / rated.length : 0,
+  };
+}
+
+async function listUserChats(userId: string, limit: number) {
+  const snapshot = await db.collection("chats")
+    .where("userId", "==", userId)
+    .orderBy("lastMessageAt", "desc")
+    .limit(limit)
+    .get();
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      title: data.title,
+      status: data.status,
+      category: data.category,
+      summary: data.summary,
+      messageCount: data.messageCount,
+      lastMessageAt: data.lastMessageAt,
+      packages: data.packages || [],
+    };
+  });
+}
+
+async function getUserChat(userId: string, chatId: string) {
+  const chatRef = db.collection("chats").doc(chatId);
+  const chatDoc = await chatRef.get();
+  // Never leak another user's chat through a guessed id
+  if (!chatDoc.exists || chatDoc.data()?.userId !== userId) return null;
+
+  const messages = await chatRef.collection("messages").orderBy("timestamp", "asc").get();
+  return {
+    id: chatDoc.id,
+    ...chatDoc.data(),
+    messages: messages.docs.map((doc) => {
+      const data = doc.data();
+      return {id: doc.id, type: data.type, content: data.content, timestamp: data.timestamp};
+    }),
+  };
+}
+
+const server = new McpServer({name: "ai-lovve-catalog", version: "1.0.0"});
+
+server.tool(
+  "searchPackages",
+  "Search honeymoon packages with the same filters as the web app's packageService",
+  packageFilterShape,
+  {readOnlyHint: true},
+  async (filters) => jsonContent(await searchPackages(filters)),
+);
+
+server.tool(
+  "getPackage",
+  "Get the full document of one package, including itinerary and accommodation",
+  {packageId: z.string()},
+  {readOnlyHint: true},
+  async ({packageId}) => {
+    const pkg = await getPackage(packageId);
+    return pkg ? jsonContent(pkg) : {isError: true, content: [{type: "text", text: `Package ${packageId} not found`}]};
+  },
+);
+
+server.tool(
+  "getPackageStats",
+  "Catalog totals: packages per status and category, views, bookings and average rating",
+  {},
+  {readOnlyHint: true},
+  async () => jsonContent(await getPackageStats()),
+);
+
+server.tool(
+  "listUserChats",
+  "List a user's saved chats, newest first",
+  {userId: z.string(), limit: z.number().int().min(1).max(MAX_RESULTS).default(20)},
+  {readOnlyHint: true},
+  async ({userId, limit}) => jsonContent(await listUserChats(userId, limit)),
+);
+
+server.tool(
+  "getUserChat",
+  "Read one saved chat with its messages. Only returns chats owned by the given user",
+  {userId: z.string(), chatId: z.string()},
+  {readOnlyHint: true},
+  async ({userId, chatId}) => {
+    const chat = await getUserChat(userId, chatId);
+    return chat ? jsonContent(chat) : {isError: true, content: [{type: "text", text: `Chat ${chatId} not found`}]};
+  },
+);
+
+server.resource(
+  "package-catalog",
+  "packages://catalog",
+  {description: "All published packages (summaries)", mimeType: "application/json"},
+  async (uri) => ({
+    contents: [{uri: uri.href, mimeType: "application/json", text: toJson(await searchPackages(packageFilterSchema.parse({limit: MAX_RESULTS})))}],
+  }),
+);
+
+server.resource(
+  "package",
+  new ResourceTemplate("packages://{packageId}", {list: undefined}),
+  {description: "A single package document", mimeType: "application/json"},
+  async (uri, {packageId}) => ({
+    contents: [{uri: uri.href, mimeType: "application/json", text: toJson(await getPackage(String(packageId)))}],
+  }),
+);
+
+server.resource(
+  "user-chats",
+  new ResourceTemplate("chats://{userId}", {list: undefined}),
+  {description: "A user's saved chats (read-only)", mimeType: "application/json"},
+  async (uri, {userId}) => ({
+    contents: [{uri: uri.href, mimeType: "application/json", text: toJson(await listUserChats(String(userId), MAX_RESULTS))}],
+  }),
+);
+
+server.resource(
+  "user-chat",
+  new ResourceTemplate("chats://{userId}/{chatId}", {list: undefined}),
+  {description: "One saved chat with its messages (read-only)", mimeType: "application/json"},
+  async (uri, {userId, chatId}) => ({
+    contents: [{uri: uri.href, mimeType: "application/json", text: toJson(await getUserChat(String(userId), String(chatId)))}],
+  }),
+);
+
+async function main() {
+  await server.connect(new StdioServerTransport());
+  console.error(`AI LOVVE MCP server running (Firestore ${process.env.FIRESTORE_EMULATOR_HOST || "production"})`);
+}
+
+main().catch((error) => {
+  console.error("MCP server failed to start:", error);
+  process.exit(1);
+});
@@ -0,0 +1,283 @@
+import * as logger from "firebase-functions/logger";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {HarmBlockThreshold, HarmCategory} from "@google/generative-ai";
+
+// CORS configuration for Firebase Functions v2
+const allowedOrigins = [
+  'https://lovve.tech',
+  'https://www.lovve.tech',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'http://127.0.0.1:5173',
+  'https://ailovve.firebaseapp.com'
+];
+
+// AI LOVVE - Gemini model registry (settings/app → gemini.models)
+
+export type PlanType = 'free' | 'pro' | 'pro_bride';
+
+const PLAN_TYPES: PlanType[] = ['free', 'pro', 'pro_bride'];
+
+export interface GeminiModelConfig {
+  id: string; // Client facing id, e.g. "ai-lovv3"
+  label: string;
+  description?: string;
+  model: string; // Gemini model name, e.g. "gemini-1.5-flash-8b"
+  temperature: number;
+  maxTokens: number;
+  topP?: number;
+  topK?: number;
+  safetyThresholds: Partial<Record<HarmCategory, HarmBlockThreshold>>;
+  allowedPlans: PlanType[];
+  enabled: boolean;
+}
+
+export interface ModelRegistry {
+  defaultModelId: string;
+  models: GeminiModelConfig[];
+}
+
+const SETTINGS_COLLECTION = "settings";
+const APP_SETTINGS_DOC = "app";
+const REGISTRY_CACHE_TTL_MS = 60 * 1000;
+
+const DEFAULT_SAFETY_THRESHOLDS: Partial<Record<HarmCategory, HarmBlockThreshold>> = {
+  [HarmCategory.HARM_CATEGORY_HARASSMENT]: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  [HarmCategory.HARM_CATEGORY_HATE_SPEECH]: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  [HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT]: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+  [HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT]: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE,
+};
+
+// Used until an admin saves a registry, mirrors the previously hard-coded setup
+export const DEFAULT_MODEL_REGISTRY: ModelRegistry = {
+  defaultModelId: "ai-lovv3",
+  models: [
+    {
+      id: "ai-lovv3",
+      label: "ai-lovv3",
+      description: "Advanced AI",
+      model: "gemini-1.5-flash-8b",
+      temperature: 0.8,
+      maxTokens: 512,
+      topP: 0.9,
+      topK: 32,
+      safetyThresholds: DEFAULT_SAFETY_THRESHOLDS,
+      allowedPlans: ['free', 'pro', 'pro_bride'],
+      enabled: true,
+    },
+    {
+      id: "ai-lovv2",
+      label: "ai-lovv2",
+      description: "Fast AI",
+      model: "gemini-1.5-flash-8b",
+      temperature: 0.7,
+      maxTokens: 384,
+      topP: 0.9,
+      topK: 32,
+      safetyThresholds: DEFAULT_SAFETY_THRESHOLDS,
+      allowedPlans: ['free', 'pro', 'pro_bride'],
+      enabled: true,
+    },
+  ],
+};
+
+let cachedRegistry: {registry: ModelRegistry; loadedAt: number} | null = null;
+
+/**
+ * Loads the model registry from Firestore, falling back to the defaults.
+ * Cached per instance for a minute so chat requests don't read settings every time.
+ */
+export async function getModelRegistry(): Promise<ModelRegistry> {
+  if (cachedRegistry && Date.now() - cachedRegistry.loadedAt < REGISTRY_CACHE_TTL_MS) {
+    return cachedRegistry.registry;
+  }
+
+  let registry = DEFAULT_MODEL_REGISTRY;
+  try {
+    const doc = await getFirestore().collection(SETTINGS_COLLECTION).doc(APP_SETTINGS_DOC).get();
+    const gemini = doc.data()?.gemini;
+    if (Array.isArray(gemini?.models) && gemini.models.length > 0) {
+      registry = {
+        defaultModelId: gemini.defaultModelId || gemini.models[0].id,
+        models: gemini.models as GeminiModelConfig[],
+      };
+    }
+  } catch (error) {
+    logger.error("Error loading model registry, using defaults:", error);
+  }
+
+  cachedRegistry = {registry, loadedAt: Date.now()};
+  return registry;
+}
+
+/**
+ * Reads the caller's plan from the subscriptions collection.
+ * Anonymous callers and inactive subscriptions are treated as free.
+ */
+export async function getCallerPlan(uid?: string): Promise<PlanType> {
+  if (!uid) return 'free';
+  try {
+    const doc = await getFirestore().collection("subscriptions").doc(uid).get();
+    const data = doc.data();
+    if (data?.isActive && PLAN_TYPES.includes(data.planType)) {
+      return data.planType as PlanType;
+    }
+  } catch (error) {
+    logger.error(`Error reading subscription for ${uid}:`, error);
+  }
+  return 'free';
+}
+
+/**
+ * Resolves the requested model id for the caller.
+ * Throws `invalid-argument` for unknown/disabled models and `permission-denied`
+ * when the caller's plan doesn't include the model.
+ */
+export async function resolveModelForCaller(modelId: string | undefined, uid?: string): Promise<GeminiModelConfig> {
+  const registry = await getModelRegistry();
+  const requestedId = modelId || registry.defaultModelId;
+  const config = registry.models.find((m) => m.id === requestedId);
+
+  if (!config || !config.enabled) {
+    logger.warn(`Unknown or disabled model requested: ${requestedId}`);
+    throw new HttpsError("invalid-argument", `Model "${requestedId}" is not available.`);
+  }
+
+  const plan = await getCallerPlan(uid);
+  if (!config.allowedPlans.includes(plan)) {
+    logger.info(`Model ${requestedId} denied for plan ${plan}`);
+    throw new HttpsError("permission-denied", `Model "${requestedId}" requires an upgraded plan.`, {
+      modelId: requestedId,
+      planType: plan,
+      allowedPlans: config.allowedPlans,
+    });
+  }
+
+  return config;
+}
+
+/**
+ * Converts a model config into Gemini safety settings.
+ */
+export function toSafetySettings(config: GeminiModelConfig) {
+  const thresholds = {...DEFAULT_SAFETY_THRESHOLDS, ...config.safetyThresholds};
+  return Object.entries(thresholds).map(([category, threshold]) => ({
+    category: category as HarmCategory,
+    threshold: threshold as HarmBlockThreshold,
+  }));
+}
+
+function validateModelConfig(config: GeminiModelConfig): string | null {
+  if (!config.id || !config.label || !config.model) return "id, label and model are required";
+  if (typeof config.temperature !== "number" || config.temperature < 0 || config.temperature > 2) {
+    return `temperature for ${config.id} must be between 0 and 2`;
+  }
+  if (!Number.isInteger(config.maxTokens) || config.maxTokens < 1 || config.maxTokens > 8192) {
+    return `maxTokens for ${config.id} must be an integer between 1 and 8192`;
+  }
+  if (!Array.isArray(config.allowedPlans) || config.allowedPlans.some((p) => !PLAN_TYPES.includes(p))) {
+    return `allowedPlans for ${config.id} contains an unknown plan`;
+  }
+  const categories = Object.values(HarmCategory) as string[];
+  const thresholds = Object.values(HarmBlockThreshold) as string[];
+  for (const [category, threshold] of Object.entries(config.safetyThresholds || {})) {
+    if (!categories.includes(category) || !thresholds.includes(threshold as string)) {
+      return `invalid safety threshold ${category}=${threshold} for ${config.id}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * List the registry models with an `allowed` flag for the caller's plan
+ */
+export const getAvailableGeminiModels = onCall<Record<string, never>, Promise<{success: boolean; defaultModelId: string; planType: PlanType; models: Array<{id: string; label: string; description?: string; allowed: boolean; allowedPlans: PlanType[]}>}>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    try {
+      const [registry, planType] = await Promise.all([
+        getModelRegistry(),
+        getCallerPlan(request.auth?.uid),
+      ]);
+
+      return {
+        success: true,
+        defaultModelId: registry.defaultModelId,
+        planType,
+        models: registry.models
+          .filter((m) => m.enabled)
+          .map((m) => ({
+            id: m.id,
+            label: m.label,
+            description: m.description,
+            allowed: m.allowedPlans.includes(planType),
+            allowedPlans: m.allowedPlans,
+          })),
+      };
+    } catch (error) {
+      logger.error("Error listing Gemini models:", error);
+      throw new HttpsError("internal", "Failed to list models");
+    }
+  }
+);
+
+/**
+ * Replace the model registry (admin only). Takes effect within a minute, no redeploy needed.
+ */
+export const updateGeminiModelRegistry = onCall<ModelRegistry, Promise<{success: boolean; message: string}>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError("unauthenticated", "Authentication required");
+    }
+
+    const db = getFirestore();
+    const userDoc = await db.collection("users").doc(uid).get();
+    if (userDoc.data()?.isAdmin !== true) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+
+    const {defaultModelId, models} = request.data || ({} as ModelRegistry);
+    if (!Array.isArray(models) || models.length === 0) {
+      throw new HttpsError("invalid-argument", "At least one model is required");
+    }
+    for (const config of models) {
+      const problem = validateModelConfig(config);
+      if (problem) {
+        throw new HttpsError("invalid-argument", problem);
+      }
+    }
+    if (new Set(models.map((m) => m.id)).size !== models.length) {
+      throw new HttpsError("invalid-argument", "Model ids must be unique");
+    }
+    const defaultModel = models.find((m) => m.id === defaultModelId);
+    if (!defaultModel || !defaultModel.enabled || !defaultModel.allowedPlans.includes('free')) {
+      throw new HttpsError("invalid-argument", "Default model must be enabled and available on the free plan");
+    }
+
+    try {
+      await db.collection(SETTINGS_COLLECTION).doc(APP_SETTINGS_DOC).set({
+        gemini: {defaultModelId, models},
+        updatedBy: uid,
+        updatedAt: Timestamp.now(),
+      }, {merge: true});
+
+      cachedRegistry = null;
+      logger.info(`Model registry updated by ${uid}`, {models: models.map((m) => m.id)});
+      return {success: true, message: `Saved ${models.length} models`};
+    } catch (error) {
+      logger.error("Error saving model registry:", error);
+      throw new HttpsError("internal", "Failed to save model registry");
+    }
+  }
+);
@@ -0,0 +1,267 @@
+import * as logger from "firebase-functions/logger";
+import {createHash} from "crypto";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
+import {defineSecret} from "firebase-functions/params";
+import {
+  cosineSimilarity,
+  EmbeddingProvider,
+  EmbeddingProviderName,
+  resolveEmbeddingProviderName,
+} from "./embedding-provider";
+import {GeminiEmbeddingProvider} from "./gemini-embedding-provider";
+import {LocalEmbeddingProvider} from "./local-embedding-provider";
+
+// CORS configuration for Firebase Functions v2
+const allowedOrigins = [
+  'https://lovve.tech',
+  'https://www.lovve.tech',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'http://127.0.0.1:5173',
+  'https://ailovve.firebaseapp.com'
+];
+
+// AI LOVVE - Embedding index of the published package catalog (packageEmbeddings/{packageId})
+
+// Same secret as the chat functions in index.ts
+const geminiKey = defineSecret("GEMINI_KEY");
+
+const DEFAULT_RESULT_LIMIT = 10;
+const MAX_RESULT_LIMIT = 50;
+const MAX_QUERY_LENGTH = 500;
+// Instances reuse the loaded index for this long; package writes show up after at most this delay
+const INDEX_CACHE_TTL_MS = 5 * 60 * 1000;
+const MAX_BATCH_WRITES = 400; // Below Firestore's 500 writes per batch
+// Default relevance cut-off per provider: Gemini scores unrelated texts around 0.4,
+// the hashing model rarely goes above 0.1 for them
+const MIN_RELEVANT_SCORE: Record<EmbeddingProviderName, number> = {gemini: 0.55, local: 0.15};
+
+export interface PackageEmbeddingDoc {
+  packageId: string;
+  vector: number[];
+  provider: string;
+  model: string;
+  dimension: number;
+  textHash: string; // Skips re-embedding when unrelated fields (views, rating...) change
+  updatedAt: Timestamp;
+}
+
+export interface PackageMatch {
+  packageId: string;
+  score: number; // Cosine similarity, -1..1
+}
+
+interface SemanticSearchRequest {
+  query: string;
+  limit?: number;
+  minScore?: number; // Defaults to the provider's relevance cut-off
+}
+
+interface SemanticSearchResponse {
+  success: boolean;
+  results: PackageMatch[];
+  model?: string;
+}
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (resolveEmbeddingProviderName() === 'local') {
+    return new LocalEmbeddingProvider();
+  }
+  return new GeminiEmbeddingProvider(geminiKey.value());
+}
+
+/**
+ * The text a package is embedded from: title, description, highlights and itinerary.
+ */
+export function packageEmbeddingText(pkg: FirebaseFirestore.DocumentData): string {
+  const itinerary = (pkg.itinerary || []) as {title?: string; description?: string; activities?: string[]}[];
+  return [
+    pkg.title,
+    pkg.description,
+    `${pkg.location || ""} ${pkg.country || ""}`.trim(),
+    (pkg.highlights || []).join(". "),
+    ...itinerary.map((day) => [day.title, day.description, (day.activities || []).join(", ")].filter(Boolean).join(": ")),
+  ].filter(Boolean).join("\n");
+}
+
+function textHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function isSearchable(pkg: FirebaseFirestore.DocumentData | undefined): pkg is FirebaseFirestore.DocumentData {
+  return pkg?.status === "published";
+}
+
+async function indexPackages(provider: EmbeddingProvider, packages: {id: string; text: string}[]): Promise<void> {
+  if (packages.length === 0) return;
+  const vectors = await provider.embed(packages.map((p) => p.text), 'document');
+  const db = getFirestore();
+  for (let start = 0; start < packages.length; start += MAX_BATCH_WRITES) {
+    const batch = db.batch();
+    packages.slice(start, start + MAX_BATCH_WRITES).forEach((p, i) => {
+      const entry: PackageEmbeddingDoc = {
+        packageId: p.id,
+        vector: vectors[start + i],
+        provider: provider.name,
+        model: provider.model,
+        dimension: provider.dimension,
+        textHash: textHash(p.text),
+        updatedAt: Timestamp.now(),
+      };
+      batch.set(db.collection("packageEmbeddings").doc(p.id), entry);
+    });
+    await batch.commit();
+  }
+}
+
+/**
+ * Keeps the index in sync with packages/{packageId}: embeds published packages when their
+ * text changes and drops the entry when a package is unpublished or deleted.
+ */
+export const syncPackageEmbedding = onDocumentWritten(
+  {
+    document: "packages/{packageId}",
+    region: "europe-west1",
+    secrets: [geminiKey],
+  },
+  async (event) => {
+    const packageId = event.params.packageId;
+    const before = event.data?.before.data();
+    const after = event.data?.after.data();
+    const embeddingRef = getFirestore().collection("packageEmbeddings").doc(packageId);
+
+    if (!isSearchable(after)) {
+      if (isSearchable(before)) {
+        await embeddingRef.delete();
+        logger.info(`Package ${packageId} removed from the embedding index`);
+      }
+      return;
+    }
+
+    const text = packageEmbeddingText(after);
+    // View counters and rating updates don't touch the embedded text
+    if (isSearchable(before) && packageEmbeddingText(before) === text) return;
+
+    const provider = getEmbeddingProvider();
+    const existing = (await embeddingRef.get()).data() as PackageEmbeddingDoc | undefined;
+    if (existing?.textHash === textHash(text) && existing.model === provider.model) return;
+
+    try {
+      await indexPackages(provider, [{id: packageId, text}]);
+      logger.info(`Package ${packageId} embedded with ${provider.model}`);
+    } catch (error) {
+      // Thrown so the event is retried once the provider is reachable again
+      logger.error(`Embedding package ${packageId} failed:`, error);
+      throw error;
+    }
+  }
+);
+
+let indexCache: {model: string; loadedAt: number; entries: PackageEmbeddingDoc[]} | null = null;
+
+async function loadIndex(model: string): Promise<PackageEmbeddingDoc[]> {
+  if (indexCache && indexCache.model === model && Date.now() - indexCache.loadedAt < INDEX_CACHE_TTL_MS) {
+    return indexCache.entries;
+  }
+  const snapshot = await getFirestore().collection("packageEmbeddings").where("model", "==", model).get();
+  const entries = snapshot.docs.map((doc) => doc.data() as PackageEmbeddingDoc);
+  indexCache = {model, loadedAt: Date.now(), entries};
+  return entries;
+}
+
+/**
+ * Index entries most similar to the query vector, best first.
+ */
+export function rankPackageMatches(
+  queryVector: number[],
+  entries: Pick<PackageEmbeddingDoc, 'packageId' | 'vector'>[],
+  limit = DEFAULT_RESULT_LIMIT,
+  minScore = 0
+): PackageMatch[] {
+  return entries
+    .map((entry) => ({packageId: entry.packageId, score: cosineSimilarity(queryVector, entry.vector)}))
+    .filter((match) => match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Ranks published packages by semantic similarity to a free-text query.
+ */
+export async function searchPackageEmbeddings(query: string, limit = DEFAULT_RESULT_LIMIT, minScore = 0): Promise<PackageMatch[]> {
+  const provider = getEmbeddingProvider();
+  const [entries, [queryVector]] = await Promise.all([
+    loadIndex(provider.model),
+    provider.embed([query], 'query'),
+  ]);
+  return rankPackageMatches(queryVector, entries, limit, minScore);
+}
+
+export const semanticPackageSearch = onCall<SemanticSearchRequest, Promise<SemanticSearchResponse>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins,
+    secrets: [geminiKey],
+  },
+  async (request) => {
+    const query = typeof request.data?.query === "string" ? request.data.query.trim() : "";
+    if (!query || query.length > MAX_QUERY_LENGTH) {
+      throw new HttpsError("invalid-argument", `query must be 1-${MAX_QUERY_LENGTH} characters`);
+    }
+    const limit = Math.min(Math.max(1, Math.floor(request.data.limit || DEFAULT_RESULT_LIMIT)), MAX_RESULT_LIMIT);
+    const minScore = typeof request.data.minScore === "number" ?
+      request.data.minScore : MIN_RELEVANT_SCORE[resolveEmbeddingProviderName()];
+
+    try {
+      const results = await searchPackageEmbeddings(query, limit, minScore);
+      return {success: true, results, model: getEmbeddingProvider().model};
+    } catch (error) {
+      logger.error("Semantic package search failed:", error);
+      throw new HttpsError("internal", "Semantic search failed");
+    }
+  }
+);
+
+/**
+ * Re-embeds every published package (admin only). Needed once for packages created before
+ * the index existed and after switching embedding models.
+ */
+export const reindexPackageEmbeddings = onCall<{}, Promise<{success: boolean; indexed: number; removed: number}>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins,
+    secrets: [geminiKey],
+    timeoutSeconds: 300,
+  },
+  async (request) => {
+    const uid = request.auth?.uid;
+    if (!uid) {
+      throw new HttpsError("unauthenticated", "Authentication required");
+    }
+    const db = getFirestore();
+    const userDoc = await db.collection("users").doc(uid).get();
+    if (userDoc.data()?.isAdmin !== true) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+
+    const provider = getEmbeddingProvider();
+    const [packages, existing] = await Promise.all([
+      db.collection("packages").where("status", "==", "published").get(),
+      db.collection("packageEmbeddings").get(),
+    ]);
+    const published = new Set(packages.docs.map((doc) => doc.id));
+
+    await indexPackages(provider, packages.docs.map((doc) => ({id: doc.id, text: packageEmbeddingText(doc.data())})));
+
+    const stale = existing.docs.filter((doc) => !published.has(doc.id));
+    await Promise.all(stale.map((doc) => doc.ref.delete()));
+    indexCache = null;
+
+    logger.info(`Package embeddings rebuilt by ${uid}: ${packages.size} indexed, ${stale.length} removed`);
+    return {success: true, indexed: packages.size, removed: stale.length};
+  }
+);
@@ -0,0 +1,345 @@
+import * as logger from "firebase-functions/logger";
+import {getFirestore} from "firebase-admin/firestore";
+import {
+  FunctionCall,
+  FunctionDeclaration,
+  FunctionDeclarationSchemaType,
+  FunctionResponsePart,
+} from "@google/generative-ai";
+import {HttpsError} from "firebase-functions/v2/https";
+import {saveWatch} from "./watchlists";
+import {getOrCreateQuote} from "./pricing";
+import {loadFxRates, preferredCurrency} from "./fx-rates";
+import {crossRate, FX_BASE_CURRENCY, SUPPORTED_CURRENCIES} from "./fx-provider";
+
+// AI LOVVE - Gemini function calling bridge for the packages collection
+
+const PACKAGES_COLLECTION = "packages";
+const DEFAULT_RESULT_LIMIT = 6;
+const MAX_RESULT_LIMIT = 10;
+// Stop the model from looping on tool calls forever
+export const MAX_TOOL_ROUNDS = 3;
+// Same cap the chat UI used for parsed SHOW_PACKAGES results
+const MAX_CAROUSEL_PACKAGES = 6;
+
+const CATEGORIES = ['luxury', 'adventure', 'romantic', 'cultural', 'beach', 'city', 'mountain', 'safari'];
+// Youngest child ages below which only easy, or no challenging, packages are suggested (src/utils/family-party.ts)
+const EASY_ONLY_UNDER_AGE = 6;
+const NO_CHALLENGING_UNDER_AGE = 12;
+
+export const PACKAGE_TOOL_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: "searchPackages",
+    description: "Search published honeymoon packages by free text and filters. Use this before recommending any package. " +
+      "Prices are list prices; use getPackage for the price the user can book at. minPrice and maxPrice are in " +
+      "priceCurrency, the user's currency unless given; each result has its price converted in priceInCurrency.",
+    parameters: {
+      type: FunctionDeclarationSchemaType.OBJECT,
+      properties: {
+        query: {type: FunctionDeclarationSchemaType.STRING, description: "Free text, e.g. a destination, country or theme"},
+        category: {type: FunctionDeclarationSchemaType.STRING, enum: CATEGORIES},
+        country: {type: FunctionDeclarationSchemaType.STRING},
+        minPrice: {type: FunctionDeclarationSchemaType.NUMBER},
+        maxPrice: {type: FunctionDeclarationSchemaType.NUMBER},
+        priceCurrency: {type: FunctionDeclarationSchemaType.STRING, enum: SUPPORTED_CURRENCIES, description: "Currency of minPrice and maxPrice"},
+        maxDuration: {type: FunctionDeclarationSchemaType.INTEGER, description: "Maximum number of days"},
+        guests: {type: FunctionDeclarationSchemaType.INTEGER, description: "Total travellers, adults and children"},
+        youngestChildAge: {
+          type: FunctionDeclarationSchemaType.INTEGER,
+          description: "Age of the youngest travelling child; leaves out packages too demanding or not allowed for them",
+        },
+        limit: {type: FunctionDeclarationSchemaType.INTEGER},
+      },
+    },
+  },
+  {
+    name: "getPackage",
+    description: "Get full details of one package by id, with the user's current bookable price (quote) for one room; priceInUserCurrency is that price converted to the currency the user picked in settings.",
+    parameters: {
+      type: FunctionDeclarationSchemaType.OBJECT,
+      properties: {
+        packageId: {type: FunctionDeclarationSchemaType.STRING},
+      },
+      required: ["packageId"],
+    },
+  },
+  {
+    name: "getFeaturedPackages",
+    description: "List promoted and top rated packages when the user has no specific preference yet.",
+    parameters: {
+      type: FunctionDeclarationSchemaType.OBJECT,
+      properties: {
+        limit: {type: FunctionDeclarationSchemaType.INTEGER},
+      },
+    },
+  },
+  {
+    name: "watchPackage",
+    description: "Save a price or availability alert for the user, e.g. when they ask to be told if a package gets cheaper. " +
+      "Watch either one package (packageId) or a destination with a budget (destination + targetPrice). " +
+      "The user is notified in the app and by email when it is met.",
+    parameters: {
+      type: FunctionDeclarationSchemaType.OBJECT,
+      properties: {
+        packageId: {type: FunctionDeclarationSchemaType.STRING},
+        destination: {type: FunctionDeclarationSchemaType.STRING, description: "Place, country or region, e.g. Santorini"},
+        condition: {
+          type: FunctionDeclarationSchemaType.STRING,
+          enum: ["price_below", "available"],
+          description: "available only for a package that is fully booked",
+        },
+        targetPrice: {type: FunctionDeclarationSchemaType.NUMBER, description: "Price or budget per couple"},
+        currency: {type: FunctionDeclarationSchemaType.STRING, description: "ISO 4217 code of a destination budget (USD, EUR, TRY or GBP), defaults to the user's currency"},
+      },
+    },
+  },
+  {
+    name: "formatPrice",
+    description: "Format an amount for display in the user's locale and currency.",
+    parameters: {
+      type: FunctionDeclarationSchemaType.OBJECT,
+      properties: {
+        amount: {type: FunctionDeclarationSchemaType.NUMBER},
+        currency: {type: FunctionDeclarationSchemaType.STRING, description: "ISO 4217 code, e.g. EUR"},
+        locale: {type: FunctionDeclarationSchemaType.STRING, description: "BCP 47 locale, e.g. tr-TR"},
+      },
+      required: ["amount", "currency"],
+    },
+  },
+];
+
+interface PackageSummary {
+  id: string;
+  title: string;
+  location: string;
+  country: string;
+  category: string;
+  duration: number;
+  price: number;
+  currency: string;
+  rating: number;
+  minAge?: number;
+  maxGuests?: number;
+  difficulty?: string;
+  priceInCurrency?: {amount: number; currency: string}; // searchPackages only
+}
+
+export interface ToolExecutionResult {
+  part: FunctionResponsePart;
+  packageIds: string[];
+}
+
+function toSummary(id: string, data: any): PackageSummary {
+  return {
+    id,
+    title: data.title,
+    location: data.location,
+    country: data.country,
+    category: data.category,
+    duration: data.duration,
+    price: data.price,
+    currency: data.currency || "USD",
+    rating: data.rating || 0,
+    ...(data.minAge ? {minAge: data.minAge} : {}),
+    ...(data.maxGuests ? {maxGuests: data.maxGuests} : {}),
+    ...(data.difficulty ? {difficulty: data.difficulty} : {}),
+  };
+}
+
+/**
+ * Whether a package suits the travelling party: everyone fits, the youngest child is old enough
+ * and the package is not too demanding for them.
+ */
+function suitsParty(data: any, guests: unknown, youngest: unknown): boolean {
+  if (typeof guests === "number" && data.maxGuests && guests > data.maxGuests) return false;
+  if (typeof youngest !== "number") return true;
+  if (data.minAge && youngest < data.minAge) return false;
+  if (youngest < EASY_ONLY_UNDER_AGE && data.difficulty && data.difficulty !== "easy") return false;
+  if (youngest < NO_CHALLENGING_UNDER_AGE && data.difficulty === "challenging") return false;
+  return true;
+}
+
+function clampLimit(limit: unknown): number {
+  const n = typeof limit === "number" && limit > 0 ? Math.floor(limit) : DEFAULT_RESULT_LIMIT;
+  return Math.min(n, MAX_RESULT_LIMIT);
+}
+
+/**
+ * Formats a price with Intl, falling back to "<amount> <currency>" for unknown codes.
+ */
+export function formatPrice(amount: number, currency: string, locale = "en-US"): string {
+  try {
+    return new Intl.NumberFormat(locale, {style: "currency", currency, maximumFractionDigits: 0}).format(amount);
+  } catch {
+    return `${Math.round(amount)} ${currency}`;
+  }
+}
+
+async function loadBookablePackages(): Promise<Array<{id: string; data: any}>> {
+  const snapshot = await getFirestore().collection(PACKAGES_COLLECTION)
+    .where("status", "==", "published")
+    .where("availability", "==", true)
+    .get();
+  return snapshot.docs.map((doc) => ({id: doc.id, data: doc.data()}));
+}
+
+/**
+ * Currency price filters are compared in: the one asked for, else the user's, else the FX base.
+ * Prices are converted with the stored rates; without rates only same-currency prices compare.
+ */
+async function resolvePriceConversion(uid: string, requested: unknown): Promise<{currency: string; convert: (price: number, from: string) => number | null}> {
+  const [fx, preferred] = await Promise.all([loadFxRates(), preferredCurrency(uid)]);
+  const currency = typeof requested === "string" && SUPPORTED_CURRENCIES.includes(requested) ?
+    requested :
+    preferred || FX_BASE_CURRENCY;
+  return {
+    currency,
+    convert: (price, from) => {
+      const rate = from === currency ? 1 : fx ? crossRate(from, currency, fx.rates) : null;
+      return rate === null ? null : Math.round(price * rate * 100) / 100;
+    },
+  };
+}
+
+async function searchPackages(args: Record<string, any>, uid: string): Promise<PackageSummary[]> {
+  const query = typeof args.query === "string" ? args.query.toLowerCase().trim() : "";
+  const country = typeof args.country === "string" ? args.country.toLowerCase() : "";
+  const {currency, convert} = await resolvePriceConversion(uid, args.priceCurrency);
+  const hasPriceFilter = typeof args.minPrice === "number" || typeof args.maxPrice === "number";
+
+  // Firestore has no full-text search, filter the published catalog in memory like packageService.searchPackages
+  const packages = (await loadBookablePackages()).map((pkg) => ({...pkg, price: convert(pkg.data.price, pkg.data.currency || "USD")}));
+  const matches = packages.filter(({data, price}) => {
+    if (args.category && data.category !== args.category) return false;
+    if (country && String(data.country || "").toLowerCase() !== country) return false;
+    if (hasPriceFilter) {
+      // A price that can't be converted can't be compared either
+      if (price === null) return false;
+      if (typeof args.minPrice === "number" && price < args.minPrice) return false;
+      if (typeof args.maxPrice === "number" && price > args.maxPrice) return false;
+    }
+    if (typeof args.maxDuration === "number" && data.duration > args.maxDuration) return false;
+    if (!suitsParty(data, args.guests, args.youngestChildAge)) return false;
+    if (!query) return true;
+    const haystack = [data.title, data.description, data.location, data.country, ...(data.tags || [])]
+      .join(" ")
+      .toLowerCase();
+    return query.split(/\s+/).every((word: string) => haystack.includes(word));
+  });
+
+  return matches
+    .sort((a, b) => (b.data.rating || 0) - (a.data.rating || 0))
+    .slice(0, clampLimit(args.limit))
+    .map(({id, data, price}) => ({
+      ...toSummary(id, data),
+      ...(price !== null ? {priceInCurrency: {amount: price, currency}} : {}),
+    }));
+}
+
+async function getFeaturedPackages(limit: unknown): Promise<PackageSummary[]> {
+  return (await loadBookablePackages())
+    .sort((a, b) =>
+      Number(!!b.data.isPromoted) - Number(!!a.data.isPromoted) || (b.data.rating || 0) - (a.data.rating || 0))
+    .slice(0, clampLimit(limit))
+    .map(({id, data}) => toSummary(id, data));
+}
+
+/**
+ * Runs one function call from Gemini for the signed-in user and wraps the result as a function
+ * response part. Errors are returned to the model as `{error}` so it can recover in prose.
+ */
+export async function executePackageTool(call: FunctionCall, uid: string): Promise<ToolExecutionResult> {
+  const args = (call.args || {}) as Record<string, any>;
+  let response: object;
+  let packageIds: string[] = [];
+
+  try {
+    switch (call.name) {
+    case "searchPackages": {
+      const packages = await searchPackages(args, uid);
+      packageIds = packages.map((p) => p.id);
+      response = {packages};
+      break;
+    }
+    case "getPackage": {
+      const doc = await getFirestore().collection(PACKAGES_COLLECTION).doc(String(args.packageId || "")).get();
+      const data = doc.data();
+      if (!doc.exists || !data || data.status !== "published") {
+        response = {error: "Package not found"};
+        break;
+      }
+      packageIds = [doc.id];
+      // Same quote PackageDetail shows, so chat and page agree on the price
+      const {quoteId, quote} = await getOrCreateQuote(uid, doc.id, data);
+      response = {
+        package: {
+          ...toSummary(doc.id, data),
+          price: quote.pricing.totalPrice,
+          listPrice: data.price,
+          quoteId,
+          priceValidUntil: quote.expiresAt.toDate().toISOString(),
+          ...(quote.pricing.fx ? {priceInUserCurrency: {amount: quote.pricing.fx.totalPrice, currency: quote.pricing.fx.currency}} : {}),
+          description: data.description,
+          highlights: data.highlights || [],
+          inclusions: data.inclusions || [],
+          bestTime: data.bestTime || [],
+        },
+      };
+      break;
+    }
+    case "getFeaturedPackages": {
+      const packages = await getFeaturedPackages(args.limit);
+      packageIds = packages.map((p) => p.id);
+      response = {packages};
+      break;
+    }
+    case "watchPackage": {
+      const {watchId, watch} = await saveWatch(uid, args, "chat");
+      response = {
+        watch: {
+          id: watchId,
+          packageTitle: watch.packageTitle,
+          destination: watch.destination,
+          condition: watch.condition,
+          targetPrice: watch.targetPrice,
+          currency: watch.currency,
+          notifyByEmail: watch.notifyByEmail,
+        },
+      };
+      break;
+    }
+    case "formatPrice":
+      response = {formatted: formatPrice(Number(args.amount), String(args.currency || "USD"), args.locale)};
+      break;
+    default:
+      response = {error: `Unknown function ${call.name}`};
+    }
+  } catch (error) {
+    logger.error(`Package tool ${call.name} failed:`, error);
+    // Validation messages (e.g. "already at or below the target price") help the model answer
+    response = {error: error instanceof HttpsError ? error.message : "Tool execution failed"};
+  }
+
+  logger.info(`Package tool ${call.name} executed`, {args, packageIds});
+  return {part: {functionResponse: {name: call.name, response}}, packageIds};
+}
+
+/**
+ * Runs every function call of a model turn. Returns the response parts to send back
+ * and the package ids the carousel should show, deduplicated into `packageIds`.
+ */
+export async function executePackageTools(
+  calls: FunctionCall[],
+  packageIds: string[],
+  uid: string
+): Promise<FunctionResponsePart[]> {
+  const executions = await Promise.all(calls.map((call) => executePackageTool(call, uid)));
+  for (const {packageIds: ids} of executions) {
+    for (const id of ids) {
+      if (!packageIds.includes(id) && packageIds.length < MAX_CAROUSEL_PACKAGES) {
+        packageIds.push(id);
+      }
+    }
+  }
+  return executions.map((e) => e.part);
+}
@@ -0,0 +1,34 @@
+import {defineSecret} from "firebase-functions/params";
+import {FakePaymentProvider} from "./fake-payment-provider";
+import {PaymentProvider, resolvePaymentProviderName} from "./payment-provider";
+import {StripePaymentProvider} from "./stripe-provider";
+
+// AI LOVVE - Picks the payment provider for the current environment
+
+// firebase functions:secrets:set STRIPE_SECRET_KEY
+// firebase functions:secrets:set STRIPE_WEBHOOK_SECRET
+const stripeSecretKey = defineSecret("STRIPE_SECRET_KEY");
+const stripeWebhookSecret = defineSecret("STRIPE_WEBHOOK_SECRET");
+
+// Attach to every function that calls getPaymentProvider()
+export const PAYMENT_SECRETS = [stripeSecretKey, stripeWebhookSecret];
+
+// fakeCheckout endpoint in the functions emulator (port from firebase.json)
+function fakeCheckoutUrl(): string {
+  const project = process.env.GCLOUD_PROJECT || "ailovve";
+  return `http://127.0.0.1:5001/${project}/europe-west1/fakeCheckout`;
+}
+
+export function getPaymentProvider(): PaymentProvider {
+  if (resolvePaymentProviderName() === 'fake') {
+    return new FakePaymentProvider(fakeCheckoutUrl());
+  }
+  return new StripePaymentProvider(stripeSecretKey.value(), stripeWebhookSecret.value());
+}
+
+export function getFakePaymentProvider(): FakePaymentProvider {
+  if (resolvePaymentProviderName() !== 'fake') {
+    throw new Error("The fake payment gateway is only available when PAYMENT_PROVIDER=fake or in the emulator");
+  }
+  return new FakePaymentProvider(fakeCheckoutUrl());
+}
@@ -0,0 +1,112 @@
+import {PlanType} from "./model-registry";
+
+// AI LOVVE - Payment provider abstraction (Stripe in production, fake gateway in the emulator)
+
+export type PaymentProviderName = 'stripe' | 'fake';
+export type PaymentPurpose = 'subscription' | 'booking_payment';
+export type PaidPlanType = Exclude<PlanType, 'free'>;
+
+interface PlanPrice {
+  name: string;
+  amount: number; // major units
+  currency: string;
+  interval?: 'month'; // omitted for one-time purchases
+}
+
+// Mirrors the plans shown in src/components/modals/SubscriptionModal.tsx
+export const PLAN_PRICES: Record<PaidPlanType, PlanPrice> = {
+  pro: {name: "AI LOVVE PRO", amount: 19.99, currency: "USD", interval: 'month'},
+  pro_bride: {name: "AI LOVVE Wedding Consultant", amount: 100, currency: "USD"},
+};
+
+export interface CheckoutRequest {
+  purpose: PaymentPurpose;
+  userId: string;
+  email?: string;
+  customerId?: string; // Existing provider customer, reused for repeat purchases
+  item: PlanPrice;
+  metadata: Record<string, string>; // Echoed back on the webhook event
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  url: string;
+}
+
+export type PaymentEventType =
+  | 'checkout.completed'
+  | 'checkout.expired'
+  | 'subscription.renewed'
+  | 'subscription.cancelled'
+  | 'payment.failed'
+  | 'ignored';
+
+/**
+ * Provider-neutral webhook event. Handlers in payments.ts only ever see this shape.
+ */
+export interface PaymentEvent {
+  id: string; // Provider event id, used to process each event once
+  type: PaymentEventType;
+  provider: PaymentProviderName;
+  checkoutSessionId?: string;
+  metadata: Record<string, string>;
+  customerId?: string;
+  subscriptionId?: string;
+  paymentId?: string; // Charge reference used for refunds
+  amount?: number; // major units
+  currency?: string;
+  currentPeriodEnd?: Date;
+}
+
+export interface RefundRequest {
+  paymentId: string;
+  amount: number; // major units
+  currency: string;
+  idempotencyKey: string;
+}
+
+export interface RefundResult {
+  refundId: string;
+  amount: number;
+}
+
+export interface SubscriptionPeriod {
+  subscriptionId: string;
+  active: boolean;
+  currentPeriodEnd: Date;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  // Request header carrying the webhook signature
+  readonly signatureHeader: string;
+  createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession>;
+  // Throws if the signature doesn't match the raw request body
+  verifyWebhook(rawBody: Buffer, signature: string | undefined): Promise<PaymentEvent>;
+  refund(request: RefundRequest): Promise<RefundResult>;
+  // Current billing period from the provider, used to pick up renewals a webhook missed
+  renewSubscription(subscriptionId: string): Promise<SubscriptionPeriod>;
+  // Stops renewal at the end of the current period
+  cancelSubscription(subscriptionId: string): Promise<void>;
+}
+
+const ZERO_DECIMAL_CURRENCIES = ['JPY', 'KRW', 'VND'];
+
+export function toMinorUnits(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase()) ? Math.round(amount) : Math.round(amount * 100);
+}
+
+export function fromMinorUnits(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase()) ? amount : amount / 100;
+}
+
+/**
+ * PAYMENT_PROVIDER picks the gateway explicitly; otherwise the emulator uses the fake one.
+ */
+export function resolvePaymentProviderName(): PaymentProviderName {
+  const configured = process.env.PAYMENT_PROVIDER;
+  if (configured === 'stripe' || configured === 'fake') return configured;
+  return process.env.FUNCTIONS_EMULATOR === "true" ? 'fake' : 'stripe';
+}
@@ -0,0 +1,185 @@
+import {Timestamp} from "firebase-admin/firestore";
+
+// AI LOVVE - Booking payment schedules (bookings/{bookingId}.paymentSchedule)
+// Pure helpers: bookings.ts reads and writes the schedule inside its transactions.
+
+export type PaymentPlan = 'full' | 'deposit' | 'installment';
+export type InstallmentStatus = 'pending' | 'paid' | 'overdue';
+export type ScheduleStatus = 'active' | 'overdue' | 'completed' | 'cancelled';
+
+export interface Installment {
+  id: string;
+  kind: 'full' | 'deposit' | 'installment' | 'balance';
+  amount: number;
+  dueDate: Timestamp;
+  status: InstallmentStatus;
+  paidAt?: Timestamp;
+  transactionId?: string;
+}
+
+export interface PaymentSchedule {
+  plan: PaymentPlan;
+  currency: string;
+  installments: Installment[];
+  amountPaid: number;
+  outstandingBalance: number;
+  nextDueDate: Timestamp | null;
+  status: ScheduleStatus;
+}
+
+export const PAYMENT_PLANS: PaymentPlan[] = ['full', 'deposit', 'installment'];
+export const DEPOSIT_RATE = 0.3; // Matches the "%30 Kapora" option of the booking assistant
+export const MIN_INSTALLMENTS = 2;
+export const MAX_INSTALLMENTS = 6;
+// Everything has to be paid this many days before the trip starts
+export const BALANCE_DUE_DAYS_BEFORE_TRIP = 30;
+// Bookings with an installment overdue for longer than this are cancelled automatically
+export const OVERDUE_GRACE_DAYS = 7;
+// Pending installments get a daily reminder from this many days before their due date
+export const REMINDER_DAYS_BEFORE_DUE = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Last due date for split payments; split plans are only offered when it's still ahead.
+ */
+export function balanceDueDate(startDate: Date): Date {
+  return new Date(startDate.getTime() - BALANCE_DUE_DAYS_BEFORE_TRIP * DAY_MS);
+}
+
+/**
+ * Builds the schedule for a new booking. The first payment is due right away, the last one
+ * BALANCE_DUE_DAYS_BEFORE_TRIP days before the trip; installments are spread evenly in between.
+ */
+export function buildPaymentSchedule(
+  totalPrice: number,
+  currency: string,
+  plan: PaymentPlan,
+  startDate: Date,
+  now: Date,
+  installmentCount = 3,
+): PaymentSchedule {
+  const finalDue = balanceDueDate(startDate).getTime();
+  const due = (millis: number) => Timestamp.fromMillis(millis);
+  let installments: Installment[];
+
+  if (plan === 'deposit') {
+    const deposit = roundMoney(totalPrice * DEPOSIT_RATE);
+    installments = [
+      {id: "deposit", kind: 'deposit', amount: deposit, dueDate: due(now.getTime()), status: 'pending'},
+      {id: "balance", kind: 'balance', amount: roundMoney(totalPrice - deposit), dueDate: due(finalDue), status: 'pending'},
+    ];
+  } else if (plan === 'installment') {
+    const share = Math.floor((totalPrice / installmentCount) * 100) / 100;
+    const step = (finalDue - now.getTime()) / (installmentCount - 1);
+    installments = Array.from({length: installmentCount}, (_, i) => ({
+      id: `installment_${i + 1}`,
+      kind: 'installment' as const,
+      // Rounding leftovers go on the last installment
+      amount: i === installmentCount - 1 ? roundMoney(totalPrice - share * (installmentCount - 1)) : share,
+      dueDate: due(Math.round(now.getTime() + step * i)),
+      status: 'pending' as InstallmentStatus,
+    }));
+  } else {
+    installments = [{id: "full", kind: 'full', amount: totalPrice, dueDate: due(now.getTime()), status: 'pending'}];
+  }
+
+  return summarizeSchedule({
+    plan,
+    currency,
+    installments,
+    amountPaid: 0,
+    outstandingBalance: totalPrice,
+    nextDueDate: null,
+    status: 'active',
+  });
+}
+
+/**
+ * Recomputes the derived fields (paid/outstanding totals, next due date, status).
+ */
+export function summarizeSchedule(schedule: PaymentSchedule): PaymentSchedule {
+  const unpaid = schedule.installments.filter((i) => i.status !== 'paid');
+  const amountPaid = roundMoney(schedule.installments
+    .filter((i) => i.status === 'paid')
+    .reduce((sum, i) => sum + i.amount, 0));
+
+  let status: ScheduleStatus = schedule.status;
+  if (status !== 'cancelled') {
+    if (unpaid.length === 0) status = 'completed';
+    else status = unpaid.some((i) => i.status === 'overdue') ? 'overdue' : 'active';
+  }
+
+  return {
+    ...schedule,
+    amountPaid,
+    outstandingBalance: roundMoney(unpaid.reduce((sum, i) => sum + i.amount, 0)),
+    nextDueDate: unpaid[0]?.dueDate ?? null,
+    status,
+  };
+}
+
+/**
+ * The installment a checkout should collect next, overdue ones first since they come first.
+ */
+export function nextPayableInstallment(schedule: PaymentSchedule): Installment | undefined {
+  if (schedule.status === 'cancelled') return undefined;
+  return schedule.installments.find((i) => i.status !== 'paid');
+}
+
+/**
+ * Marks one installment as paid, or every open one when `installmentId` is omitted
+ * (an admin confirming a payment made outside the gateway).
+ */
+export function applyInstallmentPayment(
+  schedule: PaymentSchedule,
+  installmentId: string | undefined,
+  transactionId: string | undefined,
+  now: Timestamp,
+): PaymentSchedule {
+  if (installmentId && !schedule.installments.some((i) => i.id === installmentId && i.status !== 'paid')) {
+    throw new Error(`Installment ${installmentId} is not open`);
+  }
+
+  const installments = schedule.installments.map((i) => {
+    if (i.status === 'paid' || (installmentId && i.id !== installmentId)) return i;
+    return {...i, status: 'paid' as InstallmentStatus, paidAt: now, ...(transactionId ? {transactionId} : {})};
+  });
+  return summarizeSchedule({...schedule, installments});
+}
+
+/**
+ * Flags pending installments whose due date has passed. Returns null when nothing changed.
+ */
+export function markOverdueInstallments(schedule: PaymentSchedule, now: Date): PaymentSchedule | null {
+  let changed = false;
+  const installments = schedule.installments.map((i) => {
+    if (i.status !== 'pending' || i.dueDate.toMillis() >= now.getTime()) return i;
+    changed = true;
+    return {...i, status: 'overdue' as InstallmentStatus};
+  });
+  return changed ? summarizeSchedule({...schedule, installments}) : null;
+}
+
+/**
+ * Installments to remind the user of today: overdue ones and those due within a week.
+ */
+export function installmentsToRemind(schedule: PaymentSchedule, now: Date): Installment[] {
+  if (!['active', 'overdue'].includes(schedule.status)) return [];
+  const horizon = now.getTime() + REMINDER_DAYS_BEFORE_DUE * DAY_MS;
+  return schedule.installments.filter((i) =>
+    i.status === 'overdue' || (i.status === 'pending' && i.dueDate.toMillis() <= horizon)
+  );
+}
+
+/**
+ * Automatic cancellation rule: an installment left unpaid OVERDUE_GRACE_DAYS past its due date.
+ */
+export function isPastGracePeriod(schedule: PaymentSchedule, now: Date): boolean {
+  const cutoff = now.getTime() - OVERDUE_GRACE_DAYS * DAY_MS;
+  return schedule.installments.some((i) => i.status === 'overdue' && i.dueDate.toMillis() < cutoff);
+}
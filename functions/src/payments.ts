@@ -0,0 +1,449 @@
+import * as logger from "firebase-functions/logger";
+import {FieldValue, getFirestore, Timestamp} from "firebase-admin/firestore";
+import {HttpsError, onCall, onRequest} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {recordBookingPayment} from "./bookings";
+import {FakeCheckoutRecord} from "./fake-payment-provider";
+import {getFakePaymentProvider, getPaymentProvider, PAYMENT_SECRETS} from "./payment-gateway";
+import {CheckoutRequest, PaidPlanType, PaymentEvent, PaymentProvider, PLAN_PRICES} from "./payment-provider";
+import {nextPayableInstallment} from "./payment-schedules";
+
+// CORS configuration for Firebase Functions v2
+const allowedOrigins = [
+  'https://lovve.tech',
+  'https://www.lovve.tech',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'http://127.0.0.1:5173',
+  'https://ailovve.firebaseapp.com'
+];
+
+// AI LOVVE - Checkout, webhooks and renewals (payments/{checkoutSessionId}, paymentEvents/{eventId})
+// Subscription plan changes are only ever written here, driven by provider webhooks.
+
+const FREE_MESSAGE_QUOTA = 20;
+
+interface CheckoutUrls {
+  successUrl: string;
+  cancelUrl: string;
+}
+
+function requireAuth(uid: string | undefined): string {
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Authentication required");
+  }
+  return uid;
+}
+
+// Redirects only go back to our own origins
+function validateRedirectUrls(data: Partial<CheckoutUrls>): CheckoutUrls {
+  for (const url of [data.successUrl, data.cancelUrl]) {
+    let origin = "";
+    try {
+      origin = new URL(String(url)).origin;
+    } catch {
+      // Falls through to the error below
+    }
+    if (!allowedOrigins.includes(origin)) {
+      throw new HttpsError("invalid-argument", "successUrl and cancelUrl must point to the app");
+    }
+  }
+  return {successUrl: String(data.successUrl), cancelUrl: String(data.cancelUrl)};
+}
+
+async function startCheckout(
+  provider: PaymentProvider,
+  request: CheckoutRequest,
+): Promise<{success: boolean; sessionId: string; url: string}> {
+  // A fresh reference per attempt, so a repeat purchase is never mistaken for an already handled one
+  const metadata = {...request.metadata, checkoutRef: getFirestore().collection("payments").doc().id};
+  const session = await provider.createCheckoutSession({...request, metadata});
+  // Keep our own record so webhooks, the fake gateway and support can trace every checkout
+  await getFirestore().collection("payments").doc(session.id).set({
+    provider: provider.name,
+    purpose: request.purpose,
+    userId: request.userId,
+    metadata,
+    amount: request.item.amount,
+    currency: request.item.currency,
+    ...(request.item.interval ? {interval: request.item.interval} : {}),
+    successUrl: request.successUrl,
+    cancelUrl: request.cancelUrl,
+    status: 'open',
+    createdAt: Timestamp.now(),
+  });
+
+  logger.info(`Checkout ${session.id} started`, {provider: provider.name, purpose: request.purpose, userId: request.userId});
+  return {success: true, sessionId: session.id, url: session.url};
+}
+
+/**
+ * Starts a checkout for the PRO or Wedding Consultant plan. The plan is granted by the
+ * payment webhook once the provider reports the payment, never by the client.
+ */
+export const createSubscriptionCheckout = onCall<{planType: PaidPlanType} & Partial<CheckoutUrls>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins,
+    secrets: PAYMENT_SECRETS,
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const {planType} = request.data || {};
+    const price = PLAN_PRICES[planType];
+    if (!price) {
+      throw new HttpsError("invalid-argument", "planType must be pro or pro_bride");
+    }
+    const urls = validateRedirectUrls(request.data);
+
+    const subscription = (await getFirestore().collection("subscriptions").doc(uid).get()).data();
+    if (subscription?.isActive && subscription.planType === planType) {
+      throw new HttpsError("failed-precondition", `You are already on the ${planType} plan`);
+    }
+
+    try {
+      return await startCheckout(getPaymentProvider(), {
+        purpose: 'subscription',
+        userId: uid,
+        email: request.auth?.token.email,
+        customerId: subscription?.stripeCustomerId || undefined,
+        item: price,
+        metadata: {purpose: 'subscription', userId: uid, planType},
+        ...urls,
+      });
+    } catch (error) {
+      logger.error("Error creating subscription checkout:", error);
+      throw new HttpsError("internal", "Failed to start checkout");
+    }
+  }
+);
+
+/**
+ * Starts a checkout for the next open installment of a booking's payment schedule
+ * (the deposit, the next installment or the full amount). The payment webhook records it.
+ */
+export const createBookingCheckout = onCall<{bookingId: string} & Partial<CheckoutUrls>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins,
+    secrets: PAYMENT_SECRETS,
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const {bookingId} = request.data || {};
+    if (!bookingId) {
+      throw new HttpsError("invalid-argument", "bookingId is required");
+    }
+    const urls = validateRedirectUrls(request.data);
+
+    const booking = (await getFirestore().collection("bookings").doc(bookingId).get()).data();
+    if (!booking || booking.userId !== uid) {
+      throw new HttpsError("not-found", "Booking not found");
+    }
+    const installment = booking.paymentSchedule ? nextPayableInstallment(booking.paymentSchedule) : undefined;
+    if (!['pending', 'confirmed'].includes(booking.status) || !installment) {
+      throw new HttpsError("failed-precondition", "This booking has no open payment");
+    }
+
+    try {
+      return await startCheckout(getPaymentProvider(), {
+        purpose: 'booking_payment',
+        userId: uid,
+        email: booking.customer?.email,
+        item: {name: `AI LOVVE booking ${bookingId} (${installment.kind})`, amount: installment.amount, currency: booking.pricing.currency},
+        metadata: {purpose: 'booking_payment', userId: uid, bookingId, installmentId: installment.id},
+        ...urls,
+      });
+    } catch (error) {
+      logger.error("Error creating booking checkout:", error);
+      throw new HttpsError("internal", "Failed to start checkout");
+    }
+  }
+);
+
+/**
+ * Stops renewal of the caller's paid plan. The plan stays active until the period ends,
+ * then the provider's cancellation webhook (or the renewal sync) moves it back to free.
+ */
+export const cancelPaidSubscription = onCall(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins,
+    secrets: PAYMENT_SECRETS,
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const ref = getFirestore().collection("subscriptions").doc(uid);
+    const subscription = (await ref.get()).data();
+    if (!subscription?.stripeSubscriptionId) {
+      throw new HttpsError("failed-precondition", "No renewing subscription to cancel");
+    }
+
+    try {
+      await getPaymentProvider().cancelSubscription(subscription.stripeSubscriptionId);
+      await ref.update({cancelAtPeriodEnd: true, updatedAt: Timestamp.now()});
+    } catch (error) {
+      logger.error("Error cancelling subscription:", error);
+      throw new HttpsError("internal", "Failed to cancel subscription");
+    }
+
+    return {success: true, endDate: subscription.endDate?.toMillis() ?? null};
+  }
+);
+
+/**
+ * Grants the purchased plan. A one-time plan bought on top of a renewing one stops that renewal
+ * first, as the subscription id is replaced and nothing could reach the old subscription afterwards.
+ */
+async function activatePlan(event: PaymentEvent): Promise<void> {
+  const {userId, planType} = event.metadata;
+  if (!userId || !(planType in PLAN_PRICES)) {
+    throw new Error(`Checkout ${event.checkoutSessionId} has no valid userId/planType metadata`);
+  }
+
+  const ref = getFirestore().collection("subscriptions").doc(userId);
+  const previousSubscriptionId: string | undefined = (await ref.get()).data()?.stripeSubscriptionId || undefined;
+  if (previousSubscriptionId && previousSubscriptionId !== event.subscriptionId) {
+    await getPaymentProvider().cancelSubscription(previousSubscriptionId);
+    logger.info(`Renewal of ${previousSubscriptionId} stopped, ${userId} switched to ${planType}`);
+  }
+
+  const now = Timestamp.now();
+  await ref.set({
+    userId,
+    planType,
+    isActive: true,
+    startDate: now,
+    endDate: event.currentPeriodEnd ? Timestamp.fromDate(event.currentPeriodEnd) : null,
+    messageQuota: -1,
+    messagesUsed: 0,
+    quotaResetTime: FieldValue.delete(),
+    stripeCustomerId: event.customerId || null,
+    stripeSubscriptionId: event.subscriptionId || null,
+    paymentProvider: event.provider,
+    cancelAtPeriodEnd: false,
+    updatedAt: now,
+  }, {merge: true});
+  logger.info(`Plan ${planType} activated for ${userId}`, {provider: event.provider});
+}
+
+async function downgradeToFree(userId: string, reason: string): Promise<void> {
+  await getFirestore().collection("subscriptions").doc(userId).set({
+    planType: 'free',
+    isActive: true,
+    endDate: null,
+    messageQuota: FREE_MESSAGE_QUOTA,
+    messagesUsed: 0,
+    quotaResetTime: FieldValue.delete(),
+    stripeSubscriptionId: null,
+    cancelAtPeriodEnd: false,
+    updatedAt: Timestamp.now(),
+  }, {merge: true});
+  logger.info(`Subscription of ${userId} moved back to free`, {reason});
+}
+
+// Renewal and cancellation events identify the user by metadata, falling back to the subscription id.
+// Events of a subscription the user has since replaced, e.g. by a one-time plan, are not theirs anymore.
+async function findSubscriptionOwner(event: PaymentEvent): Promise<string | undefined> {
+  if (!event.subscriptionId) return undefined;
+  const subscriptions = getFirestore().collection("subscriptions");
+  if (event.metadata.userId) {
+    const current = (await subscriptions.doc(event.metadata.userId).get()).data();
+    return current?.stripeSubscriptionId === event.subscriptionId ? event.metadata.userId : undefined;
+  }
+  const snapshot = await subscriptions
+    .where("stripeSubscriptionId", "==", event.subscriptionId)
+    .limit(1)
+    .get();
+  return snapshot.docs[0]?.id;
+}
+
+async function applyPaymentEvent(event: PaymentEvent): Promise<void> {
+  const db = getFirestore();
+  const checkoutRef = event.checkoutSessionId ? db.collection("payments").doc(event.checkoutSessionId) : undefined;
+
+  switch (event.type) {
+  case 'checkout.completed':
+    if (event.metadata.purpose === 'booking_payment') {
+      try {
+        await recordBookingPayment(event.metadata.bookingId, {
+          installmentId: event.metadata.installmentId,
+          transactionId: event.paymentId,
+          provider: event.provider,
+        });
+      } catch (error) {
+        // Retrying won't help (e.g. the booking was cancelled meanwhile), an admin has to refund it
+        if (!(error instanceof HttpsError && error.code === "failed-precondition")) throw error;
+        logger.error(`Payment ${event.paymentId} for booking ${event.metadata.bookingId} needs a manual refund:`, error);
+      }
+    } else {
+      await activatePlan(event);
+    }
+    await checkoutRef?.set({status: 'completed', paymentId: event.paymentId || null, completedAt: Timestamp.now()}, {merge: true});
+    break;
+  case 'checkout.expired':
+    await checkoutRef?.set({status: 'expired'}, {merge: true});
+    break;
+  case 'subscription.renewed': {
+    const userId = await findSubscriptionOwner(event);
+    if (!userId || !event.currentPeriodEnd) break;
+    await db.collection("subscriptions").doc(userId).update({
+      isActive: true,
+      endDate: Timestamp.fromDate(event.currentPeriodEnd),
+      updatedAt: Timestamp.now(),
+    });
+    break;
+  }
+  case 'subscription.cancelled': {
+    const userId = await findSubscriptionOwner(event);
+    if (userId) await downgradeToFree(userId, "provider_cancelled");
+    break;
+  }
+  case 'payment.failed':
+    // The provider retries failed renewals and sends subscription.cancelled when it gives up
+    logger.warn("Payment failed", {subscriptionId: event.subscriptionId, userId: event.metadata.userId});
+    break;
+  default:
+    break;
+  }
+}
+
+/**
+ * Applies a verified event once. The paymentEvents marker is removed again if handling
+ * fails, so the provider's retry gets another chance.
+ */
+async function handlePaymentEvent(event: PaymentEvent): Promise<void> {
+  logger.info(`Payment webhook ${event.type}`, {provider: event.provider, id: event.id});
+  if (event.type === 'ignored') return;
+
+  const markerRef = getFirestore().collection("paymentEvents").doc(`${event.provider}_${event.id}`);
+  try {
+    await markerRef.create({type: event.type, receivedAt: Timestamp.now()});
+  } catch (error: any) {
+    if (error?.code === 6) { // ALREADY_EXISTS
+      logger.info(`Payment event ${event.id} already processed`);
+      return;
+    }
+    throw error;
+  }
+
+  try {
+    await applyPaymentEvent(event);
+  } catch (error) {
+    await markerRef.delete();
+    throw error;
+  }
+}
+
+/**
+ * Webhook endpoint for the active payment provider (Stripe: point the dashboard webhook here).
+ */
+export const paymentWebhook = onRequest(
+  {
+    region: "europe-west1",
+    secrets: PAYMENT_SECRETS,
+  },
+  async (req, res) => {
+    if (req.method !== "POST") {
+      res.status(405).json({success: false, message: "Method not allowed"});
+      return;
+    }
+
+    const provider = getPaymentProvider();
+    let event: PaymentEvent;
+    try {
+      event = await provider.verifyWebhook(req.rawBody, req.get(provider.signatureHeader));
+    } catch (error) {
+      logger.warn("Rejected payment webhook:", error);
+      res.status(400).json({success: false, message: "Invalid signature"});
+      return;
+    }
+
+    try {
+      await handlePaymentEvent(event);
+      res.json({received: true});
+    } catch (error) {
+      logger.error("Error handling payment webhook:", error);
+      res.status(500).json({success: false, message: "Webhook handling failed"});
+    }
+  }
+);
+
+/**
+ * Hosted payment page of the fake gateway. Completes (or with outcome=expired, abandons)
+ * the checkout by sending a signed webhook through the normal webhook path, then redirects
+ * back to the app like Stripe Checkout would. Only answers when the fake gateway is active.
+ */
+export const fakeCheckout = onRequest(
+  {
+    region: "europe-west1",
+  },
+  async (req, res) => {
+    let provider;
+    try {
+      provider = getFakePaymentProvider();
+    } catch {
+      res.status(404).send("Not found");
+      return;
+    }
+
+    const sessionId = String(req.query.session || "");
+    const outcome = req.query.outcome === "expired" ? 'expired' : 'success';
+    const record = sessionId ? (await getFirestore().collection("payments").doc(sessionId).get()).data() : undefined;
+    if (!record || record.provider !== 'fake') {
+      res.status(404).send("Unknown checkout session");
+      return;
+    }
+
+    try {
+      const checkout: FakeCheckoutRecord = {id: sessionId, ...record} as FakeCheckoutRecord;
+      const {rawBody, signature} = provider.simulateCheckout(checkout, outcome);
+      await handlePaymentEvent(await provider.verifyWebhook(rawBody, signature));
+      res.redirect(outcome === 'success' ? record.successUrl : record.cancelUrl);
+    } catch (error) {
+      logger.error(`Fake checkout ${sessionId} failed:`, error);
+      res.status(500).send("Fake checkout failed");
+    }
+  }
+);
+
+/**
+ * Daily safety net for renewals: re-reads subscriptions whose period has ended from the
+ * provider, extending active ones and moving cancelled or lapsed ones back to free.
+ */
+export const syncSubscriptionRenewals = onSchedule(
+  {
+    schedule: "every 24 hours",
+    region: "europe-west1",
+    secrets: PAYMENT_SECRETS,
+  },
+  async () => {
+    const provider = getPaymentProvider();
+    const snapshot = await getFirestore().collection("subscriptions")
+      .where("endDate", "<=", Timestamp.now())
+      .get();
+
+    for (const doc of snapshot.docs) {
+      const subscription = doc.data();
+      if (subscription.planType === 'free') continue;
+      try {
+        if (subscription.cancelAtPeriodEnd || !subscription.stripeSubscriptionId) {
+          await downgradeToFree(doc.id, "period_ended");
+          continue;
+        }
+        const period = await provider.renewSubscription(subscription.stripeSubscriptionId);
+        if (period.active && period.currentPeriodEnd.getTime() > Date.now()) {
+          await doc.ref.update({endDate: Timestamp.fromDate(period.currentPeriodEnd), updatedAt: Timestamp.now()});
+        } else {
+          await downgradeToFree(doc.id, "renewal_lapsed");
+        }
+      } catch (error) {
+        logger.error(`Renewal sync failed for ${doc.id}:`, error);
+      }
+    }
+    logger.info(`Renewal sync checked ${snapshot.size} subscriptions`);
+  }
+);
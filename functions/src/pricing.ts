@@ -0,0 +1,592 @@
+import * as logger from "firebase-functions/logger";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {BookingPricing} from "./bookings";
+import {localTime, seasonMonths} from "./proactive-notifications";
+import {lockFxRate, preferredCurrency} from "./fx-rates";
+
+// CORS configuration for Firebase Functions v2
+const allowedOrigins = [
+  'https://lovve.tech',
+  'https://www.lovve.tech',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'http://127.0.0.1:5173',
+  'https://ailovve.firebaseapp.com'
+];
+
+// AI LOVVE - Server-side dynamic pricing
+// priceQuotes/{quoteId}            every quote with its inputs, applied strategies and expiry; bookings honour them
+// pricingStrategies/{strategyId}   admin overrides of DEFAULT_STRATEGIES (updatePricingStrategy)
+// pricingGuardrails/{packageId}    admin floor / ceiling per room, in the package currency
+// pricingAudit/{entryId}           every strategy and guardrail change with before / after values
+
+export type PriceSegment = 'budget' | 'mid_range' | 'luxury' | 'premium';
+export type StrategyMetric = 'booking_days_ahead' | 'demand' | 'weather_score' | 'loyalty_score' | 'conversion_probability';
+
+export interface PricingRule {
+  condition: string; // "<metric> <op> <number>", e.g. "demand > 0.8"
+  action: 'increase' | 'decrease' | 'maintain';
+  percentage: number;
+  maxAdjustment: number;
+}
+
+// Mirrors PricingStrategy in src/services/dynamicPricingEngine.ts
+export interface PricingStrategy {
+  id: string;
+  name: string;
+  description: string;
+  targetSegment: string[]; // PriceSegment, 'returning' or 'all'
+  rules: PricingRule[];
+  active: boolean;
+}
+
+export interface PricingGuardrails {
+  floor?: number;
+  ceiling?: number;
+}
+
+export interface QuoteInputs {
+  listPrice: number; // Package price per room
+  rooms: number;
+  travelDate?: string; // YYYY-MM-DD
+  segment: PriceSegment;
+  returning: boolean;
+  promotionPercent: number;
+  metrics: Partial<Record<StrategyMetric, number>>; // Metrics without data are left out and match no rule
+}
+
+export interface PriceQuoteDoc {
+  userId: string;
+  packageId: string;
+  inputs: QuoteInputs;
+  strategies: Array<{id: string; name: string; percentage: number}>;
+  adjustmentPercent: number;
+  guardrails?: PricingGuardrails & {applied?: 'floor' | 'ceiling'};
+  pricing: BookingPricing;
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+  bookingId?: string; // Set when a booking used the quote
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const QUOTE_TTL_MS = 30 * 60 * 1000;
+// Sum of all strategy adjustments, before guardrails
+const MAX_ADJUSTMENT_PERCENT = 50;
+const MAX_RULE_PERCENT = 50;
+const DEMAND_WINDOW_MS = 30 * DAY_MS;
+const DEMAND_SATURATION_BOOKINGS = 10; // Recent bookings of a package that count as full demand
+const LOYALTY_SATURATION_BOOKINGS = 3;
+const CONVERSION_WINDOW_MS = 90 * DAY_MS;
+const CONVERSION_MIN_QUOTES = 5;
+const MAX_ROOMS = 10;
+const SEGMENTS = ['all', 'budget', 'mid_range', 'luxury', 'premium', 'returning'];
+const METRICS: StrategyMetric[] = ['booking_days_ahead', 'demand', 'weather_score', 'loyalty_score', 'conversion_probability'];
+const CONDITION_PATTERN = /^([a-z_]+)\s*(<=|>=|<|>)\s*(-?\d+(?:\.\d+)?)$/;
+
+// Same strategies the browser engine used to run in memory
+export const DEFAULT_STRATEGIES: PricingStrategy[] = [
+  {
+    id: 'early_bird_discount',
+    name: 'Early Bird İndirimi',
+    description: 'Erken rezervasyon için indirim',
+    targetSegment: ['budget', 'mid_range'],
+    rules: [{condition: 'booking_days_ahead > 60', action: 'decrease', percentage: 15, maxAdjustment: 20}],
+    active: true,
+  },
+  {
+    id: 'last_minute_premium',
+    name: 'Son Dakika Premium',
+    description: 'Son dakika rezervasyonlar için premium fiyat',
+    targetSegment: ['luxury', 'premium'],
+    rules: [{condition: 'booking_days_ahead < 14', action: 'increase', percentage: 25, maxAdjustment: 40}],
+    active: true,
+  },
+  {
+    id: 'high_demand_surge',
+    name: 'Yoğun Talep Artışı',
+    description: 'Yüksek talep dönemlerinde fiyat artışı',
+    targetSegment: ['mid_range', 'luxury', 'premium'],
+    rules: [{condition: 'demand > 0.8', action: 'increase', percentage: 20, maxAdjustment: 35}],
+    active: true,
+  },
+  {
+    id: 'weather_bonus',
+    name: 'Hava Durumu Bonusu',
+    description: 'Paketin en iyi sezonunda fiyat ayarlaması',
+    targetSegment: ['all'],
+    rules: [{condition: 'weather_score > 0.8', action: 'increase', percentage: 10, maxAdjustment: 15}],
+    active: true,
+  },
+  {
+    id: 'loyalty_discount',
+    name: 'Sadakat İndirimi',
+    description: 'Sadık müşteriler için özel indirim',
+    targetSegment: ['returning'],
+    rules: [{condition: 'loyalty_score > 0.7', action: 'decrease', percentage: 12, maxAdjustment: 18}],
+    active: true,
+  },
+  {
+    id: 'conversion_optimization',
+    name: 'Dönüşüm Optimizasyonu',
+    description: 'Düşük dönüşüm oranlarında fiyat ayarlaması',
+    targetSegment: ['all'],
+    rules: [{condition: 'conversion_probability < 0.3', action: 'decrease', percentage: 8, maxAdjustment: 15}],
+    active: true,
+  },
+];
+
+function requireAuth(uid: string | undefined): string {
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Authentication required");
+  }
+  return uid;
+}
+
+async function requireAdmin(uid: string | undefined): Promise<string> {
+  const adminId = requireAuth(uid);
+  const userDoc = await getFirestore().collection("users").doc(adminId).get();
+  if (userDoc.data()?.isAdmin !== true) {
+    throw new HttpsError("permission-denied", "Admin access required");
+  }
+  return adminId;
+}
+
+export function priceSegment(listPrice: number): PriceSegment {
+  if (listPrice <= 2500) return 'budget';
+  if (listPrice <= 5000) return 'mid_range';
+  if (listPrice <= 8000) return 'luxury';
+  return 'premium';
+}
+
+/**
+ * Whether a rule condition holds for the metrics. Unknown metrics and metrics without data never match.
+ */
+export function evaluateCondition(condition: string, metrics: QuoteInputs['metrics']): boolean {
+  const match = CONDITION_PATTERN.exec(condition.trim());
+  if (!match) return false;
+  const value = metrics[match[1] as StrategyMetric];
+  if (value === undefined) return false;
+  const threshold = Number(match[3]);
+  switch (match[2]) {
+  case '<': return value < threshold;
+  case '<=': return value <= threshold;
+  case '>': return value > threshold;
+  default: return value >= threshold;
+  }
+}
+
+/**
+ * Applies the active strategies, the promotion and the guardrails. Pure, so the same inputs
+ * always give the same price; the first matching rule of a strategy counts.
+ */
+export function priceFromInputs(
+  inputs: QuoteInputs,
+  strategies: PricingStrategy[],
+  guardrails: PricingGuardrails,
+  currency: string
+): Pick<PriceQuoteDoc, 'strategies' | 'adjustmentPercent' | 'guardrails' | 'pricing'> {
+  const applied: PriceQuoteDoc['strategies'] = [];
+  for (const strategy of strategies) {
+    if (!strategy.active) continue;
+    const targeted = strategy.targetSegment.includes('all') || strategy.targetSegment.includes(inputs.segment) ||
+      (inputs.returning && strategy.targetSegment.includes('returning'));
+    if (!targeted) continue;
+
+    const rule = strategy.rules.find((r) => r.action !== 'maintain' && evaluateCondition(r.condition, inputs.metrics));
+    if (!rule) continue;
+    const percentage = Math.min(rule.percentage, rule.maxAdjustment);
+    applied.push({id: strategy.id, name: strategy.name, percentage: rule.action === 'increase' ? percentage : -percentage});
+  }
+
+  const adjustmentPercent = Math.max(-MAX_ADJUSTMENT_PERCENT,
+    Math.min(MAX_ADJUSTMENT_PERCENT, applied.reduce((sum, s) => sum + s.percentage, 0)));
+  const basePrice = inputs.listPrice * inputs.rooms;
+  const discounts = Math.round(basePrice * (inputs.promotionPercent / 100));
+  let totalPrice = Math.round(basePrice * (1 + adjustmentPercent / 100)) - discounts;
+
+  let guardrailApplied: 'floor' | 'ceiling' | undefined;
+  if (guardrails.floor !== undefined && totalPrice < guardrails.floor * inputs.rooms) {
+    totalPrice = guardrails.floor * inputs.rooms;
+    guardrailApplied = 'floor';
+  } else if (guardrails.ceiling !== undefined && totalPrice > guardrails.ceiling * inputs.rooms) {
+    totalPrice = guardrails.ceiling * inputs.rooms;
+    guardrailApplied = 'ceiling';
+  }
+
+  return {
+    strategies: applied,
+    adjustmentPercent,
+    ...(guardrails.floor !== undefined || guardrails.ceiling !== undefined ?
+      {guardrails: {...guardrails, ...(guardrailApplied ? {applied: guardrailApplied} : {})}} :
+      {}),
+    pricing: {
+      basePrice,
+      taxes: 0,
+      fees: 0,
+      discounts,
+      adjustment: totalPrice + discounts - basePrice,
+      totalPrice,
+      currency,
+    },
+  };
+}
+
+/**
+ * Defaults with the admin overrides from pricingStrategies applied.
+ */
+export async function loadStrategies(): Promise<PricingStrategy[]> {
+  const snapshot = await getFirestore().collection("pricingStrategies").get();
+  const overrides = new Map(snapshot.docs.map((doc) => [doc.id, doc.data() as Partial<PricingStrategy>]));
+  return DEFAULT_STRATEGIES.map((strategy) => ({...strategy, ...overrides.get(strategy.id), id: strategy.id}));
+}
+
+async function loadGuardrails(packageId: string): Promise<PricingGuardrails> {
+  const data = (await getFirestore().collection("pricingGuardrails").doc(packageId).get()).data();
+  return {
+    ...(typeof data?.floor === "number" ? {floor: data.floor} : {}),
+    ...(typeof data?.ceiling === "number" ? {ceiling: data.ceiling} : {}),
+  };
+}
+
+function activePromotionPercent(pkg: FirebaseFirestore.DocumentData, now: number): number {
+  const promotion = pkg.isPromoted ? pkg.promotionData : undefined;
+  const active = promotion && promotion.startDate?.toMillis() <= now && promotion.endDate?.toMillis() >= now;
+  return active ? Number(promotion.discountPercent) || 0 : 0;
+}
+
+// Booking history, demand and season of the package at the time of the quote
+async function collectInputs(
+  uid: string,
+  packageId: string,
+  pkg: FirebaseFirestore.DocumentData,
+  rooms: number,
+  travelDate: string | undefined,
+  now: number
+): Promise<QuoteInputs> {
+  const db = getFirestore();
+  const [packageBookings, userBookings, userQuotes] = await Promise.all([
+    db.collection("bookings").where("packageId", "==", packageId)
+      .where("createdAt", ">=", Timestamp.fromMillis(now - DEMAND_WINDOW_MS)).select("status").get(),
+    db.collection("bookings").where("userId", "==", uid)
+      .where("status", "in", ['confirmed', 'completed']).select().get(),
+    db.collection("priceQuotes").where("userId", "==", uid)
+      .where("createdAt", ">=", Timestamp.fromMillis(now - CONVERSION_WINDOW_MS)).select("bookingId").get(),
+  ]);
+
+  const recentBookings = packageBookings.docs.filter((doc) => doc.get("status") !== 'cancelled').length;
+  const months = seasonMonths(pkg.seasonality);
+  const metrics: QuoteInputs['metrics'] = {
+    demand: Math.min(1, recentBookings / DEMAND_SATURATION_BOOKINGS),
+    loyalty_score: Math.min(1, userBookings.size / LOYALTY_SATURATION_BOOKINGS),
+  };
+  if (months.length > 0) {
+    metrics.weather_score = months.includes(localTime(now).month) ? 1 : 0;
+  }
+  if (travelDate) {
+    metrics.booking_days_ahead = Math.floor((Date.parse(travelDate) - now) / DAY_MS);
+  }
+  if (userQuotes.size >= CONVERSION_MIN_QUOTES) {
+    metrics.conversion_probability = userQuotes.docs.filter((doc) => doc.get("bookingId")).length / userQuotes.size;
+  }
+
+  const listPrice = Number(pkg.price) || 0;
+  return {
+    listPrice,
+    rooms,
+    ...(travelDate ? {travelDate} : {}),
+    segment: priceSegment(listPrice),
+    returning: userBookings.size > 0,
+    promotionPercent: activePromotionPercent(pkg, now),
+    metrics,
+  };
+}
+
+/**
+ * Returns the user's unexpired, unused quote for the same package, rooms and travel date, or
+ * persists a new one. Reusing quotes keeps the chat, PackageDetail and the booking on one price.
+ */
+export async function getOrCreateQuote(
+  uid: string,
+  packageId: string,
+  pkg: FirebaseFirestore.DocumentData,
+  options: {rooms?: number; travelDate?: string} = {}
+): Promise<{quoteId: string; quote: PriceQuoteDoc}> {
+  const rooms = options.rooms ?? 1;
+  if (!Number.isInteger(rooms) || rooms < 1 || rooms > MAX_ROOMS) {
+    throw new HttpsError("invalid-argument", `rooms must be between 1 and ${MAX_ROOMS}`);
+  }
+  const travelDate = options.travelDate ? options.travelDate.slice(0, 10) : undefined;
+  if (travelDate && Number.isNaN(Date.parse(travelDate))) {
+    throw new HttpsError("invalid-argument", "travelDate must be a YYYY-MM-DD date");
+  }
+
+  const db = getFirestore();
+  const now = Date.now();
+  const currency = pkg.currency || "USD";
+  const [existing, preferred] = await Promise.all([
+    db.collection("priceQuotes")
+      .where("userId", "==", uid)
+      .where("packageId", "==", packageId)
+      .where("expiresAt", ">", Timestamp.fromMillis(now))
+      .get(),
+    preferredCurrency(uid),
+  ]);
+  // Shown in the user's currency at the rate locked here; the booking is charged in the package currency
+  const displayCurrency = preferred && preferred !== currency ? preferred : undefined;
+  const reusable = existing.docs.find((doc) => {
+    const quote = doc.data() as PriceQuoteDoc;
+    return !quote.bookingId && quote.inputs.rooms === rooms && quote.inputs.travelDate === travelDate &&
+      quote.pricing.fx?.currency === displayCurrency;
+  });
+  if (reusable) {
+    return {quoteId: reusable.id, quote: reusable.data() as PriceQuoteDoc};
+  }
+
+  const [inputs, strategies, guardrails] = await Promise.all([
+    collectInputs(uid, packageId, pkg, rooms, travelDate, now),
+    loadStrategies(),
+    loadGuardrails(packageId),
+  ]);
+  const quote: PriceQuoteDoc = {
+    userId: uid,
+    packageId,
+    inputs,
+    ...priceFromInputs(inputs, strategies, guardrails, currency),
+    createdAt: Timestamp.fromMillis(now),
+    expiresAt: Timestamp.fromMillis(now + QUOTE_TTL_MS),
+  };
+  const fx = displayCurrency ? await lockFxRate(quote.pricing.totalPrice, currency, displayCurrency) : null;
+  if (fx) quote.pricing.fx = fx;
+  const ref = db.collection("priceQuotes").doc();
+  quote.pricing.quoteId = ref.id;
+  await ref.set(quote);
+
+  logger.info(`Price quote ${ref.id} for package ${packageId}`, {
+    uid,
+    totalPrice: quote.pricing.totalPrice,
+    adjustmentPercent: quote.adjustmentPercent,
+    strategies: quote.strategies.map((s) => s.id),
+  });
+  return {quoteId: ref.id, quote};
+}
+
+function toQuoteResponse(quoteId: string, quote: PriceQuoteDoc) {
+  return {
+    quoteId,
+    packageId: quote.packageId,
+    pricing: quote.pricing,
+    strategies: quote.strategies,
+    adjustmentPercent: quote.adjustmentPercent,
+    guardrailApplied: quote.guardrails?.applied || null,
+    expiresAt: quote.expiresAt.toDate().toISOString(),
+  };
+}
+
+/**
+ * Price quote for the signed-in user, held for 30 minutes. createBooking accepts the quoteId.
+ */
+export const getPriceQuote = onCall<{packageId: string; rooms?: number; travelDate?: string}>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const {packageId, rooms, travelDate} = request.data || {} as {packageId: string};
+    if (typeof packageId !== "string" || !packageId) {
+      throw new HttpsError("invalid-argument", "packageId is required");
+    }
+
+    const pkg = (await getFirestore().collection("packages").doc(packageId).get()).data();
+    if (!pkg || pkg.status !== "published") {
+      throw new HttpsError("not-found", "Package not found");
+    }
+    const {quoteId, quote} = await getOrCreateQuote(uid, packageId, pkg, {rooms, travelDate});
+    return {success: true, quote: toQuoteResponse(quoteId, quote)};
+  }
+);
+
+function validateRules(rules: unknown): PricingRule[] {
+  if (!Array.isArray(rules) || rules.length === 0 || rules.length > 5) {
+    throw new HttpsError("invalid-argument", "A strategy needs 1-5 rules");
+  }
+  return rules.map((rule: any) => {
+    const match = CONDITION_PATTERN.exec(String(rule?.condition || "").trim());
+    if (!match || !METRICS.includes(match[1] as StrategyMetric)) {
+      throw new HttpsError("invalid-argument", `condition must look like "<metric> <op> <number>" with one of ${METRICS.join(", ")}`);
+    }
+    if (!['increase', 'decrease', 'maintain'].includes(rule.action)) {
+      throw new HttpsError("invalid-argument", "action must be increase, decrease or maintain");
+    }
+    const percentage = Number(rule.percentage);
+    const maxAdjustment = Number(rule.maxAdjustment);
+    if (!(percentage >= 0 && percentage <= MAX_RULE_PERCENT) || !(maxAdjustment >= 0 && maxAdjustment <= MAX_RULE_PERCENT)) {
+      throw new HttpsError("invalid-argument", `percentage and maxAdjustment must be between 0 and ${MAX_RULE_PERCENT}`);
+    }
+    return {condition: `${match[1]} ${match[2]} ${match[3]}`, action: rule.action, percentage, maxAdjustment};
+  });
+}
+
+// Only the fields that changed, as {before, after}
+function diff(before: Record<string, any>, after: Record<string, any>): Record<string, {before: unknown; after: unknown}> {
+  const changes: Record<string, {before: unknown; after: unknown}> = {};
+  for (const key of Object.keys(after)) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes[key] = {before: before[key] ?? null, after: after[key] ?? null};
+    }
+  }
+  return changes;
+}
+
+/**
+ * Strategies with the admin overrides applied (admin only).
+ */
+export const getPricingStrategies = onCall(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    await requireAdmin(request.auth?.uid);
+    return {success: true, strategies: await loadStrategies()};
+  }
+);
+
+/**
+ * Updates a pricing strategy (admin only). Every change is written to pricingAudit in the same batch.
+ */
+export const updatePricingStrategy = onCall<{strategyId: string; updates: Partial<Omit<PricingStrategy, 'id'>>}>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = await requireAdmin(request.auth?.uid);
+    const {strategyId, updates} = request.data || {} as {strategyId: string; updates: Partial<PricingStrategy>};
+    const current = (await loadStrategies()).find((strategy) => strategy.id === strategyId);
+    if (!current) {
+      throw new HttpsError("not-found", "Pricing strategy not found");
+    }
+    if (!updates || typeof updates !== "object") {
+      throw new HttpsError("invalid-argument", "updates are required");
+    }
+
+    const next: Omit<PricingStrategy, 'id'> = {
+      name: current.name,
+      description: current.description,
+      targetSegment: current.targetSegment,
+      rules: current.rules,
+      active: current.active,
+    };
+    if (updates.name !== undefined) {
+      const name = String(updates.name).trim();
+      if (!name || name.length > 80) throw new HttpsError("invalid-argument", "name must be 1-80 characters");
+      next.name = name;
+    }
+    if (updates.description !== undefined) {
+      next.description = String(updates.description).slice(0, 300);
+    }
+    if (updates.targetSegment !== undefined) {
+      if (!Array.isArray(updates.targetSegment) || updates.targetSegment.length === 0 ||
+          !updates.targetSegment.every((segment) => SEGMENTS.includes(segment))) {
+        throw new HttpsError("invalid-argument", `targetSegment must be a non-empty list of ${SEGMENTS.join(", ")}`);
+      }
+      next.targetSegment = updates.targetSegment;
+    }
+    if (updates.rules !== undefined) {
+      next.rules = validateRules(updates.rules);
+    }
+    if (updates.active !== undefined) {
+      next.active = updates.active === true;
+    }
+
+    const changes = diff(current, next);
+    if (Object.keys(changes).length === 0) {
+      return {success: true, strategy: current};
+    }
+
+    const db = getFirestore();
+    const now = Timestamp.now();
+    const batch = db.batch();
+    batch.set(db.collection("pricingStrategies").doc(strategyId), {...next, updatedAt: now, updatedBy: uid});
+    batch.create(db.collection("pricingAudit").doc(), {
+      target: 'strategy',
+      targetId: strategyId,
+      changes,
+      actorId: uid,
+      actorEmail: request.auth?.token.email || null,
+      createdAt: now,
+    });
+    await batch.commit();
+
+    logger.info(`Pricing strategy ${strategyId} updated by ${uid}`, {fields: Object.keys(changes)});
+    return {success: true, strategy: {id: strategyId, ...next}};
+  }
+);
+
+/**
+ * Sets or clears the price floor and ceiling (per room) of a package (admin only), audited like strategies.
+ */
+export const setPricingGuardrails = onCall<{packageId: string; floor?: number | null; ceiling?: number | null}>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = await requireAdmin(request.auth?.uid);
+    const {packageId} = request.data || {} as {packageId: string};
+    const floor = request.data?.floor ?? undefined;
+    const ceiling = request.data?.ceiling ?? undefined;
+    if (typeof packageId !== "string" || !packageId) {
+      throw new HttpsError("invalid-argument", "packageId is required");
+    }
+    if ((floor !== undefined && !(Number(floor) > 0)) || (ceiling !== undefined && !(Number(ceiling) > 0))) {
+      throw new HttpsError("invalid-argument", "floor and ceiling must be positive numbers");
+    }
+    if (floor !== undefined && ceiling !== undefined && Number(floor) > Number(ceiling)) {
+      throw new HttpsError("invalid-argument", "floor cannot be above ceiling");
+    }
+
+    const db = getFirestore();
+    const pkg = (await db.collection("packages").doc(packageId).get()).data();
+    if (!pkg) {
+      throw new HttpsError("not-found", "Package not found");
+    }
+
+    const ref = db.collection("pricingGuardrails").doc(packageId);
+    const current = await loadGuardrails(packageId);
+    const next: PricingGuardrails = {
+      ...(floor !== undefined ? {floor: Number(floor)} : {}),
+      ...(ceiling !== undefined ? {ceiling: Number(ceiling)} : {}),
+    };
+    const changes = diff(current, {floor: next.floor, ceiling: next.ceiling});
+    if (Object.keys(changes).length === 0) {
+      return {success: true, guardrails: next};
+    }
+
+    const now = Timestamp.now();
+    const batch = db.batch();
+    if (next.floor === undefined && next.ceiling === undefined) {
+      batch.delete(ref);
+    } else {
+      batch.set(ref, {...next, currency: pkg.currency || "USD", packageTitle: pkg.title || packageId, updatedAt: now, updatedBy: uid});
+    }
+    batch.create(db.collection("pricingAudit").doc(), {
+      target: 'guardrails',
+      targetId: packageId,
+      changes,
+      actorId: uid,
+      actorEmail: request.auth?.token.email || null,
+      createdAt: now,
+    });
+    await batch.commit();
+
+    logger.info(`Pricing guardrails for ${packageId} updated by ${uid}`, next);
+    return {success: true, guardrails: next};
+  }
+);
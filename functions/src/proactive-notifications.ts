@@ -0,0 +1,611 @@
+import * as logger from "firebase-functions/logger";
+import {FieldPath, FieldValue, getFirestore, Timestamp} from "firebase-admin/firestore";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {DeliveryError, OutboundMessage, Recipient} from "./channel-adapter";
+import {DELIVERY_SECRETS, getChannelAdapter} from "./channel-gateway";
+import {addSuppression, checkDeliveryConsent, CONSENT_SECRETS, unsubscribeUrl} from "./consent-store";
+
+// CORS configuration for Firebase Functions v2
+const allowedOrigins = [
+  'https://lovve.tech',
+  'https://www.lovve.tech',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'http://127.0.0.1:5173',
+  'https://ailovve.firebaseapp.com'
+];
+
+// AI LOVVE - Proactive notifications, evaluated on a schedule against stored profiles and package data
+// notificationProfiles/{uid}          preferences and behavior written by the client; stats and price snapshots by Functions
+// users/{uid}/notifications/{id}      every notification created for the user, read by NotificationCenter
+// notificationTriggers/{triggerId}    sent / failed / opened / clicked / dismissed counts per trigger
+
+export type TriggerType = 'behavior' | 'time' | 'price' | 'availability' | 'weather' | 'booking_window' | 'payment';
+export type NotificationPriority = 'low' | 'medium' | 'high' | 'urgent';
+export type NotificationChannel = 'push' | 'email' | 'in_app';
+export type InteractionAction = 'opened' | 'clicked' | 'dismissed';
+
+export interface NotificationTrigger {
+  id: string;
+  type: TriggerType;
+  priority: NotificationPriority;
+  cooldownMs: number;
+  maxDaily: number;
+}
+
+// Mirrors UserNotificationProfile in src/services/proactiveNotificationEngine.ts
+export interface NotificationProfileDoc {
+  preferences: {
+    enableNotifications: boolean;
+    allowedTypes: TriggerType[];
+    quietHours: {start: string; end: string}; // "HH:MM" in timeZone
+    frequency: 'low' | 'medium' | 'high';
+    channels: ('push' | 'email' | 'sms')[];
+    timeZone?: string;
+  };
+  behavior: {
+    lastActivity: number; // ms
+    engagementScore: number; // 0-1
+    viewedPackages: string[]; // Oldest first
+    abandonedCart: boolean;
+    plannedTravelDate?: number; // ms
+  };
+  stats?: {sent: number; opened: number; clicked: number; dismissed: number};
+  priceSnapshots?: Record<string, number>; // Highest price seen per viewed package since the last price_drop
+}
+
+export interface NotificationDoc {
+  type: string; // Trigger id
+  title: string;
+  message: string;
+  actionUrl?: string; // App path
+  actionText?: string;
+  priority: NotificationPriority;
+  channel: NotificationChannel; // in_app when nothing else was consented to or delivered
+  deliveryError?: string;
+  packageId?: string;
+  read: boolean;
+  createdAt: Timestamp;
+  openedAt?: Timestamp;
+  clickedAt?: Timestamp;
+  dismissedAt?: Timestamp;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const PROACTIVE_TRIGGERS: NotificationTrigger[] = [
+  {id: 'abandoned_browsing', type: 'behavior', priority: 'medium', cooldownMs: DAY_MS, maxDaily: 1},
+  {id: 'price_drop', type: 'price', priority: 'high', cooldownMs: 12 * HOUR_MS, maxDaily: 2},
+  {id: 'limited_availability', type: 'availability', priority: 'urgent', cooldownMs: 6 * HOUR_MS, maxDaily: 1},
+  {id: 'perfect_weather', type: 'weather', priority: 'medium', cooldownMs: 30 * DAY_MS, maxDaily: 1},
+  {id: 'booking_window_closing', type: 'booking_window', priority: 'urgent', cooldownMs: DAY_MS, maxDaily: 1},
+  {id: 'similar_users_booked', type: 'behavior', priority: 'medium', cooldownMs: 36 * HOUR_MS, maxDaily: 1},
+  {id: 'comeback_offer', type: 'time', priority: 'medium', cooldownMs: 7 * DAY_MS, maxDaily: 1},
+];
+
+// Proactive notifications per user and day, whatever the trigger (payment reminders and watch alerts not included)
+const DAILY_LIMITS: Record<NotificationProfileDoc['preferences']['frequency'], number> = {low: 1, medium: 3, high: 5};
+const DEFAULT_TIME_ZONE = "Europe/Istanbul";
+const PROFILE_PAGE_SIZE = 200;
+const PRICE_DROP_RATE = 0.1;
+const LOW_AVAILABILITY_SPOTS = 5;
+const SIMILAR_BOOKINGS_WINDOW_MS = 30 * DAY_MS;
+const SIMILAR_BOOKINGS_MIN = 3;
+const APP_URL = process.env.APP_URL || "https://lovve.tech";
+
+const SEASON_MONTHS: Record<string, number[]> = {
+  spring: [3, 4, 5], ilkbahar: [3, 4, 5],
+  summer: [6, 7, 8], yaz: [6, 7, 8],
+  fall: [9, 10, 11], autumn: [9, 10, 11], sonbahar: [9, 10, 11],
+  winter: [12, 1, 2], kış: [12, 1, 2], kis: [12, 1, 2],
+};
+
+interface PackageInfo {
+  id: string;
+  title: string;
+  price: number;
+  seasonality: string[];
+  remainingSpots?: number; // Optional, set by admins for packages with a fixed allotment
+  available: boolean;
+}
+
+interface TriggerMatch {
+  pkg?: PackageInfo;
+  dropRate?: number;
+  spots?: number;
+  bookings?: number;
+  daysUntilTrip?: number;
+}
+
+interface EvaluationContext {
+  uid: string;
+  profile: NotificationProfileDoc;
+  now: number;
+  month: number; // 1-12 in the user's time zone
+  priceSnapshots: Record<string, number>; // Updated in place, saved after the run
+  loadPackage: (packageId: string) => Promise<PackageInfo | null>;
+  hasBooking: () => Promise<boolean>;
+}
+
+function requireAuth(uid: string | undefined): string {
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Authentication required");
+  }
+  return uid;
+}
+
+function parseClock(value: string | undefined): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || "");
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Minutes since midnight and the month in the given time zone; falls back to Istanbul time
+ * for unknown zones.
+ */
+export function localTime(now: number, timeZone = DEFAULT_TIME_ZONE): {minutes: number; month: number} {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-GB", {timeZone, hour: "2-digit", minute: "2-digit", month: "numeric", hourCycle: "h23"})
+      .formatToParts(new Date(now));
+  } catch {
+    return localTime(now, DEFAULT_TIME_ZONE);
+  }
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value || 0);
+  return {minutes: part("hour") * 60 + part("minute"), month: part("month")};
+}
+
+/**
+ * Quiet hours may wrap midnight (22:00 - 08:00). The end minute is no longer quiet.
+ */
+export function isInQuietHours(quietHours: {start: string; end: string} | undefined, minutes: number): boolean {
+  const start = parseClock(quietHours?.start);
+  const end = parseClock(quietHours?.end);
+  if (start === null || end === null || start === end) return false;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * Months covered by named seasons ("Summer", "Sonbahar"); "Year-round" entries cover none,
+ * since a package that is always in season has no start of season to announce.
+ */
+export function seasonMonths(seasonality: string[] = []): number[] {
+  const months = new Set<number>();
+  for (const entry of seasonality) {
+    for (const word of entry.toLocaleLowerCase("tr").split(/[^a-zçğıöşü]+/)) {
+      SEASON_MONTHS[word]?.forEach((m) => months.add(m));
+    }
+  }
+  return [...months].sort((a, b) => a - b);
+}
+
+function recentlyViewed(profile: NotificationProfileDoc, count = 3): string[] {
+  return (profile.behavior?.viewedPackages || []).slice(-count).reverse();
+}
+
+async function firstMatchingPackage(
+  ctx: EvaluationContext,
+  predicate: (pkg: PackageInfo) => Promise<TriggerMatch | null> | TriggerMatch | null
+): Promise<TriggerMatch | null> {
+  for (const packageId of recentlyViewed(ctx.profile)) {
+    const pkg = await ctx.loadPackage(packageId);
+    if (!pkg) continue;
+    const match = await predicate(pkg);
+    if (match) return match;
+  }
+  return null;
+}
+
+// Trigger conditions, evaluated against the stored profile and current package data
+const EVALUATORS: Record<string, (ctx: EvaluationContext) => Promise<TriggerMatch | null>> = {
+  abandoned_browsing: async (ctx) => {
+    const {behavior} = ctx.profile;
+    const idle = ctx.now - (behavior.lastActivity || 0);
+    if ((behavior.viewedPackages || []).length < 2 || idle < HOUR_MS || idle > 3 * DAY_MS) return null;
+    if (await ctx.hasBooking()) return null;
+    return firstMatchingPackage(ctx, (pkg) => (pkg.available ? {pkg} : null));
+  },
+
+  price_drop: async (ctx) => {
+    if ((ctx.profile.behavior.engagementScore || 0) < 0.7) return null;
+    return firstMatchingPackage(ctx, (pkg) => {
+      const seen = ctx.priceSnapshots[pkg.id];
+      if (seen === undefined || pkg.price > seen) {
+        ctx.priceSnapshots[pkg.id] = pkg.price;
+        return null;
+      }
+      const dropRate = (seen - pkg.price) / seen;
+      if (dropRate < PRICE_DROP_RATE) return null;
+      ctx.priceSnapshots[pkg.id] = pkg.price;
+      return {pkg, dropRate};
+    });
+  },
+
+  limited_availability: async (ctx) => {
+    if ((ctx.profile.behavior.engagementScore || 0) < 0.6) return null;
+    return firstMatchingPackage(ctx, (pkg) =>
+      pkg.available && pkg.remainingSpots !== undefined && pkg.remainingSpots > 0 && pkg.remainingSpots <= LOW_AVAILABILITY_SPOTS ?
+        {pkg, spots: pkg.remainingSpots} : null
+    );
+  },
+
+  perfect_weather: async (ctx) => {
+    const previousMonth = ctx.month === 1 ? 12 : ctx.month - 1;
+    return firstMatchingPackage(ctx, (pkg) => {
+      const months = seasonMonths(pkg.seasonality);
+      // The package's best season starts this month
+      return pkg.available && months.includes(ctx.month) && !months.includes(previousMonth) ? {pkg} : null;
+    });
+  },
+
+  booking_window_closing: async (ctx) => {
+    const {behavior} = ctx.profile;
+    if (!behavior.plannedTravelDate || (behavior.engagementScore || 0) < 0.8) return null;
+    const daysUntilTrip = Math.ceil((behavior.plannedTravelDate - ctx.now) / DAY_MS);
+    if (daysUntilTrip <= 0 || daysUntilTrip > 30 || await ctx.hasBooking()) return null;
+    return firstMatchingPackage(ctx, (pkg) => (pkg.available ? {pkg, daysUntilTrip} : null));
+  },
+
+  similar_users_booked: async (ctx) => {
+    if ((ctx.profile.behavior.engagementScore || 0) < 0.7) return null;
+    const since = Timestamp.fromMillis(ctx.now - SIMILAR_BOOKINGS_WINDOW_MS);
+    return firstMatchingPackage(ctx, async (pkg) => {
+      const count = (await getFirestore().collection("bookings")
+        .where("packageId", "==", pkg.id)
+        .where("createdAt", ">=", since)
+        .count()
+        .get()).data().count;
+      return count >= SIMILAR_BOOKINGS_MIN ? {pkg, bookings: count} : null;
+    });
+  },
+
+  comeback_offer: async (ctx) => {
+    const {behavior} = ctx.profile;
+    const daysAway = (ctx.now - (behavior.lastActivity || ctx.now)) / DAY_MS;
+    if (daysAway < 7 || daysAway > 30 || (behavior.engagementScore || 0) < 0.5) return null;
+    return {};
+  },
+};
+
+function pick<T>(options: T[]): T {
+  return options[Math.floor(Math.random() * options.length)];
+}
+
+function notificationContent(triggerId: string, match: TriggerMatch): {title: string; message: string} {
+  const name = match.pkg?.title || "Baktığınız paket";
+  switch (triggerId) {
+  case 'abandoned_browsing':
+    return {
+      title: pick(["Baktığınız paketler hala mevcut! 💕", "Hayalinizdeki balayı bekliyor ✨"]),
+      message: `${name} hala mevcut. Kaldığınız yerden devam edelim mi?`,
+    };
+  case 'price_drop':
+    return {
+      title: pick(["Harika haber! Fiyatlar düştü 🎉", "Bu fiyatı kaçırmayın! ⭐"]),
+      message: `${name} şimdi %${Math.round((match.dropRate || 0) * 100)} daha uygun.`,
+    };
+  case 'limited_availability':
+    return {
+      title: pick(["Son yerler! Acele edin 🔥", "Sadece birkaç yer kaldı ⚡"]),
+      message: `${name} için sadece ${match.spots} yer kaldı.`,
+    };
+  case 'perfect_weather':
+    return {
+      title: pick(["Şimdi gitmek için ideal zaman 🌤️", "Güneşli günler sizi bekliyor 🌞"]),
+      message: `${name} için en güzel mevsim başladı.`,
+    };
+  case 'booking_window_closing':
+    return {
+      title: pick(["Rezervasyon zamanı daralıyor ⏰", "Geç kalmadan rezerve edin! ⏰"]),
+      message: `Seyahatinize ${match.daysUntilTrip} gün kaldı. ${name} için yerinizi ayırtın.`,
+    };
+  case 'similar_users_booked':
+    return {
+      title: pick(["Sizin gibi çiftler bunu seçti 👫", "Popüler seçim: Çiftlerin favorisi 💕"]),
+      message: `Son 30 günde ${match.bookings} çift ${name} paketini rezerve etti.`,
+    };
+  default:
+    return {
+      title: pick(["Sizi özledik! 💕", "Geri dönüş sürprizi! ✨"]),
+      message: "Size özel yeni balayı önerilerimiz var. Hemen keşfedin!",
+    };
+  }
+}
+
+export async function resolveRecipient(uid: string): Promise<Recipient | null> {
+  const user = (await getFirestore().collection("users").doc(uid).get()).data();
+  if (!user) return null;
+  return {
+    userId: uid,
+    email: user.email || undefined,
+    phone: user.profileData?.phoneNumber || user.phoneNumber || undefined,
+    name: user.displayName || user.profileData?.firstName || undefined,
+  };
+}
+
+/**
+ * Sends on the first preferred channel (push before email) the user consented to for
+ * recommendations. Returns 'in_app' when none was consented to or all of them failed.
+ */
+async function deliver(
+  recipient: Recipient,
+  profile: NotificationProfileDoc,
+  notificationId: string,
+  triggerId: string,
+  content: {title: string; message: string; actionUrl?: string; actionText?: string}
+): Promise<{channel: NotificationChannel; error?: string}> {
+  const preferred = (['push', 'email'] as const).filter((channel) => profile.preferences.channels?.includes(channel));
+  let lastError: string | undefined;
+
+  for (const channel of preferred) {
+    const consent = await checkDeliveryConsent(recipient, channel, 'recommendations');
+    if (!consent.allowed) continue;
+
+    const message: OutboundMessage = {
+      id: notificationId,
+      campaignId: `proactive_${triggerId}`,
+      channel,
+      recipient,
+      content: {
+        title: content.title,
+        subject: content.title,
+        body: content.message,
+        cta: content.actionUrl ? [{text: content.actionText || "Detayları Gör", url: `${APP_URL}${content.actionUrl}`}] : undefined,
+      },
+      unsubscribeUrl: channel === 'email' ? unsubscribeUrl(recipient.userId, 'recommendations', 'email') : undefined,
+    };
+    try {
+      await getChannelAdapter(channel).send(message);
+      return {channel};
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      if (error instanceof DeliveryError && error.addressRejected && channel === 'email' && recipient.email) {
+        await addSuppression(recipient.email, {reason: 'hard_bounce', scope: 'all', userId: recipient.userId, note: lastError, createdBy: 'system'});
+      }
+      logger.warn(`Proactive ${channel} notification ${notificationId} failed`, {reason: lastError});
+    }
+  }
+  return {channel: 'in_app', error: lastError};
+}
+
+async function processProfile(
+  uid: string,
+  profile: NotificationProfileDoc,
+  now: number,
+  loadPackage: (packageId: string) => Promise<PackageInfo | null>
+): Promise<number> {
+  const db = getFirestore();
+  const {minutes, month} = localTime(now, profile.preferences.timeZone);
+  if (isInQuietHours(profile.preferences.quietHours, minutes)) return 0;
+
+  const longestCooldown = Math.max(...PROACTIVE_TRIGGERS.map((t) => t.cooldownMs));
+  const notificationsRef = db.collection("users").doc(uid).collection("notifications");
+  const history = (await notificationsRef.where("createdAt", ">=", Timestamp.fromMillis(now - longestCooldown)).get()).docs
+    .map((doc) => ({type: doc.get("type") as string, at: (doc.get("createdAt") as Timestamp).toMillis()}))
+    .filter((entry) => PROACTIVE_TRIGGERS.some((trigger) => trigger.id === entry.type));
+  const startOfDay = now - minutes * 60 * 1000;
+  let sentToday = history.filter((entry) => entry.at >= startOfDay).length;
+  const dailyLimit = DAILY_LIMITS[profile.preferences.frequency] ?? DAILY_LIMITS.medium;
+
+  let booked: boolean | undefined;
+  const ctx: EvaluationContext = {
+    uid,
+    profile,
+    now,
+    month,
+    priceSnapshots: {...(profile.priceSnapshots || {})},
+    loadPackage,
+    hasBooking: async () => {
+      if (booked === undefined) {
+        booked = !(await db.collection("bookings").where("userId", "==", uid)
+          .where("status", "in", ['pending', 'confirmed']).limit(1).get()).empty;
+      }
+      return booked;
+    },
+  };
+
+  let recipient: Recipient | null | undefined;
+  let created = 0;
+  for (const trigger of PROACTIVE_TRIGGERS) {
+    if (sentToday >= dailyLimit) break;
+    if (!profile.preferences.allowedTypes?.includes(trigger.type)) continue;
+    const previous = history.filter((entry) => entry.type === trigger.id);
+    if (previous.some((entry) => now - entry.at < trigger.cooldownMs)) continue;
+    if (previous.filter((entry) => entry.at >= startOfDay).length >= trigger.maxDaily) continue;
+
+    const match = await EVALUATORS[trigger.id](ctx);
+    if (!match) continue;
+
+    recipient = recipient === undefined ? await resolveRecipient(uid) : recipient;
+    if (!recipient) break;
+
+    const ref = notificationsRef.doc();
+    const content = {
+      ...notificationContent(trigger.id, match),
+      ...(match.pkg ? {actionUrl: `/package/${match.pkg.id}`, actionText: "Detayları Gör"} : {}),
+    };
+    const {channel, error} = await deliver(recipient, profile, ref.id, trigger.id, content);
+
+    const notification: NotificationDoc = {
+      type: trigger.id,
+      ...content,
+      priority: trigger.priority,
+      channel,
+      ...(error ? {deliveryError: error} : {}),
+      ...(match.pkg ? {packageId: match.pkg.id} : {}),
+      read: false,
+      createdAt: Timestamp.now(),
+    };
+    const batch = db.batch();
+    batch.create(ref, notification);
+    batch.set(db.collection("notificationTriggers").doc(trigger.id), {
+      sent: FieldValue.increment(1),
+      ...(error ? {failed: FieldValue.increment(1)} : {}),
+      channels: {[channel]: FieldValue.increment(1)},
+      lastSentAt: notification.createdAt,
+    }, {merge: true});
+    batch.set(db.collection("notificationProfiles").doc(uid), {stats: {sent: FieldValue.increment(1)}}, {merge: true});
+    await batch.commit();
+
+    history.push({type: trigger.id, at: now});
+    sentToday++;
+    created++;
+  }
+
+  // Only viewed packages keep a price snapshot
+  const viewed = new Set(profile.behavior.viewedPackages || []);
+  const snapshots = Object.fromEntries(Object.entries(ctx.priceSnapshots).filter(([packageId]) => viewed.has(packageId)));
+  if (JSON.stringify(snapshots) !== JSON.stringify(profile.priceSnapshots || {})) {
+    await db.collection("notificationProfiles").doc(uid).update({priceSnapshots: snapshots});
+  }
+  return created;
+}
+
+/**
+ * Evaluates the proactive notification triggers for every user with notifications enabled,
+ * every 15 minutes. Quiet hours, allowed trigger types, frequency, per-trigger cooldowns and
+ * consent are respected; each notification is stored for NotificationCenter and sent by push
+ * or email when the user agreed to it.
+ */
+export const processProactiveNotifications = onSchedule(
+  {
+    schedule: "every 15 minutes",
+    timeZone: "Europe/Istanbul",
+    region: "europe-west1",
+    secrets: [...DELIVERY_SECRETS, ...CONSENT_SECRETS],
+    timeoutSeconds: 540,
+  },
+  async () => {
+    const db = getFirestore();
+    const now = Date.now();
+
+    // Package reads are shared by all profiles of a run
+    const packages = new Map<string, Promise<PackageInfo | null>>();
+    const loadPackage = (packageId: string) => {
+      if (!packages.has(packageId)) {
+        packages.set(packageId, db.collection("packages").doc(packageId).get().then((doc) => {
+          const data = doc.data();
+          if (!data || (data.status && data.status !== "published")) return null;
+          return {
+            id: doc.id,
+            title: data.title || doc.id,
+            price: Number(data.price) || 0,
+            seasonality: Array.isArray(data.seasonality) ? data.seasonality : [],
+            remainingSpots: typeof data.remainingSpots === "number" ? data.remainingSpots : undefined,
+            available: data.availability !== false,
+          };
+        }));
+      }
+      return packages.get(packageId)!;
+    };
+
+    let profiles = 0;
+    let created = 0;
+    let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+    for (;;) {
+      let query = db.collection("notificationProfiles")
+        .where("preferences.enableNotifications", "==", true)
+        .orderBy(FieldPath.documentId())
+        .limit(PROFILE_PAGE_SIZE);
+      if (last) query = query.startAfter(last);
+      const page = await query.get();
+      if (page.empty) break;
+
+      for (const doc of page.docs) {
+        try {
+          created += await processProfile(doc.id, doc.data() as NotificationProfileDoc, now, loadPackage);
+        } catch (error) {
+          logger.error(`Proactive notifications failed for ${doc.id}:`, error);
+        }
+      }
+      profiles += page.size;
+      last = page.docs[page.docs.length - 1];
+      if (page.size < PROFILE_PAGE_SIZE) break;
+    }
+
+    logger.info(`Proactive notifications: ${created} created for ${profiles} profile(s)`);
+  }
+);
+
+/**
+ * In-app reminder for an installment that is due within a week or overdue. Transactional, so
+ * preferences and quiet hours do not apply; keyed by day, so each installment is reminded once a day.
+ */
+export async function createPaymentReminder(
+  userId: string,
+  reminder: {bookingId: string; installmentId: string; amount: number; currency: string; dueDate: Date; overdue: boolean},
+  now = new Date()
+): Promise<void> {
+  const amount = new Intl.NumberFormat("tr-TR", {style: "currency", currency: reminder.currency}).format(reminder.amount);
+  const dueDate = reminder.dueDate.toLocaleDateString("tr-TR", {timeZone: DEFAULT_TIME_ZONE});
+  const day = now.toISOString().slice(0, 10);
+  const id = `payment_${reminder.bookingId}_${reminder.installmentId}_${day}`;
+
+  const notification: NotificationDoc = {
+    type: 'payment_due',
+    title: reminder.overdue ? "⚠️ Ödemeniz gecikti" : "💳 Yaklaşan ödeme hatırlatması",
+    message: reminder.overdue ?
+      `${dueDate} tarihli ${amount} tutarındaki ödemeniz gecikti. Rezervasyonunuzun iptal edilmemesi için lütfen ödemenizi tamamlayın.` :
+      `${amount} tutarındaki ödemenizin son günü ${dueDate}. Hayalinizdeki balayına bir adım daha! 💕`,
+    actionUrl: `/?booking=${reminder.bookingId}`,
+    actionText: "Ödemeyi Yap",
+    priority: reminder.overdue ? 'urgent' : 'high',
+    channel: 'in_app',
+    read: false,
+    createdAt: Timestamp.fromDate(now),
+  };
+  const db = getFirestore();
+  try {
+    await db.collection("users").doc(userId).collection("notifications").doc(id).create(notification);
+  } catch (error: any) {
+    if (error?.code === 6) return; // ALREADY_EXISTS, reminded today
+    throw error;
+  }
+  await db.collection("notificationTriggers").doc('payment_due').set({
+    sent: FieldValue.increment(1),
+    channels: {in_app: FieldValue.increment(1)},
+    lastSentAt: notification.createdAt,
+  }, {merge: true});
+}
+
+/**
+ * Records that the user opened, clicked or dismissed one of their notifications. Each action
+ * counts once per notification in the trigger's stats; a click also counts as an open.
+ */
+export const recordNotificationInteraction = onCall<{notificationId: string; action: InteractionAction}>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const {notificationId, action} = request.data || {} as {notificationId: string; action: InteractionAction};
+    if (typeof notificationId !== "string" || !notificationId || !['opened', 'clicked', 'dismissed'].includes(action)) {
+      throw new HttpsError("invalid-argument", "notificationId and a valid action are required");
+    }
+
+    const db = getFirestore();
+    const ref = db.collection("users").doc(uid).collection("notifications").doc(notificationId);
+    await db.runTransaction(async (tx) => {
+      const notification = (await tx.get(ref)).data() as NotificationDoc | undefined;
+      if (!notification) {
+        throw new HttpsError("not-found", "Notification not found");
+      }
+
+      const now = Timestamp.now();
+      const actions: InteractionAction[] = action === 'clicked' ? ['opened', 'clicked'] : [action];
+      const fresh = actions.filter((a) => !notification[`${a}At` as 'openedAt' | 'clickedAt' | 'dismissedAt']);
+      if (fresh.length === 0) return;
+
+      tx.update(ref, {read: true, ...Object.fromEntries(fresh.map((a) => [`${a}At`, now]))});
+      const increments = Object.fromEntries(fresh.map((a) => [a, FieldValue.increment(1)]));
+      tx.set(db.collection("notificationTriggers").doc(notification.type), increments, {merge: true});
+      tx.set(db.collection("notificationProfiles").doc(uid), {stats: increments}, {merge: true});
+    });
+
+    return {success: true};
+  }
+);
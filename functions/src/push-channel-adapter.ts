@@ -0,0 +1,49 @@
+import * as logger from "firebase-functions/logger";
+import {getFirestore} from "firebase-admin/firestore";
+import {getMessaging} from "firebase-admin/messaging";
+import {ChannelAdapter, DeliveryError, DeliveryResult, OutboundMessage} from "./channel-adapter";
+
+// AI LOVVE - Web push over FCM to the tokens saved by pushNotificationManager (users/{uid}/pushTokens/{token})
+
+// Tokens FCM will never accept again; they are removed so later sends skip them
+const STALE_TOKEN_ERRORS = new Set([
+  "messaging/registration-token-not-registered",
+  "messaging/invalid-registration-token",
+]);
+
+export class FcmPushAdapter implements ChannelAdapter {
+  readonly channel = 'push' as const;
+
+  async send(message: OutboundMessage): Promise<DeliveryResult> {
+    const tokensRef = getFirestore().collection("users").doc(message.recipient.userId).collection("pushTokens");
+    const tokenDocs = (await tokensRef.where("enabled", "==", true).get()).docs
+      // Promotional pushes respect the toggle in NotificationSettings
+      .filter((doc) => doc.data().types?.promotional !== false);
+    if (tokenDocs.length === 0) {
+      throw new DeliveryError("Recipient has no push subscription", false);
+    }
+
+    const {content} = message;
+    const link = content.cta?.[0]?.url;
+    const response = await getMessaging().sendEachForMulticast({
+      tokens: tokenDocs.map((doc) => doc.id),
+      notification: {title: content.title || content.subject || "AI LOVVE", body: content.body},
+      data: {type: "promotional", campaignId: message.campaignId, messageId: message.id},
+      webpush: link ? {fcmOptions: {link}} : undefined,
+    });
+
+    const stale = response.responses
+      .map((result, i) => (result.error && STALE_TOKEN_ERRORS.has(result.error.code) ? tokenDocs[i].ref : null))
+      .filter((ref): ref is FirebaseFirestore.DocumentReference => ref !== null);
+    if (stale.length > 0) {
+      await Promise.all(stale.map((ref) => ref.delete()));
+      logger.info(`Removed ${stale.length} stale push token(s) for ${message.recipient.userId}`);
+    }
+
+    if (response.successCount === 0) {
+      const retryable = stale.length < tokenDocs.length;
+      throw new DeliveryError(response.responses[0]?.error?.message || "Push delivery failed", retryable);
+    }
+    return {providerMessageId: response.responses.find((r) => r.success)?.messageId};
+  }
+}
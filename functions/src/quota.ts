@@ -0,0 +1,107 @@
+import * as logger from "firebase-functions/logger";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {HttpsError} from "firebase-functions/v2/https";
+import {PlanType} from "./model-registry";
+
+// AI LOVVE - Server-side message quotas (subscriptions/{uid})
+
+interface PlanQuota {
+  messagesPerPeriod: number; // -1 = unlimited
+  resetPeriodHours: number;
+}
+
+// Keep in sync with PLAN_LIMITS in src/services/subscriptionService.ts
+const PLAN_QUOTAS: Record<PlanType, PlanQuota> = {
+  free: {messagesPerPeriod: 20, resetPeriodHours: 6},
+  pro: {messagesPerPeriod: -1, resetPeriodHours: 0},
+  pro_bride: {messagesPerPeriod: -1, resetPeriodHours: 0},
+};
+
+export interface QuotaStatus {
+  remaining: number; // -1 = unlimited
+  total: number;
+  resetTime?: number; // epoch millis
+}
+
+/**
+ * Checks and decrements the caller's message quota in a single transaction.
+ * Throws `resource-exhausted` with `{reason, resetTime, remaining, total}` details
+ * once the free plan's messages for the current period are used up.
+ */
+export async function consumeMessageQuota(uid: string): Promise<QuotaStatus> {
+  const db = getFirestore();
+  const ref = db.collection("subscriptions").doc(uid);
+
+  return db.runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    const data = snap.data();
+    const planType: PlanType = data?.isActive && data.planType in PLAN_QUOTAS ? data.planType : 'free';
+    const quota = PLAN_QUOTAS[planType];
+
+    if (quota.messagesPerPeriod === -1) {
+      return {remaining: -1, total: -1};
+    }
+
+    const now = Date.now();
+    let messagesUsed: number = data?.messagesUsed ?? 0;
+    let resetTime: number = data?.quotaResetTime?.toMillis?.() ?? 0;
+
+    // Start a fresh period once the previous one has expired
+    if (!resetTime || now >= resetTime) {
+      messagesUsed = 0;
+      resetTime = now + quota.resetPeriodHours * 60 * 60 * 1000;
+    }
+
+    if (messagesUsed >= quota.messagesPerPeriod) {
+      logger.info(`Message quota exhausted for ${uid}`, {planType, messagesUsed});
+      throw new HttpsError(
+        "resource-exhausted",
+        `You've reached your ${quota.messagesPerPeriod} message limit. Quota resets every ${quota.resetPeriodHours} hours.`,
+        {reason: "quota_exceeded", resetTime, remaining: 0, total: quota.messagesPerPeriod},
+      );
+    }
+
+    const nowTs = Timestamp.now();
+    const update: Record<string, unknown> = {
+      userId: uid,
+      planType,
+      isActive: true,
+      messageQuota: quota.messagesPerPeriod,
+      messagesUsed: messagesUsed + 1,
+      quotaResetTime: Timestamp.fromMillis(resetTime),
+      updatedAt: nowTs,
+    };
+    if (!snap.exists) {
+      update.startDate = nowTs;
+      update.createdAt = nowTs;
+    }
+    tx.set(ref, update, {merge: true});
+
+    return {
+      remaining: quota.messagesPerPeriod - (messagesUsed + 1),
+      total: quota.messagesPerPeriod,
+      resetTime,
+    };
+  });
+}
+
+/**
+ * Gives back a message consumed for a request that produced no reply.
+ * Best effort: failures are logged, never thrown.
+ */
+export async function refundMessageQuota(uid: string): Promise<void> {
+  const db = getFirestore();
+  const ref = db.collection("subscriptions").doc(uid);
+
+  try {
+    await db.runTransaction(async (tx) => {
+      const snap = await tx.get(ref);
+      const messagesUsed: number = snap.data()?.messagesUsed ?? 0;
+      if (messagesUsed > 0) {
+        tx.update(ref, {messagesUsed: messagesUsed - 1, updatedAt: Timestamp.now()});
+      }
+    });
+  } catch (error) {
+    logger.error(`Error refunding message quota for ${uid}:`, error);
+  }
+}
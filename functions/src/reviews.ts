@@ -0,0 +1,231 @@
+import * as logger from "firebase-functions/logger";
+import {getFirestore, Timestamp} from "firebase-admin/firestore";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+
+// CORS configuration for Firebase Functions v2
+const allowedOrigins = [
+  'https://lovve.tech',
+  'https://www.lovve.tech',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'http://127.0.0.1:5173',
+  'https://ailovve.firebaseapp.com'
+];
+
+// AI LOVVE - Package reviews and moderation (reviews/{bookingId}), mirrors Review in src/types/firestore.ts
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+const TITLE_LENGTH = {min: 3, max: 120};
+const CONTENT_LENGTH = {min: 20, max: 2000};
+const MAX_LIST_ITEMS = 5; // pros / cons
+const MAX_LIST_ITEM_LENGTH = 200;
+const MAX_RESPONSE_LENGTH = 1000;
+
+export interface SubmitReviewRequest {
+  bookingId: string;
+  rating: number; // 1-5
+  title: string;
+  content: string;
+  pros?: string[];
+  cons?: string[];
+}
+
+export interface ModerateReviewRequest {
+  reviewId: string;
+  status: Exclude<ReviewStatus, 'pending'>;
+  response?: string; // Public answer from the team, shown under the review
+}
+
+interface ReviewResponse {
+  success: boolean;
+  reviewId?: string;
+  status?: ReviewStatus;
+  message?: string;
+}
+
+export interface RatingSummary {
+  rating: number;
+  reviews: number;
+  reviewsData: {
+    total: number;
+    breakdown: Record<1 | 2 | 3 | 4 | 5, number>;
+  };
+}
+
+function requireAuth(uid: string | undefined): string {
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Authentication required");
+  }
+  return uid;
+}
+
+async function isAdminUser(uid: string): Promise<boolean> {
+  const userDoc = await getFirestore().collection("users").doc(uid).get();
+  return userDoc.data()?.isAdmin === true;
+}
+
+function validateText(value: unknown, field: string, limits: {min: number; max: number}): string {
+  const text = typeof value === "string" ? value.trim() : "";
+  if (text.length < limits.min || text.length > limits.max) {
+    throw new HttpsError("invalid-argument", `${field} must be ${limits.min}-${limits.max} characters`);
+  }
+  return text;
+}
+
+function validateList(value: unknown, field: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_LIST_ITEMS) {
+    throw new HttpsError("invalid-argument", `${field} must be a list of at most ${MAX_LIST_ITEMS} items`);
+  }
+  return value
+    .map((item) => (typeof item === "string" ? item.trim() : ""))
+    .filter((item) => item.length > 0)
+    .map((item) => item.slice(0, MAX_LIST_ITEM_LENGTH));
+}
+
+/**
+ * Package rating fields computed from its approved reviews.
+ */
+export function summarizeRatings(ratings: number[]): RatingSummary {
+  const breakdown = {1: 0, 2: 0, 3: 0, 4: 0, 5: 0};
+  for (const rating of ratings) {
+    breakdown[rating as keyof typeof breakdown]++;
+  }
+  const average = ratings.length ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : 0;
+  return {
+    rating: Math.round(average * 10) / 10,
+    reviews: ratings.length,
+    reviewsData: {total: ratings.length, breakdown},
+  };
+}
+
+/**
+ * Submits a review for a completed booking. One review per booking (the review id is the
+ * booking id); it stays pending until an admin approves it.
+ */
+export const submitReview = onCall<SubmitReviewRequest, Promise<ReviewResponse>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const data = request.data || ({} as SubmitReviewRequest);
+
+    if (!data.bookingId) {
+      throw new HttpsError("invalid-argument", "bookingId is required");
+    }
+    if (!Number.isInteger(data.rating) || data.rating < 1 || data.rating > 5) {
+      throw new HttpsError("invalid-argument", "rating must be a whole number between 1 and 5");
+    }
+    const title = validateText(data.title, "title", TITLE_LENGTH);
+    const content = validateText(data.content, "content", CONTENT_LENGTH);
+    const pros = validateList(data.pros, "pros");
+    const cons = validateList(data.cons, "cons");
+
+    const db = getFirestore();
+    const bookingRef = db.collection("bookings").doc(data.bookingId);
+    const reviewRef = db.collection("reviews").doc(data.bookingId);
+
+    await db.runTransaction(async (tx) => {
+      const [bookingDoc, reviewDoc] = await Promise.all([tx.get(bookingRef), tx.get(reviewRef)]);
+      const booking = bookingDoc.data();
+      if (!booking || booking.userId !== uid) {
+        throw new HttpsError("not-found", "Booking not found");
+      }
+      if (booking.status !== 'completed') {
+        throw new HttpsError("failed-precondition", "Only completed trips can be reviewed");
+      }
+      if (reviewDoc.exists) {
+        throw new HttpsError("already-exists", "This booking has already been reviewed");
+      }
+
+      const now = Timestamp.now();
+      tx.create(reviewRef, {
+        userId: uid,
+        packageId: booking.packageId,
+        bookingId: data.bookingId,
+        authorName: `${booking.customer?.firstName || ""} ${(booking.customer?.lastName || "").charAt(0)}`.trim(),
+        rating: data.rating,
+        title,
+        content,
+        pros,
+        cons,
+        verified: true, // Backed by a completed booking
+        helpful: 0,
+        notHelpful: 0,
+        status: 'pending' as ReviewStatus,
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+
+    logger.info(`Review submitted for booking ${data.bookingId}`, {uid});
+    return {success: true, reviewId: data.bookingId, status: 'pending'};
+  }
+);
+
+/**
+ * Approves or rejects a review (admin only), optionally with a public response.
+ * Whenever the set of approved reviews changes, the package's rating, review count
+ * and breakdown are recomputed in the same transaction.
+ */
+export const moderateReview = onCall<ModerateReviewRequest, Promise<ReviewResponse>>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    if (!(await isAdminUser(uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+    const {reviewId, status, response} = request.data || ({} as ModerateReviewRequest);
+    if (!reviewId) {
+      throw new HttpsError("invalid-argument", "reviewId is required");
+    }
+    if (status !== 'approved' && status !== 'rejected') {
+      throw new HttpsError("invalid-argument", "status must be approved or rejected");
+    }
+    const responseText = response === undefined ? undefined :
+      validateText(response, "response", {min: 1, max: MAX_RESPONSE_LENGTH});
+
+    const db = getFirestore();
+    const reviewRef = db.collection("reviews").doc(reviewId);
+
+    await db.runTransaction(async (tx) => {
+      const review = (await tx.get(reviewRef)).data();
+      if (!review) {
+        throw new HttpsError("not-found", "Review not found");
+      }
+
+      const now = Timestamp.now();
+      const affectsRating = (review.status === 'approved') !== (status === 'approved');
+      let summary: RatingSummary | undefined;
+      if (affectsRating) {
+        const approved = await tx.get(db.collection("reviews")
+          .where("packageId", "==", review.packageId)
+          .where("status", "==", 'approved'));
+        const ratings = approved.docs.filter((doc) => doc.id !== reviewId).map((doc) => doc.data().rating as number);
+        if (status === 'approved') ratings.push(review.rating);
+        summary = summarizeRatings(ratings);
+      }
+
+      tx.update(reviewRef, {
+        status,
+        moderatedBy: uid,
+        updatedAt: now,
+        ...(responseText ? {response: {content: responseText, respondedBy: uid, respondedAt: now}} : {}),
+      });
+      if (summary) {
+        tx.update(db.collection("packages").doc(review.packageId), {...summary, updatedAt: now});
+      }
+    });
+
+    logger.info(`Review ${reviewId} ${status} by ${uid}`);
+    return {success: true, reviewId, status};
+  }
+);
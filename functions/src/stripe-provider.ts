@@ -0,0 +1,142 @@
+import Stripe from "stripe";
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  fromMinorUnits,
+  PaymentEvent,
+  PaymentProvider,
+  RefundRequest,
+  RefundResult,
+  SubscriptionPeriod,
+  toMinorUnits,
+} from "./payment-provider";
+
+// AI LOVVE - Stripe implementation of PaymentProvider
+
+function idOf(value: string | {id: string} | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return typeof value === "string" ? value : value.id;
+}
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe' as const;
+  readonly signatureHeader = "stripe-signature";
+  private readonly stripe: Stripe;
+
+  constructor(secretKey: string, private readonly webhookSecret: string) {
+    this.stripe = new Stripe(secretKey, {apiVersion: "2023-10-16"});
+  }
+
+  async createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession> {
+    const {item} = request;
+    const recurring = item.interval ? {recurring: {interval: item.interval}} : {};
+    const session = await this.stripe.checkout.sessions.create({
+      mode: item.interval ? "subscription" : "payment",
+      client_reference_id: request.userId,
+      ...(request.customerId ? {customer: request.customerId} : {customer_email: request.email}),
+      line_items: [{
+        quantity: 1,
+        price_data: {
+          currency: item.currency.toLowerCase(),
+          unit_amount: toMinorUnits(item.amount, item.currency),
+          product_data: {name: item.name},
+          ...recurring,
+        },
+      }],
+      metadata: request.metadata,
+      // Renewal and cancellation events carry the subscription's metadata, not the session's
+      ...(item.interval ? {subscription_data: {metadata: request.metadata}} : {}),
+      success_url: request.successUrl,
+      cancel_url: request.cancelUrl,
+    });
+
+    if (!session.url) {
+      throw new Error(`Stripe checkout session ${session.id} has no URL`);
+    }
+    return {id: session.id, url: session.url};
+  }
+
+  async verifyWebhook(rawBody: Buffer, signature: string | undefined): Promise<PaymentEvent> {
+    if (!signature) throw new Error("Missing Stripe signature");
+    const event = this.stripe.webhooks.constructEvent(rawBody, signature, this.webhookSecret);
+    const base = {id: event.id, provider: this.name, metadata: {}};
+
+    switch (event.type) {
+    case "checkout.session.completed": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      const subscriptionId = idOf(session.subscription);
+      const period = subscriptionId ? await this.renewSubscription(subscriptionId) : undefined;
+      return {
+        ...base,
+        type: 'checkout.completed',
+        checkoutSessionId: session.id,
+        metadata: session.metadata || {},
+        customerId: idOf(session.customer),
+        subscriptionId,
+        paymentId: idOf(session.payment_intent),
+        amount: fromMinorUnits(session.amount_total || 0, session.currency || "usd"),
+        currency: session.currency?.toUpperCase(),
+        currentPeriodEnd: period?.currentPeriodEnd,
+      };
+    }
+    case "checkout.session.expired": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      return {...base, type: 'checkout.expired', checkoutSessionId: session.id, metadata: session.metadata || {}};
+    }
+    case "invoice.paid":
+    case "invoice.payment_failed": {
+      const invoice = event.data.object as Stripe.Invoice;
+      // The first invoice is covered by checkout.session.completed
+      if (event.type === "invoice.paid" && invoice.billing_reason !== "subscription_cycle") {
+        return {...base, type: 'ignored'};
+      }
+      const periodEnd = invoice.lines.data[0]?.period.end;
+      return {
+        ...base,
+        type: event.type === "invoice.paid" ? 'subscription.renewed' : 'payment.failed',
+        metadata: invoice.subscription_details?.metadata || {},
+        customerId: idOf(invoice.customer),
+        subscriptionId: idOf(invoice.subscription),
+        paymentId: idOf(invoice.payment_intent),
+        amount: fromMinorUnits(invoice.amount_paid, invoice.currency),
+        currency: invoice.currency.toUpperCase(),
+        currentPeriodEnd: periodEnd ? new Date(periodEnd * 1000) : undefined,
+      };
+    }
+    case "customer.subscription.deleted": {
+      const subscription = event.data.object as Stripe.Subscription;
+      return {
+        ...base,
+        type: 'subscription.cancelled',
+        metadata: subscription.metadata || {},
+        customerId: idOf(subscription.customer),
+        subscriptionId: subscription.id,
+      };
+    }
+    default:
+      return {...base, type: 'ignored'};
+    }
+  }
+
+  async refund(request: RefundRequest): Promise<RefundResult> {
+    const refund = await this.stripe.refunds.create({
+      payment_intent: request.paymentId,
+      amount: toMinorUnits(request.amount, request.currency),
+    }, {idempotencyKey: request.idempotencyKey});
+    return {refundId: refund.id, amount: fromMinorUnits(refund.amount, refund.currency)};
+  }
+
+  async renewSubscription(subscriptionId: string): Promise<SubscriptionPeriod> {
+    // Stripe renews on its own schedule, so this only reads the current period back
+    const subscription = await this.stripe.subscriptions.retrieve(subscriptionId);
+    return {
+      subscriptionId,
+      active: subscription.status === "active" || subscription.status === "trialing",
+      currentPeriodEnd: new Date(subscription.current_period_end * 1000),
+    };
+  }
+
+  async cancelSubscription(subscriptionId: string): Promise<void> {
+    await this.stripe.subscriptions.update(subscriptionId, {cancel_at_period_end: true});
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  ChannelAdapter,
+  DeliveryError,
+  DeliveryResult,
+  OutboundMessage,
+  renderPlainText,
+  SmsProvider,
+  WhatsAppProvider,
+} from "./channel-adapter";
+
+// AI LOVVE - SMS and WhatsApp channels on top of a text messaging provider
+
+// Longer texts are split into several billed segments by every SMS gateway
+const MAX_SMS_LENGTH = 459; // 3 GSM segments
+
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+function requirePhone(message: OutboundMessage): string {
+  const phone = message.recipient.phone?.replace(/[\s()-]/g, "");
+  if (!phone || !E164_PATTERN.test(phone)) {
+    throw new DeliveryError("Recipient has no valid phone number", false);
+  }
+  return phone;
+}
+
+export class SmsChannelAdapter implements ChannelAdapter {
+  readonly channel = 'sms' as const;
+
+  constructor(private readonly provider: SmsProvider) {}
+
+  async send(message: OutboundMessage): Promise<DeliveryResult> {
+    const text = renderPlainText(message.content);
+    return this.provider.sendSms(requirePhone(message), text.length > MAX_SMS_LENGTH ? `${text.slice(0, MAX_SMS_LENGTH - 1)}…` : text);
+  }
+}
+
+export class WhatsAppChannelAdapter implements ChannelAdapter {
+  readonly channel = 'whatsapp' as const;
+
+  constructor(private readonly provider: WhatsAppProvider) {}
+
+  async send(message: OutboundMessage): Promise<DeliveryResult> {
+    const {content} = message;
+    const text = renderPlainText({...content, body: content.title ? `*${content.title}*\n\n${content.body}` : content.body});
+    return this.provider.sendWhatsApp(requirePhone(message), text);
+  }
+}
@@ -0,0 +1,57 @@
+import {DeliveryError, DeliveryResult, SmsProvider, WhatsAppProvider} from "./channel-adapter";
+
+// AI LOVVE - Twilio Messaging API for SMS and WhatsApp (REST, no SDK)
+
+// JSON: {"accountSid": "AC...", "authToken": "...", "smsFrom": "+1...", "whatsappFrom": "+1..."}
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  smsFrom?: string;
+  whatsappFrom?: string; // Approved WhatsApp sender
+}
+
+// Twilio error codes for recipients that can't be reached at all
+const PERMANENT_ERROR_CODES = new Set([21211, 21408, 21610, 21614, 63003]);
+
+export class TwilioProvider implements SmsProvider, WhatsAppProvider {
+  constructor(private readonly config: TwilioConfig) {}
+
+  async sendSms(to: string, body: string): Promise<DeliveryResult> {
+    if (!this.config.smsFrom) {
+      throw new DeliveryError("Twilio SMS sender is not configured", false);
+    }
+    return this.createMessage(this.config.smsFrom, to, body);
+  }
+
+  async sendWhatsApp(to: string, body: string): Promise<DeliveryResult> {
+    if (!this.config.whatsappFrom) {
+      throw new DeliveryError("Twilio WhatsApp sender is not configured", false);
+    }
+    return this.createMessage(`whatsapp:${this.config.whatsappFrom}`, `whatsapp:${to}`, body);
+  }
+
+  private async createMessage(from: string, to: string, body: string): Promise<DeliveryResult> {
+    const {accountSid, authToken} = this.config;
+    let response: Response;
+    try {
+      response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: "POST",
+        headers: {
+          "Authorization": `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({From: from, To: to, Body: body}).toString(),
+      });
+    } catch (error) {
+      throw new DeliveryError(`Twilio unreachable: ${(error as Error).message}`, true);
+    }
+
+    const result = await response.json().catch(() => ({})) as {sid?: string; code?: number; message?: string};
+    if (!response.ok) {
+      const retryable = response.status === 429 || response.status >= 500 ||
+        (result.code !== undefined && !PERMANENT_ERROR_CODES.has(result.code) && response.status !== 400);
+      throw new DeliveryError(`Twilio error ${result.code ?? response.status}: ${result.message || response.statusText}`, retryable);
+    }
+    return {providerMessageId: result.sid};
+  }
+}
@@ -0,0 +1,410 @@
+import * as logger from "firebase-functions/logger";
+import {FieldPath, FieldValue, getFirestore, Timestamp} from "firebase-admin/firestore";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {DeliveryError, OutboundMessage} from "./channel-adapter";
+import {DELIVERY_SECRETS, getChannelAdapter} from "./channel-gateway";
+import {addSuppression, findSuppression} from "./consent-store";
+import {quoteBookingPrice} from "./bookings";
+import {NotificationDoc, resolveRecipient} from "./proactive-notifications";
+import {crossRate, FX_BASE_CURRENCY, SUPPORTED_CURRENCIES} from "./fx-provider";
+import {loadFxRates, preferredCurrency} from "./fx-rates";
+
+// CORS configuration for Firebase Functions v2
+const allowedOrigins = [
+  'https://lovve.tech',
+  'https://www.lovve.tech',
+  'http://localhost:5173',
+  'http://localhost:3000',
+  'http://127.0.0.1:5173',
+  'https://ailovve.firebaseapp.com'
+];
+
+// AI LOVVE - Price and availability watchlists
+// watches/{watchId}   a package, or a destination + budget, the user wants to hear about;
+//                     written by Functions only (createWatch, cancelWatch, the chat tool), read by the owner
+
+export type WatchCondition = 'price_below' | 'available';
+export type WatchSource = 'package_card' | 'package_detail' | 'chat';
+export type WatchStatus = 'active' | 'triggered' | 'cancelled';
+
+// Mirrors PackageWatch in src/services/watchlistService.ts
+export interface WatchDoc {
+  userId: string;
+  packageId?: string; // Package watch
+  packageTitle?: string;
+  destination?: string; // Destination watch, matched against title, location, country, region and tags
+  condition: WatchCondition; // Destination watches are always price_below
+  targetPrice?: number; // Effective price (promotion applied) in `currency`
+  currency: string; // The package currency, or for destination watches the user's; other prices are converted
+  notifyByEmail: boolean;
+  source: WatchSource;
+  status: WatchStatus;
+  lastPrice?: number; // Lowest matching price seen by the last evaluation, in `currency`
+  matchedPackageId?: string;
+  matchedPrice?: number;
+  notificationId?: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  triggeredAt?: Timestamp;
+}
+
+export interface WatchInput {
+  packageId?: string;
+  destination?: string;
+  condition?: WatchCondition;
+  targetPrice?: number;
+  currency?: string;
+  notifyByEmail?: boolean;
+}
+
+interface PackageSnapshot {
+  id: string;
+  title: string;
+  price: number; // After an active promotion
+  currency: string;
+  available: boolean;
+  searchText: string;
+}
+
+const WATCHES_COLLECTION = "watches";
+const MAX_ACTIVE_WATCHES = 20;
+const MAX_DESTINATION_LENGTH = 80;
+const WATCH_PAGE_SIZE = 200;
+const DEFAULT_TIME_ZONE = "Europe/Istanbul";
+const APP_URL = process.env.APP_URL || "https://lovve.tech";
+
+function requireAuth(uid: string | undefined): string {
+  if (!uid) {
+    throw new HttpsError("unauthenticated", "Authentication required");
+  }
+  return uid;
+}
+
+function toSnapshot(id: string, data: FirebaseFirestore.DocumentData): PackageSnapshot {
+  return {
+    id,
+    title: data.title || id,
+    price: quoteBookingPrice(data, 1).totalPrice,
+    currency: data.currency || "USD",
+    available: data.availability !== false && (!data.status || data.status === "published"),
+    searchText: [data.title, data.location, data.country, data.region, ...(data.tags || [])].join(" ").toLowerCase(),
+  };
+}
+
+function formatAmount(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("tr-TR", {style: "currency", currency, maximumFractionDigits: 0}).format(amount);
+  } catch {
+    return `${Math.round(amount)} ${currency}`;
+  }
+}
+
+/**
+ * Packages the watch is about, the watched package or the catalog entries in the destination, priced
+ * in the watch currency with the stored FX rates. Packages whose price can't be converted are left out.
+ */
+export function candidatesFor(watch: WatchDoc, packages: PackageSnapshot[], rates: Record<string, number> | null): PackageSnapshot[] {
+  const words = (watch.destination || "").toLowerCase().split(/\s+/).filter(Boolean);
+  return packages
+    .filter((pkg) => watch.packageId ? pkg.id === watch.packageId : words.every((word) => pkg.searchText.includes(word)))
+    .flatMap((pkg) => {
+      const rate = pkg.currency === watch.currency ? 1 : rates ? crossRate(pkg.currency, watch.currency, rates) : null;
+      return rate === null ? [] : [{...pkg, price: Math.round(pkg.price * rate * 100) / 100, currency: watch.currency}];
+    });
+}
+
+/**
+ * The cheapest bookable candidate that satisfies the watch, or null while it is not met.
+ */
+export function findWatchMatch(watch: WatchDoc, candidates: PackageSnapshot[]): PackageSnapshot | null {
+  const matches = candidates.filter((pkg) => {
+    if (!pkg.available) return false;
+    if (watch.condition === 'available') return true;
+    return pkg.price <= (watch.targetPrice ?? 0);
+  });
+  return matches.sort((a, b) => a.price - b.price)[0] || null;
+}
+
+/**
+ * Validates and stores a watch for the user. Watching the same package (or destination) with the
+ * same condition again updates the active watch instead of adding another one.
+ */
+export async function saveWatch(uid: string, input: WatchInput, source: WatchSource): Promise<{watchId: string; watch: WatchDoc}> {
+  const packageId = typeof input.packageId === "string" ? input.packageId.trim() : "";
+  const destination = typeof input.destination === "string" ? input.destination.trim().slice(0, MAX_DESTINATION_LENGTH) : "";
+  const condition = input.condition || 'price_below';
+  const targetPrice = Number(input.targetPrice);
+
+  if (!packageId === !destination) {
+    throw new HttpsError("invalid-argument", "Watch either a packageId or a destination");
+  }
+  if (!['price_below', 'available'].includes(condition)) {
+    throw new HttpsError("invalid-argument", "condition must be price_below or available");
+  }
+  if (destination && condition !== 'price_below') {
+    throw new HttpsError("invalid-argument", "Destination watches need a target price");
+  }
+  if (condition === 'price_below' && !(targetPrice > 0)) {
+    throw new HttpsError("invalid-argument", "targetPrice must be a positive number");
+  }
+
+  const db = getFirestore();
+  const requestedCurrency = typeof input.currency === "string" ? input.currency.toUpperCase() : "";
+  let currency = SUPPORTED_CURRENCIES.includes(requestedCurrency) ?
+    requestedCurrency :
+    (await preferredCurrency(uid)) || FX_BASE_CURRENCY;
+  let packageTitle: string | undefined;
+  let lastPrice: number | undefined;
+
+  if (packageId) {
+    const data = (await db.collection("packages").doc(packageId).get()).data();
+    if (!data || (data.status && data.status !== "published")) {
+      throw new HttpsError("not-found", "Package not found");
+    }
+    const pkg = toSnapshot(packageId, data);
+    if (condition === 'available' && pkg.available) {
+      throw new HttpsError("failed-precondition", "This package is already available");
+    }
+    if (condition === 'price_below' && pkg.available && pkg.price <= targetPrice) {
+      throw new HttpsError("failed-precondition", "This package is already at or below the target price");
+    }
+    currency = pkg.currency;
+    packageTitle = pkg.title;
+    lastPrice = pkg.price;
+  }
+
+  const active = await db.collection(WATCHES_COLLECTION)
+    .where("userId", "==", uid)
+    .where("status", "==", "active")
+    .get();
+  const existing = active.docs.find((doc) => doc.get("condition") === condition && (packageId ?
+    doc.get("packageId") === packageId :
+    String(doc.get("destination") || "").toLowerCase() === destination.toLowerCase()));
+  if (!existing && active.size >= MAX_ACTIVE_WATCHES) {
+    throw new HttpsError("resource-exhausted", `You can watch up to ${MAX_ACTIVE_WATCHES} packages or destinations`);
+  }
+
+  const now = Timestamp.now();
+  const watch: WatchDoc = {
+    userId: uid,
+    ...(packageId ? {packageId, packageTitle} : {destination}),
+    condition,
+    ...(condition === 'price_below' ? {targetPrice} : {}),
+    currency,
+    notifyByEmail: input.notifyByEmail !== false,
+    source,
+    status: 'active',
+    ...(lastPrice !== undefined ? {lastPrice} : {}),
+    createdAt: existing?.get("createdAt") || now,
+    updatedAt: now,
+  };
+  const ref = existing?.ref || db.collection(WATCHES_COLLECTION).doc();
+  await ref.set(watch);
+  logger.info(`Watch ${ref.id} saved for ${uid}`, {packageId, destination, condition, targetPrice, source});
+  return {watchId: ref.id, watch};
+}
+
+/**
+ * Creates (or updates) a price or availability watch from the package card or detail page.
+ */
+export const createWatch = onCall<WatchInput & {source?: WatchSource}>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const source = request.data?.source === 'package_card' ? 'package_card' : 'package_detail';
+    const {watchId} = await saveWatch(uid, request.data || {}, source);
+    return {success: true, watchId};
+  }
+);
+
+export const cancelWatch = onCall<{watchId: string}>(
+  {
+    region: "europe-west1",
+    enforceAppCheck: false,
+    cors: allowedOrigins
+  },
+  async (request) => {
+    const uid = requireAuth(request.auth?.uid);
+    const watchId = request.data?.watchId;
+    if (typeof watchId !== "string" || !watchId) {
+      throw new HttpsError("invalid-argument", "watchId is required");
+    }
+
+    const ref = getFirestore().collection(WATCHES_COLLECTION).doc(watchId);
+    const watch = (await ref.get()).data() as WatchDoc | undefined;
+    if (!watch || watch.userId !== uid) {
+      throw new HttpsError("not-found", "Watch not found");
+    }
+    if (watch.status === 'active') {
+      await ref.update({status: 'cancelled', updatedAt: Timestamp.now()});
+    }
+    return {success: true};
+  }
+);
+
+function watchContent(watch: WatchDoc, pkg: PackageSnapshot): {title: string; message: string} {
+  if (watch.condition === 'available') {
+    return {
+      title: "🔔 Beklediğiniz paket müsait!",
+      message: `${pkg.title} tekrar rezerve edilebilir. Yerinizi kaçırmadan ayırtın 💕`,
+    };
+  }
+  const target = formatAmount(watch.targetPrice ?? 0, watch.currency);
+  return {
+    title: "📉 Fiyat hedefinize ulaştı!",
+    message: watch.destination ?
+      `${watch.destination} için ${target} bütçenize uygun bir paket var: ${pkg.title}, ${formatAmount(pkg.price, pkg.currency)}.` :
+      `${pkg.title} şimdi ${formatAmount(pkg.price, pkg.currency)}, hedef fiyatınız ${target} idi.`,
+  };
+}
+
+/**
+ * Stores the alert for NotificationCenter and emails it when the user asked for that. The user
+ * created the watch themselves, so only an 'all' suppression (not marketing consent) stops the email.
+ * The watch is then marked triggered; it fires once.
+ */
+async function notifyWatchMatch(ref: FirebaseFirestore.DocumentReference, watch: WatchDoc, pkg: PackageSnapshot): Promise<void> {
+  const db = getFirestore();
+  const type = watch.condition === 'available' ? 'watch_availability' : 'watch_price';
+  const notificationRef = db.collection("users").doc(watch.userId).collection("notifications").doc();
+  const content = {...watchContent(watch, pkg), actionUrl: `/package/${pkg.id}`, actionText: "Paketi İncele"};
+
+  let channel: NotificationDoc['channel'] = 'in_app';
+  let deliveryError: string | undefined;
+  const recipient = watch.notifyByEmail ? await resolveRecipient(watch.userId) : null;
+  if (recipient?.email && !(await findSuppression(recipient.email, 'all'))) {
+    const message: OutboundMessage = {
+      id: notificationRef.id,
+      campaignId: type,
+      channel: 'email',
+      recipient,
+      content: {
+        subject: content.title,
+        title: content.title,
+        body: content.message,
+        cta: [{text: content.actionText, url: `${APP_URL}${content.actionUrl}`}],
+        footerText: "Bu e-postayı takip listenize eklediğiniz bir uyarı için aldınız. Uyarılarınızı Ayarlar > Bildirimler'den yönetebilirsiniz.",
+      },
+    };
+    try {
+      await getChannelAdapter('email').send(message);
+      channel = 'email';
+    } catch (error) {
+      deliveryError = error instanceof Error ? error.message : String(error);
+      if (error instanceof DeliveryError && error.addressRejected) {
+        await addSuppression(recipient.email, {reason: 'hard_bounce', scope: 'all', userId: watch.userId, note: deliveryError, createdBy: 'system'});
+      }
+      logger.warn(`Watch alert email for ${ref.id} failed`, {reason: deliveryError});
+    }
+  }
+
+  const now = Timestamp.now();
+  const notification: NotificationDoc = {
+    type,
+    ...content,
+    priority: 'high',
+    channel,
+    ...(deliveryError ? {deliveryError} : {}),
+    packageId: pkg.id,
+    read: false,
+    createdAt: now,
+  };
+  const batch = db.batch();
+  batch.create(notificationRef, notification);
+  batch.update(ref, {
+    status: 'triggered',
+    triggeredAt: now,
+    updatedAt: now,
+    lastPrice: pkg.price,
+    matchedPackageId: pkg.id,
+    matchedPrice: pkg.price,
+    notificationId: notificationRef.id,
+  });
+  batch.set(db.collection("notificationTriggers").doc(type), {
+    sent: FieldValue.increment(1),
+    ...(deliveryError ? {failed: FieldValue.increment(1)} : {}),
+    channels: {[channel]: FieldValue.increment(1)},
+    lastSentAt: now,
+  }, {merge: true});
+  await batch.commit();
+}
+
+/**
+ * Re-evaluates every active watch each hour against the package price (with an active promotion
+ * applied) and availability. Met watches notify the user and are marked triggered; the others
+ * only record the lowest matching price for the watchlist UI.
+ */
+export const evaluateWatches = onSchedule(
+  {
+    schedule: "every 60 minutes",
+    timeZone: DEFAULT_TIME_ZONE,
+    region: "europe-west1",
+    secrets: [...DELIVERY_SECRETS],
+    timeoutSeconds: 540,
+  },
+  async () => {
+    const db = getFirestore();
+    const rates = (await loadFxRates())?.rates ?? null;
+
+    // Package reads are shared by all watches of a run; destination watches need the whole catalog
+    const packages = new Map<string, Promise<PackageSnapshot[]>>();
+    const loadPackage = (packageId: string) => {
+      if (!packages.has(packageId)) {
+        packages.set(packageId, db.collection("packages").doc(packageId).get()
+          .then((doc) => doc.exists ? [toSnapshot(doc.id, doc.data()!)] : []));
+      }
+      return packages.get(packageId)!;
+    };
+    let catalog: Promise<PackageSnapshot[]> | undefined;
+    const loadCatalog = () => {
+      if (!catalog) {
+        catalog = db.collection("packages").where("status", "==", "published").get()
+          .then((snapshot) => snapshot.docs.map((doc) => toSnapshot(doc.id, doc.data())));
+      }
+      return catalog;
+    };
+
+    let evaluated = 0;
+    let triggered = 0;
+    let last: FirebaseFirestore.QueryDocumentSnapshot | undefined;
+    for (;;) {
+      let query = db.collection(WATCHES_COLLECTION)
+        .where("status", "==", "active")
+        .orderBy(FieldPath.documentId())
+        .limit(WATCH_PAGE_SIZE);
+      if (last) query = query.startAfter(last);
+      const page = await query.get();
+      if (page.empty) break;
+
+      for (const doc of page.docs) {
+        const watch = doc.data() as WatchDoc;
+        try {
+          const candidates = candidatesFor(watch, watch.packageId ? await loadPackage(watch.packageId) : await loadCatalog(), rates);
+          const match = findWatchMatch(watch, candidates);
+          if (match) {
+            await notifyWatchMatch(doc.ref, watch, match);
+            triggered++;
+          } else {
+            const prices = candidates.filter((pkg) => pkg.available).map((pkg) => pkg.price);
+            const lowest = prices.length > 0 ? Math.min(...prices) : undefined;
+            if (lowest !== undefined && lowest !== watch.lastPrice) {
+              await doc.ref.update({lastPrice: lowest});
+            }
+          }
+        } catch (error) {
+          logger.error(`Watch ${doc.id} evaluation failed:`, error);
+        }
+      }
+      evaluated += page.size;
+      last = page.docs[page.docs.length - 1];
+      if (page.size < WATCH_PAGE_SIZE) break;
+    }
+
+    logger.info(`Watchlists: ${triggered} of ${evaluated} active watch(es) triggered`);
+  }
+);
@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { Mail, Download, Loader2 } from 'lucide-react';
+import {
+  consentService,
+  CONSENT_CATEGORIES,
+  CONSENT_CHANNELS,
+  type CategoryConsent,
+  type ConsentCategory,
+  type ConsentChannel
+} from '../services/consentService';
+
+interface ConsentSettingsProps {
+  className?: string;
+}
+
+const ConsentSettings: React.FC<ConsentSettingsProps> = ({ className = '' }) => {
+  const [preferences, setPreferences] = useState<CategoryConsent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPreferences();
+  }, []);
+
+  const loadPreferences = async () => {
+    try {
+      setIsLoading(true);
+      setPreferences(await consentService.getPreferences());
+      setError(null);
+    } catch (error) {
+      console.error('❌ Error loading consent preferences:', error);
+      setError('Could not load your communication preferences');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const isGranted = (category: ConsentCategory, channel: ConsentChannel) =>
+    preferences.find(p => p.category === category)?.channels.find(c => c.channel === channel)?.granted ?? false;
+
+  const handleToggle = async (category: ConsentCategory, channel: ConsentChannel) => {
+    const key = `${category}:${channel}`;
+    try {
+      setUpdating(key);
+      setPreferences(await consentService.updateConsent([{ category, channel, granted: !isGranted(category, channel) }]));
+      setError(null);
+    } catch (error) {
+      console.error('❌ Error updating consent:', error);
+      setError('Could not save your choice, please try again');
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const data = await consentService.exportHistory();
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `consent-history-${data.exportedAt.slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('❌ Error exporting consent history:', error);
+      setError('Could not export your consent history');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className={`consent-settings ${className}`}>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <Mail className="w-6 h-6 text-blue-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Communication Preferences
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Choose what we may send you, and on which channel
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded">
+            <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading preferences...
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {CONSENT_CATEGORIES.map((category) => (
+              <div
+                key={category.id}
+                className="p-3 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg"
+              >
+                <div className="font-medium text-gray-900 dark:text-white">
+                  {category.label}
+                </div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  {category.description}
+                </div>
+                <div className="mt-3 grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {CONSENT_CHANNELS.map((channel) => {
+                    const key = `${category.id}:${channel.id}`;
+                    const isEnabled = isGranted(category.id, channel.id);
+
+                    return (
+                      <div key={channel.id} className="flex items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        {channel.label}
+                        <button
+                          onClick={() => handleToggle(category.id, channel.id)}
+                          disabled={updating !== null}
+                          aria-pressed={isEnabled}
+                          className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors disabled:opacity-50 ${
+                            isEnabled
+                              ? 'bg-blue-600'
+                              : 'bg-gray-200 dark:bg-gray-600'
+                          }`}
+                        >
+                          <span
+                            className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                              isEnabled ? 'translate-x-6' : 'translate-x-1'
+                            }`}
+                          />
+                          {updating === key && (
+                            <Loader2 className="absolute inset-0 m-auto w-3 h-3 text-gray-400 animate-spin" />
+                          )}
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Consent history export (GDPR / KVKK) */}
+        <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="font-medium text-blue-900 dark:text-blue-100">
+                Consent History
+              </div>
+              <div className="text-sm text-blue-700 dark:text-blue-300">
+                Download every consent change we have recorded for your account
+              </div>
+            </div>
+
+            <button
+              onClick={handleExport}
+              disabled={isExporting}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              <Download className="w-4 h-4" />
+              {isExporting ? 'Exporting...' : 'Export'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsentSettings;
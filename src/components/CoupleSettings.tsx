@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Copy, HeartHandshake, Loader2, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useCouple } from '../hooks/useCouple';
+import { coupleService, type CoupleCompatibility, type CoupleInvite, type SavedPackage } from '../services/coupleService';
+import { COMPATIBILITY_MAX_POINTS } from '../services/personalityService';
+import { formatMoney } from '../utils/currency';
+
+interface CoupleSettingsProps {
+  className?: string;
+  // From an invite link (/settings?partnerCode=...)
+  initialCode?: string;
+}
+
+const BREAKDOWN_LABELS: { key: keyof CoupleCompatibility['breakdown']; label: string }[] = [
+  { key: 'personality', label: 'Personality' },
+  { key: 'budget', label: 'Budget' },
+  { key: 'travelStyle', label: 'Travel style' },
+  { key: 'duration', label: 'Trip length' },
+  { key: 'energy', label: 'Energy' },
+  { key: 'priority', label: 'Main priority' }
+];
+
+const CoupleSettings: React.FC<CoupleSettingsProps> = ({ className = '', initialCode = '' }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { couple, partner, space, isLinked, isLoading } = useCouple();
+  const [invite, setInvite] = useState<CoupleInvite | null>(null);
+  const [code, setCode] = useState(initialCode);
+  const [savedPackages, setSavedPackages] = useState<SavedPackage[]>([]);
+  const [working, setWorking] = useState<'invite' | 'accept' | 'leave' | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!space) return;
+    return coupleService.subscribeToSavedPackages(space, setSavedPackages);
+  }, [space]);
+
+  const handleCreateInvite = async () => {
+    try {
+      setWorking('invite');
+      setInvite(await coupleService.createInvite());
+      setError(null);
+    } catch (error: any) {
+      console.error('❌ Error creating partner invite:', error);
+      setError(error?.message || 'Could not create an invite, please try again');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleAccept = async () => {
+    try {
+      setWorking('accept');
+      await coupleService.acceptInvite(code);
+      setCode('');
+      setError(null);
+    } catch (error: any) {
+      console.error('❌ Error accepting partner invite:', error);
+      setError(error?.message || 'Could not link with your partner, please try again');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!window.confirm(`Unlink from ${partner?.displayName}? Your shared chat, saved packages and plans will no longer be available to either of you.`)) return;
+    try {
+      setWorking('leave');
+      await coupleService.leaveCouple();
+      setInvite(null);
+      setError(null);
+    } catch (error: any) {
+      console.error('❌ Error leaving couple:', error);
+      setError(error?.message || 'Could not unlink, please try again');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!invite) return;
+    await navigator.clipboard.writeText(invite.link);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleRemove = async (packageId: string) => {
+    if (!space) return;
+    try {
+      await coupleService.removeSavedPackage(space, packageId);
+    } catch (error) {
+      console.error('❌ Error removing saved package:', error);
+      setError('Could not remove the package, please try again');
+    }
+  };
+
+  const compatibility = couple?.compatibility;
+
+  return (
+    <div className={`couple-settings ${className}`}>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <HeartHandshake className="w-6 h-6 text-blue-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Partner Account
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Link with your partner to share chats, saved packages and trip plans
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded">
+            <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading partner account...
+          </div>
+        ) : isLinked ? (
+          <div className="space-y-4">
+            <div className="p-3 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg flex items-center justify-between gap-3">
+              <div>
+                <div className="font-medium text-gray-900 dark:text-white">
+                  Linked with {partner?.displayName}
+                </div>
+                <div className="text-sm text-gray-600 dark:text-gray-400">
+                  Since {couple?.createdAt.toLocaleDateString()}
+                </div>
+              </div>
+              <button
+                onClick={handleLeave}
+                disabled={working !== null}
+                className="px-3 py-1.5 text-sm text-red-500 hover:text-red-600 disabled:opacity-50 transition-colors"
+              >
+                {working === 'leave' ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Unlink'}
+              </button>
+            </div>
+
+            {compatibility ? (
+              <div className="p-3 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg space-y-3">
+                <div className="flex items-baseline justify-between">
+                  <span className="font-medium text-gray-900 dark:text-white">Travel compatibility</span>
+                  <span className="text-2xl font-semibold text-blue-600">{compatibility.score}%</span>
+                </div>
+                <div className="space-y-2">
+                  {BREAKDOWN_LABELS.map(({ key, label }) => (
+                    <div key={key} className="flex items-center gap-3 text-sm">
+                      <span className="w-28 text-gray-600 dark:text-gray-400">{label}</span>
+                      <div className="flex-1 h-2 bg-gray-200 dark:bg-gray-600 rounded">
+                        <div className="h-2 bg-blue-600 rounded" style={{ width: `${(compatibility.breakdown[key] / COMPATIBILITY_MAX_POINTS[key]) * 100}%` }} />
+                      </div>
+                      <span className="w-12 text-right text-gray-600 dark:text-gray-400">{compatibility.breakdown[key]}/{COMPATIBILITY_MAX_POINTS[key]}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-400">
+                Your compatibility appears here once you have both taken the personality test.
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <button
+                onClick={handleCreateInvite}
+                disabled={working !== null}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center gap-2"
+              >
+                {working === 'invite' && <Loader2 className="w-4 h-4 animate-spin" />}
+                {invite ? 'Create a new invite' : 'Invite your partner'}
+              </button>
+              {invite && (
+                <div className="p-3 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg space-y-1">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="font-mono text-lg tracking-widest text-gray-900 dark:text-white">{invite.code}</span>
+                    <button
+                      onClick={handleCopy}
+                      aria-label="Copy invite link"
+                      className="p-2 text-gray-400 hover:text-blue-500 transition-colors flex items-center gap-1 text-sm"
+                    >
+                      <Copy className="w-4 h-4" />
+                      {copied ? 'Copied' : 'Copy link'}
+                    </button>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Share the code or link with your partner. It expires on {invite.expiresAt.toLocaleDateString()}.
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <input
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                placeholder="Partner's code"
+                maxLength={9}
+                className="flex-1 px-3 py-2 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg font-mono tracking-widest text-gray-900 dark:text-white"
+              />
+              <button
+                onClick={handleAccept}
+                disabled={working !== null || code.trim().length < 8}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors flex items-center gap-2"
+              >
+                {working === 'accept' && <Loader2 className="w-4 h-4 animate-spin" />}
+                Link
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Saved packages, shared with the partner once linked */}
+        {user?.uid && !isLoading && (
+          <div className="space-y-3">
+            <h4 className="font-medium text-gray-900 dark:text-white">
+              {isLinked ? 'Saved by both of you' : 'Saved packages'}
+            </h4>
+            {savedPackages.length === 0 ? (
+              <p className="text-sm text-gray-400">
+                No saved packages yet. Use the heart on a package page to save it.
+              </p>
+            ) : (
+              savedPackages.map((saved) => (
+                <div
+                  key={saved.packageId}
+                  className="p-3 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg flex items-center justify-between gap-3"
+                >
+                  <button onClick={() => navigate(`/package/${saved.packageId}`)} className="text-left">
+                    <div className="font-medium text-gray-900 dark:text-white">{saved.title}</div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">
+                      {saved.location} · {formatMoney(saved.price, saved.currency)}
+                      {isLinked && ` · saved by ${saved.savedBy === user.uid ? 'you' : saved.savedByName || partner?.displayName}`}
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => handleRemove(saved.packageId)}
+                    aria-label="Remove saved package"
+                    className="p-2 text-gray-400 hover:text-red-500 transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CoupleSettings;
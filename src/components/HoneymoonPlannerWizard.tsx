@@ -9,56 +9,35 @@ import { Badge } from '@/components/ui/badge';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { useAuth } from '../contexts/AuthContext';
+import { useCouple } from '../hooks/useCouple';
 import { userProfileAnalyzer, UserProfile } from '../services/userProfileAnalyzer';
 import { packageService, HoneymoonPackage } from '../services/packageService';
+import { tripPlanService, type TripPlan } from '../services/tripPlanService';
+import { EMPTY_HONEYMOON_PLAN, type CustomHoneymoonPlan } from '../utils/trip-plan';
 import { toast } from 'react-hot-toast';
 import { logger } from '../utils/logger';
 import { format, addDays, differenceInDays } from 'date-fns';
 import { tr } from 'date-fns/locale';
 
-interface CustomHoneymoonPlan {
-  destinations: string[];
-  startDate: Date | null;
-  endDate: Date | null;
-  budget: { min: number; max: number };
-  travelers: number;
-  accommodationType: string[];
-  activities: string[];
-  specialRequests: string;
-  mealPreferences: string[];
-  transportationPreference: string;
-  roomType: string;
-  specialOccasions: string[];
-}
-
 interface HoneymoonPlannerWizardProps {
   userProfile?: UserProfile;
-  onComplete: (plan: CustomHoneymoonPlan, recommendations: HoneymoonPackage[]) => void;
+  // Saved plan to edit; without it a new plan is created
+  initialPlan?: TripPlan;
+  onComplete: (plan: CustomHoneymoonPlan, recommendations: HoneymoonPackage[], planId: string | null) => void;
   onClose: () => void;
 }
 
 const HoneymoonPlannerWizard: React.FC<HoneymoonPlannerWizardProps> = ({ 
   userProfile, 
+  initialPlan,
   onComplete, 
   onClose 
 }) => {
   const { user } = useAuth();
+  const { space } = useCouple();
   const [currentStep, setCurrentStep] = useState(0);
   const [isGenerating, setIsGenerating] = useState(false);
-  const [honeymoonPlan, setHoneymoonPlan] = useState<CustomHoneymoonPlan>({
-    destinations: [],
-    startDate: null,
-    endDate: null,
-    budget: { min: 25000, max: 50000 },
-    travelers: 2,
-    accommodationType: [],
-    activities: [],
-    specialRequests: '',
-    mealPreferences: [],
-    transportationPreference: '',
-    roomType: '',
-    specialOccasions: []
-  });
+  const [honeymoonPlan, setHoneymoonPlan] = useState<CustomHoneymoonPlan>(initialPlan?.details ?? EMPTY_HONEYMOON_PLAN);
 
   const steps = [
     { 
@@ -150,8 +129,8 @@ const HoneymoonPlannerWizard: React.FC<HoneymoonPlannerWizardProps> = ({
   ];
 
   useEffect(() => {
-    // Initialize with user profile preferences if available
-    if (userProfile) {
+    // Initialize with user profile preferences if available, a saved plan keeps its own
+    if (userProfile && !initialPlan) {
       setHoneymoonPlan(prev => ({
         ...prev,
         budget: userProfile.preferences.budgetRange,
@@ -159,7 +138,7 @@ const HoneymoonPlannerWizard: React.FC<HoneymoonPlannerWizardProps> = ({
         activities: userProfile.preferences.activities
       }));
     }
-  }, [userProfile]);
+  }, [userProfile, initialPlan]);
 
   const nextStep = () => {
     if (currentStep < steps.length - 1) {
@@ -182,9 +161,10 @@ const HoneymoonPlannerWizard: React.FC<HoneymoonPlannerWizardProps> = ({
       
       // Generate personalized recommendations based on the plan
       const recommendations = await generateRecommendations(honeymoonPlan);
+      const planId = await savePlan(honeymoonPlan);
       
-      toast.success('Balayı planınız oluşturuldu! 🎉');
-      onComplete(honeymoonPlan, recommendations);
+      toast.success(initialPlan ? 'Balayı planınız güncellendi! 🎉' : 'Balayı planınız oluşturuldu! 🎉');
+      onComplete(honeymoonPlan, recommendations, planId);
     } catch (error) {
       logger.error('Error generating honeymoon plan', { error });
       toast.error('Plan oluşturulurken hata oluştu');
@@ -193,6 +173,22 @@ const HoneymoonPlannerWizard: React.FC<HoneymoonPlannerWizardProps> = ({
     }
   };
 
+  // Saved so the plan can be reopened later; recommendations are still shown if saving fails
+  const savePlan = async (plan: CustomHoneymoonPlan): Promise<string | null> => {
+    if (!user?.uid || !space) return null;
+    try {
+      if (initialPlan) {
+        await tripPlanService.updatePlan(space, initialPlan.id, plan);
+        return initialPlan.id;
+      }
+      return await tripPlanService.createPlan(space, plan, user.uid);
+    } catch (error) {
+      logger.error('Error saving honeymoon plan', { error });
+      toast.error('Plan kaydedilemedi');
+      return null;
+    }
+  };
+
   const generateRecommendations = async (plan: CustomHoneymoonPlan): Promise<HoneymoonPackage[]> => {
     // Get all packages and filter based on user preferences
     const allPackages = await packageService.getPackages();
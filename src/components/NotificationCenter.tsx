@@ -1,17 +1,20 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Bell, X, Check, AlertTriangle, Info, Heart, Download, 
-  Mail, Shield, Sparkles, ChevronRight, Clock
+  Mail, Shield, Sparkles, ChevronRight, Clock, CreditCard, Gift
 } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardContent } from './ui/card';
 import { Badge } from './ui/badge';
 import { cn } from '../lib/utils';
+import { useAuth } from '../contexts/AuthContext';
+import { proactiveNotificationEngine, ProactiveNotification } from '../services/proactiveNotificationEngine';
 
 interface Notification {
   id: string;
-  type: 'pwa_install' | 'email_verification' | 'personality_test' | 'feedback' | 'update' | 'security' | 'general';
+  type: 'pwa_install' | 'email_verification' | 'personality_test' | 'feedback' | 'update' | 'security' | 'general' | 'recommendation' | 'payment';
   title: string;
   message: string;
   timestamp: Date;
@@ -20,6 +23,7 @@ interface Notification {
   onAction?: () => void;
   dismissible?: boolean;
   priority: 'low' | 'medium' | 'high';
+  remote?: boolean; // Stored in users/{uid}/notifications by the proactive notification functions
 }
 
 interface NotificationCenterProps {
@@ -27,7 +31,10 @@ interface NotificationCenterProps {
 }
 
 const NotificationCenter: React.FC<NotificationCenterProps> = ({ className }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
   const [isOpen, setIsOpen] = useState(false);
+  const [remoteNotifications, setRemoteNotifications] = useState<ProactiveNotification[]>([]);
   const [notifications, setNotifications] = useState<Notification[]>([
     {
       id: 'pwa-install',
@@ -55,7 +62,41 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ className }) =>
     }
   ]);
 
-  const unreadCount = notifications.filter(n => !n.read).length;
+  useEffect(() => {
+    if (!user?.uid) {
+      setRemoteNotifications([]);
+      return;
+    }
+    return proactiveNotificationEngine.subscribeToNotifications(user.uid, setRemoteNotifications);
+  }, [user?.uid]);
+
+  // Showing the panel counts as opening the notifications in it
+  useEffect(() => {
+    if (!isOpen) return;
+    remoteNotifications
+      .filter(n => !n.opened)
+      .forEach(n => proactiveNotificationEngine.recordNotificationInteraction(n.id, 'opened')
+        .catch(error => console.error('❌ Error recording notification open:', error)));
+  }, [isOpen, remoteNotifications]);
+
+  const allNotifications: Notification[] = [
+    ...remoteNotifications.map((n): Notification => ({
+      id: n.id,
+      type: n.type === 'payment_due' ? 'payment' : 'recommendation',
+      title: n.title,
+      message: n.message,
+      timestamp: new Date(n.createdAt),
+      read: n.read,
+      actionLabel: n.actionUrl ? n.actionText || 'Detayları Gör' : undefined,
+      onAction: n.actionUrl ? () => navigate(n.actionUrl!) : undefined,
+      dismissible: true,
+      priority: n.priority === 'urgent' ? 'high' : n.priority,
+      remote: true
+    })),
+    ...notifications
+  ].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+  const unreadCount = allNotifications.filter(n => !n.read).length;
 
   const getNotificationIcon = (type: Notification['type']) => {
     switch (type) {
@@ -71,6 +112,10 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ className }) =>
         return Shield;
       case 'update':
         return Info;
+      case 'recommendation':
+        return Gift;
+      case 'payment':
+        return CreditCard;
       default:
         return Bell;
     }
@@ -90,6 +135,10 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ className }) =>
         return 'from-red-500 to-red-600';
       case 'update':
         return 'from-blue-500 to-blue-600';
+      case 'recommendation':
+        return 'from-pink-500 to-[#d4af37]';
+      case 'payment':
+        return 'from-emerald-500 to-emerald-600';
       default:
         return 'from-gray-500 to-gray-600';
     }
@@ -124,16 +173,31 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ className }) =>
     );
   };
 
-  const dismissNotification = (id: string) => {
-    setNotifications(prev => prev.filter(n => n.id !== id));
+  const dismissNotification = (notification: Notification) => {
+    if (notification.remote) {
+      proactiveNotificationEngine.recordNotificationInteraction(notification.id, 'dismissed')
+        .catch(error => console.error('❌ Error dismissing notification:', error));
+      setRemoteNotifications(prev => prev.filter(n => n.id !== notification.id));
+      return;
+    }
+    setNotifications(prev => prev.filter(n => n.id !== notification.id));
   };
 
   const markAllAsRead = () => {
     setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    if (user?.uid) {
+      proactiveNotificationEngine.markAllAsRead(user.uid, remoteNotifications.filter(n => !n.read).map(n => n.id))
+        .catch(error => console.error('❌ Error marking notifications as read:', error));
+    }
   };
 
   const handleNotificationAction = (notification: Notification) => {
-    markAsRead(notification.id);
+    if (notification.remote) {
+      proactiveNotificationEngine.recordNotificationInteraction(notification.id, 'clicked')
+        .catch(error => console.error('❌ Error recording notification click:', error));
+    } else {
+      markAsRead(notification.id);
+    }
     notification.onAction?.();
     setIsOpen(false);
   };
@@ -231,14 +295,14 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ className }) =>
 
                 {/* Notifications List */}
                 <CardContent className="p-0 max-h-96 overflow-y-auto">
-                  {notifications.length === 0 ? (
+                  {allNotifications.length === 0 ? (
                     <div className="p-8 text-center">
                       <Bell className="w-12 h-12 text-gray-400 mx-auto mb-3" />
                       <p className="text-secondary">Henüz bildirim yok</p>
                     </div>
                   ) : (
                     <div className="space-y-1">
-                      {notifications.map((notification) => {
+                      {allNotifications.map((notification) => {
                         const IconComponent = getNotificationIcon(notification.type);
                         
                         return (
@@ -299,7 +363,7 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ className }) =>
 
                                     {notification.dismissible && (
                                       <Button
-                                        onClick={() => dismissNotification(notification.id)}
+                                        onClick={() => dismissNotification(notification)}
                                         variant="ghost"
                                         size="sm"
                                         className="h-6 w-6 p-0 text-tertiary hover:text-secondary"
@@ -1,6 +1,8 @@
 import React, { memo, useCallback } from 'react';
 import { HoneymoonPackage } from '../services/packageService';
 import { MapPin, Calendar, Star, Heart, Eye } from 'lucide-react';
+import PriceWatchButton from './PriceWatchButton';
+import { useCurrency } from '../hooks/useCurrency';
 
 interface PackageCardProps {
   package: HoneymoonPackage;
@@ -23,14 +25,11 @@ const PackageCard: React.FC<PackageCardProps> = memo(({
   currentIndex = 0,
   totalCount = 1
 }) => {
-  const formatPrice = useCallback((price: number, currency: string = 'USD'): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(price);
-  }, []);
+  const { displayPrice, formatMoney } = useCurrency();
+  const price = displayPrice(pkg.price, pkg.currency);
+  // Converted prices are approximate, the package is booked in its own currency
+  const priceText = `${price.converted ? '≈ ' : ''}${formatMoney(price.amount, price.currency)}`;
+  const convertedFrom = price.original ? `Converted from ${formatMoney(price.original.amount, price.original.currency)}` : undefined;
 
   const getCategoryColor = useCallback((category: string): string => {
     const colors: Record<string, string> = {
@@ -94,9 +93,20 @@ const PackageCard: React.FC<PackageCardProps> = memo(({
             <span className={`category-badge ${getCategoryColor(pkg.category)}`}>
               {getCategoryIcon(pkg.category)} {pkg.category}
             </span>
-            <button className="heart-btn">
-              <Heart className="w-4 h-4" />
-            </button>
+            <div className="flex items-center gap-1">
+              {pkg.id && (
+                <PriceWatchButton
+                  packageId={pkg.id}
+                  price={pkg.price}
+                  currency={pkg.currency}
+                  available={pkg.availability !== false}
+                  source="package_card"
+                />
+              )}
+              <button className="heart-btn">
+                <Heart className="w-4 h-4" />
+              </button>
+            </div>
           </div>
 
           <div className="card-body">
@@ -137,7 +147,8 @@ const PackageCard: React.FC<PackageCardProps> = memo(({
             
             <div className="price-section">
               <div className="price-label">From</div>
-              <div className="price-amount">{formatPrice(pkg.price)}</div>
+              <div className="price-amount" title={convertedFrom}>{priceText}</div>
+              {convertedFrom && <div className="price-label">{convertedFrom}</div>}
             </div>
           </div>
 
@@ -174,8 +185,8 @@ const PackageCard: React.FC<PackageCardProps> = memo(({
               <Star className="w-3 h-3 text-amber-500 fill-amber-500" />
               <span>{pkg.rating}</span>
             </div>
-            <div className="compact-price">
-              {formatPrice(pkg.price)}
+            <div className="compact-price" title={convertedFrom}>
+              {priceText}
             </div>
           </div>
         </div>
@@ -193,9 +204,20 @@ const PackageCard: React.FC<PackageCardProps> = memo(({
         <span className={`category-indicator ${getCategoryColor(pkg.category)}`}>
           {getCategoryIcon(pkg.category)}
         </span>
-        <button className="favorite-btn">
-          <Heart className="w-4 h-4" />
-        </button>
+        <div className="flex items-center gap-1">
+          {pkg.id && (
+            <PriceWatchButton
+              packageId={pkg.id}
+              price={pkg.price}
+              currency={pkg.currency}
+              available={pkg.availability !== false}
+              source="package_card"
+            />
+          )}
+          <button className="favorite-btn">
+            <Heart className="w-4 h-4" />
+          </button>
+        </div>
       </div>
       
       <div className="card-content">
@@ -236,7 +258,8 @@ const PackageCard: React.FC<PackageCardProps> = memo(({
           
           <div className="price-row">
             <div className="price-label">Starting from</div>
-            <div className="price-value">{formatPrice(pkg.price)}</div>
+            <div className="price-value" title={convertedFrom}>{priceText}</div>
+            {convertedFrom && <div className="price-label">{convertedFrom}</div>}
           </div>
         </div>
         
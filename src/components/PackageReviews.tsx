@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { Star, BadgeCheck, MessageSquare } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../contexts/AuthContext';
+import { reviewService } from '../services/reviewService';
+import type { Booking, Review } from '../types/firestore';
+
+interface PackageReviewsProps {
+  packageId: string;
+  isLight?: boolean;
+}
+
+const PackageReviews: React.FC<PackageReviewsProps> = ({ packageId, isLight = false }) => {
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [reviewableBookings, setReviewableBookings] = useState<Booking[]>([]);
+  const [rating, setRating] = useState(5);
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+
+  useEffect(() => {
+    reviewService.getPackageReviews(packageId).then(setReviews);
+  }, [packageId]);
+
+  useEffect(() => {
+    if (!user) return;
+    reviewService.getReviewableBookings(user.uid, packageId)
+      .then(setReviewableBookings)
+      .catch(error => console.error('Error checking reviewable bookings:', error));
+  }, [user, packageId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSubmitting(true);
+      await reviewService.submitReview({ bookingId: reviewableBookings[0].id, rating, title, content });
+      setReviewableBookings(prev => prev.slice(1));
+      setSubmitted(true);
+      toast.success('Thanks! Your review will appear once it has been approved.');
+    } catch (error: any) {
+      console.error('Error submitting review:', error);
+      toast.error(error?.message || 'Failed to submit review');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const heading = isLight ? 'text-gray-900' : 'text-white';
+  const body = isLight ? 'text-gray-700' : 'text-white/80';
+  const muted = isLight ? 'text-gray-500' : 'text-white/60';
+  const field = `w-full rounded-lg px-3 py-2 text-sm border ${isLight ? 'bg-white border-gray-300 text-gray-900' : 'bg-white/5 border-white/10 text-white'}`;
+
+  return (
+    <div className="glassmorphism-card p-6">
+      <h2 className={`text-2xl font-semibold mb-6 flex items-center gap-2 ${heading}`}>
+        <MessageSquare className="w-5 h-5" />
+        Guest Reviews
+      </h2>
+
+      {reviewableBookings.length > 0 && !submitted && (
+        <form onSubmit={handleSubmit} className="space-y-3 mb-6">
+          <p className={`text-sm ${muted}`}>How was your trip? Share it with other couples.</p>
+          <div className="flex items-center gap-1">
+            {[1, 2, 3, 4, 5].map(value => (
+              <button key={value} type="button" onClick={() => setRating(value)} aria-label={`${value} stars`}>
+                <Star className={`w-6 h-6 ${value <= rating ? 'text-yellow-400 fill-current' : muted}`} />
+              </button>
+            ))}
+          </div>
+          <input
+            className={field}
+            placeholder="Title"
+            value={title}
+            maxLength={120}
+            onChange={(e) => setTitle(e.target.value)}
+            required
+          />
+          <textarea
+            className={field}
+            placeholder="Tell us about your honeymoon (at least 20 characters)"
+            value={content}
+            rows={4}
+            minLength={20}
+            maxLength={2000}
+            onChange={(e) => setContent(e.target.value)}
+            required
+          />
+          <button type="submit" className="premium-package-btn" disabled={submitting}>
+            <Star className="w-4 h-4" />
+            {submitting ? 'Submitting...' : 'Submit Review'}
+          </button>
+        </form>
+      )}
+
+      {reviews.length === 0 ? (
+        <p className={`text-sm ${muted}`}>No reviews yet.</p>
+      ) : (
+        <div className="space-y-5">
+          {reviews.map(review => (
+            <div key={review.id} className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <span className={`font-semibold ${heading}`}>{review.title}</span>
+                  {review.verified && (
+                    <span className="flex items-center gap-1 text-xs text-green-400">
+                      <BadgeCheck className="w-3 h-3" />
+                      Verified stay
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-0.5">
+                  {[1, 2, 3, 4, 5].map(value => (
+                    <Star key={value} className={`w-4 h-4 ${value <= review.rating ? 'text-yellow-400 fill-current' : muted}`} />
+                  ))}
+                </div>
+              </div>
+              <p className={`text-sm leading-relaxed ${body}`}>{review.content}</p>
+              <div className={`text-xs ${muted}`}>
+                {review.authorName || 'Guest'} · {review.createdAt.toDate().toLocaleDateString()}
+              </div>
+              {review.response && (
+                <div className={`ml-4 pl-3 border-l-2 border-yellow-400/50 text-sm ${body}`}>
+                  <span className={`font-semibold ${heading}`}>AI LOVVE: </span>
+                  {review.response.content}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PackageReviews;
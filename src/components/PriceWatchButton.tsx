@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { BellRing, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Input } from './ui/input';
+import { Switch } from './ui/switch';
+import { Button } from './ui/button';
+import { useAuth } from '../contexts/AuthContext';
+import { watchlistService } from '../services/watchlistService';
+
+interface PriceWatchButtonProps {
+  packageId: string;
+  price: number;
+  currency?: string;
+  available: boolean;
+  source: 'package_card' | 'package_detail';
+  variant?: 'icon' | 'button';
+  className?: string;
+}
+
+// Suggested target: 10% under the current price
+const DEFAULT_TARGET_RATE = 0.9;
+
+const PriceWatchButton: React.FC<PriceWatchButtonProps> = ({
+  packageId,
+  price,
+  currency = 'USD',
+  available,
+  source,
+  variant = 'icon',
+  className = ''
+}) => {
+  const { user } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [targetPrice, setTargetPrice] = useState(String(Math.floor(price * DEFAULT_TARGET_RATE)));
+  const [notifyByEmail, setNotifyByEmail] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open && !user) {
+      toast.error('Sign in to get price and availability alerts');
+      return;
+    }
+    setIsOpen(open);
+  };
+
+  const handleSave = async () => {
+    const target = Number(targetPrice);
+    if (available && !(target > 0)) {
+      toast.error('Enter a target price');
+      return;
+    }
+    try {
+      setIsSaving(true);
+      await watchlistService.createWatch({
+        packageId,
+        condition: available ? 'price_below' : 'available',
+        ...(available ? { targetPrice: target } : {}),
+        notifyByEmail,
+        source
+      });
+      toast.success(available ? "We'll let you know when the price drops" : "We'll let you know when it's available");
+      setIsOpen(false);
+    } catch (error: any) {
+      console.error('❌ Error saving watch:', error);
+      toast.error(error?.message || 'Could not save your alert');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    // Cards select the package on click, keep the popover out of that
+    <div onClick={(e) => e.stopPropagation()} className={className}>
+      <Popover open={isOpen} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          {variant === 'icon' ? (
+            <button className="heart-btn" aria-label="Watch price">
+              <BellRing className="w-4 h-4" />
+            </button>
+          ) : (
+            <button className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white/70 hover:text-white text-sm transition-colors">
+              <BellRing className="w-4 h-4" />
+              {available ? 'Watch price' : 'Notify me when available'}
+            </button>
+          )}
+        </PopoverTrigger>
+        <PopoverContent className="space-y-3">
+          {available ? (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Notify me when the price drops to</div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  value={targetPrice}
+                  onChange={(e) => setTargetPrice(e.target.value)}
+                />
+                <span className="text-sm text-muted-foreground">{currency}</span>
+              </div>
+            </div>
+          ) : (
+            <div className="text-sm">This package is fully booked. We'll tell you as soon as it opens up again.</div>
+          )}
+          <label className="flex items-center justify-between text-sm">
+            Also send me an email
+            <Switch checked={notifyByEmail} onCheckedChange={setNotifyByEmail} />
+          </label>
+          <Button className="w-full" disabled={isSaving} onClick={handleSave}>
+            {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save alert
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default PriceWatchButton;
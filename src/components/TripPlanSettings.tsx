@@ -0,0 +1,243 @@
+import React, { useState, useEffect, lazy, Suspense } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Loader2, Map as MapIcon, MessageCircle, Pencil, Plus, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useCouple } from '../hooks/useCouple';
+import { tripPlanService, type TripPlan } from '../services/tripPlanService';
+import { coupleService, type SavedPackage } from '../services/coupleService';
+import { bookingService } from '../services/bookingService';
+import type { Booking } from '../types/firestore';
+import { formatMoney } from '../utils/currency';
+import { formatPlanDates, PLAN_BUDGET_CURRENCY } from '../utils/trip-plan';
+
+const HoneymoonPlannerWizard = lazy(() => import('./HoneymoonPlannerWizard'));
+
+interface TripPlanSettingsProps {
+  className?: string;
+}
+
+const describeBooking = (booking: Booking) =>
+  `${booking.bookingDetails?.startDate?.toDate().toLocaleDateString() ?? 'No date'} · ${booking.status}`;
+
+const TripPlanSettings: React.FC<TripPlanSettingsProps> = ({ className = '' }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { space, isLinked } = useCouple();
+  const [plans, setPlans] = useState<TripPlan[]>([]);
+  const [savedPackages, setSavedPackages] = useState<SavedPackage[]>([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // The plan open in the wizard: 'new' for a new plan
+  const [editing, setEditing] = useState<TripPlan | 'new' | null>(null);
+  const [working, setWorking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!space) return;
+    setIsLoading(true);
+    const unsubscribePlans = tripPlanService.subscribeToPlans(space, (list) => {
+      setPlans(list);
+      setIsLoading(false);
+    });
+    const unsubscribePackages = coupleService.subscribeToSavedPackages(space, setSavedPackages);
+    return () => {
+      unsubscribePlans();
+      unsubscribePackages();
+    };
+  }, [space]);
+
+  useEffect(() => {
+    if (!user?.uid) return;
+    bookingService.getUserBookings(user.uid).then(list => setBookings(list.filter(b => b.status !== 'cancelled')));
+  }, [user?.uid]);
+
+  const handleAttachPackage = async (plan: TripPlan, packageId: string) => {
+    if (!space) return;
+    const saved = savedPackages.find(p => p.packageId === packageId);
+    try {
+      setWorking(plan.id);
+      await tripPlanService.attach(space, plan.id, packageId
+        ? { packageId, packageTitle: saved?.title ?? null }
+        : { packageId: null, packageTitle: null });
+      setError(null);
+    } catch (error) {
+      console.error('❌ Error attaching package to plan:', error);
+      setError('Could not update the plan, please try again');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleAttachBooking = async (plan: TripPlan, bookingId: string) => {
+    if (!space) return;
+    try {
+      setWorking(plan.id);
+      await tripPlanService.attach(space, plan.id, { bookingId: bookingId || null });
+      setError(null);
+    } catch (error) {
+      console.error('❌ Error attaching booking to plan:', error);
+      setError('Could not update the plan, please try again');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleDelete = async (plan: TripPlan) => {
+    if (!space || !window.confirm(`Delete "${plan.title}"?`)) return;
+    try {
+      setWorking(plan.id);
+      await tripPlanService.deletePlan(space, plan.id);
+      setError(null);
+    } catch (error) {
+      console.error('❌ Error deleting plan:', error);
+      setError('Could not delete the plan, please try again');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  return (
+    <div className={`trip-plan-settings ${className}`}>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <MapIcon className="w-6 h-6 text-blue-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Trip Plans
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {isLinked ? 'Plans you and your partner built with the planner' : 'Plans you built with the planner'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => setEditing('new')}
+            className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg flex items-center gap-1 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            New plan
+          </button>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded">
+            <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading plans...
+          </div>
+        ) : plans.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            No plans yet. Plans you create with the honeymoon planner are saved here so you can reopen and edit them.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {plans.map((plan) => (
+              <div
+                key={plan.id}
+                className="p-3 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg space-y-3"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <div className="font-medium text-gray-900 dark:text-white">{plan.title}</div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">
+                      {formatPlanDates(plan.details) ?? 'Flexible dates'}
+                      {' · '}
+                      {formatMoney(plan.details.budget.min, PLAN_BUDGET_CURRENCY)} - {formatMoney(plan.details.budget.max, PLAN_BUDGET_CURRENCY)}
+                      {' · '}
+                      {plan.details.travelers} travellers
+                    </div>
+                    {plan.packageId && (
+                      <button
+                        onClick={() => navigate(`/package/${plan.packageId}`)}
+                        className="text-sm text-blue-500 hover:underline"
+                      >
+                        {plan.packageTitle || 'Attached package'}
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => navigate(`/?plan=${plan.id}`)}
+                      aria-label="Discuss in chat"
+                      title="Discuss in chat"
+                      className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
+                    >
+                      <MessageCircle className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setEditing(plan)}
+                      aria-label="Edit plan"
+                      title="Edit plan"
+                      className="p-2 text-gray-400 hover:text-blue-500 transition-colors"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(plan)}
+                      disabled={working !== null}
+                      aria-label="Delete plan"
+                      title="Delete plan"
+                      className="p-2 text-gray-400 hover:text-red-500 disabled:opacity-50 transition-colors"
+                    >
+                      {working === plan.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="grid sm:grid-cols-2 gap-2">
+                  <select
+                    value={plan.packageId ?? ''}
+                    onChange={(e) => handleAttachPackage(plan, e.target.value)}
+                    disabled={working !== null}
+                    className="px-3 py-2 text-sm rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white"
+                  >
+                    <option value="">No package attached</option>
+                    {plan.packageId && !savedPackages.some(p => p.packageId === plan.packageId) && (
+                      <option value={plan.packageId}>{plan.packageTitle || plan.packageId}</option>
+                    )}
+                    {savedPackages.map(saved => (
+                      <option key={saved.packageId} value={saved.packageId}>{saved.title}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={plan.bookingId ?? ''}
+                    onChange={(e) => handleAttachBooking(plan, e.target.value)}
+                    disabled={working !== null}
+                    className="px-3 py-2 text-sm rounded-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white"
+                  >
+                    <option value="">No booking attached</option>
+                    {plan.bookingId && !bookings.some(b => b.id === plan.bookingId) && (
+                      <option value={plan.bookingId}>Booking {plan.bookingId.slice(0, 8)}</option>
+                    )}
+                    {bookings.map(booking => (
+                      <option key={booking.id} value={booking.id}>{describeBooking(booking)}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <Suspense fallback={null}>
+          <HoneymoonPlannerWizard
+            initialPlan={editing === 'new' ? undefined : editing}
+            onComplete={() => setEditing(null)}
+            onClose={() => setEditing(null)}
+          />
+        </Suspense>
+      )}
+    </div>
+  );
+};
+
+export default TripPlanSettings;
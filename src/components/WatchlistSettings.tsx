@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BellRing, Loader2, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { watchlistService, type PackageWatch } from '../services/watchlistService';
+
+interface WatchlistSettingsProps {
+  className?: string;
+}
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+
+const describeWatch = (watch: PackageWatch): string => {
+  const subject = watch.packageTitle || watch.destination || watch.packageId || '';
+  if (watch.condition === 'available') return `${subject} becomes available`;
+  return `${subject} at or under ${formatAmount(watch.targetPrice ?? 0, watch.currency)}`;
+};
+
+const WatchlistSettings: React.FC<WatchlistSettingsProps> = ({ className = '' }) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [watches, setWatches] = useState<PackageWatch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [cancelling, setCancelling] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user?.uid) return;
+    return watchlistService.subscribeToWatches(user.uid, (list) => {
+      setWatches(list.filter(w => w.status !== 'cancelled'));
+      setIsLoading(false);
+    });
+  }, [user?.uid]);
+
+  const handleCancel = async (watch: PackageWatch) => {
+    try {
+      setCancelling(watch.id);
+      await watchlistService.cancelWatch(watch.id);
+      setError(null);
+    } catch (error) {
+      console.error('❌ Error cancelling watch:', error);
+      setError('Could not remove the alert, please try again');
+    } finally {
+      setCancelling(null);
+    }
+  };
+
+  return (
+    <div className={`watchlist-settings ${className}`}>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-3">
+          <BellRing className="w-6 h-6 text-blue-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Price & Availability Alerts
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Packages and destinations you are watching, from package pages or the chat
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded">
+            <p className="text-sm text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading alerts...
+          </div>
+        ) : watches.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            No alerts yet. Use the bell on a package, or ask the assistant to tell you when a trip gets cheaper.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {watches.map((watch) => {
+              const targetPackageId = watch.matchedPackageId || watch.packageId;
+
+              return (
+                <div
+                  key={watch.id}
+                  className="p-3 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg flex items-center justify-between gap-3"
+                >
+                  <button
+                    onClick={() => targetPackageId && navigate(`/package/${targetPackageId}`)}
+                    className="text-left"
+                  >
+                    <div className="font-medium text-gray-900 dark:text-white">
+                      {describeWatch(watch)}
+                    </div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400">
+                      {watch.status === 'triggered'
+                        ? `Met on ${watch.triggeredAt?.toLocaleDateString()}${watch.matchedPrice !== undefined ? ` at ${formatAmount(watch.matchedPrice, watch.currency)}` : ''}`
+                        : watch.lastPrice !== undefined
+                          ? `Now ${formatAmount(watch.lastPrice, watch.currency)}`
+                          : 'Watching'}
+                      {watch.notifyByEmail ? ' · in app and email' : ' · in app'}
+                    </div>
+                  </button>
+
+                  {watch.status === 'active' && (
+                    <button
+                      onClick={() => handleCancel(watch)}
+                      disabled={cancelling !== null}
+                      aria-label="Remove alert"
+                      className="p-2 text-gray-400 hover:text-red-500 disabled:opacity-50 transition-colors"
+                    >
+                      {cancelling === watch.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <X className="w-4 h-4" />}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WatchlistSettings;
@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { Zap, Plus, Save, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Switch } from '../ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { toast } from 'sonner';
+import {
+  advancedMarketingAutomation,
+  AutomationRule,
+  AutomationTrigger,
+  MarketingCampaign
+} from '../../services/advancedMarketingAutomation';
+
+const TRIGGER_TYPES: AutomationTrigger['type'][] = ['user_action', 'time_based', 'data_change', 'prediction_change', 'external_event'];
+
+interface Draft {
+  name: string;
+  description: string;
+  triggerType: AutomationTrigger['type'];
+  eventName: string;
+  campaignId: string;
+  delay: string; // minutes
+  cooldownPeriod: string; // hours
+}
+
+const emptyDraft = (): Draft => ({
+  name: '',
+  description: '',
+  triggerType: 'user_action',
+  eventName: '',
+  campaignId: '',
+  delay: '',
+  cooldownPeriod: '24'
+});
+
+interface AutomationRuleManagerProps {
+  campaigns: MarketingCampaign[];
+}
+
+const AutomationRuleManager: React.FC<AutomationRuleManagerProps> = ({ campaigns }) => {
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const loadRules = async () => {
+    try {
+      setLoading(true);
+      setRules(await advancedMarketingAutomation.listAutomationRules());
+    } catch (error: any) {
+      console.error('Error loading automation rules:', error);
+      toast.error(error?.message || 'Failed to load automation rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const toggleRule = async (rule: AutomationRule, enabled: boolean) => {
+    try {
+      setBusy(rule.id);
+      await advancedMarketingAutomation.setAutomationRuleEnabled(rule.id, enabled);
+      setRules(prev => prev.map(r => r.id === rule.id ? { ...r, enabled } : r));
+    } catch (error: any) {
+      console.error('Error updating automation rule:', error);
+      toast.error(error?.message || 'Failed to update automation rule');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const createRule = async () => {
+    if (!draft) return;
+    if (!draft.name.trim() || !draft.eventName.trim() || !draft.campaignId) {
+      toast.error('Name, event and campaign are required');
+      return;
+    }
+    try {
+      setBusy('create');
+      await advancedMarketingAutomation.createAutomationRule({
+        name: draft.name.trim(),
+        description: draft.description.trim(),
+        enabled: true,
+        trigger: { type: draft.triggerType, eventName: draft.eventName.trim() },
+        conditions: [],
+        actions: [{
+          type: 'send_campaign',
+          parameters: { campaignId: draft.campaignId },
+          delay: draft.delay ? Number(draft.delay) : undefined
+        }],
+        cooldownPeriod: draft.cooldownPeriod ? Number(draft.cooldownPeriod) : undefined,
+        analytics: { triggered: 0, executed: 0, succeeded: 0, failed: 0, lastExecution: new Date(), avgExecutionTime: 0 }
+      });
+      toast.success('Automation rule created');
+      setDraft(null);
+      await loadRules();
+    } catch (error: any) {
+      console.error('Error creating automation rule:', error);
+      toast.error(error?.message || 'Failed to create automation rule');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const campaignName = (campaignId: string) => campaigns.find(c => c.id === campaignId)?.name || campaignId;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-primary">
+          <Zap className="w-5 h-5 text-[#d4af37]" />
+          Automation Rules ({rules.length})
+        </h3>
+        <Button className="rounded-xl" onClick={() => setDraft(draft ? null : emptyDraft())}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Rule
+        </Button>
+      </div>
+
+      {draft && (
+        <div className="p-4 glass-card rounded-xl border border-white/10 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <Input placeholder="Name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            <Input placeholder="Description" value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+            <Select value={draft.triggerType} onValueChange={(value) => setDraft({ ...draft, triggerType: value as AutomationTrigger['type'] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRIGGER_TYPES.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Input placeholder="Event name (e.g. user_registered)" value={draft.eventName} onChange={(e) => setDraft({ ...draft, eventName: e.target.value })} />
+            <Select value={draft.campaignId} onValueChange={(value) => setDraft({ ...draft, campaignId: value })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Campaign to send" />
+              </SelectTrigger>
+              <SelectContent>
+                {campaigns.map(campaign => <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <div className="grid grid-cols-2 gap-3">
+              <Input type="number" min={0} placeholder="Delay (min)" value={draft.delay} onChange={(e) => setDraft({ ...draft, delay: e.target.value })} />
+              <Input type="number" min={0} placeholder="Cooldown (h)" value={draft.cooldownPeriod} onChange={(e) => setDraft({ ...draft, cooldownPeriod: e.target.value })} />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" className="rounded-xl" onClick={() => setDraft(null)}>
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+            <Button className="rounded-xl" disabled={busy === 'create'} onClick={createRule}>
+              <Save className="w-4 h-4 mr-2" />
+              Create Rule
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="p-6 text-secondary">Loading automation rules...</div>
+      ) : rules.length === 0 ? (
+        <div className="p-6 text-secondary">No automation rules yet.</div>
+      ) : (
+        rules.map(rule => (
+          <div key={rule.id} className="p-4 glass-card rounded-xl border border-white/10 flex items-center justify-between gap-4">
+            <div>
+              <div className="font-semibold text-primary">{rule.name}</div>
+              <div className="text-xs text-secondary">
+                {rule.trigger.type}: {rule.trigger.eventName}
+                {rule.actions.map((action, index) => (
+                  <span key={index}> → {action.type === 'send_campaign' ? campaignName(action.parameters.campaignId) : action.type}</span>
+                ))}
+                {' · '}executed {rule.analytics.executed}, failed {rule.analytics.failed}
+              </div>
+              {rule.description && <div className="text-sm text-secondary mt-1">{rule.description}</div>}
+            </div>
+            <Switch checked={rule.enabled} disabled={busy === rule.id} onCheckedChange={(checked) => toggleRule(rule, checked)} />
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default AutomationRuleManager;
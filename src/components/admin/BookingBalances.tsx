@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { CreditCard, RefreshCw, AlertTriangle } from 'lucide-react';
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { toast } from 'sonner';
+import { db } from '../../firebase';
+import { Booking, COLLECTIONS } from '../../types/firestore';
+
+const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat('tr-TR', { style: 'currency', currency }).format(amount);
+
+const BookingBalances: React.FC = () => {
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadBookings = async () => {
+    try {
+      setLoading(true);
+      // Open schedules only; completed and cancelled ones have nothing outstanding
+      const snapshot = await getDocs(query(
+        collection(db, COLLECTIONS.BOOKINGS),
+        where('paymentSchedule.status', 'in', ['active', 'overdue'])
+      ));
+      const open = snapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() }) as Booking)
+        .sort((a, b) =>
+          (a.paymentSchedule?.nextDueDate?.toMillis() ?? Infinity) - (b.paymentSchedule?.nextDueDate?.toMillis() ?? Infinity));
+      setBookings(open);
+    } catch (error: any) {
+      console.error('Error loading booking balances:', error);
+      toast.error(error?.message || 'Failed to load booking balances');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBookings();
+  }, []);
+
+  const totalsByCurrency = bookings.reduce<Record<string, number>>((totals, booking) => {
+    const schedule = booking.paymentSchedule;
+    if (schedule) {
+      totals[schedule.currency] = (totals[schedule.currency] || 0) + schedule.outstandingBalance;
+    }
+    return totals;
+  }, {});
+  const overdueCount = bookings.filter(b => b.paymentSchedule?.status === 'overdue').length;
+
+  if (loading) {
+    return <div className="p-6 text-secondary">Loading booking balances...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-primary">
+          <CreditCard className="w-5 h-5 text-[#d4af37]" />
+          Outstanding Balances
+        </h3>
+        <Button variant="outline" className="rounded-xl" onClick={loadBookings}>
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="p-4 glass-card rounded-xl border border-white/10">
+          <div className="text-sm text-secondary">Open schedules</div>
+          <div className="text-2xl font-bold text-primary">{bookings.length}</div>
+        </div>
+        <div className="p-4 glass-card rounded-xl border border-white/10">
+          <div className="text-sm text-secondary">Outstanding</div>
+          <div className="text-2xl font-bold text-primary">
+            {Object.entries(totalsByCurrency).map(([currency, amount]) => formatMoney(amount, currency)).join(' · ') || '—'}
+          </div>
+        </div>
+        <div className="p-4 glass-card rounded-xl border border-white/10">
+          <div className="text-sm text-secondary">Overdue</div>
+          <div className={`text-2xl font-bold ${overdueCount > 0 ? 'text-red-400' : 'text-primary'}`}>{overdueCount}</div>
+        </div>
+      </div>
+
+      {bookings.length === 0 ? (
+        <div className="p-6 text-secondary">No bookings with an outstanding balance.</div>
+      ) : (
+        <div className="glass-card rounded-xl border border-white/10 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-secondary border-b border-white/10">
+                <th className="p-3">Booking</th>
+                <th className="p-3">Customer</th>
+                <th className="p-3">Plan</th>
+                <th className="p-3">Paid</th>
+                <th className="p-3">Outstanding</th>
+                <th className="p-3">Next due</th>
+                <th className="p-3">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {bookings.map(booking => {
+                const schedule = booking.paymentSchedule!;
+                const paidCount = schedule.installments.filter(i => i.status === 'paid').length;
+                return (
+                  <tr key={booking.id} className="border-b border-white/5 text-primary">
+                    <td className="p-3">
+                      <div className="font-mono text-xs">{booking.id}</div>
+                      <div className="text-xs text-secondary">{booking.bookingDetails.startDate.toDate().toLocaleDateString('tr-TR')}</div>
+                    </td>
+                    <td className="p-3">
+                      <div>{booking.customer.firstName} {booking.customer.lastName}</div>
+                      <div className="text-xs text-secondary">{booking.customer.email}</div>
+                    </td>
+                    <td className="p-3">
+                      <div className="capitalize">{schedule.plan}</div>
+                      <div className="text-xs text-secondary">{paidCount}/{schedule.installments.length} paid</div>
+                    </td>
+                    <td className="p-3">{formatMoney(schedule.amountPaid, schedule.currency)}</td>
+                    <td className="p-3 font-semibold">{formatMoney(schedule.outstandingBalance, schedule.currency)}</td>
+                    <td className="p-3">{schedule.nextDueDate ? schedule.nextDueDate.toDate().toLocaleDateString('tr-TR') : '—'}</td>
+                    <td className="p-3">
+                      {schedule.status === 'overdue' ? (
+                        <Badge variant="destructive" className="gap-1">
+                          <AlertTriangle className="w-3 h-3" />
+                          Overdue
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary" className="capitalize">{booking.status}</Badge>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BookingBalances;
@@ -0,0 +1,76 @@
+import React from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { CampaignAnalytics } from '../../services/advancedMarketingAutomation';
+
+interface CampaignAnalyticsChartProps {
+  analytics: CampaignAnalytics;
+  variantNames: Record<string, string>;
+}
+
+// Loaded lazily from CampaignManager so recharts stays out of the admin bundle until needed
+const CampaignAnalyticsChart: React.FC<CampaignAnalyticsChartProps> = ({ analytics, variantNames }) => {
+  const daily = new Map<string, { day: string; sent: number; bounced: number }>();
+  analytics.timeSeriesData.forEach(point => {
+    const day = point.timestamp.toLocaleDateString('tr-TR', { day: '2-digit', month: '2-digit' });
+    const row = daily.get(day) || { day, sent: 0, bounced: 0 };
+    if (point.metric === 'sent' || point.metric === 'bounced') {
+      row[point.metric] += point.value;
+    }
+    daily.set(day, row);
+  });
+
+  const variants = Object.entries(analytics.variantPerformance || {}).map(([variantId, stats]) => ({
+    name: variantNames[variantId] || variantId,
+    ...stats
+  }));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <div className="h-56">
+        <div className="text-xs text-secondary mb-1">Daily delivery</div>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={Array.from(daily.values())}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="day" />
+            <YAxis allowDecimals={false} />
+            <Tooltip />
+            <Legend />
+            <Line type="monotone" dataKey="sent" stroke="#d4af37" />
+            <Line type="monotone" dataKey="bounced" stroke="#f87171" />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {variants.length > 0 && (
+        <div className="h-56">
+          <div className="text-xs text-secondary mb-1">A/B variants</div>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={variants}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="name" />
+              <YAxis allowDecimals={false} />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="queued" fill="#94a3b8" />
+              <Bar dataKey="sent" fill="#d4af37" />
+              <Bar dataKey="bounced" fill="#f87171" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CampaignAnalyticsChart;
@@ -0,0 +1,585 @@
+import React, { useState } from 'react';
+import { Users, Eye, Plus, Trash2, Save, Send, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { toast } from 'sonner';
+import { auth } from '../../firebase';
+import {
+  advancedMarketingAutomation,
+  ABTestVariant,
+  AudiencePreview,
+  MarketingCampaign,
+  MessageTemplate,
+  TemplateVariable,
+  UserFilter
+} from '../../services/advancedMarketingAutomation';
+import { userSegmentationService } from '../../services/userSegmentationService';
+
+type CampaignType = MarketingCampaign['type'];
+type Language = 'tr' | 'en';
+
+const CAMPAIGN_TYPES: { value: CampaignType; label: string }[] = [
+  { value: 'email', label: '📧 Email' },
+  { value: 'push', label: '🔔 Push' },
+  { value: 'in_app', label: '💬 In-app' },
+  { value: 'sms', label: '📱 SMS' },
+  { value: 'whatsapp', label: '🟢 WhatsApp' },
+  { value: 'retargeting', label: '🎯 Retargeting (no delivery)' }
+];
+
+// Profile fields offered for custom filters and template variables (dot paths into DetailedUserProfile)
+const PROFILE_FIELDS = [
+  'displayName',
+  'demographics.location.city',
+  'demographics.location.country',
+  'demographics.relationshipStatus',
+  'demographics.income',
+  'analytics.engagementScore',
+  'analytics.userSegment',
+  'personality.luxury',
+  'personality.romantic',
+  'personality.adventurous',
+  'travelPreferences.budgetRange.max',
+  'travelPreferences.travelFrequency'
+];
+const FILTER_OPERATORS = ['equals', 'not_equals', 'greater_than', 'less_than', 'contains', 'exists'];
+const VARIABLE_TYPES: TemplateVariable['type'][] = ['text', 'number', 'date', 'currency', 'url'];
+const BASE_TEMPLATE = 'base';
+
+interface TemplateDraft {
+  subject: string;
+  title: string;
+  body: string;
+  html: string;
+}
+
+interface Draft {
+  name: string;
+  type: CampaignType;
+  segments: string[];
+  excludeSegments: string[];
+  customFilters: UserFilter[];
+  maxAudience: string;
+  templates: Record<Language, TemplateDraft>;
+  variables: TemplateVariable[];
+  ctaText: string;
+  ctaUrl: string;
+  startDate: string; // datetime-local value
+  endDate: string;
+  variants: ABTestVariant[];
+}
+
+const emptyTemplate = (): TemplateDraft => ({ subject: '', title: '', body: '', html: '' });
+
+const toLocalInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const emptyDraft = (): Draft => ({
+  name: '',
+  type: 'email',
+  segments: [],
+  excludeSegments: [],
+  customFilters: [],
+  maxAudience: '',
+  templates: { tr: emptyTemplate(), en: emptyTemplate() },
+  variables: [{ name: 'name', type: 'text', source: 'user_profile', sourceField: 'displayName', defaultValue: 'Sevgili çift' }],
+  ctaText: '',
+  ctaUrl: '',
+  startDate: toLocalInput(new Date()),
+  endDate: '',
+  variants: []
+});
+
+interface CampaignBuilderProps {
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+const CampaignBuilder: React.FC<CampaignBuilderProps> = ({ onSaved, onCancel }) => {
+  const segments = userSegmentationService.getAllSegmentDefinitions();
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [language, setLanguage] = useState<Language>('tr');
+  const [audience, setAudience] = useState<AudiencePreview | null>(null);
+  const [previewUserId, setPreviewUserId] = useState('');
+  const [previewSource, setPreviewSource] = useState(BASE_TEMPLATE);
+  const [preview, setPreview] = useState<MessageTemplate | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const update = (changes: Partial<Draft>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const toggleSegment = (key: 'segments' | 'excludeSegments', segmentId: string) => {
+    const current = draft[key];
+    update({ [key]: current.includes(segmentId) ? current.filter(id => id !== segmentId) : [...current, segmentId] });
+    setAudience(null);
+  };
+
+  const updateTemplate = (changes: Partial<TemplateDraft>) => {
+    update({ templates: { ...draft.templates, [language]: { ...draft.templates[language], ...changes } } });
+  };
+
+  const updateFilter = (index: number, changes: Partial<UserFilter>) => {
+    update({ customFilters: draft.customFilters.map((filter, i) => i === index ? { ...filter, ...changes } : filter) });
+    setAudience(null);
+  };
+
+  const updateVariable = (index: number, changes: Partial<TemplateVariable>) => {
+    update({ variables: draft.variables.map((variable, i) => i === index ? { ...variable, ...changes } : variable) });
+  };
+
+  const updateVariant = (index: number, changes: Partial<ABTestVariant>) => {
+    update({ variants: draft.variants.map((variant, i) => i === index ? { ...variant, ...changes } : variant) });
+  };
+
+  const updateVariantTemplate = (index: number, changes: Partial<MessageTemplate>) => {
+    updateVariant(index, { template: { ...draft.variants[index].template, ...changes } });
+  };
+
+  const buildTarget = (): MarketingCampaign['target'] => ({
+    segments: draft.segments,
+    excludeSegments: draft.excludeSegments.length ? draft.excludeSegments : undefined,
+    customFilters: draft.customFilters.length ? draft.customFilters : undefined,
+    maxAudience: draft.maxAudience ? Number(draft.maxAudience) : undefined
+  });
+
+  const buildCta = () => draft.ctaText && draft.ctaUrl
+    ? [{ text: draft.ctaText, url: draft.ctaUrl, style: 'primary' as const, tracking: true }]
+    : [];
+
+  const buildTemplate = (template: TemplateDraft): MessageTemplate => ({
+    subject: template.subject || undefined,
+    title: template.title || undefined,
+    body: template.body,
+    html: template.html || undefined,
+    variables: draft.variables.filter(variable => variable.name.trim()),
+    cta: buildCta()
+  });
+
+  const loadAudience = async () => {
+    try {
+      setBusy('audience');
+      const result = await advancedMarketingAutomation.previewAudience(buildTarget());
+      setAudience(result);
+      setPreviewUserId(result.sample[0]?.userId || '');
+    } catch (error: any) {
+      console.error('Error building audience:', error);
+      toast.error(error?.message || 'Failed to build the audience');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const loadPreview = async () => {
+    if (!previewUserId) {
+      toast.error('Preview the audience first to pick a sample user');
+      return;
+    }
+    const variant = draft.variants.find(v => v.id === previewSource);
+    const template = variant
+      ? { ...variant.template, variables: buildTemplate(draft.templates[language]).variables, cta: buildCta() }
+      : buildTemplate(draft.templates[language]);
+    try {
+      setBusy('preview');
+      setPreview(await advancedMarketingAutomation.previewTemplate(template, previewUserId));
+    } catch (error: any) {
+      console.error('Error previewing template:', error);
+      toast.error(error?.message || 'Failed to render the preview');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const addVariant = () => {
+    const index = draft.variants.length;
+    const base = draft.templates.tr;
+    update({
+      variants: [...draft.variants, {
+        id: `variant_${String.fromCharCode(97 + index)}`,
+        name: `Variant ${String.fromCharCode(65 + index)}`,
+        weight: 0,
+        hypothesis: '',
+        template: { subject: base.subject, title: base.title, body: base.body, variables: [] }
+      }]
+    });
+  };
+
+  const save = async (launch: boolean) => {
+    if (!draft.name.trim()) {
+      toast.error('Campaign name is required');
+      return;
+    }
+    if (!draft.templates.tr.body.trim()) {
+      toast.error('The Turkish template needs a message body');
+      return;
+    }
+
+    const templates: MarketingCampaign['content']['templates'] = { tr: buildTemplate(draft.templates.tr) };
+    if (draft.templates.en.body.trim()) {
+      templates.en = buildTemplate(draft.templates.en);
+    }
+    const variables = templates.tr.variables;
+
+    try {
+      setBusy(launch ? 'launch' : 'save');
+      const campaignId = await advancedMarketingAutomation.createCampaign({
+        name: draft.name.trim(),
+        type: draft.type,
+        status: launch ? 'scheduled' : 'draft',
+        target: buildTarget(),
+        trigger: {
+          type: 'scheduled',
+          conditions: [],
+          frequency: 'once'
+        },
+        content: {
+          templates,
+          dynamicContent: [],
+          landingPageUrl: draft.ctaUrl || undefined,
+          utmParameters: { source: draft.type, medium: 'campaign', campaign: draft.name.trim() }
+        },
+        schedule: {
+          startDate: new Date(draft.startDate),
+          endDate: draft.endDate ? new Date(draft.endDate) : undefined,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          respectUserTimezone: true,
+          respectDoNotDisturb: true
+        },
+        personalization: {
+          enabled: true,
+          personalizeSubject: true,
+          personalizeContent: true,
+          personalizeImages: false,
+          personalizeCTA: true,
+          useAIOptimization: false,
+          abTestVariants: draft.variants.length
+            ? draft.variants.map(variant => ({ ...variant, template: { ...variant.template, variables, cta: buildCta() } }))
+            : undefined
+        },
+        createdBy: auth.currentUser?.uid || 'admin'
+      });
+
+      if (launch) {
+        await advancedMarketingAutomation.launchCampaign(campaignId);
+        toast.success('Campaign launched, messages are queued for delivery');
+      } else {
+        toast.success('Campaign saved as draft');
+      }
+      onSaved();
+    } catch (error: any) {
+      console.error('Error saving campaign:', error);
+      toast.error(error?.message || 'Failed to save the campaign');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const template = draft.templates[language];
+  const totalWeight = draft.variants.reduce((sum, variant) => sum + variant.weight, 0);
+
+  return (
+    <div className="p-4 glass-card rounded-xl border border-white/10 space-y-5">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-primary">New Campaign</h4>
+        <Button variant="outline" className="rounded-xl" onClick={onCancel}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <Input placeholder="Campaign name" value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+        <Select value={draft.type} onValueChange={(value) => update({ type: value as CampaignType })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CAMPAIGN_TYPES.map(type => (
+              <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Audience */}
+      <section className="space-y-2">
+        <h5 className="text-sm font-semibold text-primary">Audience</h5>
+        <div className="text-xs text-secondary">Include segments</div>
+        <div className="flex flex-wrap gap-2">
+          {[...segments.map(s => ({ id: s.id, label: `${s.icon} ${s.name}` })), { id: 'general', label: '👥 General' }].map(segment => (
+            <button
+              key={segment.id}
+              onClick={() => toggleSegment('segments', segment.id)}
+              className={`text-xs px-3 py-1 rounded-full border ${draft.segments.includes(segment.id) ? 'border-[#d4af37] bg-[#d4af37]/20 text-primary' : 'border-white/10 text-secondary'}`}
+            >
+              {segment.label}
+            </button>
+          ))}
+        </div>
+        <div className="text-xs text-secondary">Exclude segments</div>
+        <div className="flex flex-wrap gap-2">
+          {segments.map(segment => (
+            <button
+              key={segment.id}
+              onClick={() => toggleSegment('excludeSegments', segment.id)}
+              className={`text-xs px-3 py-1 rounded-full border ${draft.excludeSegments.includes(segment.id) ? 'border-red-400 bg-red-500/20 text-primary' : 'border-white/10 text-secondary'}`}
+            >
+              {segment.icon} {segment.name}
+            </button>
+          ))}
+        </div>
+
+        {draft.customFilters.map((filter, index) => (
+          <div key={index} className="grid grid-cols-[1fr_140px_1fr_auto] gap-2">
+            <Select value={filter.field} onValueChange={(value) => updateFilter(index, { field: value })}>
+              <SelectTrigger className="text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROFILE_FIELDS.map(field => <SelectItem key={field} value={field}>{field}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={filter.operator} onValueChange={(value) => updateFilter(index, { operator: value })}>
+              <SelectTrigger className="text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FILTER_OPERATORS.map(operator => <SelectItem key={operator} value={operator}>{operator}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Value"
+              disabled={filter.operator === 'exists'}
+              value={filter.value ?? ''}
+              onChange={(e) => updateFilter(index, { value: e.target.value })}
+            />
+            <Button
+              variant="outline"
+              className="rounded-xl"
+              onClick={() => update({ customFilters: draft.customFilters.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            className="rounded-xl"
+            onClick={() => update({ customFilters: [...draft.customFilters, { field: PROFILE_FIELDS[5], operator: 'greater_than', value: '', type: 'profile' }] })}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Filter
+          </Button>
+          <Input
+            className="w-40"
+            type="number"
+            min={1}
+            placeholder="Max audience"
+            value={draft.maxAudience}
+            onChange={(e) => update({ maxAudience: e.target.value })}
+          />
+          <Button variant="outline" className="rounded-xl" disabled={busy === 'audience'} onClick={loadAudience}>
+            <Users className="w-4 h-4 mr-2" />
+            Preview Audience
+          </Button>
+          {audience && <span className="text-sm text-primary">{audience.size} users</span>}
+        </div>
+      </section>
+
+      {/* Template */}
+      <section className="space-y-2">
+        <div className="flex items-center gap-2">
+          <h5 className="text-sm font-semibold text-primary">Template</h5>
+          {(['tr', 'en'] as Language[]).map(lang => (
+            <button
+              key={lang}
+              onClick={() => setLanguage(lang)}
+              className={`text-xs px-2 py-0.5 rounded ${language === lang ? 'bg-[#d4af37]/20 text-primary' : 'text-secondary'}`}
+            >
+              {lang.toUpperCase()}
+            </button>
+          ))}
+          <span className="text-xs text-secondary">Use {'{{variable}}'} placeholders. English is optional.</span>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {draft.type === 'email' && (
+            <Input placeholder="Subject" value={template.subject} onChange={(e) => updateTemplate({ subject: e.target.value })} />
+          )}
+          {(draft.type === 'push' || draft.type === 'in_app') && (
+            <Input placeholder="Title" value={template.title} onChange={(e) => updateTemplate({ title: e.target.value })} />
+          )}
+        </div>
+        <Textarea rows={4} placeholder="Message body" value={template.body} onChange={(e) => updateTemplate({ body: e.target.value })} />
+        {draft.type === 'email' && (
+          <Textarea rows={3} placeholder="HTML body (optional)" value={template.html} onChange={(e) => updateTemplate({ html: e.target.value })} />
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <Input placeholder="Button text (optional)" value={draft.ctaText} onChange={(e) => update({ ctaText: e.target.value })} />
+          <Input placeholder="Button URL" value={draft.ctaUrl} onChange={(e) => update({ ctaUrl: e.target.value })} />
+        </div>
+
+        <div className="text-xs text-secondary">Variables</div>
+        {draft.variables.map((variable, index) => (
+          <div key={index} className="grid grid-cols-[120px_110px_130px_1fr_1fr_auto] gap-2">
+            <Input placeholder="name" value={variable.name} onChange={(e) => updateVariable(index, { name: e.target.value.trim() })} />
+            <Select value={variable.type} onValueChange={(value) => updateVariable(index, { type: value as TemplateVariable['type'] })}>
+              <SelectTrigger className="text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VARIABLE_TYPES.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={variable.source} onValueChange={(value) => updateVariable(index, { source: value as TemplateVariable['source'] })}>
+              <SelectTrigger className="text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="user_profile">user_profile</SelectItem>
+                <SelectItem value="static">static</SelectItem>
+              </SelectContent>
+            </Select>
+            {variable.source === 'user_profile' ? (
+              <Select value={variable.sourceField || PROFILE_FIELDS[0]} onValueChange={(value) => updateVariable(index, { sourceField: value })}>
+                <SelectTrigger className="text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROFILE_FIELDS.map(field => <SelectItem key={field} value={field}>{field}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            ) : <div />}
+            <Input placeholder="Default value" value={variable.defaultValue || ''} onChange={(e) => updateVariable(index, { defaultValue: e.target.value })} />
+            <Button
+              variant="outline"
+              className="rounded-xl"
+              onClick={() => update({ variables: draft.variables.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          className="rounded-xl"
+          onClick={() => update({ variables: [...draft.variables, { name: '', type: 'text', source: 'static', defaultValue: '' }] })}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Variable
+        </Button>
+
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          <Select value={previewUserId} onValueChange={setPreviewUserId} disabled={!audience?.sample.length}>
+            <SelectTrigger className="w-56 text-xs">
+              <SelectValue placeholder="Sample user" />
+            </SelectTrigger>
+            <SelectContent>
+              {audience?.sample.map(user => (
+                <SelectItem key={user.userId} value={user.userId}>{user.displayName || user.email}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {draft.variants.length > 0 && (
+            <Select value={previewSource} onValueChange={setPreviewSource}>
+              <SelectTrigger className="w-44 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={BASE_TEMPLATE}>Base template</SelectItem>
+                {draft.variants.map(variant => <SelectItem key={variant.id} value={variant.id}>{variant.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" className="rounded-xl" disabled={busy === 'preview'} onClick={loadPreview}>
+            <Eye className="w-4 h-4 mr-2" />
+            Preview
+          </Button>
+        </div>
+        {preview && (
+          <div className="p-3 rounded-lg border border-white/10 text-sm space-y-1">
+            {(preview.subject || preview.title) && <div className="font-semibold text-primary">{preview.subject || preview.title}</div>}
+            <div className="text-secondary whitespace-pre-wrap">{preview.body}</div>
+            {preview.cta?.map((cta, index) => (
+              <div key={index} className="text-xs text-[#d4af37] break-all">[{cta.text}] → {cta.url}</div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {/* A/B variants */}
+      <section className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h5 className="text-sm font-semibold text-primary">A/B Variants</h5>
+          {draft.variants.length > 0 && (
+            <span className={`text-xs ${totalWeight === 100 ? 'text-green-400' : 'text-yellow-400'}`}>Total weight: {totalWeight}/100</span>
+          )}
+        </div>
+        {draft.variants.length > 0 && (
+          <p className="text-xs text-secondary">Variants replace the language templates; each user always gets the same variant.</p>
+        )}
+        {draft.variants.map((variant, index) => (
+          <div key={index} className="p-3 rounded-lg border border-white/10 space-y-2">
+            <div className="grid grid-cols-[1fr_1fr_80px_auto] gap-2">
+              <Input placeholder="variant_id" value={variant.id} onChange={(e) => updateVariant(index, { id: e.target.value.toLowerCase() })} />
+              <Input placeholder="Name" value={variant.name} onChange={(e) => updateVariant(index, { name: e.target.value })} />
+              <Input type="number" min={0} max={100} value={variant.weight} onChange={(e) => updateVariant(index, { weight: Number(e.target.value) })} />
+              <Button
+                variant="outline"
+                className="rounded-xl"
+                onClick={() => update({ variants: draft.variants.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <Input placeholder="Hypothesis" value={variant.hypothesis} onChange={(e) => updateVariant(index, { hypothesis: e.target.value })} />
+            {draft.type === 'email' && (
+              <Input placeholder="Subject" value={variant.template.subject || ''} onChange={(e) => updateVariantTemplate(index, { subject: e.target.value })} />
+            )}
+            {(draft.type === 'push' || draft.type === 'in_app') && (
+              <Input placeholder="Title" value={variant.template.title || ''} onChange={(e) => updateVariantTemplate(index, { title: e.target.value })} />
+            )}
+            <Textarea rows={3} placeholder="Message body" value={variant.template.body} onChange={(e) => updateVariantTemplate(index, { body: e.target.value })} />
+          </div>
+        ))}
+        <Button variant="outline" className="rounded-xl" disabled={draft.variants.length >= 4} onClick={addVariant}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Variant
+        </Button>
+      </section>
+
+      {/* Schedule */}
+      <section className="space-y-2">
+        <h5 className="text-sm font-semibold text-primary">Schedule</h5>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="text-xs text-secondary space-y-1">
+            <span>Start</span>
+            <Input type="datetime-local" value={draft.startDate} onChange={(e) => update({ startDate: e.target.value })} />
+          </label>
+          <label className="text-xs text-secondary space-y-1">
+            <span>End (optional)</span>
+            <Input type="datetime-local" value={draft.endDate} onChange={(e) => update({ endDate: e.target.value })} />
+          </label>
+        </div>
+        <p className="text-xs text-secondary">
+          Each user gets the message at their most active hour after the start. Delivery applies the global per-user frequency caps.
+        </p>
+      </section>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" className="rounded-xl" disabled={busy !== null} onClick={() => save(false)}>
+          <Save className="w-4 h-4 mr-2" />
+          Save Draft
+        </Button>
+        <Button className="rounded-xl" disabled={busy !== null} onClick={() => save(true)}>
+          <Send className="w-4 h-4 mr-2" />
+          Save & Launch
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CampaignBuilder;
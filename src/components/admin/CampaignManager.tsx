@@ -0,0 +1,197 @@
+import React, { useState, useEffect, Suspense, lazy } from 'react';
+import { Megaphone, Play, Pause, RefreshCw, Plus, BarChart3 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { toast } from 'sonner';
+import { advancedMarketingAutomation, CampaignAnalytics, MarketingCampaign } from '../../services/advancedMarketingAutomation';
+import CampaignBuilder from './CampaignBuilder';
+import AutomationRuleManager from './AutomationRuleManager';
+import SuppressionListManager from './SuppressionListManager';
+
+const CampaignAnalyticsChart = lazy(() => import('./CampaignAnalyticsChart'));
+
+// Live analytics refresh while a campaign is expanded
+const ANALYTICS_REFRESH_MS = 30000;
+
+const STATUS_STYLES: Record<MarketingCampaign['status'], string> = {
+  draft: 'bg-white/10 text-secondary',
+  scheduled: 'bg-blue-500/20 text-blue-400',
+  active: 'bg-green-500/20 text-green-400',
+  paused: 'bg-yellow-500/20 text-yellow-400',
+  completed: 'bg-white/10 text-secondary'
+};
+
+const CampaignManager: React.FC = () => {
+  const [campaigns, setCampaigns] = useState<MarketingCampaign[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [building, setBuilding] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [analytics, setAnalytics] = useState<CampaignAnalytics | null>(null);
+
+  const loadCampaigns = async () => {
+    try {
+      setLoading(true);
+      setCampaigns(await advancedMarketingAutomation.listCampaigns());
+    } catch (error: any) {
+      console.error('Error loading campaigns:', error);
+      toast.error(error?.message || 'Failed to load campaigns');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCampaigns();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    let cancelled = false;
+
+    const refresh = async () => {
+      try {
+        const result = await advancedMarketingAutomation.getCampaignAnalytics(selectedId);
+        if (!cancelled) setAnalytics(result);
+      } catch (error: any) {
+        console.error('Error loading campaign analytics:', error);
+        if (!cancelled) toast.error(error?.message || 'Failed to load campaign analytics');
+      }
+    };
+
+    setAnalytics(null);
+    refresh();
+    const interval = setInterval(refresh, ANALYTICS_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [selectedId]);
+
+  const setStatus = async (campaign: MarketingCampaign, launch: boolean) => {
+    try {
+      setBusy(campaign.id);
+      if (launch) {
+        await advancedMarketingAutomation.launchCampaign(campaign.id);
+        toast.success('Campaign launched, messages are queued for delivery');
+      } else {
+        await advancedMarketingAutomation.pauseCampaign(campaign.id);
+        toast.success('Campaign paused, queued messages were cancelled');
+      }
+      await loadCampaigns();
+    } catch (error: any) {
+      console.error('Error updating campaign:', error);
+      toast.error(error?.message || 'Failed to update campaign');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6 text-secondary">Loading campaigns...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-primary">
+            <Megaphone className="w-5 h-5 text-[#d4af37]" />
+            Campaigns ({campaigns.length})
+          </h3>
+          <div className="flex gap-2">
+            <Button variant="outline" className="rounded-xl" onClick={loadCampaigns}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Refresh
+            </Button>
+            <Button className="rounded-xl" onClick={() => setBuilding(!building)}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Campaign
+            </Button>
+          </div>
+        </div>
+
+        {building && (
+          <CampaignBuilder
+            onCancel={() => setBuilding(false)}
+            onSaved={() => {
+              setBuilding(false);
+              loadCampaigns();
+            }}
+          />
+        )}
+
+        {campaigns.length === 0 ? (
+          <div className="p-6 text-secondary">No campaigns yet.</div>
+        ) : (
+          campaigns.map(campaign => {
+            const selected = selectedId === campaign.id;
+            const variantNames = Object.fromEntries(
+              (campaign.personalization.abTestVariants || []).map(variant => [variant.id, variant.name])
+            );
+            return (
+              <div key={campaign.id} className="p-4 glass-card rounded-xl border border-white/10 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-primary">{campaign.name}</span>
+                      <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[campaign.status]}`}>{campaign.status}</span>
+                    </div>
+                    <div className="text-xs text-secondary">
+                      {campaign.type} · {campaign.target.segments.join(', ') || 'custom filters'}
+                      {campaign.personalization.abTestVariants?.length ? ` · ${campaign.personalization.abTestVariants.length} variants` : ''}
+                      {' · '}starts {campaign.schedule.startDate.toLocaleString('tr-TR')}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" className="rounded-xl" onClick={() => setSelectedId(selected ? null : campaign.id)}>
+                      <BarChart3 className="w-4 h-4 mr-2" />
+                      Analytics
+                    </Button>
+                    {campaign.status === 'active' ? (
+                      <Button variant="outline" className="rounded-xl" disabled={busy === campaign.id} onClick={() => setStatus(campaign, false)}>
+                        <Pause className="w-4 h-4 mr-2" />
+                        Pause
+                      </Button>
+                    ) : campaign.status !== 'completed' && (
+                      <Button variant="outline" className="rounded-xl" disabled={busy === campaign.id} onClick={() => setStatus(campaign, true)}>
+                        <Play className="w-4 h-4 mr-2" />
+                        Launch
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {selected && (
+                  analytics ? (
+                    <div className="space-y-3">
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-secondary">
+                        <div>Queued: <span className="text-primary">{analytics.queued ?? 0}</span></div>
+                        <div>Sent: <span className="text-primary">{analytics.sent}</span></div>
+                        <div>Failed: <span className="text-primary">{analytics.bounced}</span></div>
+                        <div>Suppressed: <span className="text-primary">{analytics.suppressed ?? 0}</span></div>
+                        <div>Segments: <span className="text-primary">
+                          {Object.entries(analytics.segmentPerformance).map(([segmentId, stats]) => `${segmentId} ${stats.sent}`).join(', ') || '—'}
+                        </span></div>
+                      </div>
+                      <Suspense fallback={<div className="h-56 flex items-center justify-center text-secondary">Loading chart...</div>}>
+                        <CampaignAnalyticsChart analytics={analytics} variantNames={variantNames} />
+                      </Suspense>
+                    </div>
+                  ) : (
+                    <div className="text-sm text-secondary">Loading analytics...</div>
+                  )
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <AutomationRuleManager campaigns={campaigns} />
+
+      <SuppressionListManager />
+    </div>
+  );
+};
+
+export default CampaignManager;
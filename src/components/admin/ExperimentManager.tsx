@@ -0,0 +1,344 @@
+import React, { useState, useEffect } from 'react';
+import { FlaskConical, Play, Square, RefreshCw, Plus, Trash2, BarChart3, AlertTriangle, Trophy } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { toast } from 'sonner';
+import {
+  aiExperimentEngine,
+  ExperimentDefinition,
+  ExperimentMetric,
+  ExperimentReport,
+  ExperimentVariant
+} from '../../services/aiExperimentEngine';
+
+const CONFIG_OPTIONS: Record<keyof ExperimentVariant['config'], string[]> = {
+  promptStyle: ['formal', 'casual', 'enthusiastic', 'minimal'],
+  responseLength: ['short', 'medium', 'long'],
+  emojiUsage: ['none', 'minimal', 'moderate', 'heavy'],
+  packageRecommendationStrategy: ['conservative', 'aggressive', 'contextual'],
+  personalizationLevel: ['low', 'medium', 'high']
+};
+const UNSET = 'default';
+
+interface Draft {
+  experimentId: string;
+  name: string;
+  description: string;
+  primaryMetric: ExperimentMetric;
+  minimumDetectableEffect: number; // Percent
+  variants: ExperimentVariant[];
+}
+
+const emptyDraft = (): Draft => ({
+  experimentId: '',
+  name: '',
+  description: '',
+  primaryMetric: 'successRate',
+  minimumDetectableEffect: 20,
+  variants: [
+    { id: 'control', name: 'Control', weight: 50, config: {} },
+    { id: 'treatment', name: 'Treatment', weight: 50, config: {} }
+  ]
+});
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const ExperimentManager: React.FC = () => {
+  const [experiments, setExperiments] = useState<ExperimentDefinition[]>([]);
+  const [reports, setReports] = useState<Record<string, ExperimentReport>>({});
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const loadExperiments = async () => {
+    try {
+      setLoading(true);
+      setExperiments(await aiExperimentEngine.listExperiments());
+    } catch (error: any) {
+      console.error('Error loading experiments:', error);
+      toast.error(error?.message || 'Failed to load experiments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadExperiments();
+  }, []);
+
+  const loadReport = async (experimentId: string) => {
+    try {
+      setBusy(experimentId);
+      const report = await aiExperimentEngine.generateExperimentReport(experimentId);
+      setReports(prev => ({ ...prev, [experimentId]: report }));
+    } catch (error: any) {
+      console.error('Error loading experiment report:', error);
+      toast.error(error?.message || 'Failed to load the report');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggleStatus = async (experiment: ExperimentDefinition) => {
+    const status = experiment.status === 'running' ? 'stopped' : 'running';
+    try {
+      setBusy(experiment.id);
+      await aiExperimentEngine.setExperimentStatus(experiment.id, status);
+      setExperiments(prev => prev.map(e => e.id === experiment.id ? { ...e, status } : e));
+      toast.success(status === 'stopped' ? 'Experiment stopped, users get the default prompt' : 'Experiment restarted');
+    } catch (error: any) {
+      console.error('Error updating experiment:', error);
+      toast.error(error?.message || 'Failed to update experiment');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const updateVariant = (index: number, changes: Partial<ExperimentVariant>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      variants: prev.variants.map((variant, i) => i === index ? { ...variant, ...changes } : variant)
+    });
+  };
+
+  const updateVariantConfig = (index: number, key: keyof ExperimentVariant['config'], value: string) => {
+    const config = { ...draft!.variants[index].config } as Record<string, string>;
+    if (value === UNSET) {
+      delete config[key];
+    } else {
+      config[key] = value;
+    }
+    updateVariant(index, { config: config as ExperimentVariant['config'] });
+  };
+
+  const createExperiment = async () => {
+    if (!draft) return;
+    try {
+      setBusy('create');
+      await aiExperimentEngine.createExperiment({
+        experimentId: draft.experimentId.trim(),
+        name: draft.name.trim(),
+        description: draft.description.trim() || undefined,
+        primaryMetric: draft.primaryMetric,
+        minimumDetectableEffect: draft.minimumDetectableEffect / 100,
+        variants: draft.variants
+      });
+      toast.success('Experiment started');
+      setDraft(null);
+      await loadExperiments();
+    } catch (error: any) {
+      console.error('Error creating experiment:', error);
+      toast.error(error?.message || 'Failed to create experiment');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6 text-secondary">Loading experiments...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-primary">
+          <FlaskConical className="w-5 h-5 text-[#d4af37]" />
+          A/B Experiments ({experiments.length})
+        </h3>
+        <div className="flex gap-2">
+          <Button variant="outline" className="rounded-xl" onClick={loadExperiments}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+          <Button className="rounded-xl" onClick={() => setDraft(draft ? null : emptyDraft())}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Experiment
+          </Button>
+        </div>
+      </div>
+
+      {draft && (
+        <div className="p-4 glass-card rounded-xl border border-white/10 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <Input
+              placeholder="experiment_id"
+              value={draft.experimentId}
+              onChange={(e) => setDraft({ ...draft, experimentId: e.target.value.toLowerCase() })}
+            />
+            <Input placeholder="Name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            <Input
+              placeholder="Description (optional)"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <Select value={draft.primaryMetric} onValueChange={(value) => setDraft({ ...draft, primaryMetric: value as ExperimentMetric })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="successRate">👍 Feedback success rate</SelectItem>
+                  <SelectItem value="conversionRate">📦 Package conversion rate</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={1}
+                title="Minimum detectable effect (relative %, used for the sample size plan)"
+                value={draft.minimumDetectableEffect}
+                onChange={(e) => setDraft({ ...draft, minimumDetectableEffect: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-secondary">
+            The first variant is the control. Weights must add up to 100. Every running experiment is applied to the chat, so
+            stop the experiment already testing a setting before starting another one on it.
+          </p>
+          {draft.variants.map((variant, index) => (
+            <div key={index} className="p-3 rounded-lg border border-white/10 space-y-2">
+              <div className="grid grid-cols-[1fr_1fr_80px_auto] gap-2">
+                <Input placeholder="variant_id" value={variant.id} onChange={(e) => updateVariant(index, { id: e.target.value.toLowerCase() })} />
+                <Input placeholder="Name" value={variant.name} onChange={(e) => updateVariant(index, { name: e.target.value })} />
+                <Input type="number" min={1} value={variant.weight} onChange={(e) => updateVariant(index, { weight: Number(e.target.value) })} />
+                <Button
+                  variant="outline"
+                  className="rounded-xl"
+                  disabled={draft.variants.length <= 2}
+                  onClick={() => setDraft({ ...draft, variants: draft.variants.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                {(Object.keys(CONFIG_OPTIONS) as Array<keyof ExperimentVariant['config']>).map(key => (
+                  <Select key={key} value={variant.config[key] || UNSET} onValueChange={(value) => updateVariantConfig(index, key, value)}>
+                    <SelectTrigger className="text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNSET}>{key}: default</SelectItem>
+                      {CONFIG_OPTIONS[key].map(option => (
+                        <SelectItem key={option} value={option}>{key}: {option}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex justify-between">
+            <Button
+              variant="outline"
+              className="rounded-xl"
+              disabled={draft.variants.length >= 6}
+              onClick={() => setDraft({ ...draft, variants: [...draft.variants, { id: '', name: '', weight: 0, config: {} }] })}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Variant
+            </Button>
+            <Button className="rounded-xl" disabled={busy === 'create'} onClick={createExperiment}>
+              <Play className="w-4 h-4 mr-2" />
+              Start Experiment
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {experiments.length === 0 ? (
+        <div className="p-6 text-secondary">No experiments yet. Default experiments are created on the first chat.</div>
+      ) : (
+        experiments.map(experiment => {
+          const report = reports[experiment.id];
+          return (
+            <div key={experiment.id} className="p-4 glass-card rounded-xl border border-white/10 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-primary">{experiment.name}</span>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${experiment.status === 'running' ? 'bg-green-500/20 text-green-400' : 'bg-white/10 text-secondary'}`}>
+                      {experiment.status}
+                    </span>
+                  </div>
+                  <div className="text-xs text-secondary">
+                    {experiment.id} · {experiment.variants.length} variants · {experiment.primaryMetric} · α={experiment.alpha} · MDE {percent(experiment.minimumDetectableEffect)}
+                  </div>
+                  {experiment.description && <div className="text-sm text-secondary mt-1">{experiment.description}</div>}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" className="rounded-xl" disabled={busy === experiment.id} onClick={() => loadReport(experiment.id)}>
+                    <BarChart3 className="w-4 h-4 mr-2" />
+                    Report
+                  </Button>
+                  <Button variant="outline" className="rounded-xl" disabled={busy === experiment.id} onClick={() => toggleStatus(experiment)}>
+                    {experiment.status === 'running' ? <Square className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+                    {experiment.status === 'running' ? 'Stop' : 'Restart'}
+                  </Button>
+                </div>
+              </div>
+
+              {report && (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-secondary">
+                    <div>Responses: <span className="text-primary">{report.totalExposures}</span></div>
+                    <div>Needed per variant: <span className="text-primary">{Number.isFinite(report.requiredSampleSizePerVariant) ? report.requiredSampleSizePerVariant : '—'}</span></div>
+                    <div>Progress: <span className="text-primary">{percent(report.informationFraction)}</span></div>
+                    <div>Boundary: <span className="text-primary">|z| ≥ {report.significanceBoundary.toFixed(2)}</span></div>
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-secondary border-b border-white/10">
+                          <th className="py-2 pr-4">Variant</th>
+                          <th className="py-2 pr-4">Users</th>
+                          <th className="py-2 pr-4">n</th>
+                          <th className="py-2 pr-4">{report.primaryMetric === 'successRate' ? 'Success' : 'Conversion'}</th>
+                          <th className="py-2 pr-4">95% CI</th>
+                          <th className="py-2 pr-4">Lift</th>
+                          <th className="py-2 pr-4">p</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.variants.map(variant => (
+                          <tr key={variant.variantId} className="border-b border-white/5 text-primary">
+                            <td className="py-2 pr-4">
+                              <span className="flex items-center gap-1">
+                                {report.winner === variant.variantId && <Trophy className="w-4 h-4 text-[#d4af37]" />}
+                                {variant.name}
+                                {variant.isControl && <span className="text-xs text-secondary">(control)</span>}
+                              </span>
+                            </td>
+                            <td className="py-2 pr-4">{variant.assignedUsers}</td>
+                            <td className="py-2 pr-4">{variant.sampleSize}</td>
+                            <td className="py-2 pr-4">{percent(variant.rate)}</td>
+                            <td className="py-2 pr-4">{percent(variant.confidenceInterval[0])} – {percent(variant.confidenceInterval[1])}</td>
+                            <td className={`py-2 pr-4 ${variant.significant ? (variant.lift! > 0 ? 'text-green-400' : 'text-red-400') : ''}`}>
+                              {variant.lift === undefined ? '—' : `${variant.lift > 0 ? '+' : ''}${percent(variant.lift)}`}
+                            </td>
+                            <td className="py-2 pr-4">{variant.pValue === undefined ? '—' : variant.pValue.toFixed(4)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {report.insights.map((insight, index) => (
+                    <div key={index} className="flex items-start gap-2 text-xs text-secondary">
+                      {report.sampleRatioMismatch && index === 0 && <AlertTriangle className="w-4 h-4 text-yellow-400 shrink-0" />}
+                      {insight}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default ExperimentManager;
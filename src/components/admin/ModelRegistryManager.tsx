@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from 'react';
+import { Bot, Plus, Save, Trash2, Star } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Badge } from '../ui/badge';
+import { Switch } from '../ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { toast } from 'sonner';
+import { modelRegistryService, ModelRegistry } from '../../services/modelRegistryService';
+import { GeminiModelConfig } from '../../types/firestore';
+import type { PlanType } from '../../services/subscriptionService';
+
+const PLANS: PlanType[] = ['free', 'pro', 'pro_bride'];
+
+const SAFETY_CATEGORIES: { key: keyof GeminiModelConfig['safetyThresholds']; label: string }[] = [
+  { key: 'HARM_CATEGORY_HARASSMENT', label: 'Harassment' },
+  { key: 'HARM_CATEGORY_HATE_SPEECH', label: 'Hate speech' },
+  { key: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', label: 'Sexually explicit' },
+  { key: 'HARM_CATEGORY_DANGEROUS_CONTENT', label: 'Dangerous content' }
+];
+
+const THRESHOLDS = ['BLOCK_LOW_AND_ABOVE', 'BLOCK_MEDIUM_AND_ABOVE', 'BLOCK_ONLY_HIGH', 'BLOCK_NONE'] as const;
+
+const DEFAULT_SAFETY: GeminiModelConfig['safetyThresholds'] = {
+  HARM_CATEGORY_HARASSMENT: 'BLOCK_MEDIUM_AND_ABOVE',
+  HARM_CATEGORY_HATE_SPEECH: 'BLOCK_MEDIUM_AND_ABOVE',
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: 'BLOCK_MEDIUM_AND_ABOVE',
+  HARM_CATEGORY_DANGEROUS_CONTENT: 'BLOCK_MEDIUM_AND_ABOVE'
+};
+
+// Mirrors DEFAULT_MODEL_REGISTRY in functions/src/model-registry.ts
+const DEFAULT_REGISTRY: ModelRegistry = {
+  defaultModelId: 'ai-lovv3',
+  models: [
+    { id: 'ai-lovv3', label: 'ai-lovv3', description: 'Advanced AI', model: 'gemini-1.5-flash-8b', temperature: 0.8, maxTokens: 512, topP: 0.9, topK: 32, safetyThresholds: DEFAULT_SAFETY, allowedPlans: [...PLANS], enabled: true },
+    { id: 'ai-lovv2', label: 'ai-lovv2', description: 'Fast AI', model: 'gemini-1.5-flash-8b', temperature: 0.7, maxTokens: 384, topP: 0.9, topK: 32, safetyThresholds: DEFAULT_SAFETY, allowedPlans: [...PLANS], enabled: true }
+  ]
+};
+
+const ModelRegistryManager: React.FC = () => {
+  const [registry, setRegistry] = useState<ModelRegistry>(DEFAULT_REGISTRY);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    modelRegistryService.getModelRegistry().then(saved => {
+      if (saved) setRegistry(saved);
+      setLoading(false);
+    });
+  }, []);
+
+  const updateModel = (index: number, updates: Partial<GeminiModelConfig>) => {
+    setRegistry(prev => ({
+      ...prev,
+      models: prev.models.map((m, i) => (i === index ? { ...m, ...updates } : m))
+    }));
+  };
+
+  const togglePlan = (index: number, plan: PlanType) => {
+    const model = registry.models[index];
+    const allowedPlans = model.allowedPlans.includes(plan)
+      ? model.allowedPlans.filter(p => p !== plan)
+      : [...model.allowedPlans, plan];
+    updateModel(index, { allowedPlans });
+  };
+
+  const addModel = () => {
+    setRegistry(prev => ({
+      ...prev,
+      models: [
+        ...prev.models,
+        {
+          id: `model-${prev.models.length + 1}`,
+          label: 'New model',
+          model: 'gemini-1.5-flash',
+          temperature: 0.8,
+          maxTokens: 512,
+          safetyThresholds: DEFAULT_SAFETY,
+          allowedPlans: ['pro', 'pro_bride'],
+          enabled: false
+        }
+      ]
+    }));
+  };
+
+  const removeModel = (index: number) => {
+    setRegistry(prev => ({ ...prev, models: prev.models.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await modelRegistryService.saveModelRegistry(registry);
+      toast.success('Model registry saved', {
+        description: 'Changes reach the chat backend within a minute.'
+      });
+    } catch (error: any) {
+      console.error('Error saving model registry:', error);
+      toast.error(error?.message || 'Failed to save model registry');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6 text-secondary">Loading model registry...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-primary">
+          <Bot className="w-5 h-5 text-[#d4af37]" />
+          AI Model Registry
+        </h3>
+        <div className="flex gap-2">
+          <Button variant="outline" className="rounded-xl" onClick={addModel}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Model
+          </Button>
+          <Button className="rounded-xl" onClick={handleSave} disabled={saving}>
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Models'}
+          </Button>
+        </div>
+      </div>
+
+      {registry.models.map((model, index) => (
+        <div key={index} className="p-4 glass-card rounded-xl border border-white/10 backdrop-blur-xl space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-primary">{model.label}</span>
+              {registry.defaultModelId === model.id && <Badge>Default</Badge>}
+              {!model.enabled && <Badge variant="secondary">Disabled</Badge>}
+            </div>
+            <div className="flex items-center gap-3">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setRegistry(prev => ({ ...prev, defaultModelId: model.id }))}
+                disabled={registry.defaultModelId === model.id}
+              >
+                <Star className="w-4 h-4 mr-1" />
+                Make default
+              </Button>
+              <Switch checked={model.enabled} onCheckedChange={enabled => updateModel(index, { enabled })} />
+              <Button variant="ghost" size="sm" onClick={() => removeModel(index)} disabled={registry.models.length === 1}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-secondary mb-2">Id</label>
+              <Input value={model.id} onChange={e => updateModel(index, { id: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary mb-2">Label</label>
+              <Input value={model.label} onChange={e => updateModel(index, { label: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary mb-2">Gemini model</label>
+              <Input value={model.model} onChange={e => updateModel(index, { model: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary mb-2">Temperature</label>
+              <Input
+                type="number"
+                step="0.1"
+                min={0}
+                max={2}
+                value={model.temperature}
+                onChange={e => updateModel(index, { temperature: Number(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary mb-2">Max tokens</label>
+              <Input
+                type="number"
+                min={1}
+                max={8192}
+                value={model.maxTokens}
+                onChange={e => updateModel(index, { maxTokens: Number(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-secondary mb-2">Plans</label>
+              <div className="flex gap-2 flex-wrap">
+                {PLANS.map(plan => (
+                  <Button
+                    key={plan}
+                    size="sm"
+                    variant={model.allowedPlans.includes(plan) ? 'default' : 'outline'}
+                    onClick={() => togglePlan(index, plan)}
+                  >
+                    {plan}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {SAFETY_CATEGORIES.map(({ key, label }) => (
+              <div key={key}>
+                <label className="block text-sm font-medium text-secondary mb-2">{label}</label>
+                <Select
+                  value={model.safetyThresholds[key] || 'BLOCK_MEDIUM_AND_ABOVE'}
+                  onValueChange={value => updateModel(index, {
+                    safetyThresholds: { ...model.safetyThresholds, [key]: value as typeof THRESHOLDS[number] }
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {THRESHOLDS.map(threshold => (
+                      <SelectItem key={threshold} value={threshold}>{threshold}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ModelRegistryManager;
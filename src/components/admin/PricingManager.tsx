@@ -0,0 +1,397 @@
+import React, { useState, useEffect } from 'react';
+import { DollarSign, Edit, Save, X, Plus, Trash2, Shield, History } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Switch } from '../ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { toast } from 'sonner';
+import {
+  dynamicPricingEngine,
+  PricingStrategy,
+  PricingRule,
+  PricingGuardrail,
+  PricingAuditEntry,
+  PRICING_METRICS,
+  PRICING_SEGMENTS
+} from '../../services/dynamicPricingEngine';
+
+interface StrategyDraft {
+  id: string;
+  targetSegment: string[];
+  rules: PricingRule[];
+}
+
+interface GuardrailDraft {
+  packageId: string;
+  floor: string;
+  ceiling: string;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const PricingManager: React.FC = () => {
+  const [strategies, setStrategies] = useState<PricingStrategy[]>([]);
+  const [guardrails, setGuardrails] = useState<PricingGuardrail[]>([]);
+  const [auditLog, setAuditLog] = useState<PricingAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [strategyDraft, setStrategyDraft] = useState<StrategyDraft | null>(null);
+  const [guardrailDraft, setGuardrailDraft] = useState<GuardrailDraft | null>(null);
+
+  const loadAll = async () => {
+    try {
+      setLoading(true);
+      const [strategyList, guardrailList, entries] = await Promise.all([
+        dynamicPricingEngine.getPricingStrategies(),
+        dynamicPricingEngine.getGuardrails(),
+        dynamicPricingEngine.getAuditLog()
+      ]);
+      setStrategies(strategyList);
+      setGuardrails(guardrailList);
+      setAuditLog(entries);
+    } catch (error: any) {
+      console.error('Error loading pricing settings:', error);
+      toast.error(error?.message || 'Failed to load pricing settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  const refreshAuditLog = async () => {
+    setAuditLog(await dynamicPricingEngine.getAuditLog());
+  };
+
+  const toggleStrategy = async (strategy: PricingStrategy, active: boolean) => {
+    try {
+      setBusy(strategy.id);
+      const updated = await dynamicPricingEngine.togglePricingStrategy(strategy.id, active);
+      setStrategies(prev => prev.map(s => s.id === updated.id ? updated : s));
+      await refreshAuditLog();
+    } catch (error: any) {
+      console.error('Error toggling pricing strategy:', error);
+      toast.error(error?.message || 'Failed to update strategy');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const saveStrategy = async () => {
+    if (!strategyDraft) return;
+    if (strategyDraft.targetSegment.length === 0) {
+      toast.error('Select at least one segment');
+      return;
+    }
+    try {
+      setBusy(strategyDraft.id);
+      const updated = await dynamicPricingEngine.updatePricingStrategy(strategyDraft.id, {
+        targetSegment: strategyDraft.targetSegment,
+        rules: strategyDraft.rules
+      });
+      setStrategies(prev => prev.map(s => s.id === updated.id ? updated : s));
+      setStrategyDraft(null);
+      toast.success('Strategy updated');
+      await refreshAuditLog();
+    } catch (error: any) {
+      console.error('Error updating pricing strategy:', error);
+      toast.error(error?.message || 'Failed to update strategy');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const updateRule = (index: number, updates: Partial<PricingRule>) => {
+    if (!strategyDraft) return;
+    setStrategyDraft({
+      ...strategyDraft,
+      rules: strategyDraft.rules.map((rule, i) => i === index ? { ...rule, ...updates } : rule)
+    });
+  };
+
+  const toggleSegment = (segment: string) => {
+    if (!strategyDraft) return;
+    const targetSegment = strategyDraft.targetSegment.includes(segment)
+      ? strategyDraft.targetSegment.filter(s => s !== segment)
+      : [...strategyDraft.targetSegment, segment];
+    setStrategyDraft({ ...strategyDraft, targetSegment });
+  };
+
+  const saveGuardrails = async (packageId: string, floor: number | null, ceiling: number | null) => {
+    try {
+      setBusy(`guardrail_${packageId}`);
+      await dynamicPricingEngine.setGuardrails(packageId, floor, ceiling);
+      setGuardrailDraft(null);
+      const [guardrailList] = await Promise.all([dynamicPricingEngine.getGuardrails(), refreshAuditLog()]);
+      setGuardrails(guardrailList);
+    } catch (error: any) {
+      console.error('Error saving pricing guardrails:', error);
+      toast.error(error?.message || 'Failed to save guardrails');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const submitGuardrailDraft = () => {
+    if (!guardrailDraft) return;
+    if (!guardrailDraft.packageId.trim()) {
+      toast.error('Enter a package ID');
+      return;
+    }
+    const floor = guardrailDraft.floor.trim() ? Number(guardrailDraft.floor) : null;
+    const ceiling = guardrailDraft.ceiling.trim() ? Number(guardrailDraft.ceiling) : null;
+    if (floor === null && ceiling === null) {
+      toast.error('Enter a floor, a ceiling or both');
+      return;
+    }
+    saveGuardrails(guardrailDraft.packageId.trim(), floor, ceiling);
+  };
+
+  if (loading) {
+    return <div className="p-6 text-secondary">Loading pricing settings...</div>;
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Strategies */}
+      <div className="space-y-4">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-primary">
+          <DollarSign className="w-5 h-5 text-[#d4af37]" />
+          Pricing Strategies ({strategies.filter(s => s.active).length}/{strategies.length} active)
+        </h3>
+
+        {strategies.map(strategy => {
+          const isEditing = strategyDraft?.id === strategy.id;
+
+          return (
+            <div key={strategy.id} className="p-4 glass-card rounded-xl border border-white/10 space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="font-semibold text-primary">{strategy.name}</div>
+                  <div className="text-sm text-secondary">{strategy.description}</div>
+                  <div className="text-xs text-secondary mt-1">Segments: {strategy.targetSegment.join(', ')}</div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Switch
+                    checked={strategy.active}
+                    disabled={busy === strategy.id}
+                    onCheckedChange={(active) => toggleStrategy(strategy, active)}
+                  />
+                  {!isEditing && (
+                    <Button
+                      variant="outline"
+                      className="rounded-xl"
+                      onClick={() => setStrategyDraft({ id: strategy.id, targetSegment: strategy.targetSegment, rules: strategy.rules })}
+                    >
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {isEditing && strategyDraft ? (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    {PRICING_SEGMENTS.map(segment => (
+                      <Button
+                        key={segment}
+                        size="sm"
+                        variant={strategyDraft.targetSegment.includes(segment) ? 'default' : 'outline'}
+                        className="rounded-xl"
+                        onClick={() => toggleSegment(segment)}
+                      >
+                        {segment}
+                      </Button>
+                    ))}
+                  </div>
+                  {strategyDraft.rules.map((rule, index) => (
+                    <div key={index} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2 items-center">
+                      <Input
+                        placeholder={`${PRICING_METRICS[0]} > 60`}
+                        value={rule.condition}
+                        onChange={(e) => updateRule(index, { condition: e.target.value })}
+                      />
+                      <Select value={rule.action} onValueChange={(value) => updateRule(index, { action: value as PricingRule['action'] })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="increase">increase</SelectItem>
+                          <SelectItem value="decrease">decrease</SelectItem>
+                          <SelectItem value="maintain">maintain</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        placeholder="%"
+                        value={rule.percentage}
+                        onChange={(e) => updateRule(index, { percentage: Number(e.target.value) })}
+                      />
+                      <Input
+                        type="number"
+                        placeholder="Max %"
+                        value={rule.maxAdjustment}
+                        onChange={(e) => updateRule(index, { maxAdjustment: Number(e.target.value) })}
+                      />
+                      <Button
+                        variant="outline"
+                        className="rounded-xl"
+                        disabled={strategyDraft.rules.length === 1}
+                        onClick={() => setStrategyDraft({ ...strategyDraft, rules: strategyDraft.rules.filter((_, i) => i !== index) })}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="text-xs text-secondary">Metrics: {PRICING_METRICS.join(', ')}</div>
+                  <div className="flex justify-between gap-2">
+                    <Button
+                      variant="outline"
+                      className="rounded-xl"
+                      disabled={strategyDraft.rules.length >= 5}
+                      onClick={() => setStrategyDraft({
+                        ...strategyDraft,
+                        rules: [...strategyDraft.rules, { condition: '', action: 'increase', percentage: 5, maxAdjustment: 10 }]
+                      })}
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Rule
+                    </Button>
+                    <div className="flex gap-2">
+                      <Button variant="outline" className="rounded-xl" onClick={() => setStrategyDraft(null)}>
+                        <X className="w-4 h-4 mr-2" />
+                        Cancel
+                      </Button>
+                      <Button className="rounded-xl" disabled={busy === strategy.id} onClick={saveStrategy}>
+                        <Save className="w-4 h-4 mr-2" />
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div className="text-xs text-secondary space-y-1">
+                  {strategy.rules.map((rule, index) => (
+                    <div key={index}>
+                      {rule.condition} → {rule.action} {rule.percentage}% (max {rule.maxAdjustment}%)
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Guardrails */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center gap-2 text-lg font-semibold text-primary">
+            <Shield className="w-5 h-5 text-[#d4af37]" />
+            Price Floors & Ceilings ({guardrails.length})
+          </h3>
+          <Button
+            className="rounded-xl"
+            onClick={() => setGuardrailDraft(guardrailDraft ? null : { packageId: '', floor: '', ceiling: '' })}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Guardrail
+          </Button>
+        </div>
+
+        {guardrailDraft && (
+          <div className="p-4 glass-card rounded-xl border border-white/10 space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <Input placeholder="Package ID" value={guardrailDraft.packageId} onChange={(e) => setGuardrailDraft({ ...guardrailDraft, packageId: e.target.value })} />
+              <Input type="number" placeholder="Floor per room" value={guardrailDraft.floor} onChange={(e) => setGuardrailDraft({ ...guardrailDraft, floor: e.target.value })} />
+              <Input type="number" placeholder="Ceiling per room" value={guardrailDraft.ceiling} onChange={(e) => setGuardrailDraft({ ...guardrailDraft, ceiling: e.target.value })} />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" className="rounded-xl" onClick={() => setGuardrailDraft(null)}>
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+              <Button className="rounded-xl" disabled={busy?.startsWith('guardrail_')} onClick={submitGuardrailDraft}>
+                <Save className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {guardrails.length === 0 ? (
+          <div className="p-6 text-secondary">No guardrails. Dynamic prices stay within the strategies' own limits.</div>
+        ) : (
+          guardrails.map(guardrail => (
+            <div key={guardrail.packageId} className="p-4 glass-card rounded-xl border border-white/10 flex items-center justify-between gap-4">
+              <div>
+                <div className="font-semibold text-primary">{guardrail.packageTitle}</div>
+                <div className="text-xs text-secondary">
+                  Floor {guardrail.floor ?? '—'} · Ceiling {guardrail.ceiling ?? '—'} {guardrail.currency} per room
+                  {guardrail.updatedAt && ` · updated ${guardrail.updatedAt.toLocaleDateString()}`}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  className="rounded-xl"
+                  onClick={() => setGuardrailDraft({
+                    packageId: guardrail.packageId,
+                    floor: guardrail.floor !== undefined ? String(guardrail.floor) : '',
+                    ceiling: guardrail.ceiling !== undefined ? String(guardrail.ceiling) : ''
+                  })}
+                >
+                  <Edit className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="outline"
+                  className="rounded-xl"
+                  disabled={busy === `guardrail_${guardrail.packageId}`}
+                  onClick={() => confirm(`Remove the guardrails of ${guardrail.packageTitle}?`) && saveGuardrails(guardrail.packageId, null, null)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Audit log */}
+      <div className="space-y-4">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-primary">
+          <History className="w-5 h-5 text-[#d4af37]" />
+          Audit Log
+        </h3>
+        {auditLog.length === 0 ? (
+          <div className="p-6 text-secondary">No pricing changes yet.</div>
+        ) : (
+          <div className="glass-card rounded-xl border border-white/10 divide-y divide-white/10">
+            {auditLog.map(entry => (
+              <div key={entry.id} className="p-3 text-sm">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="font-semibold text-primary">{entry.target}: {entry.targetId}</span>
+                  <span className="text-xs text-secondary">
+                    {entry.createdAt?.toLocaleString()} · {entry.actorEmail || entry.actorId}
+                  </span>
+                </div>
+                {Object.entries(entry.changes).map(([field, change]) => (
+                  <div key={field} className="text-xs text-secondary break-all">
+                    {field}: {formatValue(change.before)} → {formatValue(change.after)}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PricingManager;
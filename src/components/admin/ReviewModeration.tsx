@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { MessageSquare, Check, X, RefreshCw, Star, BadgeCheck } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Textarea } from '../ui/textarea';
+import { toast } from 'sonner';
+import { reviewService } from '../../services/reviewService';
+import type { Review } from '../../types/firestore';
+
+const ReviewModeration: React.FC = () => {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [responses, setResponses] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [moderating, setModerating] = useState<string | null>(null);
+
+  const loadQueue = async () => {
+    try {
+      setLoading(true);
+      setReviews(await reviewService.getPendingReviews());
+    } catch (error: any) {
+      console.error('Error loading review queue:', error);
+      toast.error(error?.message || 'Failed to load the review queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const moderate = async (review: Review, status: 'approved' | 'rejected') => {
+    try {
+      setModerating(review.id);
+      await reviewService.moderateReview(review.id, status, responses[review.id]?.trim());
+      setReviews(prev => prev.filter(r => r.id !== review.id));
+      toast.success(status === 'approved' ? 'Review approved, package rating updated' : 'Review rejected');
+    } catch (error: any) {
+      console.error('Error moderating review:', error);
+      toast.error(error?.message || 'Failed to moderate review');
+    } finally {
+      setModerating(null);
+    }
+  };
+
+  if (loading) {
+    return <div className="p-6 text-secondary">Loading review queue...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-primary">
+          <MessageSquare className="w-5 h-5 text-[#d4af37]" />
+          Moderation Queue ({reviews.length})
+        </h3>
+        <Button variant="outline" className="rounded-xl" onClick={loadQueue}>
+          <RefreshCw className="w-4 h-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      {reviews.length === 0 ? (
+        <div className="p-6 text-secondary">No reviews waiting for moderation.</div>
+      ) : (
+        reviews.map(review => (
+          <div key={review.id} className="p-4 glass-card rounded-xl border border-white/10 space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-primary">{review.title}</span>
+                  {review.verified && <BadgeCheck className="w-4 h-4 text-green-400" />}
+                </div>
+                <div className="text-xs text-secondary">
+                  {review.authorName || review.userId} · package {review.packageId} · {review.createdAt.toDate().toLocaleDateString('tr-TR')}
+                </div>
+              </div>
+              <div className="flex items-center gap-0.5">
+                {[1, 2, 3, 4, 5].map(value => (
+                  <Star key={value} className={`w-4 h-4 ${value <= review.rating ? 'text-yellow-400 fill-current' : 'text-white/20'}`} />
+                ))}
+              </div>
+            </div>
+
+            <p className="text-sm text-primary whitespace-pre-line">{review.content}</p>
+            {(review.pros.length > 0 || review.cons.length > 0) && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs">
+                <ul className="text-green-400 space-y-1">
+                  {review.pros.map((pro, index) => <li key={index}>+ {pro}</li>)}
+                </ul>
+                <ul className="text-red-400 space-y-1">
+                  {review.cons.map((con, index) => <li key={index}>− {con}</li>)}
+                </ul>
+              </div>
+            )}
+
+            <Textarea
+              placeholder="Optional public response"
+              value={responses[review.id] || ''}
+              onChange={(e) => setResponses(prev => ({ ...prev, [review.id]: e.target.value }))}
+              className="text-sm"
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                className="rounded-xl"
+                disabled={moderating === review.id}
+                onClick={() => moderate(review, 'rejected')}
+              >
+                <X className="w-4 h-4 mr-2" />
+                Reject
+              </Button>
+              <Button
+                className="rounded-xl"
+                disabled={moderating === review.id}
+                onClick={() => moderate(review, 'approved')}
+              >
+                <Check className="w-4 h-4 mr-2" />
+                Approve
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default ReviewModeration;
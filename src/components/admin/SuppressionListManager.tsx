@@ -0,0 +1,184 @@
+import React, { useState, useEffect } from 'react';
+import { Ban, Plus, Save, X, Trash2, Download } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { toast } from 'sonner';
+import {
+  consentService,
+  SuppressionEntry,
+  SuppressionReason,
+  SuppressionScope
+} from '../../services/consentService';
+
+const REASONS: SuppressionReason[] = ['manual', 'complaint', 'hard_bounce', 'unsubscribe'];
+
+interface Draft {
+  address: string;
+  reason: SuppressionReason;
+  scope: SuppressionScope;
+  note: string;
+}
+
+const emptyDraft = (): Draft => ({ address: '', reason: 'manual', scope: 'marketing', note: '' });
+
+const SuppressionListManager: React.FC = () => {
+  const [entries, setEntries] = useState<SuppressionEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [exportUserId, setExportUserId] = useState('');
+
+  const loadEntries = async () => {
+    try {
+      setLoading(true);
+      setEntries(await consentService.listSuppressions());
+    } catch (error: any) {
+      console.error('Error loading suppression list:', error);
+      toast.error(error?.message || 'Failed to load suppression list');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, []);
+
+  const addEntry = async () => {
+    if (!draft) return;
+    if (draft.address.trim().length < 5) {
+      toast.error('Enter an email address or phone number');
+      return;
+    }
+    try {
+      setBusy('create');
+      await consentService.suppressAddress(draft.address.trim(), draft.reason, draft.scope, draft.note.trim());
+      toast.success('Address suppressed');
+      setDraft(null);
+      await loadEntries();
+    } catch (error: any) {
+      console.error('Error suppressing address:', error);
+      toast.error(error?.message || 'Failed to suppress address');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const removeEntry = async (entry: SuppressionEntry) => {
+    if (!confirm(`Allow messages to ${entry.maskedAddress} again?`)) return;
+    try {
+      setBusy(entry.id);
+      await consentService.removeSuppression(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (error: any) {
+      console.error('Error removing suppression:', error);
+      toast.error(error?.message || 'Failed to remove suppression');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const exportConsent = async () => {
+    if (!exportUserId.trim()) return;
+    try {
+      setBusy('export');
+      const data = await consentService.exportHistory(exportUserId.trim());
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `consent-${data.userId}-${data.exportedAt.slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Error exporting consent history:', error);
+      toast.error(error?.message || 'Failed to export consent history');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-primary">
+          <Ban className="w-5 h-5 text-[#d4af37]" />
+          Suppression List ({entries.length})
+        </h3>
+        <Button className="rounded-xl" onClick={() => setDraft(draft ? null : emptyDraft())}>
+          <Plus className="w-4 h-4 mr-2" />
+          Suppress Address
+        </Button>
+      </div>
+
+      {draft && (
+        <div className="p-4 glass-card rounded-xl border border-white/10 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <Input placeholder="Email or phone number" value={draft.address} onChange={(e) => setDraft({ ...draft, address: e.target.value })} />
+            <Input placeholder="Note" value={draft.note} onChange={(e) => setDraft({ ...draft, note: e.target.value })} />
+            <Select value={draft.reason} onValueChange={(value) => setDraft({ ...draft, reason: value as SuppressionReason })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REASONS.map(reason => <SelectItem key={reason} value={reason}>{reason}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={draft.scope} onValueChange={(value) => setDraft({ ...draft, scope: value as SuppressionScope })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="marketing">Marketing only</SelectItem>
+                <SelectItem value="all">All messages (incl. transactional)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" className="rounded-xl" onClick={() => setDraft(null)}>
+              <X className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+            <Button className="rounded-xl" disabled={busy === 'create'} onClick={addEntry}>
+              <Save className="w-4 h-4 mr-2" />
+              Suppress
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="p-6 text-secondary">Loading suppression list...</div>
+      ) : entries.length === 0 ? (
+        <div className="p-6 text-secondary">No suppressed addresses.</div>
+      ) : (
+        entries.map(entry => (
+          <div key={entry.id} className="p-4 glass-card rounded-xl border border-white/10 flex items-center justify-between gap-4">
+            <div>
+              <div className="font-semibold text-primary">{entry.maskedAddress}</div>
+              <div className="text-xs text-secondary">
+                {entry.reason} · {entry.scope === 'all' ? 'all messages' : 'marketing only'} · {entry.createdAt.toLocaleDateString()} by {entry.createdBy}
+              </div>
+              {entry.note && <div className="text-sm text-secondary mt-1">{entry.note}</div>}
+            </div>
+            <Button variant="outline" className="rounded-xl" disabled={busy === entry.id} onClick={() => removeEntry(entry)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))
+      )}
+
+      <div className="p-4 glass-card rounded-xl border border-white/10 flex flex-col md:flex-row md:items-center gap-3">
+        <div className="text-sm text-secondary md:flex-1">Export a user's consent history (GDPR / KVKK request)</div>
+        <Input className="md:w-72" placeholder="User ID" value={exportUserId} onChange={(e) => setExportUserId(e.target.value)} />
+        <Button variant="outline" className="rounded-xl" disabled={busy === 'export' || !exportUserId.trim()} onClick={exportConsent}>
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SuppressionListManager;
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { X, CreditCard, Check, Crown, Heart, Star, Users, Shield, Sparkles } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { subscriptionService } from '../../services/subscriptionService';
 
 interface SubscriptionModalProps {
   isOpen: boolean;
@@ -71,29 +72,26 @@ const SubscriptionModal: React.FC<SubscriptionModalProps> = ({ isOpen, onClose }
         'You will be redirected to our exclusive Wedding Consultant experience.\n\nReady to start your wedding planning journey?'
       );
       
-      if (confirmed) {
-        toast({
-          title: "Welcome to Wedding Consultant! 💒",
-          description: "Redirecting you to your personal bridal experience...",
-        });
-        console.log('Redirecting to wedding consultant site...');
-        onClose();
-        return;
-      } else {
+      if (!confirmed) {
         return;
       }
     }
 
+    if (planId === 'free') {
+      await handleCancelSubscription();
+      return;
+    }
+
     setIsLoading(true);
     
     try {
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
+      // Plan is activated by the payment webhook after checkout, not here
+      const checkoutUrl = await subscriptionService.startCheckout(planId === 'wedding-consultant' ? 'pro_bride' : 'pro');
       toast({
-        title: "Subscription Updated!",
-        description: `Welcome to ${plans.find(p => p.id === planId)?.name}!`,
+        title: "Redirecting to checkout...",
+        description: `Complete your payment to unlock ${plans.find(p => p.id === planId)?.name}`,
       });
-      onClose();
+      window.location.href = checkoutUrl;
     } catch (error) {
       toast({
         title: "Error",
@@ -115,7 +113,7 @@ const SubscriptionModal: React.FC<SubscriptionModalProps> = ({ isOpen, onClose }
     setIsLoading(true);
     
     try {
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      await subscriptionService.cancelSubscription();
       
       toast({
         title: "Subscription Cancelled",
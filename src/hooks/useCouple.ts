@@ -0,0 +1,35 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { coupleService, type Couple, type SharedSpace } from '../services/coupleService';
+
+/**
+ * The signed-in user's couple, their partner and the space their favorites and plans are saved in.
+ */
+export const useCouple = () => {
+  const { user } = useAuth();
+  const [couple, setCouple] = useState<Couple | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setCouple(null);
+    if (!user?.uid) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    return coupleService.subscribeToCouple(user.uid, (next) => {
+      setCouple(next);
+      setIsLoading(false);
+    });
+  }, [user?.uid]);
+
+  const partnerId = couple?.memberIds.find(id => id !== user?.uid);
+  const partner = partnerId ? { uid: partnerId, displayName: couple?.members[partnerId]?.displayName || 'Partner' } : null;
+
+  const space = useMemo<SharedSpace | null>(
+    () => (user?.uid ? coupleService.spaceFor(user.uid, couple?.id) : null),
+    [user?.uid, couple?.id]
+  );
+
+  return { couple, partner, space, isLinked: !!couple, isLoading };
+};
@@ -0,0 +1,31 @@
+import { useEffect, useState, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { currencyService } from '../services/currencyService';
+import { formatMoney, toDisplayPrice, type DisplayPrice } from '../utils/currency';
+
+/**
+ * Prices in the user's display currency from settings, converted with the stored FX rates.
+ */
+export const useCurrency = () => {
+  const { user } = useAuth();
+  const [displayCurrency, setDisplayCurrency] = useState(currencyService.getDisplayCurrency());
+  const [rates, setRates] = useState(currencyService.getRates());
+
+  useEffect(() => {
+    return currencyService.subscribe(() => {
+      setDisplayCurrency(currencyService.getDisplayCurrency());
+      setRates(currencyService.getRates());
+    });
+  }, []);
+
+  useEffect(() => {
+    currencyService.loadPreference(user?.uid ?? null);
+  }, [user?.uid]);
+
+  const displayPrice = useCallback(
+    (amount: number, currency: string = 'USD'): DisplayPrice => toDisplayPrice(amount, currency, displayCurrency, rates),
+    [displayCurrency, rates]
+  );
+
+  return { displayCurrency, rates, displayPrice, formatMoney };
+};
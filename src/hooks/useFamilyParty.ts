@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { familyPlannerService } from '../services/familyPlannerService';
+
+/**
+ * The active family party, null while planning a honeymoon.
+ */
+export const useFamilyParty = () => {
+  const [party, setParty] = useState(familyPlannerService.getActiveParty());
+
+  useEffect(() => {
+    return familyPlannerService.subscribe(() => setParty(familyPlannerService.getActiveParty()));
+  }, []);
+
+  return {
+    party,
+    isFamilyMode: !!party,
+    setParty: (next: Parameters<typeof familyPlannerService.setActiveParty>[0]) => familyPlannerService.setActiveParty(next),
+    clearParty: () => familyPlannerService.clearActiveParty()
+  };
+};
@@ -24,6 +24,12 @@ import AnalyticsDashboard from '../components/admin/AnalyticsDashboard';
 import UserManagement from '../components/admin/UserManagement';
 import UserProfileAnalytics from '../components/admin/UserProfileAnalytics';
 import AISystemsDashboard from '../components/admin/AISystemsDashboard';
+import ModelRegistryManager from '../components/admin/ModelRegistryManager';
+import BookingBalances from '../components/admin/BookingBalances';
+import ReviewModeration from '../components/admin/ReviewModeration';
+import ExperimentManager from '../components/admin/ExperimentManager';
+import CampaignManager from '../components/admin/CampaignManager';
+import PricingManager from '../components/admin/PricingManager';
 
 // Using Package interface from firestore types instead
 import { Package, CreatePackageData } from '../types/firestore';
@@ -37,6 +43,7 @@ const AdminDashboard: React.FC = () => {
   const [showForm, setShowForm] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [searchResults, setSearchResults] = useState<Package[] | null>(null);
   const [availabilityFilter, setAvailabilityFilter] = useState<string>('all');
   const [selectedPackages, setSelectedPackages] = useState<string[]>([]);
   const [sidebarOpen, setSidebarOpen] = useState(true);
@@ -86,18 +93,31 @@ const AdminDashboard: React.FC = () => {
   const [formData, setFormData] = useState(emptyPackage);
 
   // Always call all hooks before any conditional returns
+  // Hybrid search over the loaded list (drafts included), debounced while typing
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      packageService.searchPackages(searchTerm, { category: categoryFilter === 'all' ? undefined : categoryFilter }, packages)
+        .then(result => {
+          if (!cancelled) setSearchResults(result.hits.map(hit => hit.package));
+        })
+        .catch(error => console.error('Package search failed:', error));
+    }, searchTerm ? 300 : 0);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [packages, searchTerm, categoryFilter]);
+
   const filteredPackages = useMemo(() => {
-    return packages.filter(pkg => {
-      const matchesSearch = pkg.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           pkg.location.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesCategory = categoryFilter === 'all' || pkg.category === categoryFilter;
+    return (searchResults ?? packages).filter(pkg => {
       const matchesAvailability = availabilityFilter === 'all' || 
                                  (availabilityFilter === 'available' && pkg.availability) ||
                                  (availabilityFilter === 'unavailable' && !pkg.availability);
       
-      return matchesSearch && matchesCategory && matchesAvailability;
+      return matchesAvailability;
     });
-  }, [packages, searchTerm, categoryFilter, availabilityFilter]);
+  }, [packages, searchResults, availabilityFilter]);
 
   useEffect(() => {
     if (isAdmin && !adminLoading) {
@@ -287,6 +307,11 @@ const AdminDashboard: React.FC = () => {
     { id: 'analytics', label: 'Analytics', icon: TrendingUp },
     { id: 'ai-systems', label: 'AI Systems', icon: Bot },
     { id: 'packages', label: 'Packages', icon: PackageIcon },
+    { id: 'bookings', label: 'Bookings', icon: DollarSign },
+    { id: 'pricing', label: 'Pricing', icon: TrendingUp },
+    { id: 'reviews', label: 'Reviews', icon: Star },
+    { id: 'experiments', label: 'Experiments', icon: Activity },
+    { id: 'campaigns', label: 'Campaigns', icon: Bell },
     { id: 'users', label: 'Users', icon: Users },
     { id: 'test-center', label: 'Test Center', icon: Settings },
     { id: 'settings', label: 'Settings', icon: Settings },
@@ -511,6 +536,11 @@ const AdminDashboard: React.FC = () => {
                   {activeTab === 'analytics' && '📈 Deep insights and performance metrics'}
                   {activeTab === 'ai-systems' && '🤖 Advanced AI engine monitoring and control'}
                   {activeTab === 'packages' && '📦 Comprehensive honeymoon package management'}
+                  {activeTab === 'bookings' && '💳 Payment schedules and outstanding balances'}
+                  {activeTab === 'pricing' && '💰 Dynamic pricing strategies, guardrails and audit log'}
+                  {activeTab === 'reviews' && '⭐ Review moderation queue'}
+                  {activeTab === 'experiments' && '🧪 A/B experiments and significance reports'}
+                  {activeTab === 'campaigns' && '📣 Marketing campaigns and automation rules'}
                   {activeTab === 'users' && '👥 Advanced user management and analytics'}
                   {activeTab === 'settings' && '⚙️ System configuration and preferences'}
                 </p>
@@ -737,6 +767,61 @@ const AdminDashboard: React.FC = () => {
               </motion.div>
             )}
 
+            {activeTab === 'bookings' && (
+              <motion.div
+                key="bookings"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+              >
+                <BookingBalances />
+              </motion.div>
+            )}
+
+            {activeTab === 'pricing' && (
+              <motion.div
+                key="pricing"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+              >
+                <PricingManager />
+              </motion.div>
+            )}
+
+            {activeTab === 'reviews' && (
+              <motion.div
+                key="reviews"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+              >
+                <ReviewModeration />
+              </motion.div>
+            )}
+
+            {activeTab === 'experiments' && (
+              <motion.div
+                key="experiments"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+              >
+                <ExperimentManager />
+              </motion.div>
+            )}
+
+            {activeTab === 'campaigns' && (
+              <motion.div
+                key="campaigns"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+              >
+                <CampaignManager />
+              </motion.div>
+            )}
+
             {activeTab === 'ai-systems' && (
               <motion.div
                 key="ai-systems"
@@ -809,7 +894,7 @@ const AdminDashboard: React.FC = () => {
                     <div className="flex flex-wrap gap-4 mb-6">
                       <div className="flex-1 min-w-64">
                         <Input
-                          placeholder="Search packages..."
+                          placeholder="Search packages (e.g. cappadocia, sunset villa)..."
                           value={searchTerm}
                           onChange={(e) => setSearchTerm(e.target.value)}
                           className="glass-card border-white/10 focus:border-[#d4af37]/50 bg-transparent backdrop-blur-xl"
@@ -1243,6 +1328,9 @@ const AdminDashboard: React.FC = () => {
                       </div>
                     </div>
 
+                    {/* AI Model Registry */}
+                    <ModelRegistryManager />
+
                     {/* API Settings */}
                     <div className="space-y-4">
                       <h3 className="text-lg font-semibold text-primary">API & Integration Settings</h3>
@@ -1,78 +1,205 @@
-import { ArrowLeft, Bot, Lightbulb, Heart, Sparkles } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { ArrowLeft, Lightbulb, LifeBuoy, Loader2, Send, ShieldCheck, Trash2 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { adviceService, type AdviceEscalation, type AdviceMessage } from "../services/adviceService";
+
+const STARTER_QUESTIONS = [
+  "We keep arguing about wedding planning, how do we stop?",
+  "How do we split chores fairly after moving in together?",
+  "My partner and I want different things from our honeymoon",
+  "How can we keep date nights alive with busy jobs?"
+];
+
+const EscalationCard = ({ escalation }: { escalation: AdviceEscalation }) => (
+  <div className="rounded-2xl border border-red-400/40 bg-red-500/10 p-4 space-y-3">
+    <div className="flex items-start gap-2">
+      <LifeBuoy className="w-5 h-5 text-red-300 shrink-0 mt-0.5" />
+      <p className="text-sm text-white leading-relaxed">{escalation.message}</p>
+    </div>
+    <ul className="space-y-2">
+      {escalation.resources.map(resource => (
+        <li key={resource.name} className="rounded-xl bg-white/5 border border-white/10 px-3 py-2">
+          <div className="text-sm font-medium text-white">{resource.contact}</div>
+          <div className="text-xs text-gray-400">{resource.name} · {resource.region}</div>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
 
 const Advice = () => {
   const navigate = useNavigate();
+  const [messages, setMessages] = useState<AdviceMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    adviceService.getHistory()
+      .then(setMessages)
+      .catch(error => console.error('Advice history could not be loaded:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, isSending]);
+
+  const send = async (text: string) => {
+    const message = text.trim();
+    if (!message || isSending) return;
+
+    const pending: AdviceMessage = { id: `pending-${Date.now()}`, role: 'user', text: message, createdAt: new Date() };
+    setMessages(current => [...current, pending]);
+    setInput('');
+    setIsSending(true);
+    try {
+      const reply = await adviceService.sendMessage(message);
+      setMessages(current => [...current, reply]);
+    } catch (error: any) {
+      setMessages(current => current.filter(m => m.id !== pending.id));
+      setInput(message);
+      toast.error(error?.code === 'functions/resource-exhausted' ? error.message : 'Advice is unavailable right now, please try again');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const clearHistory = async () => {
+    if (!window.confirm('Delete your whole advice conversation?')) return;
+    try {
+      await adviceService.clearHistory();
+      setMessages([]);
+      toast.success('Advice conversation deleted');
+    } catch (error) {
+      console.error('Advice history could not be deleted:', error);
+      toast.error('Could not delete the conversation');
+    }
+  };
 
   return (
-    <div className="min-h-screen bg-[#1f1f1f] text-white font-gemini">
+    <div className="min-h-screen bg-[#1f1f1f] text-white font-gemini flex flex-col">
       {/* Header */}
-      <div className="sticky top-0 z-10 border-b border-gray-700 sidebar-header-glow">
+      <div className="sticky top-0 z-10 border-b border-gray-700 sidebar-header-glow bg-[#1f1f1f]">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 py-4">
           <div className="flex items-center gap-3 sm:gap-4">
-            <button 
+            <button
               onClick={() => navigate('/')}
               className="p-3 rounded-xl hover:bg-white/10 sidebar-glow transition-all duration-200 hover:scale-105 min-h-[44px] min-w-[44px] flex items-center justify-center"
             >
               <ArrowLeft className="w-5 h-5 text-white/60 hover:text-white/90" />
             </button>
-            <div className="flex items-center gap-2 sm:gap-3">
+            <div className="flex items-center gap-2 sm:gap-3 flex-1">
               <div className="w-10 h-10 sm:w-12 sm:h-12 rounded-2xl bg-purple-gradient flex items-center justify-center shadow-lg sidebar-icon-glow">
                 <Lightbulb className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
               </div>
               <div>
                 <h1 className="text-lg sm:text-xl font-bold bg-gradient-to-r from-purple-400 to-purple-600 bg-clip-text text-transparent glow-text">
-                  Expert Advice
+                  Relationship Advice
                 </h1>
-                <p className="text-xs sm:text-sm text-gray-400">Travel Tips & Guidance</p>
+                <p className="text-xs sm:text-sm text-gray-400">Private, separate from your travel chat</p>
               </div>
             </div>
+            {messages.length > 0 && (
+              <button
+                onClick={clearHistory}
+                title="Delete conversation"
+                className="p-3 rounded-xl hover:bg-white/10 transition-all duration-200 min-h-[44px] min-w-[44px] flex items-center justify-center"
+              >
+                <Trash2 className="w-5 h-5 text-white/60 hover:text-white/90" />
+              </button>
+            )}
           </div>
         </div>
       </div>
 
-      {/* Main Content */}
-      <div className="flex-1 flex items-center justify-center p-6">
-        <div className="max-w-md w-full">
-          <div className="glass-card rounded-2xl p-8 backdrop-blur-xl border border-white/10 sidebar-glow text-center">
-            <div className="w-20 h-20 mx-auto mb-6 rounded-2xl bg-purple-gradient flex items-center justify-center shadow-lg sidebar-icon-glow gentle-floating">
-              <Lightbulb className="w-10 h-10 text-white" />
+      {/* Conversation */}
+      <div className="flex-1 max-w-4xl w-full mx-auto px-4 sm:px-6 py-6 space-y-4">
+        <div className="flex items-start gap-2 text-xs text-gray-400">
+          <ShieldCheck className="w-4 h-4 text-purple-300 shrink-0" />
+          <span>
+            Advice chats are never used for offers, marketing or profiling. This is coaching, not therapy: if you or someone
+            else is in danger, contact your local emergency number.
+          </span>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-purple-300" />
+          </div>
+        ) : messages.length === 0 ? (
+          <div className="glass-card rounded-2xl p-6 backdrop-blur-xl border border-white/10 sidebar-glow space-y-4">
+            <h2 className="text-lg font-semibold text-white">What's on your mind?</h2>
+            <div className="grid sm:grid-cols-2 gap-3">
+              {STARTER_QUESTIONS.map(question => (
+                <button
+                  key={question}
+                  onClick={() => send(question)}
+                  className="text-left text-sm p-3 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 transition-all"
+                >
+                  {question}
+                </button>
+              ))}
             </div>
-            
-            <h2 className="text-3xl font-semibold text-white mb-4 glow-text">
-              Travel Expert Advice
-            </h2>
-            
-            <p className="text-gray-400 mb-8 leading-relaxed">
-              Our relationship and travel experts are preparing comprehensive guides for the perfect honeymoon. Get professional insights soon!
-            </p>
-            
-            <div className="flex flex-col gap-4">
-              <button 
-                onClick={() => navigate('/')}
-                className="px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white rounded-xl font-medium transition-all duration-300 flex items-center justify-center gap-2 shadow-lg hover:shadow-xl transform hover:scale-105 luxury-button gentle-floating"
-              >
-                <Bot className="w-5 h-5" />
-                Get AI Advice Now
-              </button>
-              
-              <button 
-                onClick={() => navigate('/settings')}
-                className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium transition-all duration-300 flex items-center justify-center gap-2 border border-white/20 luxury-button sidebar-glow"
-              >
-                <Heart className="w-5 h-5" />
-                Subscribe for Updates
-              </button>
+          </div>
+        ) : (
+          messages.map(message => (
+            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              {message.escalation ? (
+                <div className="max-w-[85%]"><EscalationCard escalation={message.escalation} /></div>
+              ) : (
+                <div className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm leading-relaxed whitespace-pre-wrap ${
+                  message.role === 'user'
+                    ? 'bg-gradient-to-r from-pink-500/80 to-purple-600/80 text-white'
+                    : 'glass-card border border-white/10 text-gray-100'
+                }`}>
+                  {message.text}
+                </div>
+              )}
             </div>
+          ))
+        )}
 
-            <div className="mt-8">
-              <div className="inline-flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-full border border-purple-500/30 sidebar-glow">
-                <Sparkles className="w-4 h-4 text-purple-400" />
-                <span className="text-sm text-purple-300 glow-text">Expert content coming</span>
-              </div>
+        {isSending && (
+          <div className="flex justify-start">
+            <div className="glass-card border border-white/10 rounded-2xl px-4 py-3">
+              <Loader2 className="w-4 h-4 animate-spin text-purple-300" />
             </div>
           </div>
-        </div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {/* Input */}
+      <div className="sticky bottom-0 border-t border-gray-700 bg-[#1f1f1f]">
+        <form
+          onSubmit={(e) => { e.preventDefault(); send(input); }}
+          className="max-w-4xl mx-auto px-4 sm:px-6 py-4 flex items-end gap-3"
+        >
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                send(input);
+              }
+            }}
+            rows={1}
+            maxLength={2000}
+            placeholder="Ask for relationship advice..."
+            className="flex-1 resize-none px-4 py-3 rounded-xl bg-white/10 border border-white/20 text-white placeholder-gray-400 focus:outline-none focus:border-purple-400"
+          />
+          <button
+            type="submit"
+            disabled={!input.trim() || isSending}
+            className="p-3 rounded-xl bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 disabled:opacity-50 transition-all min-h-[48px] min-w-[48px] flex items-center justify-center"
+          >
+            <Send className="w-5 h-5" />
+          </button>
+        </form>
       </div>
     </div>
   );
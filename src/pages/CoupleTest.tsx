@@ -1,8 +1,402 @@
-import { ArrowLeft, Bot, Users2, Heart, Sparkles } from "lucide-react";
+import { useEffect, useState } from "react";
+import { ArrowLeft, Bot, Users2, Heart, Sparkles, Smartphone, Repeat, Download, Loader2, MapPin, RotateCcw } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { useAuth } from "../contexts/AuthContext";
+import { useCouple } from "../hooks/useCouple";
+import { useCurrency } from "../hooks/useCurrency";
+import { COMPATIBILITY_MAX_POINTS, type CompatibilityBreakdown } from "../services/personalityService";
+import { coupleTestService, PASS_AND_PLAY_SLOTS, type CoupleTest as CoupleTestDoc, type CoupleTestMode, type CoupleTestResult } from "../services/coupleTestService";
+import { COUPLE_TEST_QUESTIONS, isCoupleTestComplete, type CoupleTestAnswers } from "../utils/couple-test";
+
+const FACTOR_LABELS: Record<keyof CompatibilityBreakdown, string> = {
+  budget: "Budget",
+  travelStyle: "Travel style",
+  energy: "Energy",
+  priority: "Priorities",
+  personality: "Personality",
+  duration: "Trip length"
+};
+
+const optionLabel = (questionId: string, optionId?: string) =>
+  COUPLE_TEST_QUESTIONS.find(question => question.id === questionId)?.options.find(option => option.id === optionId)?.label || "-";
+
+// The answer each factor is compared on, to show both partners' choices side by side
+const FACTOR_QUESTIONS: Partial<Record<keyof CompatibilityBreakdown, string>> = {
+  budget: "budget",
+  travelStyle: "vision",
+  energy: "energy",
+  priority: "priority",
+  duration: "duration"
+};
 
 const CoupleTest = () => {
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const { partner, space, isLinked, isLoading: isCoupleLoading } = useCouple();
+  const { displayPrice, formatMoney } = useCurrency();
+  const [test, setTest] = useState<CoupleTestDoc | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [showIntro, setShowIntro] = useState(false);
+  const [step, setStep] = useState(0);
+  const [answers, setAnswers] = useState<CoupleTestAnswers>({});
+  const [turnName, setTurnName] = useState("");
+  const [turnStarted, setTurnStarted] = useState(false);
+
+  useEffect(() => {
+    if (!space) return;
+    setIsLoading(true);
+    return coupleTestService.subscribe(space, (next) => {
+      setTest(next);
+      setIsLoading(false);
+    });
+  }, [space]);
+
+  const myName = user?.displayName || user?.email?.split("@")[0] || "Me";
+
+  // Whose turn it is: the signed-in partner for remote tests, the first unfinished seat for pass-and-play
+  const currentSlot = !test || test.result ? null
+    : test.mode === "remote"
+      ? (isCoupleTestComplete(test.partners[user?.uid || ""]?.answers) ? null : user?.uid || null)
+      : PASS_AND_PLAY_SLOTS.find(slot => !isCoupleTestComplete(test.partners[slot]?.answers)) || null;
+  const bothFinished = !!coupleTestService.finishedPartners(test);
+
+  useEffect(() => {
+    setStep(0);
+    setAnswers({});
+    setTurnStarted(test?.mode === "remote");
+    setTurnName(currentSlot === "partner2" ? (partner?.displayName || "") : myName);
+  }, [currentSlot, test?.mode, partner?.displayName, myName]);
+
+  const handleStart = async (mode: CoupleTestMode) => {
+    if (!space || !user) return;
+    try {
+      setIsWorking(true);
+      await coupleTestService.startTest(space, mode, user.uid);
+      setShowIntro(false);
+    } catch (error: any) {
+      console.error("Error starting couple test:", error);
+      toast.error(error?.message || "Could not start the test");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const computeResult = async (latest: CoupleTestDoc) => {
+    if (!space || !user) return;
+    try {
+      setIsWorking(true);
+      await coupleTestService.computeResult(space, latest, user.uid);
+    } catch (error: any) {
+      console.error("Error computing couple test result:", error);
+      toast.error(error?.message || "Could not calculate your results");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleAnswer = async (optionId: string) => {
+    const question = COUPLE_TEST_QUESTIONS[step];
+    const nextAnswers = { ...answers, [question.id]: optionId };
+    setAnswers(nextAnswers);
+    if (step < COUPLE_TEST_QUESTIONS.length - 1) {
+      setStep(step + 1);
+      return;
+    }
+    if (!space || !test || !currentSlot || !user) return;
+
+    // In pass-and-play the second turn belongs to the linked partner, if there is one
+    const uid = test.mode === "remote" || currentSlot === "partner1" ? user.uid : partner?.uid;
+    const finished = {
+      name: test.mode === "remote" ? myName : turnName.trim() || (currentSlot === "partner1" ? "Partner 1" : "Partner 2"),
+      ...(uid ? { uid } : {}),
+      answers: nextAnswers
+    };
+    try {
+      setIsWorking(true);
+      await coupleTestService.saveAnswers(space, currentSlot, finished);
+    } catch (error: any) {
+      console.error("Error saving couple test answers:", error);
+      toast.error(error?.message || "Could not save your answers");
+      setIsWorking(false);
+      return;
+    }
+    setIsWorking(false);
+
+    const latest: CoupleTestDoc = { ...test, partners: { ...test.partners, [currentSlot]: finished } };
+    if (coupleTestService.finishedPartners(latest)) {
+      await computeResult(latest);
+    }
+  };
+
+  const handleExport = async (result: CoupleTestResult) => {
+    try {
+      const { exportCoupleTestToPDF } = await import("../utils/pdf-export");
+      await exportCoupleTestToPDF({
+        partnerNames: result.partnerNames,
+        score: result.score,
+        breakdown: (Object.keys(FACTOR_LABELS) as (keyof CompatibilityBreakdown)[]).map(factor => ({
+          label: FACTOR_LABELS[factor],
+          points: result.breakdown[factor],
+          max: COMPATIBILITY_MAX_POINTS[factor]
+        })),
+        destinations: result.compromiseDestinations.map(destination => ({
+          title: destination.title,
+          location: destination.location,
+          price: formatMoney(destination.price, destination.currency),
+          reasons: destination.reasons
+        })),
+        tips: [...result.relationshipStrengtheners, ...result.communicationTips]
+      });
+    } catch (error) {
+      console.error("Error exporting couple test:", error);
+      toast.error("Could not export your results");
+    }
+  };
+
+  const renderIntro = () => (
+    <div className="glass-card rounded-2xl p-8 backdrop-blur-xl border border-white/10 sidebar-glow text-center">
+      <div className="w-20 h-20 mx-auto mb-6 rounded-2xl bg-purple-gradient flex items-center justify-center shadow-lg sidebar-icon-glow gentle-floating">
+        <Users2 className="w-10 h-10 text-white" />
+      </div>
+
+      <h2 className="text-3xl font-semibold text-white mb-4 glow-text">
+        Couple Compatibility Test
+      </h2>
+
+      <p className="text-gray-400 mb-8 leading-relaxed">
+        Five quick questions each. See where your travel wishes line up, where they differ, and which honeymoons work for both of you.
+      </p>
+
+      <div className="flex flex-col gap-4">
+        <button
+          onClick={() => handleStart("remote")}
+          disabled={!isLinked || isWorking}
+          className="px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white rounded-xl font-medium transition-all duration-300 flex items-center justify-center gap-2 shadow-lg hover:shadow-xl luxury-button disabled:opacity-50"
+        >
+          <Smartphone className="w-5 h-5" />
+          Each on our own phone
+        </button>
+        {!isLinked && (
+          <button onClick={() => navigate("/settings")} className="text-xs text-purple-300 hover:text-purple-200">
+            Link with your partner in Settings to answer separately
+          </button>
+        )}
+
+        <button
+          onClick={() => handleStart("pass_and_play")}
+          disabled={isWorking}
+          className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium transition-all duration-300 flex items-center justify-center gap-2 border border-white/20 luxury-button sidebar-glow disabled:opacity-50"
+        >
+          <Repeat className="w-5 h-5" />
+          Take turns on this device
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderHandover = () => (
+    <div className="glass-card rounded-2xl p-8 backdrop-blur-xl border border-white/10 sidebar-glow text-center space-y-6">
+      <Heart className="w-10 h-10 mx-auto text-pink-400" />
+      <h2 className="text-2xl font-semibold text-white">
+        {currentSlot === "partner1" ? "Who goes first?" : "Now hand the device to your partner"}
+      </h2>
+      <input
+        value={turnName}
+        onChange={(e) => setTurnName(e.target.value)}
+        placeholder="Name"
+        className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white text-center"
+      />
+      <button
+        onClick={() => setTurnStarted(true)}
+        disabled={!turnName.trim()}
+        className="w-full px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-xl font-medium disabled:opacity-50"
+      >
+        Start
+      </button>
+    </div>
+  );
+
+  const renderQuestion = () => {
+    const question = COUPLE_TEST_QUESTIONS[step];
+    return (
+      <div className="glass-card rounded-2xl p-6 sm:p-8 backdrop-blur-xl border border-white/10 sidebar-glow space-y-6">
+        <div className="flex items-center justify-between text-sm text-gray-400">
+          <span>{test?.mode === "remote" ? myName : turnName}</span>
+          <span>Question {step + 1} / {COUPLE_TEST_QUESTIONS.length}</span>
+        </div>
+        <div className="h-1 bg-white/10 rounded">
+          <div className="h-1 bg-purple-500 rounded transition-all" style={{ width: `${((step + 1) / COUPLE_TEST_QUESTIONS.length) * 100}%` }} />
+        </div>
+        <h2 className="text-xl font-semibold text-white">{question.title}</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {question.options.map(option => (
+            <button
+              key={option.id}
+              onClick={() => handleAnswer(option.id)}
+              disabled={isWorking}
+              className={`p-4 rounded-xl border text-left transition-all ${
+                answers[question.id] === option.id
+                  ? "bg-purple-500/20 border-purple-500/50"
+                  : "bg-white/5 border-white/10 hover:bg-white/10"
+              }`}
+            >
+              <div className="text-2xl mb-2">{option.icon}</div>
+              <div className="font-medium text-white">{option.label}</div>
+              <div className="text-xs text-gray-400">{option.description}</div>
+            </button>
+          ))}
+        </div>
+        {step > 0 && (
+          <button onClick={() => setStep(step - 1)} className="text-sm text-gray-400 hover:text-white">
+            Back
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const renderWaiting = () => (
+    <div className="glass-card rounded-2xl p-8 backdrop-blur-xl border border-white/10 sidebar-glow text-center space-y-4">
+      {isWorking ? <Loader2 className="w-10 h-10 mx-auto text-purple-400 animate-spin" /> : <Heart className="w-10 h-10 mx-auto text-pink-400" />}
+      <h2 className="text-2xl font-semibold text-white">
+        {bothFinished ? "Calculating your results..." : `Waiting for ${partner?.displayName || "your partner"}`}
+      </h2>
+      {!bothFinished && (
+        <p className="text-gray-400">Your answers are saved. Results appear here for both of you as soon as your partner has answered.</p>
+      )}
+      {bothFinished && !isWorking && test && (
+        <button
+          onClick={() => computeResult(test)}
+          className="px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-xl font-medium"
+        >
+          Show results
+        </button>
+      )}
+    </div>
+  );
+
+  const renderResult = (result: CoupleTestResult) => {
+    const partners = test ? Object.values(test.partners) : [];
+    return (
+      <div className="space-y-6">
+        <div className="glass-card rounded-2xl p-8 backdrop-blur-xl border border-white/10 sidebar-glow text-center">
+          <p className="text-gray-400 mb-2">{result.partnerNames[0]} & {result.partnerNames[1]}</p>
+          <div className="text-6xl font-bold bg-gradient-to-r from-pink-400 to-purple-500 bg-clip-text text-transparent glow-text">
+            {result.score}%
+          </div>
+          <p className="text-gray-400 mt-2">travel compatibility</p>
+        </div>
+
+        <div className="glass-card rounded-2xl p-6 backdrop-blur-xl border border-white/10 sidebar-glow space-y-4">
+          <h3 className="text-lg font-semibold text-white">Where you line up</h3>
+          {(Object.keys(FACTOR_LABELS) as (keyof CompatibilityBreakdown)[]).map(factor => {
+            const questionId = FACTOR_QUESTIONS[factor];
+            return (
+              <div key={factor} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-white">{FACTOR_LABELS[factor]}</span>
+                  <span className="text-gray-400">{result.breakdown[factor]}/{COMPATIBILITY_MAX_POINTS[factor]}</span>
+                </div>
+                <div className="h-2 bg-white/10 rounded">
+                  <div
+                    className={`h-2 rounded ${result.breakdown[factor] === 0 ? "bg-pink-500/60" : "bg-purple-500"}`}
+                    style={{ width: `${Math.max(4, (result.breakdown[factor] / COMPATIBILITY_MAX_POINTS[factor]) * 100)}%` }}
+                  />
+                </div>
+                {questionId && partners.length >= 2 && (
+                  <p className="text-xs text-gray-400">
+                    {partners.slice(0, 2).map(p => `${p.name}: ${optionLabel(questionId, p.answers[questionId as keyof CoupleTestAnswers])}`).join(" · ")}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="glass-card rounded-2xl p-6 backdrop-blur-xl border border-white/10 sidebar-glow space-y-4">
+          <h3 className="text-lg font-semibold text-white">Honeymoons that work for both of you</h3>
+          {result.compromiseDestinations.length === 0 ? (
+            <p className="text-sm text-gray-400">No package fits you both yet. Ask the assistant to find a middle ground.</p>
+          ) : (
+            result.compromiseDestinations.map(destination => {
+              const price = displayPrice(destination.price, destination.currency);
+              return (
+                <button
+                  key={destination.packageId}
+                  onClick={() => navigate(`/package/${destination.packageId}`)}
+                  className="w-full text-left p-4 rounded-xl bg-white/5 border border-white/10 hover:bg-white/10 transition-all"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="font-medium text-white">{destination.title}</span>
+                    <span className="text-sm text-purple-300">{price.converted ? "≈ " : ""}{formatMoney(price.amount, price.currency)}</span>
+                  </div>
+                  <div className="flex items-center gap-1 text-xs text-gray-400 mt-1">
+                    <MapPin className="w-3 h-3" />
+                    {destination.location}
+                  </div>
+                  <ul className="mt-2 space-y-1">
+                    {destination.reasons.map(reason => (
+                      <li key={reason} className="text-xs text-gray-300">• {reason}</li>
+                    ))}
+                  </ul>
+                </button>
+              );
+            })
+          )}
+        </div>
+
+        {(result.relationshipStrengtheners.length > 0 || result.communicationTips.length > 0) && (
+          <div className="glass-card rounded-2xl p-6 backdrop-blur-xl border border-white/10 sidebar-glow space-y-2">
+            <h3 className="text-lg font-semibold text-white">Planning together</h3>
+            {[...result.relationshipStrengtheners, ...result.communicationTips].map(tip => (
+              <p key={tip} className="text-sm text-gray-300">• {tip}</p>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            onClick={() => navigate("/")}
+            className="flex-1 px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white rounded-xl font-medium flex items-center justify-center gap-2 luxury-button"
+          >
+            <Bot className="w-5 h-5" />
+            Plan with the assistant
+          </button>
+          <button
+            onClick={() => handleExport(result)}
+            className="flex-1 px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium flex items-center justify-center gap-2 border border-white/20"
+          >
+            <Download className="w-5 h-5" />
+            Export PDF
+          </button>
+          <button
+            onClick={() => setShowIntro(true)}
+            className="flex-1 px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium flex items-center justify-center gap-2 border border-white/20"
+          >
+            <RotateCcw className="w-5 h-5" />
+            Retake
+          </button>
+        </div>
+        <p className="text-xs text-center text-gray-500 flex items-center justify-center gap-1">
+          <Sparkles className="w-3 h-3" />
+          The assistant uses these results when suggesting trips
+        </p>
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    if (isLoading || isCoupleLoading) {
+      return <Loader2 className="w-8 h-8 mx-auto text-purple-400 animate-spin" />;
+    }
+    if (!test || showIntro) return renderIntro();
+    if (test.result) return renderResult(test.result);
+    if (!currentSlot) return renderWaiting();
+    if (!turnStarted) return renderHandover();
+    return renderQuestion();
+  };
 
   return (
     <div className="min-h-screen bg-[#1f1f1f] text-white font-gemini">
@@ -10,7 +404,7 @@ const CoupleTest = () => {
       <div className="sticky top-0 z-10 border-b border-gray-700 sidebar-header-glow">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 py-4">
           <div className="flex items-center gap-3 sm:gap-4">
-            <button 
+            <button
               onClick={() => navigate('/')}
               className="p-3 rounded-xl hover:bg-white/10 sidebar-glow transition-all duration-200 hover:scale-105 min-h-[44px] min-w-[44px] flex items-center justify-center"
             >
@@ -33,45 +427,8 @@ const CoupleTest = () => {
 
       {/* Main Content */}
       <div className="flex-1 flex items-center justify-center p-6">
-        <div className="max-w-md w-full">
-          <div className="glass-card rounded-2xl p-8 backdrop-blur-xl border border-white/10 sidebar-glow text-center">
-            <div className="w-20 h-20 mx-auto mb-6 rounded-2xl bg-purple-gradient flex items-center justify-center shadow-lg sidebar-icon-glow gentle-floating">
-              <Users2 className="w-10 h-10 text-white" />
-            </div>
-            
-            <h2 className="text-3xl font-semibold text-white mb-4 glow-text">
-              Couple Compatibility Test
-            </h2>
-            
-            <p className="text-gray-400 mb-8 leading-relaxed">
-              Discover your travel compatibility as a couple! Our AI-powered quiz will help you find honeymoon destinations that match both your personalities.
-            </p>
-            
-            <div className="flex flex-col gap-4">
-              <button 
-                onClick={() => navigate('/')}
-                className="px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white rounded-xl font-medium transition-all duration-300 flex items-center justify-center gap-2 shadow-lg hover:shadow-xl transform hover:scale-105 luxury-button gentle-floating"
-              >
-                <Bot className="w-5 h-5" />
-                Start AI Planning Instead
-              </button>
-              
-              <button 
-                onClick={() => navigate('/settings')}
-                className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium transition-all duration-300 flex items-center justify-center gap-2 border border-white/20 luxury-button sidebar-glow"
-              >
-                <Heart className="w-5 h-5" />
-                Take Test When Ready
-              </button>
-            </div>
-
-            <div className="mt-8">
-              <div className="inline-flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-full border border-purple-500/30 sidebar-glow">
-                <Sparkles className="w-4 h-4 text-purple-400" />
-                <span className="text-sm text-purple-300 glow-text">Interactive quiz coming</span>
-              </div>
-            </div>
-          </div>
+        <div className="max-w-xl w-full">
+          {renderContent()}
         </div>
       </div>
     </div>
@@ -1,8 +1,102 @@
-import { ArrowLeft, Bot, Users, Heart, Sparkles } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { ArrowLeft, Bot, Users, Heart, MapPin, Calendar, Minus, Plus, Baby } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { packageService } from "../services/packageService";
+import { useCurrency } from "../hooks/useCurrency";
+import { useFamilyParty } from "../hooks/useFamilyParty";
+import type { Package } from "../types/firestore";
+import {
+  describeParty,
+  filterPackagesForParty,
+  isValidParty,
+  MAX_CHILD_AGE,
+  MAX_PARTY_SIZE,
+  partySize,
+  type FamilyParty
+} from "../utils/family-party";
+
+const CHILD_AGES = Array.from({ length: MAX_CHILD_AGE + 1 }, (_, age) => age);
+
+interface StepperProps {
+  label: string;
+  value: number;
+  min: number;
+  canIncrease: boolean;
+  onChange: (value: number) => void;
+}
+
+const Stepper = ({ label, value, min, canIncrease, onChange }: StepperProps) => (
+  <div className="flex items-center justify-between">
+    <span className="text-white">{label}</span>
+    <div className="flex items-center gap-3">
+      <button
+        onClick={() => onChange(value - 1)}
+        disabled={value <= min}
+        className="p-2 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-30 transition-all"
+      >
+        <Minus className="w-4 h-4" />
+      </button>
+      <span className="w-6 text-center font-semibold">{value}</span>
+      <button
+        onClick={() => onChange(value + 1)}
+        disabled={!canIncrease}
+        className="p-2 rounded-lg bg-white/10 hover:bg-white/20 disabled:opacity-30 transition-all"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+    </div>
+  </div>
+);
 
 const FamilyHoliday = () => {
   const navigate = useNavigate();
+  const { party: activeParty, isFamilyMode, setParty, clearParty } = useFamilyParty();
+  const { displayPrice, formatMoney } = useCurrency();
+  const [draft, setDraft] = useState<FamilyParty>(activeParty ?? { adults: 2, childAges: [] });
+  const [packages, setPackages] = useState<Package[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    packageService.getPackages({ status: 'published', availability: true })
+      .then(result => { if (!cancelled) setPackages(result); })
+      .catch(error => console.error('Family packages could not be loaded:', error))
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const { suitable, excluded } = useMemo(() => filterPackagesForParty(packages, draft), [packages, draft]);
+  const canGrow = partySize(draft) < MAX_PARTY_SIZE;
+
+  const setChildCount = (count: number) => {
+    setDraft(current => ({
+      ...current,
+      childAges: count > current.childAges.length
+        ? [...current.childAges, 5]
+        : current.childAges.slice(0, count)
+    }));
+  };
+
+  const setChildAge = (index: number, age: number) => {
+    setDraft(current => ({ ...current, childAges: current.childAges.map((value, i) => (i === index ? age : value)) }));
+  };
+
+  const planWithAssistant = () => {
+    try {
+      setParty(draft);
+      toast.success(`Planning for ${describeParty(draft)}`);
+      navigate('/');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not start family planning');
+    }
+  };
+
+  const backToHoneymoon = () => {
+    clearParty();
+    setDraft({ adults: 2, childAges: [] });
+    navigate('/');
+  };
 
   return (
     <div className="min-h-screen bg-[#1f1f1f] text-white font-gemini">
@@ -10,7 +104,7 @@ const FamilyHoliday = () => {
       <div className="sticky top-0 z-10 border-b border-gray-700 sidebar-header-glow">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 py-4">
           <div className="flex items-center gap-3 sm:gap-4">
-            <button 
+            <button
               onClick={() => navigate('/')}
               className="p-3 rounded-xl hover:bg-white/10 sidebar-glow transition-all duration-200 hover:scale-105 min-h-[44px] min-w-[44px] flex items-center justify-center"
             >
@@ -24,7 +118,9 @@ const FamilyHoliday = () => {
                 <h1 className="text-lg sm:text-xl font-bold bg-gradient-to-r from-purple-400 to-purple-600 bg-clip-text text-transparent glow-text">
                   Family Holiday
                 </h1>
-                <p className="text-xs sm:text-sm text-gray-400">Coming Soon</p>
+                <p className="text-xs sm:text-sm text-gray-400">
+                  {isFamilyMode && activeParty ? `Planning for ${describeParty(activeParty)}` : 'Holidays that suit the whole family'}
+                </p>
               </div>
             </div>
           </div>
@@ -32,46 +128,113 @@ const FamilyHoliday = () => {
       </div>
 
       {/* Main Content */}
-      <div className="flex-1 flex items-center justify-center p-6">
-        <div className="max-w-md w-full">
-          <div className="glass-card rounded-2xl p-8 backdrop-blur-xl border border-white/10 sidebar-glow text-center">
-            <div className="w-20 h-20 mx-auto mb-6 rounded-2xl bg-purple-gradient flex items-center justify-center shadow-lg sidebar-icon-glow gentle-floating">
-              <Users className="w-10 h-10 text-white" />
-            </div>
-            
-            <h2 className="text-3xl font-semibold text-white mb-4 glow-text">
-              Family Holiday Planning
-            </h2>
-            
-            <p className="text-gray-400 mb-8 leading-relaxed">
-              We're working on amazing family vacation features. Soon you'll be able to plan perfect family getaways with AI assistance!
-            </p>
-            
-            <div className="flex flex-col gap-4">
-              <button 
-                onClick={() => navigate('/')}
-                className="px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white rounded-xl font-medium transition-all duration-300 flex items-center justify-center gap-2 shadow-lg hover:shadow-xl transform hover:scale-105 luxury-button gentle-floating"
-              >
-                <Bot className="w-5 h-5" />
-                Plan Your Honeymoon Instead
-              </button>
-              
-              <button 
-                onClick={() => navigate('/settings')}
-                className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium transition-all duration-300 flex items-center justify-center gap-2 border border-white/20 luxury-button sidebar-glow"
-              >
-                <Heart className="w-5 h-5" />
-                Back to Settings
-              </button>
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 py-6 space-y-6">
+        {/* Party */}
+        <div className="glass-card rounded-2xl p-6 backdrop-blur-xl border border-white/10 sidebar-glow space-y-4">
+          <h2 className="text-lg font-semibold text-white">Who's travelling?</h2>
+          <Stepper
+            label="Adults"
+            value={draft.adults}
+            min={1}
+            canIncrease={canGrow}
+            onChange={(adults) => setDraft(current => ({ ...current, adults }))}
+          />
+          <Stepper
+            label="Children"
+            value={draft.childAges.length}
+            min={0}
+            canIncrease={canGrow}
+            onChange={setChildCount}
+          />
+          {draft.childAges.length > 0 && (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {draft.childAges.map((age, index) => (
+                <label key={index} className="flex flex-col gap-1 text-xs text-gray-400">
+                  <span className="flex items-center gap-1"><Baby className="w-3 h-3" />Child {index + 1} age</span>
+                  <select
+                    value={age}
+                    onChange={(e) => setChildAge(index, Number(e.target.value))}
+                    className="px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white text-sm"
+                  >
+                    {CHILD_AGES.map(value => (
+                      <option key={value} value={value} className="bg-[#1f1f1f]">{value === 0 ? 'Under 1' : value}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
             </div>
+          )}
+          <p className="text-xs text-gray-400">Up to {MAX_PARTY_SIZE} travellers. Children's ages decide which packages and activities fit.</p>
+        </div>
 
-            <div className="mt-8">
-              <div className="inline-flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-full border border-purple-500/30 sidebar-glow">
-                <Sparkles className="w-4 h-4 text-purple-400" />
-                <span className="text-sm text-purple-300 glow-text">Feature in development</span>
-              </div>
+        <div className="flex flex-col sm:flex-row gap-4">
+          <button
+            onClick={planWithAssistant}
+            disabled={!isValidParty(draft)}
+            className="flex-1 px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white rounded-xl font-medium transition-all duration-300 flex items-center justify-center gap-2 shadow-lg hover:shadow-xl luxury-button disabled:opacity-50"
+          >
+            <Bot className="w-5 h-5" />
+            Plan with the assistant
+          </button>
+          {isFamilyMode && (
+            <button
+              onClick={backToHoneymoon}
+              className="flex-1 px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium transition-all duration-300 flex items-center justify-center gap-2 border border-white/20 luxury-button sidebar-glow"
+            >
+              <Heart className="w-5 h-5" />
+              Back to honeymoon planning
+            </button>
+          )}
+        </div>
+
+        {/* Packages */}
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold text-white">
+            {isLoading ? 'Finding packages...' : `${suitable.length} packages suit ${describeParty(draft)}`}
+          </h2>
+          {!isLoading && suitable.length === 0 && (
+            <div className="glass-card rounded-2xl p-6 border border-white/10 text-center text-gray-400">
+              No package fits this party yet. Ask the assistant to plan something for your family.
             </div>
+          )}
+          <div className="grid sm:grid-cols-2 gap-4">
+            {suitable.map(pkg => {
+              const price = displayPrice(pkg.price, pkg.currency);
+              return (
+                <button
+                  key={pkg.id}
+                  onClick={() => navigate(`/package/${pkg.id}`)}
+                  className="glass-card rounded-2xl overflow-hidden border border-white/10 sidebar-glow text-left transition-all duration-200 hover:scale-[1.02]"
+                >
+                  {pkg.images?.[0] && (
+                    <img src={pkg.images[0].url} alt={pkg.images[0].caption || pkg.title} className="w-full h-40 object-cover" />
+                  )}
+                  <div className="p-4 space-y-2">
+                    <h3 className="font-semibold text-white">{pkg.title}</h3>
+                    <div className="flex items-center gap-3 text-xs text-gray-400">
+                      <span className="flex items-center gap-1"><MapPin className="w-3 h-3" />{pkg.location}, {pkg.country}</span>
+                      <span className="flex items-center gap-1"><Calendar className="w-3 h-3" />{pkg.duration} days</span>
+                    </div>
+                    <span className="text-purple-300 font-semibold">
+                      {price.converted ? "≈ " : ""}{formatMoney(price.amount, price.currency)}
+                    </span>
+                  </div>
+                </button>
+              );
+            })}
           </div>
+
+          {excluded.length > 0 && (
+            <div className="glass-card rounded-2xl p-6 border border-white/10 space-y-2">
+              <h3 className="text-sm font-semibold text-gray-300">Not suitable for this party</h3>
+              {excluded.map(({ package: pkg, message }) => (
+                <div key={pkg.id} className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-gray-400">{pkg.title}</span>
+                  <span className="text-xs text-gray-500">{message}</span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -1,8 +1,87 @@
-import { ArrowLeft, Bot, MapPin, Heart, Sparkles } from "lucide-react";
+import { useEffect, useState } from "react";
+import { ArrowLeft, Bot, MapPin, Heart, Search, Calendar, Star } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { packageService } from "../services/packageService";
+import type { Package } from "../types/firestore";
+import { useCurrency } from "../hooks/useCurrency";
+import {
+  DURATION_BUCKETS,
+  DurationBucket,
+  PackageSearchFilters,
+  PackageSearchResult,
+  PriceBucket
+} from "../utils/package-search";
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+interface FacetRowProps {
+  label: string;
+  options: { value: string; label: string; count: number }[];
+  selected?: string;
+  onSelect: (value: string) => void;
+}
+
+const FacetRow = ({ label, options, selected, onSelect }: FacetRowProps) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <span className="text-xs text-gray-400 w-16">{label}</span>
+    {options.map(option => (
+      <button
+        key={option.value}
+        onClick={() => onSelect(option.value)}
+        disabled={option.count === 0 && selected !== option.value}
+        className={`px-3 py-1 rounded-full text-xs capitalize border transition-all duration-200 disabled:opacity-30 ${
+          selected === option.value
+            ? 'bg-purple-500/30 border-purple-400 text-white'
+            : 'bg-white/5 border-white/10 text-gray-300 hover:bg-white/10'
+        }`}
+      >
+        {option.label} ({option.count})
+      </button>
+    ))}
+  </div>
+);
 
 const FindHoliday = () => {
   const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<PackageSearchFilters>({});
+  const [result, setResult] = useState<PackageSearchResult<Package> | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const { displayCurrency, rates, displayPrice, formatMoney } = useCurrency();
+
+  // Converted prices are approximate, the package is booked in its own currency
+  const formatPackagePrice = (pkg: Package) => {
+    const price = displayPrice(pkg.price, pkg.currency || 'USD');
+    return `${price.converted ? '≈ ' : ''}${formatMoney(price.amount, price.currency)}`;
+  };
+
+  // Debounced so typing doesn't search on every keystroke
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        // Price buckets follow the currency picked in settings
+        const searchResult = await packageService.searchPackages(query, filters, undefined, {
+          priceCurrency: displayCurrency === 'original' ? undefined : displayCurrency,
+          fx: rates
+        });
+        if (!cancelled) setResult(searchResult);
+      } catch (error) {
+        console.error('Package search failed:', error);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, filters, displayCurrency, rates]);
+
+  const toggleFilter = <K extends keyof PackageSearchFilters>(key: K, value: PackageSearchFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: prev[key] === value ? undefined : value }));
+  };
 
   return (
     <div className="min-h-screen bg-[#1f1f1f] text-white font-gemini">
@@ -31,47 +110,108 @@ const FindHoliday = () => {
         </div>
       </div>
 
-      {/* Main Content */}
-      <div className="flex-1 flex items-center justify-center p-6">
-        <div className="max-w-md w-full">
-          <div className="glass-card rounded-2xl p-8 backdrop-blur-xl border border-white/10 sidebar-glow text-center">
-            <div className="w-20 h-20 mx-auto mb-6 rounded-2xl bg-purple-gradient flex items-center justify-center shadow-lg sidebar-icon-glow gentle-floating">
-              <MapPin className="w-10 h-10 text-white" />
-            </div>
-            
-            <h2 className="text-3xl font-semibold text-white mb-4 glow-text">
-              Smart Holiday Finder
-            </h2>
-            
-            <p className="text-gray-400 mb-8 leading-relaxed">
-              Our intelligent destination finder is being enhanced with AI magic. Soon you'll discover hidden gems and perfect honeymoon spots tailored just for you!
-            </p>
-            
-            <div className="flex flex-col gap-4">
-              <button 
-                onClick={() => navigate('/')}
-                className="px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white rounded-xl font-medium transition-all duration-300 flex items-center justify-center gap-2 shadow-lg hover:shadow-xl transform hover:scale-105 luxury-button gentle-floating"
-              >
-                <Bot className="w-5 h-5" />
-                Discover with AI Now
-              </button>
-              
-              <button 
-                onClick={() => navigate('/settings')}
-                className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium transition-all duration-300 flex items-center justify-center gap-2 border border-white/20 luxury-button sidebar-glow"
+      {/* Search */}
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 py-6 space-y-6">
+        <div className="glass-card rounded-2xl p-4 border border-white/10 sidebar-glow flex items-center gap-3">
+          <Search className="w-5 h-5 text-white/50" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Kapadokya, sunset villa, beach in July..."
+            className="flex-1 bg-transparent outline-none text-white placeholder:text-gray-500"
+          />
+          {isSearching && <div className="w-4 h-4 border-2 border-white/20 border-t-white/80 rounded-full animate-spin" />}
+        </div>
+
+        {/* Facets */}
+        {result && (
+          <div className="space-y-3">
+            <FacetRow
+              label="Category"
+              options={Object.entries(result.facets.category).map(([value, count]) => ({ value, label: value, count }))}
+              selected={filters.category}
+              onSelect={(category) => toggleFilter('category', category)}
+            />
+            <FacetRow
+              label="Country"
+              options={Object.entries(result.facets.country).map(([value, count]) => ({ value, label: value, count }))}
+              selected={filters.country}
+              onSelect={(country) => toggleFilter('country', country)}
+            />
+            <FacetRow
+              label="Duration"
+              options={DURATION_BUCKETS.map(b => ({ value: b.key, label: b.label, count: result.facets.duration[b.key] }))}
+              selected={filters.duration}
+              onSelect={(duration) => toggleFilter('duration', duration as DurationBucket)}
+            />
+            <FacetRow
+              label="Price"
+              options={result.priceBuckets.buckets.map(b => ({ value: b.key, label: b.label, count: result.facets.price[b.key] }))}
+              selected={filters.price}
+              onSelect={(price) => toggleFilter('price', price as PriceBucket)}
+            />
+            <FacetRow
+              label="Month"
+              options={MONTH_LABELS.map((label, i) => ({ value: String(i + 1), label, count: result.facets.month[i + 1] || 0 }))}
+              selected={filters.month ? String(filters.month) : undefined}
+              onSelect={(month) => toggleFilter('month', Number(month))}
+            />
+          </div>
+        )}
+
+        {/* Results */}
+        {result && result.hits.length === 0 && !isSearching ? (
+          <div className="glass-card rounded-2xl p-8 border border-white/10 text-center">
+            <p className="text-gray-400 mb-6">No packages match your search yet. Our AI can still plan something for you.</p>
+            <button 
+              onClick={() => navigate('/')}
+              className="px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white rounded-xl font-medium transition-all duration-300 inline-flex items-center justify-center gap-2 shadow-lg luxury-button"
+            >
+              <Bot className="w-5 h-5" />
+              Discover with AI Now
+            </button>
+          </div>
+        ) : (
+          <div className="grid sm:grid-cols-2 gap-4">
+            {result?.hits.map(({ package: pkg }) => (
+              <button
+                key={pkg.id}
+                onClick={() => navigate(`/package/${pkg.id}`)}
+                className="glass-card rounded-2xl overflow-hidden border border-white/10 sidebar-glow text-left transition-all duration-200 hover:scale-[1.02]"
               >
-                <Heart className="w-5 h-5" />
-                Save My Preferences
+                {pkg.images?.[0] && (
+                  <img src={pkg.images[0].url} alt={pkg.images[0].caption || pkg.title} className="w-full h-40 object-cover" />
+                )}
+                <div className="p-4 space-y-2">
+                  <h3 className="font-semibold text-white">{pkg.title}</h3>
+                  <div className="flex items-center gap-3 text-xs text-gray-400">
+                    <span className="flex items-center gap-1"><MapPin className="w-3 h-3" />{pkg.location}, {pkg.country}</span>
+                    <span className="flex items-center gap-1"><Calendar className="w-3 h-3" />{pkg.duration} days</span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-purple-300 font-semibold">
+                      {formatPackagePrice(pkg)}
+                    </span>
+                    {pkg.rating > 0 && (
+                      <span className="flex items-center gap-1 text-xs text-gray-300">
+                        <Star className="w-3 h-3 text-yellow-400 fill-current" />{pkg.rating}
+                      </span>
+                    )}
+                  </div>
+                </div>
               </button>
-            </div>
-
-            <div className="mt-8">
-              <div className="inline-flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-full border border-purple-500/30 sidebar-glow">
-                <Sparkles className="w-4 h-4 text-purple-400" />
-                <span className="text-sm text-purple-300 glow-text">Smart finder launching</span>
-              </div>
-            </div>
+            ))}
           </div>
+        )}
+
+        <div className="flex justify-center">
+          <button 
+            onClick={() => navigate('/settings')}
+            className="px-6 py-3 bg-white/10 hover:bg-white/20 text-white rounded-xl font-medium transition-all duration-300 flex items-center justify-center gap-2 border border-white/20 luxury-button sidebar-glow"
+          >
+            <Heart className="w-5 h-5" />
+            Save My Preferences
+          </button>
         </div>
       </div>
     </div>
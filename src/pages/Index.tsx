@@ -1,10 +1,10 @@
 import { useState, useEffect, useRef, useMemo, useCallback, memo, lazy, Suspense } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { personalityService, PersonalityProfile } from '../services/personalityService';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Send, Menu, MoreVertical, Mic, Search, Image, Video, FileText, Palette, X, LogOut, User, Settings, Activity, MapPin, ChevronDown, Heart, Star, Sparkles, Crown, Zap, Edit, Plus, Bot, Moon, Sun, Trash2, ThumbsUp, ThumbsDown, Copy, Check, RotateCcw, Download, Users, Calendar } from 'lucide-react';
 import Message from '../components/Message';
-import { generateGeminiStream, getChatHistory, deleteChatHistory, detectAICommand, generateAICommandResponse } from '../services/geminiService';
+import { generateGeminiStream, getChatHistory, deleteChatHistory, detectAICommand, generateAICommandResponse, GeminiError, QuotaExceededError } from '../services/geminiService';
 import { authService } from '../services/authService';
 import { packageService, HoneymoonPackage } from '../services/packageService';
 import { useTheme } from '../contexts/ThemeContext';
@@ -25,6 +25,11 @@ import { useNotifications } from '../hooks/useNotifications';
 import { offlineManager, cacheForOffline, getCachedData, queueForSync } from '../utils/offline-manager';
 import { useDebounce, useDebouncedCallback } from '../hooks/useDebounce';
 import { subscriptionService, PlanType } from '../services/subscriptionService';
+import { modelRegistryService, AvailableModel, FALLBACK_MODELS } from '../services/modelRegistryService';
+import { aiExperimentEngine } from '../services/aiExperimentEngine';
+import { tripPlanService } from '../services/tripPlanService';
+import { useCouple } from '../hooks/useCouple';
+import { buildPlanChatPrompt } from '../utils/trip-plan';
 
 // Lazy load heavy components
 const PackageCarousel = lazy(() => import('../components/PackageCarousel'));
@@ -55,11 +60,14 @@ type Chat = {
   sessionId: string;
 };
 
-type ModelType = 'ai-lovv3' | 'ai-lovv2';
+type ModelType = string; // Model registry id, e.g. 'ai-lovv3'
+
 
 const Index = () => {
   const { user, logout, needsOnboarding, checkOnboardingStatus } = useAuth();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { space, isLoading: isCoupleLoading } = useCouple();
   const { actualTheme, toggleTheme } = useTheme();
   // Temporarily disabled due to hook error
   // const { canInstall, installPWA } = usePWA();
@@ -129,6 +137,7 @@ const Index = () => {
   const [modelMenuOpen, setModelMenuOpen] = useState(false);
   const [settingsMenuOpen, setSettingsMenuOpen] = useState(false);
   const [selectedModel, setSelectedModel] = useState<ModelType>('ai-lovv3');
+  const [availableModels, setAvailableModels] = useState<AvailableModel[]>(FALLBACK_MODELS);
   const [userLocation, setUserLocation] = useState('Turkey, Istanbul');
   const [currentSessionId, setCurrentSessionId] = useState<string>('');
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
@@ -232,6 +241,11 @@ const Index = () => {
     "⭐ Your romantic tale starts with your words..."
   ], []);
   
+  // A/B deney atamalarını yükle (kullanıcı başına sabit, tüm cihazlarda aynı)
+  useEffect(() => {
+    aiExperimentEngine.loadAssignments(user?.uid);
+  }, [user?.uid]);
+
   // Placeholder mesajlarını düzenli olarak değiştir
   useEffect(() => {
     const placeholderInterval = setInterval(() => {
@@ -1185,10 +1199,11 @@ Or wait ${canSend.resetTime ? subscriptionService.formatTimeUntilReset(canSend.r
 
       // Use Firebase Functions to generate response and save to Firestore
       let responseContent = '';
+      let toolPackageIds: string[] = [];
       const userId = user?.uid || null;
       
       // Pass selected model to generateGeminiStream
-      for await (const chunk of generateGeminiStream([...messages, newUserMessage], sessionId, userId, selectedModel)) {
+      for await (const chunk of generateGeminiStream([...messages, newUserMessage], sessionId, userId, selectedModel, ids => { toolPackageIds = ids; })) {
         responseContent += chunk;
         
         // Update the typing message with current content
@@ -1212,8 +1227,10 @@ Or wait ${canSend.resetTime ? subscriptionService.formatTimeUntilReset(canSend.r
         isThinking: false
       };
 
-      // Parse package recommendations from response
-      const packages = await parsePackageRecommendations(responseContent);
+      // Packages picked by the model's tool calls; SHOW_PACKAGES parsing only covers cached replies
+      const packages = toolPackageIds.length > 0
+        ? await packageService.getPackagesByIds(toolPackageIds)
+        : await parsePackageRecommendations(responseContent);
       if (packages.length > 0) {
         assistantMessage.packages = packages;
         
@@ -1297,18 +1314,13 @@ Or wait ${canSend.resetTime ? subscriptionService.formatTimeUntilReset(canSend.r
       // Record successful message for rate limiting
       recordSuccess('chat_message', user?.uid);
       
-      // Record message usage for subscription tracking (after successful AI response)
+      // Message usage is recorded by the backend, just refresh the counter
       if (user?.uid) {
         try {
-          await subscriptionService.recordMessageUsage(user.uid);
-          
-          // Update remaining messages in UI
           const updatedRemaining = await subscriptionService.getRemainingMessages(user.uid);
           setRemainingMessages(updatedRemaining);
-          
-          console.log('✅ Message usage recorded successfully');
         } catch (error) {
-          console.error('❌ Error recording message usage:', error);
+          console.error('❌ Error refreshing remaining messages:', error);
         }
       }
 
@@ -1329,6 +1341,22 @@ Or wait ${canSend.resetTime ? subscriptionService.formatTimeUntilReset(canSend.r
     } catch (e: any) {
       logger.error('❌ Error sending message:', e);
       
+      // Selected model isn't part of the user's plan any more
+      if (e instanceof GeminiError && e.code === 'permission-denied') {
+        setShowUpgradePrompt(true);
+      }
+      
+      // Server rejected the message because the plan's quota is used up
+      const quotaError = e instanceof QuotaExceededError ? e : null;
+      if (quotaError) {
+        setShowUpgradePrompt(true);
+        setRemainingMessages(prev => ({
+          remaining: quotaError.remaining,
+          total: quotaError.total ?? prev.total,
+          resetTime: quotaError.resetTime ? new Date(quotaError.resetTime) : prev.resetTime
+        }));
+      }
+      
       // If online, remove message and show error
       if (navigator.onLine) {
         // Remove user message and typing indicator on error
@@ -1340,6 +1368,19 @@ Or wait ${canSend.resetTime ? subscriptionService.formatTimeUntilReset(canSend.r
             ? {...chat, messages: chat.messages.slice(0, -1)}
             : chat
         ));
+
+        if (quotaError) {
+          const limitMessage: Message = {
+            role: 'assistant',
+            content: `💳 ${quotaError.message}
+
+✨ **Upgrade to Pro** for unlimited conversations.${quotaError.resetTime ? `
+
+Or wait ${subscriptionService.formatTimeUntilReset(new Date(quotaError.resetTime))} for your quota to reset.` : ''}`,
+            timestamp: new Date().toISOString()
+          };
+          setMessages(prev => [...prev, limitMessage]);
+        }
       } else {
         // If offline, queue for later sync and show offline message
         const offlineMessage: Message = {
@@ -1398,6 +1439,23 @@ Or wait ${canSend.resetTime ? subscriptionService.formatTimeUntilReset(canSend.r
     handleSendMessage(inputValue);
   }, [handleSendMessage, inputValue]);
 
+  // Saved trip plans open the chat seeded with the plan (/?plan=ID from Settings → Trip Plans)
+  const planParam = searchParams.get('plan');
+  const seededPlanRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!planParam || !space || isCoupleLoading || seededPlanRef.current === planParam) return;
+    seededPlanRef.current = planParam;
+    setSearchParams(params => {
+      params.delete('plan');
+      return params;
+    }, { replace: true });
+    tripPlanService.getPlan(space, planParam)
+      .then(plan => {
+        if (plan) handleSendMessage(buildPlanChatPrompt(plan.details, plan.packageTitle));
+      })
+      .catch(error => logger.error('Error opening trip plan in chat:', error));
+  }, [planParam, space, isCoupleLoading, setSearchParams, handleSendMessage]);
+
   const openSettings = () => {
     navigate('/settings');
   };
@@ -1407,7 +1465,25 @@ Or wait ${canSend.resetTime ? subscriptionService.formatTimeUntilReset(canSend.r
     logger.log('Activity page is under development...');
   };
 
+  // Load the model registry for the current plan, falling back to the default model if the selection is locked
+  useEffect(() => {
+    let cancelled = false;
+    modelRegistryService.getAvailableModels().then(({ defaultModelId, models }) => {
+      if (cancelled) return;
+      setAvailableModels(models);
+      setSelectedModel(prev => models.some(m => m.id === prev && m.allowed) ? prev : defaultModelId);
+    });
+    return () => { cancelled = true; };
+  }, [user?.uid, userPlan]);
+
   const handleModelChange = (model: ModelType) => {
+    const modelInfo = availableModels.find(m => m.id === model);
+    if (modelInfo && !modelInfo.allowed) {
+      setModelMenuOpen(false);
+      setShowUpgradePrompt(true);
+      return;
+    }
+    
     setSelectedModel(model);
     setModelMenuOpen(false);
     
@@ -1419,7 +1495,7 @@ Or wait ${canSend.resetTime ? subscriptionService.formatTimeUntilReset(canSend.r
     });
     
     // Toast yerine sessizce model değiştir
-    logger.log(`Model changed to: ${model === 'ai-lovv3' ? 'Advanced AI' : 'Fast AI'}`);
+    logger.log(`Model changed to: ${modelInfo?.description || model}`);
   };
 
   const handleLogout = async () => {
@@ -1691,11 +1767,12 @@ Or wait ${canSend.resetTime ? subscriptionService.formatTimeUntilReset(canSend.r
       navigator.vibrate(newFeedback ? [30, 10, 30] : 20);
     }
     
-    // Here you could also send feedback to analytics or backend
     logger.log(`Message ${index} feedback:`, newFeedback || 'removed');
     
-    // Optional: Send feedback to backend
-    // await sendFeedbackToBackend(messages[index], newFeedback);
+    // Counts towards the success rate of the experiment variants that produced this reply
+    if (messages[index]?.role === 'assistant') {
+      aiExperimentEngine.recordFeedback(messages[index].content, newFeedback);
+    }
   };
 
   // Regenerate response function
@@ -2197,28 +2274,27 @@ Or wait ${canSend.resetTime ? subscriptionService.formatTimeUntilReset(canSend.r
                 className="gemini-model-selector"
               >
                 <span className="hidden md:inline">
-                  {selectedModel === 'ai-lovv3' ? 'ai-lovv3' : 'ai-lovv2'}
+                  {availableModels.find(m => m.id === selectedModel)?.label || selectedModel}
                 </span>
                 <span className="md:hidden">
-                  {selectedModel === 'ai-lovv3' ? 'v3' : 'v2'}
+                  {(availableModels.find(m => m.id === selectedModel)?.label || selectedModel).replace(/^ai-lovv/, 'v')}
                 </span>
                 <ChevronDown className="w-3 h-3 sm:w-4 sm:h-4" />
               </button>
               
               {modelMenuOpen && (
                 <div className="gemini-model-dropdown">
-                  <button
-                    onClick={() => handleModelChange('ai-lovv3')}
-                    className="gemini-model-dropdown-item"
-                  >
-                    ai-lovv3
-                  </button>
-                  <button
-                    onClick={() => handleModelChange('ai-lovv2')}
-                    className="gemini-model-dropdown-item"
-                  >
-                    ai-lovv2
-                  </button>
+                  {availableModels.map(model => (
+                    <button
+                      key={model.id}
+                      onClick={() => handleModelChange(model.id)}
+                      className="gemini-model-dropdown-item"
+                      title={model.description}
+                    >
+                      {model.label}
+                      {!model.allowed && <Crown className="w-3 h-3 ml-1 inline opacity-70" />}
+                    </button>
+                  ))}
                 </div>
               )}
             </div>
@@ -2670,12 +2746,13 @@ Or wait ${canSend.resetTime ? subscriptionService.formatTimeUntilReset(canSend.r
         <Suspense fallback={<div>Loading...</div>}>
           <HoneymoonPlannerWizard
             userProfile={userProfile}
-            onComplete={(plan, recommendations) => {
+            onComplete={(plan, recommendations, planId) => {
               setShowHoneymoonPlanner(false);
               // Add recommendations to messages
               const recommendationMessage: Message = {
                 role: 'assistant',
-                content: `🎉 Balayı planınız hazır! Size özel ${recommendations.length} paket önerisi buldum.`,
+                content: `🎉 Balayı planınız hazır! Size özel ${recommendations.length} paket önerisi buldum.` +
+                  (planId ? ' Planınızı kaydettim, Ayarlar → Trip Plans bölümünden tekrar açıp düzenleyebilirsiniz.' : ''),
                 packages: recommendations,
                 timestamp: new Date().toISOString()
               };
@@ -3,6 +3,15 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { ArrowLeft, Heart, Share2, Calendar, MapPin, Star, Users, Crown, Sparkles, Check, Clock, Camera, Utensils, Plane, Car, Wifi, Phone, Mail, MessageCircle } from 'lucide-react';
 import { packageService, HoneymoonPackage } from '../services/packageService';
 import { useTheme } from '../contexts/ThemeContext';
+import { useAuth } from '../contexts/AuthContext';
+import { dynamicPricingEngine, type PriceQuote } from '../services/dynamicPricingEngine';
+import { useCurrency } from '../hooks/useCurrency';
+import { useCouple } from '../hooks/useCouple';
+import { coupleService } from '../services/coupleService';
+import { toast } from 'sonner';
+import type { DisplayPrice } from '../utils/currency';
+import PackageReviews from '../components/PackageReviews';
+import PriceWatchButton from '../components/PriceWatchButton';
 
 interface PackageDetailProps {
   packageId?: string;
@@ -11,12 +20,16 @@ interface PackageDetailProps {
 }
 
 const PackageDetail: React.FC<PackageDetailProps> = ({ packageId: propPackageId, isModal = false, onClose }) => {
-  const { packageId: urlPackageId } = useParams<{ packageId: string }>();
+  const { id: urlPackageId } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const packageId = propPackageId || urlPackageId;
   const { actualTheme } = useTheme();
+  const { user } = useAuth();
+  const { displayCurrency, displayPrice, formatMoney } = useCurrency();
+  const { space, isLinked } = useCouple();
   
   const [packageData, setPackageData] = useState<HoneymoonPackage | null>(null);
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isFavorite, setIsFavorite] = useState(false);
   const [selectedImage, setSelectedImage] = useState(0);
@@ -76,15 +89,67 @@ const PackageDetail: React.FC<PackageDetailProps> = ({ packageId: propPackageId,
     loadPackageData();
   }, [packageId]);
 
-  const formatPrice = (price: number, currency: string = 'USD'): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(price);
+  // Saved packages are shared with the partner once the accounts are linked
+  useEffect(() => {
+    if (!space || !packageId) return;
+    return coupleService.subscribeToSavedPackages(space, saved => {
+      setIsFavorite(saved.some(item => item.packageId === packageId));
+    });
+  }, [space, packageId]);
+
+  const toggleFavorite = async () => {
+    if (!user || !space || !packageData) {
+      toast.error('Sign in to save packages');
+      return;
+    }
+    try {
+      if (isFavorite) {
+        await coupleService.removeSavedPackage(space, packageData.id);
+      } else {
+        await coupleService.savePackage(space, {
+          id: packageData.id,
+          title: packageData.title,
+          location: packageData.location,
+          price: packageData.price,
+          currency: packageData.currency || 'USD',
+          image: packageData.images?.[0]
+        }, user);
+        toast.success(isLinked ? 'Saved for both of you' : 'Package saved');
+      }
+    } catch (error: any) {
+      console.error('Error saving package:', error);
+      toast.error(error?.message || 'Could not save the package');
+    }
   };
 
+  // Signed-in users see the server's dynamic price, held for 30 minutes; otherwise the list price
+  useEffect(() => {
+    setQuote(null);
+    if (!user || !packageData?.availability) return;
+
+    let cancelled = false;
+    dynamicPricingEngine.getQuote(packageData.id)
+      .then(result => { if (!cancelled) setQuote(result); })
+      .catch(error => console.error('Error loading price quote:', error));
+    return () => { cancelled = true; };
+  }, [user, packageData?.id, packageData?.availability, displayCurrency]);
+
+  const bookablePrice = quote?.pricing.totalPrice ?? packageData?.price ?? 0;
+  const bookableCurrency = quote?.pricing.currency ?? packageData?.currency ?? 'USD';
+  // A quote carries the rate locked for the user's currency; without one, convert at the stored rate
+  const shownPrice: DisplayPrice = quote?.pricing.fx
+    ? {
+        amount: quote.pricing.fx.totalPrice,
+        currency: quote.pricing.fx.currency,
+        converted: true,
+        original: { amount: bookablePrice, currency: bookableCurrency }
+      }
+    : displayPrice(bookablePrice, bookableCurrency);
+  const priceText = `${shownPrice.converted ? '≈ ' : ''}${formatMoney(shownPrice.amount, shownPrice.currency)}`;
+  const convertedNote = shownPrice.original
+    ? `Converted from ${formatMoney(shownPrice.original.amount, shownPrice.original.currency)}, charged in ${shownPrice.original.currency}`
+    : null;
+
   const getCategoryIcon = (category: string): React.ReactNode => {
     const icons: Record<string, React.ReactNode> = {
       luxury: <Crown className="w-5 h-5" />,
@@ -250,6 +315,9 @@ const PackageDetail: React.FC<PackageDetailProps> = ({ packageId: propPackageId,
                   ))}
                 </div>
               </div>
+
+              {/* Reviews */}
+              <PackageReviews packageId={packageData.id} isLight={actualTheme === 'light'} />
             </div>
 
             {/* Sidebar */}
@@ -258,9 +326,17 @@ const PackageDetail: React.FC<PackageDetailProps> = ({ packageId: propPackageId,
               <div className="glassmorphism-card p-4">
                 <div className="text-center mb-4">
                   <div className={`text-2xl font-bold mb-1 ${actualTheme === 'light' ? 'text-gray-900' : 'text-white'}`}>
-                    {formatPrice(packageData.price)}
+                    {priceText}
                   </div>
                   <div className={`text-xs ${actualTheme === 'light' ? 'text-gray-600' : 'text-white/60'}`}>per couple</div>
+                  {convertedNote && (
+                    <div className={`text-xs mt-1 ${actualTheme === 'light' ? 'text-gray-500' : 'text-white/40'}`}>{convertedNote}</div>
+                  )}
+                  {quote && (
+                    <div className={`text-xs mt-1 ${actualTheme === 'light' ? 'text-gray-500' : 'text-white/40'}`}>
+                      Price held until {quote.expiresAt.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                    </div>
+                  )}
                 </div>
 
                 <div className="space-y-3 mb-4">
@@ -288,6 +364,16 @@ const PackageDetail: React.FC<PackageDetailProps> = ({ packageId: propPackageId,
                   Book Now
                 </button>
 
+                <PriceWatchButton
+                  packageId={packageData.id}
+                  price={bookablePrice}
+                  currency={bookableCurrency}
+                  available={packageData.availability}
+                  source="package_detail"
+                  variant="button"
+                  className="mt-3"
+                />
+
                 <div className="text-center mt-3">
                   <p className={`text-xs ${actualTheme === 'light' ? 'text-gray-600' : 'text-white/60'}`}>
                     Or contact our romance specialists
@@ -352,7 +438,7 @@ const PackageDetail: React.FC<PackageDetailProps> = ({ packageId: propPackageId,
             
             <div className="flex items-center gap-3">
               <button
-                onClick={() => setIsFavorite(!isFavorite)}
+                onClick={toggleFavorite}
                 className={`p-2 rounded-lg border transition-all ${
                   isFavorite 
                     ? 'bg-red-500/20 border-red-500/30 text-red-400' 
@@ -471,6 +557,9 @@ const PackageDetail: React.FC<PackageDetailProps> = ({ packageId: propPackageId,
                 ))}
               </div>
             </div>
+
+            {/* Reviews */}
+            <PackageReviews packageId={packageData.id} />
           </div>
 
           {/* Sidebar */}
@@ -479,9 +568,15 @@ const PackageDetail: React.FC<PackageDetailProps> = ({ packageId: propPackageId,
             <div className="glassmorphism-card p-6 sticky top-24">
               <div className="text-center mb-6">
                 <div className="text-3xl font-bold text-white mb-1">
-                  {formatPrice(packageData.price)}
+                  {priceText}
                 </div>
                 <div className="text-white/60 text-sm">per couple</div>
+                {convertedNote && <div className="text-white/40 text-xs mt-1">{convertedNote}</div>}
+                {quote && (
+                  <div className="text-white/40 text-xs mt-1">
+                    Price held until {quote.expiresAt.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                  </div>
+                )}
               </div>
 
               <div className="space-y-4 mb-6">
@@ -509,6 +604,16 @@ const PackageDetail: React.FC<PackageDetailProps> = ({ packageId: propPackageId,
                 Book Now
               </button>
 
+              <PriceWatchButton
+                packageId={packageData.id}
+                price={bookablePrice}
+                currency={bookableCurrency}
+                available={packageData.availability}
+                source="package_detail"
+                variant="button"
+                className="mt-3"
+              />
+
               <div className="text-center mt-4">
                 <p className="text-white/60 text-xs">
                   Or contact our romance specialists
@@ -1,14 +1,23 @@
 import React, { useState, useEffect, useCallback, memo } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { ArrowLeft, Bell, Shield, Globe, User, LogOut, Eye, Lock, MessageSquare, Palette, X, Loader2, CreditCard, Crown, Heart, Zap, Check, Star } from 'lucide-react';
+import { ArrowLeft, Bell, Shield, Globe, User, LogOut, Eye, Lock, MessageSquare, Palette, X, Loader2, CreditCard, Crown, Heart, Zap, Check, Star, Map as MapIcon } from 'lucide-react';
 import { settingsService, UserSettings, defaultSettings } from '../services/settingsService';
 import NotificationSettings from '../components/NotificationSettings';
+import ConsentSettings from '../components/ConsentSettings';
+import WatchlistSettings from '../components/WatchlistSettings';
+import CoupleSettings from '../components/CoupleSettings';
+import TripPlanSettings from '../components/TripPlanSettings';
+import { currencyService } from '../services/currencyService';
+import { SUPPORTED_CURRENCIES, type DisplayCurrency } from '../utils/currency';
 
 const SettingsPage = () => {
   const navigate = useNavigate();
   const { user, logout } = useAuth();
-  const [activeCategory, setActiveCategory] = useState('general');
+  // Partner invite links open the partner section with the code filled in
+  const [searchParams] = useSearchParams();
+  const partnerCode = searchParams.get('partnerCode') || '';
+  const [activeCategory, setActiveCategory] = useState(partnerCode ? 'partner' : 'general');
   const [settings, setSettings] = useState<UserSettings>(defaultSettings);
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState<string | null>(null);
@@ -50,6 +59,8 @@ const SettingsPage = () => {
 
   const categories = [
     { id: 'general', label: 'General', icon: User },
+    { id: 'partner', label: 'Partner', icon: Heart },
+    { id: 'trips', label: 'Trip Plans', icon: MapIcon },
     { id: 'notifications', label: 'Notifications', icon: Bell },
     { id: 'personalization', label: 'Personalization', icon: Palette },
     { id: 'conversation', label: 'Conversation', icon: MessageSquare },
@@ -165,6 +176,19 @@ const SettingsPage = () => {
     </button>
   );
 
+  const updateCurrency = async (currency: DisplayCurrency) => {
+    if (!user?.uid || updating) return;
+    const previous = settings.currency;
+    setUpdating('currency');
+    setSettings(prev => ({ ...prev, currency }));
+    const success = await currencyService.setDisplayCurrency(user.uid, currency);
+    if (!success) {
+      setSettings(prev => ({ ...prev, currency: previous }));
+      alert('Currency update failed. Please try again.');
+    }
+    setUpdating(null);
+  };
+
   const SettingItem = ({ title, description, toggle, rightElement, settingKey }: {
     title: string;
     description?: string;
@@ -243,6 +267,32 @@ const SettingsPage = () => {
           </div>
         );
 
+      case 'partner':
+        return (
+          <div className="settings-content-section space-y-10">
+            <div>
+              <h2 className="text-lg font-medium text-white mb-3">Partner</h2>
+              <p className="text-sm text-gray-400">Plan your honeymoon together from two accounts</p>
+            </div>
+            <div className="settings-divider"></div>
+
+            <CoupleSettings className="text-white" initialCode={partnerCode} />
+          </div>
+        );
+
+      case 'trips':
+        return (
+          <div className="settings-content-section space-y-10">
+            <div>
+              <h2 className="text-lg font-medium text-white mb-3">Trip Plans</h2>
+              <p className="text-sm text-gray-400">Reopen, edit and discuss your saved honeymoon plans</p>
+            </div>
+            <div className="settings-divider"></div>
+
+            <TripPlanSettings className="text-white" />
+          </div>
+        );
+
       case 'notifications':
         return (
           <div className="settings-content-section space-y-10">
@@ -256,14 +306,14 @@ const SettingsPage = () => {
             <NotificationSettings className="text-white" />
             
             <div className="settings-divider"></div>
-            <div className="space-y-3">
-              <SettingItem
-                title="Email notifications"
-                description="Receive updates via email"
-                toggle={settings.emailUpdates}
-                settingKey="emailUpdates"
-              />
-            </div>
+
+            {/* Per-category and per-channel communication consent */}
+            <ConsentSettings className="text-white" />
+
+            <div className="settings-divider"></div>
+
+            {/* Price and availability watches */}
+            <WatchlistSettings className="text-white" />
           </div>
         );
 
@@ -537,7 +587,7 @@ const SettingsPage = () => {
           <div className="settings-content-section space-y-10">
             <div>
               <h2 className="text-lg font-medium text-white mb-3">Language</h2>
-              <p className="text-sm text-gray-400">Set your preferred language</p>
+              <p className="text-sm text-gray-400">Set your preferred language and currency</p>
             </div>
             <div className="settings-divider"></div>
             <div className="space-y-3">
@@ -546,6 +596,23 @@ const SettingsPage = () => {
                 description={settings.language}
                 rightElement={<span className="text-xs text-gray-400">→</span>}
               />
+              <SettingItem
+                title="Currency"
+                description="Prices are converted at daily rates; bookings are charged in the package's own currency"
+                rightElement={
+                  <select
+                    value={settings.currency}
+                    onChange={(e) => updateCurrency(e.target.value as DisplayCurrency)}
+                    disabled={updating === 'currency'}
+                    className="settings-focusable bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-sm text-white"
+                  >
+                    <option value="original">Package currency</option>
+                    {SUPPORTED_CURRENCIES.map(currency => (
+                      <option key={currency} value={currency}>{currency}</option>
+                    ))}
+                  </select>
+                }
+              />
             </div>
           </div>
         );
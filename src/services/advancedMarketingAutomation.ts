@@ -3,8 +3,9 @@ import { DetailedUserProfile, advancedUserProfileService } from './advancedUserP
 import { aiBehaviorPredictionEngine } from './aiBehaviorPredictionEngine';
 import { userSegmentationService } from './userSegmentationService';
 import { realTimePersonalizationEngine } from './realTimePersonalizationEngine';
-import { doc, setDoc, getDoc, collection, query, where, getDocs, orderBy, limit, addDoc } from 'firebase/firestore';
-import { db } from '../firebase';
+import { doc, setDoc, getDoc, collection, query, where, getDocs, getCountFromServer, orderBy, limit, DocumentSnapshot } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebase';
 
 // Marketing Campaign Types
 export interface MarketingCampaign {
@@ -145,6 +146,15 @@ export interface CampaignAnalytics {
   segmentPerformance: { [segmentId: string]: SegmentPerformance };
   timeSeriesData: TimeSeriesDataPoint[];
   heatmapData?: HeatmapData[];
+  queued?: number; // Waiting in the delivery queue
+  suppressed?: number; // Skipped for missing consent or a suppressed address
+  variantPerformance?: { [variantId: string]: VariantPerformance };
+}
+
+export interface VariantPerformance {
+  queued: number;
+  sent: number;
+  bounced: number;
 }
 
 export interface SegmentPerformance {
@@ -177,6 +187,11 @@ export interface CampaignBudget {
   bidStrategy?: 'manual' | 'auto_optimize' | 'target_cpa';
 }
 
+export interface AudiencePreview {
+  size: number;
+  sample: DetailedUserProfile[];
+}
+
 export interface UserFilter {
   field: string;
   operator: string;
@@ -287,16 +302,14 @@ class AdvancedMarketingAutomation {
   private activeCampaigns = new Map<string, MarketingCampaign>();
   private automationRules = new Map<string, AutomationRule>();
   private customerJourneys = new Map<string, CustomerJourney>();
-  private messageQueue: QueuedMessage[] = [];
 
   constructor() {
     this.initializeDefaultAutomations();
-    this.startMessageProcessor();
     this.startAnalyticsProcessor();
   }
 
   // Campaign Management
-  async createCampaign(campaign: Omit<MarketingCampaign, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
+  async createCampaign(campaign: Omit<MarketingCampaign, 'id' | 'createdAt' | 'updatedAt' | 'analytics'>): Promise<string> {
     try {
       const campaignId = `campaign_${Date.now()}`;
       const newCampaign: MarketingCampaign = {
@@ -335,7 +348,7 @@ class AdvancedMarketingAutomation {
       }
 
       // Get target audience
-      const audience = await this.buildCampaignAudience(campaign);
+      const audience = await this.buildCampaignAudience(campaign.target);
       
       logger.info('Launching campaign', { 
         campaignId, 
@@ -368,6 +381,9 @@ class AdvancedMarketingAutomation {
         campaign.status = 'paused';
         await this.updateCampaign(campaign);
         this.activeCampaigns.delete(campaignId);
+
+        // Messages still waiting in the delivery queue are not sent
+        await httpsCallable(functions, 'cancelCampaignMessages')({ campaignId });
       }
     } catch (error) {
       logger.error('Error pausing campaign', { campaignId, error });
@@ -375,25 +391,96 @@ class AdvancedMarketingAutomation {
     }
   }
 
+  async listCampaigns(): Promise<MarketingCampaign[]> {
+    const snapshot = await getDocs(query(collection(db, 'marketingCampaigns'), orderBy('createdAt', 'desc')));
+    return snapshot.docs.map(campaignDoc => this.toCampaign(campaignDoc.data()));
+  }
+
+  // Analytics for the admin dashboard: delivery counters kept by processMarketingQueue, queue sizes
+  // from count queries and the last ANALYTICS_DAYS daily buckets, so no queued message is read
+  async getCampaignAnalytics(campaignId: string): Promise<CampaignAnalytics> {
+    const stats = collection(db, 'marketingCampaigns', campaignId, 'deliveryStats');
+    const queued = (variantId?: string) => getCountFromServer(query(
+      collection(db, 'marketingQueue'),
+      where('campaignId', '==', campaignId),
+      ...(variantId ? [where('variantId', '==', variantId)] : []),
+      where('status', '==', 'queued')
+    )).then(snapshot => snapshot.data().count);
+
+    const campaign = await this.getCampaign(campaignId);
+    const variantIds = campaign?.personalization.abTestVariants?.map(variant => variant.id) || [];
+    const since = new Date(Date.now() - ANALYTICS_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const [totalSnapshot, dailySnapshot, queuedTotal, variantQueued] = await Promise.all([
+      getDoc(doc(stats, 'total')),
+      getDocs(query(stats, where('date', '>=', since), orderBy('date'), limit(ANALYTICS_DAYS + 1))),
+      queued(),
+      Promise.all(variantIds.map(variantId => queued(variantId)))
+    ]);
+    const total = totalSnapshot.data() || {};
+
+    const analytics = this.initializeCampaignAnalytics();
+    analytics.sent = total.sent || 0;
+    analytics.bounced = total.bounced || 0;
+    analytics.suppressed = total.suppressed || 0;
+    analytics.queued = queuedTotal;
+    // Providers accepted every sent message; opens and clicks are not tracked yet
+    analytics.delivered = analytics.sent;
+
+    analytics.variantPerformance = {};
+    for (const variantId of new Set([...variantIds, ...Object.keys(total.variants || {})])) {
+      const counts = total.variants?.[variantId] || {};
+      analytics.variantPerformance[variantId] = {
+        queued: variantQueued[variantIds.indexOf(variantId)] || 0,
+        sent: counts.sent || 0,
+        bounced: counts.bounced || 0
+      };
+    }
+    Object.entries(total.segments || {}).forEach(([segmentId, counts]: [string, any]) => {
+      analytics.segmentPerformance[segmentId] = {
+        sent: counts.sent || 0, openRate: 0, clickRate: 0, conversionRate: 0, revenue: 0, unsubscribeRate: 0
+      };
+    });
+
+    analytics.timeSeriesData = dailySnapshot.docs.flatMap(dayDoc => {
+      const day = dayDoc.data();
+      return [
+        { timestamp: new Date(day.date), metric: 'sent', value: day.sent || 0 },
+        { timestamp: new Date(day.date), metric: 'bounced', value: day.bounced || 0 }
+      ];
+    });
+
+    return analytics;
+  }
+
   // Audience Building
-  private async buildCampaignAudience(campaign: MarketingCampaign): Promise<DetailedUserProfile[]> {
+  async previewAudience(target: MarketingCampaign['target'], sampleSize: number = 5): Promise<AudiencePreview> {
+    const audience = await this.buildCampaignAudience(target);
+    return { size: audience.length, sample: audience.slice(0, sampleSize) };
+  }
+
+  private async buildCampaignAudience(target: MarketingCampaign['target']): Promise<DetailedUserProfile[]> {
     let audience: DetailedUserProfile[] = [];
 
     // Get users by segments
-    for (const segmentId of campaign.target.segments) {
+    for (const segmentId of target.segments) {
       const segmentUsers = await userSegmentationService.getUsersBySegment(segmentId);
       audience = [...audience, ...segmentUsers];
     }
 
+    // Filter-only audiences start from every profile
+    if (!target.segments.length && target.customFilters?.length) {
+      audience = await this.getAllProfiles();
+    }
+
     // Apply custom filters
-    if (campaign.target.customFilters) {
-      audience = await this.applyCustomFilters(audience, campaign.target.customFilters);
+    if (target.customFilters) {
+      audience = await this.applyCustomFilters(audience, target.customFilters);
     }
 
     // Exclude segments
-    if (campaign.target.excludeSegments) {
+    if (target.excludeSegments) {
       const excludedUsers = new Set();
-      for (const excludeSegment of campaign.target.excludeSegments) {
+      for (const excludeSegment of target.excludeSegments) {
         const excludeUsers = await userSegmentationService.getUsersBySegment(excludeSegment);
         excludeUsers.forEach(user => excludedUsers.add(user.userId));
       }
@@ -406,15 +493,28 @@ class AdvancedMarketingAutomation {
     );
 
     // Apply audience limit
-    if (campaign.target.maxAudience && uniqueAudience.length > campaign.target.maxAudience) {
+    if (target.maxAudience && uniqueAudience.length > target.maxAudience) {
       // Prioritize by engagement score
       uniqueAudience.sort((a, b) => b.analytics.engagementScore - a.analytics.engagementScore);
-      return uniqueAudience.slice(0, campaign.target.maxAudience);
+      return uniqueAudience.slice(0, target.maxAudience);
     }
 
     return uniqueAudience;
   }
 
+  private async getAllProfiles(): Promise<DetailedUserProfile[]> {
+    const profiles: DetailedUserProfile[] = [];
+    let lastDoc: DocumentSnapshot | null = null;
+
+    do {
+      const page = await advancedUserProfileService.getBatchUsers(lastDoc || undefined, PROFILE_PAGE_SIZE);
+      profiles.push(...page.users);
+      lastDoc = page.users.length === PROFILE_PAGE_SIZE ? page.lastDoc : null;
+    } while (lastDoc);
+
+    return profiles;
+  }
+
   private async applyCustomFilters(users: DetailedUserProfile[], filters: UserFilter[]): Promise<DetailedUserProfile[]> {
     return users.filter(user => {
       return filters.every(filter => {
@@ -487,8 +587,11 @@ class AdvancedMarketingAutomation {
     let template = campaign.content.templates[language] || campaign.content.templates['tr'];
 
     // Apply A/B testing if enabled
-    if (campaign.personalization.abTestVariants) {
-      template = this.selectABTestVariant(campaign.personalization.abTestVariants, user);
+    let variantId: string | undefined;
+    if (campaign.personalization.abTestVariants?.length) {
+      const variant = this.selectABTestVariant(campaign.personalization.abTestVariants, user);
+      template = variant.template;
+      variantId = variant.id;
     }
 
     // Get AI predictions for enhanced personalization
@@ -507,7 +610,8 @@ class AdvancedMarketingAutomation {
     const optimalSendTime = await this.calculateOptimalSendTime(user, campaign);
 
     return {
-      id: `msg_${Date.now()}_${user.userId}`,
+      // One message per user and campaign, so relaunching a paused campaign does not send twice
+      id: `msg_${campaign.id}_${user.userId}`,
       campaignId: campaign.id,
       userId: user.userId,
       type: campaign.type,
@@ -517,6 +621,7 @@ class AdvancedMarketingAutomation {
       },
       scheduledTime: optimalSendTime,
       status: 'queued',
+      variantId,
       personalizationData: {
         segmentId: user.analytics.userSegment,
         predictions: {
@@ -533,20 +638,20 @@ class AdvancedMarketingAutomation {
     };
   }
 
-  private selectABTestVariant(variants: ABTestVariant[], user: DetailedUserProfile): MessageTemplate {
+  private selectABTestVariant(variants: ABTestVariant[], user: DetailedUserProfile): ABTestVariant {
     // Simple hash-based assignment for consistent variant selection
     const userHash = this.hashUserId(user.userId);
     let cumulativeWeight = 0;
     
     for (const variant of variants) {
       cumulativeWeight += variant.weight;
-      if (userHash <= cumulativeWeight) {
-        return variant.template;
+      if (userHash < cumulativeWeight) {
+        return variant;
       }
     }
     
     // Fallback to first variant
-    return variants[0].template;
+    return variants[0];
   }
 
   private hashUserId(userId: string): number {
@@ -631,6 +736,19 @@ class AdvancedMarketingAutomation {
     }
   }
 
+  // Template as a given user would receive it, for the campaign builder preview
+  async previewTemplate(template: MessageTemplate, userId: string): Promise<MessageTemplate> {
+    const user = await advancedUserProfileService.getDetailedProfile(userId);
+    if (!user) {
+      throw new Error('User profile not found');
+    }
+
+    const predictions = await aiBehaviorPredictionEngine.getAllPredictions(userId);
+    const personalized = await this.personalizeTemplateVariables(template, user, predictions);
+    const cta = await this.personalizeCTAs(template.cta || [], user, predictions);
+    return { ...personalized, cta };
+  }
+
   private async personalizeTemplateVariables(
     template: MessageTemplate, 
     user: DetailedUserProfile,
@@ -800,109 +918,34 @@ class AdvancedMarketingAutomation {
   }
 
   // Message Queue Management
+  // Delivery runs in the processMarketingQueue Cloud Function: channel adapters, retries,
+  // dead-lettering and per-user frequency caps all live there
   private async queueMessages(messages: QueuedMessage[]): Promise<void> {
-    for (const message of messages) {
-      this.messageQueue.push(message);
-    }
-
-    // Sort queue by scheduled time
-    this.messageQueue.sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
-  }
-
-  private startMessageProcessor(): void {
-    setInterval(() => {
-      this.processMessageQueue();
-    }, 60000); // Process every minute
-  }
-
-  private async processMessageQueue(): Promise<void> {
-    const now = new Date();
-    const readyMessages = this.messageQueue.filter(msg => 
-      msg.status === 'queued' && msg.scheduledTime <= now
-    );
-
-    for (const message of readyMessages) {
-      try {
-        await this.sendMessage(message);
-        message.status = 'sent';
-        
-        // Remove from queue
-        this.messageQueue = this.messageQueue.filter(msg => msg.id !== message.id);
-        
-      } catch (error) {
-        logger.error('Error sending message', { messageId: message.id, error });
-        message.status = 'failed';
-      }
-    }
-  }
-
-  private async sendMessage(message: QueuedMessage): Promise<void> {
-    // This would integrate with actual messaging services
-    switch (message.type) {
-      case 'email':
-        await this.sendEmail(message);
-        break;
-      case 'sms':
-        await this.sendSMS(message);
-        break;
-      case 'whatsapp':
-        await this.sendWhatsApp(message);
-        break;
-      case 'push':
-        await this.sendPushNotification(message);
-        break;
-      case 'in_app':
-        await this.sendInAppMessage(message);
-        break;
-    }
-
-    // Track sending
-    await this.trackMessageSent(message);
-  }
-
-  // Message delivery methods (simplified implementations)
-  private async sendEmail(message: QueuedMessage): Promise<void> {
-    logger.info('Sending email', { 
-      messageId: message.id, 
-      userId: message.userId,
-      subject: message.content.subject 
-    });
-    // Integrate with email service (SendGrid, AWS SES, etc.)
-  }
-
-  private async sendSMS(message: QueuedMessage): Promise<void> {
-    logger.info('Sending SMS', { messageId: message.id, userId: message.userId });
-    // Integrate with SMS service (Twilio, etc.)
-  }
+    const enqueue = httpsCallable(functions, 'enqueueMarketingMessages');
+    // Retargeting campaigns feed ad audiences, there is no message to deliver
+    const deliverable = messages.filter(message => message.type !== 'retargeting');
 
-  private async sendWhatsApp(message: QueuedMessage): Promise<void> {
-    logger.info('Sending WhatsApp', { messageId: message.id, userId: message.userId });
-    // Integrate with WhatsApp Business API
-  }
-
-  private async sendPushNotification(message: QueuedMessage): Promise<void> {
-    logger.info('Sending push notification', { messageId: message.id, userId: message.userId });
-    // Integrate with Firebase Cloud Messaging
-  }
-
-  private async sendInAppMessage(message: QueuedMessage): Promise<void> {
-    logger.info('Scheduling in-app message', { messageId: message.id, userId: message.userId });
-    // Store for in-app display
-  }
-
-  // Analytics and Tracking
-  private async trackMessageSent(message: QueuedMessage): Promise<void> {
-    try {
-      await addDoc(collection(db, 'messageTracking'), {
-        messageId: message.id,
+    for (let start = 0; start < deliverable.length; start += MAX_ENQUEUE_BATCH) {
+      const batch = deliverable.slice(start, start + MAX_ENQUEUE_BATCH).map(message => ({
+        id: message.id,
         campaignId: message.campaignId,
         userId: message.userId,
-        type: message.type,
-        sentAt: new Date(),
-        tracking: message.tracking
-      });
-    } catch (error) {
-      logger.error('Error tracking message', { messageId: message.id, error });
+        channel: message.type,
+        content: {
+          subject: message.content.subject,
+          title: message.content.title,
+          body: message.content.body,
+          html: message.content.html,
+          cta: message.content.cta.map(cta => ({ text: cta.text, url: cta.url })),
+          footerText: message.content.footerText
+        },
+        scheduledAt: message.scheduledTime.getTime(),
+        segmentId: message.personalizationData.segmentId,
+        variantId: message.variantId
+      }));
+
+      const result = await enqueue({ messages: batch });
+      logger.info('Messages queued for delivery', { queued: (result.data as any).queued, total: batch.length });
     }
   }
 
@@ -915,7 +958,7 @@ class AdvancedMarketingAutomation {
   private async updateCampaignAnalytics(): Promise<void> {
     for (const [campaignId, campaign] of this.activeCampaigns) {
       try {
-        const analytics = await this.calculateCampaignAnalytics(campaignId);
+        const analytics = await this.getCampaignAnalytics(campaignId);
         campaign.analytics = analytics;
         await this.updateCampaign(campaign);
       } catch (error) {
@@ -924,25 +967,6 @@ class AdvancedMarketingAutomation {
     }
   }
 
-  private async calculateCampaignAnalytics(campaignId: string): Promise<CampaignAnalytics> {
-    // This would query actual tracking data
-    return {
-      sent: 0,
-      delivered: 0,
-      opened: 0,
-      clicked: 0,
-      converted: 0,
-      unsubscribed: 0,
-      bounced: 0,
-      revenue: 0,
-      costPerConversion: 0,
-      roi: 0,
-      segmentPerformance: {},
-      timeSeriesData: [],
-      heatmapData: []
-    };
-  }
-
   // Automation Rules
   async createAutomationRule(rule: Omit<AutomationRule, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
     const ruleId = `automation_${Date.now()}`;
@@ -967,6 +991,22 @@ class AdvancedMarketingAutomation {
     return ruleId;
   }
 
+  async listAutomationRules(): Promise<AutomationRule[]> {
+    const snapshot = await getDocs(query(collection(db, 'automationRules'), orderBy('createdAt', 'desc')));
+    const rules = snapshot.docs.map(ruleDoc => this.toAutomationRule(ruleDoc.data()));
+    rules.forEach(rule => this.automationRules.set(rule.id, rule));
+    return rules;
+  }
+
+  async setAutomationRuleEnabled(ruleId: string, enabled: boolean): Promise<void> {
+    const rule = this.automationRules.get(ruleId);
+    if (!rule) {
+      throw new Error('Automation rule not found');
+    }
+    rule.enabled = enabled;
+    await this.updateAutomationRule(rule);
+  }
+
   async triggerAutomation(eventName: string, userId: string, parameters?: any): Promise<void> {
     const relevantRules = Array.from(this.automationRules.values()).filter(rule => 
       rule.enabled && rule.trigger.eventName === eventName
@@ -1076,13 +1116,47 @@ class AdvancedMarketingAutomation {
   // Database operations
   private async saveCampaign(campaign: MarketingCampaign): Promise<void> {
     const campaignRef = doc(db, 'marketingCampaigns', campaign.id);
-    await setDoc(campaignRef, campaign);
+    await setDoc(campaignRef, withoutUndefined(campaign));
   }
 
   private async getCampaign(campaignId: string): Promise<MarketingCampaign | null> {
     const campaignRef = doc(db, 'marketingCampaigns', campaignId);
     const snapshot = await getDoc(campaignRef);
-    return snapshot.exists() ? snapshot.data() as MarketingCampaign : null;
+    return snapshot.exists() ? this.toCampaign(snapshot.data()) : null;
+  }
+
+  // Firestore returns Timestamps where the campaign holds Dates
+  private toCampaign(data: any): MarketingCampaign {
+    return {
+      ...data,
+      schedule: {
+        ...data.schedule,
+        startDate: this.toDate(data.schedule.startDate),
+        endDate: data.schedule.endDate ? this.toDate(data.schedule.endDate) : undefined
+      },
+      analytics: {
+        ...data.analytics,
+        timeSeriesData: (data.analytics?.timeSeriesData || []).map((point: any) => ({
+          ...point,
+          timestamp: this.toDate(point.timestamp)
+        }))
+      },
+      createdAt: this.toDate(data.createdAt),
+      updatedAt: this.toDate(data.updatedAt)
+    } as MarketingCampaign;
+  }
+
+  private toAutomationRule(data: any): AutomationRule {
+    return {
+      ...data,
+      analytics: { ...data.analytics, lastExecution: this.toDate(data.analytics.lastExecution) },
+      createdAt: this.toDate(data.createdAt),
+      updatedAt: this.toDate(data.updatedAt)
+    } as AutomationRule;
+  }
+
+  private toDate(value: any): Date {
+    return value?.toDate ? value.toDate() : new Date(value);
   }
 
   private async updateCampaign(campaign: MarketingCampaign): Promise<void> {
@@ -1092,7 +1166,7 @@ class AdvancedMarketingAutomation {
 
   private async saveAutomationRule(rule: AutomationRule): Promise<void> {
     const ruleRef = doc(db, 'automationRules', rule.id);
-    await setDoc(ruleRef, rule);
+    await setDoc(ruleRef, withoutUndefined(rule));
   }
 
   private async updateAutomationRule(rule: AutomationRule): Promise<void> {
@@ -1126,11 +1200,24 @@ class AdvancedMarketingAutomation {
     if (!campaign.content.templates || Object.keys(campaign.content.templates).length === 0) {
       throw new Error('Campaign must have at least one message template');
     }
+
+    const variants = campaign.personalization.abTestVariants || [];
+    if (variants.length > 0) {
+      const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+      if (totalWeight !== 100) {
+        throw new Error(`A/B test variant weights must add up to 100 (got ${totalWeight})`);
+      }
+      if (variants.some(variant => !variant.template.body.trim())) {
+        throw new Error('Every A/B test variant needs a message body');
+      }
+    }
   }
 
   private initializeDefaultAutomations(): void {
-    // Initialize default automation rules
-    this.createAutomationRule({
+    // Built-in rules live in memory only; rules created in the admin panel are stored in automationRules
+    const now = new Date();
+    this.automationRules.set(DEFAULT_WELCOME_RULE_ID, {
+      id: DEFAULT_WELCOME_RULE_ID,
       name: 'Welcome Series',
       description: 'Send welcome messages to new users',
       enabled: true,
@@ -1148,9 +1235,11 @@ class AdvancedMarketingAutomation {
         executed: 0,
         succeeded: 0,
         failed: 0,
-        lastExecution: new Date(),
+        lastExecution: now,
         avgExecutionTime: 0
-      }
+      },
+      createdAt: now,
+      updatedAt: now
     });
   }
 
@@ -1187,6 +1276,32 @@ class AdvancedMarketingAutomation {
   }
 }
 
+// enqueueMarketingMessages limit per call
+const MAX_ENQUEUE_BATCH = 500;
+
+// Profiles read per getBatchUsers call when an audience has no segments
+const PROFILE_PAGE_SIZE = 500;
+
+// Daily delivery buckets shown in the campaign analytics
+const ANALYTICS_DAYS = 30;
+
+const DEFAULT_WELCOME_RULE_ID = 'automation_welcome_series';
+
+// Firestore rejects undefined fields; optional fields the builder leaves empty are dropped
+function withoutUndefined<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => withoutUndefined(item)) as T;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, fieldValue]) => fieldValue !== undefined)
+        .map(([key, fieldValue]) => [key, withoutUndefined(fieldValue)])
+    ) as T;
+  }
+  return value;
+}
+
 // Message queue interface
 interface QueuedMessage {
   id: string;
@@ -1196,6 +1311,7 @@ interface QueuedMessage {
   content: MessageTemplate & { cta: CallToAction[] };
   scheduledTime: Date;
   status: 'queued' | 'sent' | 'failed' | 'cancelled';
+  variantId?: string; // A/B test variant the user was assigned to
   personalizationData: {
     segmentId: string;
     predictions: any;
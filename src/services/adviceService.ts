@@ -0,0 +1,65 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../firebase';
+import { logger } from '../utils/logger';
+
+export type SensitiveTopic = 'self_harm' | 'abuse';
+
+export interface AdviceResource {
+  name: string;
+  contact: string;
+  region: string;
+}
+
+// Vetted resources returned instead of generated advice, see functions/src/advice.ts
+export interface AdviceEscalation {
+  topic: SensitiveTopic | 'safety_filter';
+  message: string;
+  resources: AdviceResource[];
+}
+
+export interface AdviceMessage {
+  id: string;
+  role: 'user' | 'model';
+  text: string;
+  escalation?: AdviceEscalation;
+  createdAt: Date;
+}
+
+/**
+ * Relationship advice chat. It has its own history and system instruction on the server and
+ * deliberately bypasses geminiService, so advice never feeds the learning, analytics,
+ * personalization or segmentation used for the travel chat and marketing.
+ */
+class AdviceService {
+  async sendMessage(message: string): Promise<AdviceMessage> {
+    const result = await httpsCallable(functions, 'sendAdviceMessage')({ message });
+    const reply = (result.data as any).reply;
+    if (reply.escalation) {
+      logger.log(`🆘 Advice message answered with ${reply.escalation.topic} resources`);
+    }
+    return this.toMessage(reply);
+  }
+
+  async getHistory(limit = 50): Promise<AdviceMessage[]> {
+    const result = await httpsCallable(functions, 'getAdviceHistory')({ limit });
+    return ((result.data as any).history || []).map((message: any) => this.toMessage(message));
+  }
+
+  async clearHistory(): Promise<number> {
+    const result = await httpsCallable(functions, 'deleteAdviceHistory')({});
+    logger.log('🗑️ Advice history deleted');
+    return (result.data as any).deletedCount as number;
+  }
+
+  private toMessage(data: any): AdviceMessage {
+    return {
+      id: data.id,
+      role: data.role,
+      text: data.text,
+      escalation: data.escalation,
+      createdAt: new Date(data.createdAt)
+    };
+  }
+}
+
+export const adviceService = new AdviceService();
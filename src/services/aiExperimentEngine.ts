@@ -1,6 +1,9 @@
+import { httpsCallable } from 'firebase/functions';
+import { collection, getDocs, orderBy, query } from 'firebase/firestore';
+import { db, functions } from '../firebase';
 import { logger } from '../utils/logger';
 
-interface ExperimentVariant {
+export interface ExperimentVariant {
   id: string;
   name: string;
   weight: number; // 0-100 arasında yüzde
@@ -13,7 +16,7 @@ interface ExperimentVariant {
   };
 }
 
-interface ExperimentResult {
+export interface ExperimentResult {
   variantId: string;
   sessionId: string;
   userId?: string;
@@ -30,236 +33,204 @@ interface ExperimentResult {
   timestamp: number;
 }
 
-interface ExperimentStats {
+export type ExperimentStatus = 'running' | 'stopped';
+export type ExperimentMetric = 'conversionRate' | 'successRate';
+
+// Stored in experiments/{experimentId}, created and changed only through Cloud Functions
+export interface ExperimentDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  variants: ExperimentVariant[]; // İlk variant kontrol grubu
+  status: ExperimentStatus;
+  primaryMetric: ExperimentMetric;
+  alpha: number;
+  power: number;
+  minimumDetectableEffect: number; // Relative lift, 0.2 = +20%
+}
+
+export interface CreateExperimentInput {
+  experimentId: string;
+  name: string;
+  description?: string;
+  variants: ExperimentVariant[];
+  primaryMetric?: ExperimentMetric;
+  alpha?: number;
+  power?: number;
+  minimumDetectableEffect?: number;
+}
+
+// Mirrors ExperimentReport in functions/src/experiment-stats.ts
+export interface VariantReport {
   variantId: string;
-  totalTests: number;
+  name: string;
+  isControl: boolean;
+  assignedUsers: number;
+  exposures: number;
+  sampleSize: number;
+  rate: number;
+  confidenceInterval: [number, number];
+  conversionRate: number;
   successRate: number;
   avgResponseTime: number;
-  avgUserEngagement: number;
-  conversionRate: number;
-  lastUpdated: number;
+  lift?: number;
+  zScore?: number;
+  pValue?: number;
+  significant: boolean;
 }
 
-class AIExperimentEngine {
-  private experiments: Map<string, ExperimentVariant[]> = new Map();
-  private experimentResults: Map<string, ExperimentResult[]> = new Map();
-  private experimentStats: Map<string, ExperimentStats> = new Map();
-  private activeExperiments: Set<string> = new Set();
-
-  constructor() {
-    this.initializeDefaultExperiments();
-  }
-
-  // Varsayılan deneyleri başlat
-  private initializeDefaultExperiments(): void {
-    // Prompt Style Experiment
-    this.createExperiment('prompt_style', [
-      {
-        id: 'formal',
-        name: 'Formal Professional',
-        weight: 25,
-        config: {
-          promptStyle: 'formal',
-          responseLength: 'medium',
-          emojiUsage: 'minimal'
-        }
-      },
-      {
-        id: 'casual',
-        name: 'Casual Friendly',
-        weight: 25,
-        config: {
-          promptStyle: 'casual',
-          responseLength: 'medium',
-          emojiUsage: 'moderate'
-        }
-      },
-      {
-        id: 'enthusiastic',
-        name: 'Enthusiastic',
-        weight: 25,
-        config: {
-          promptStyle: 'enthusiastic',
-          responseLength: 'long',
-          emojiUsage: 'heavy'
-        }
-      },
-      {
-        id: 'minimal',
-        name: 'Minimal Concise',
-        weight: 25,
-        config: {
-          promptStyle: 'minimal',
-          responseLength: 'short',
-          emojiUsage: 'none'
-        }
-      }
-    ]);
-
-    // Package Recommendation Strategy Experiment
-    this.createExperiment('package_strategy', [
-      {
-        id: 'conservative',
-        name: 'Conservative Recommendations',
-        weight: 33,
-        config: {
-          packageRecommendationStrategy: 'conservative',
-          personalizationLevel: 'low'
-        }
-      },
-      {
-        id: 'aggressive',
-        name: 'Aggressive Recommendations',
-        weight: 33,
-        config: {
-          packageRecommendationStrategy: 'aggressive',
-          personalizationLevel: 'high'
-        }
-      },
-      {
-        id: 'contextual',
-        name: 'Contextual Recommendations',
-        weight: 34,
-        config: {
-          packageRecommendationStrategy: 'contextual',
-          personalizationLevel: 'medium'
-        }
-      }
-    ]);
-
-    this.activeExperiments.add('prompt_style');
-    this.activeExperiments.add('package_strategy');
-
-    logger.log('🧪 Default AI experiments initialized');
-  }
-
-  // Yeni deney oluştur
-  createExperiment(experimentId: string, variants: ExperimentVariant[]): void {
-    // Weight'lerin toplamının 100 olduğunu kontrol et
-    const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
-    if (Math.abs(totalWeight - 100) > 0.1) {
-      logger.error(`Experiment ${experimentId} weights don't add up to 100: ${totalWeight}`);
-      return;
-    }
-
-    this.experiments.set(experimentId, variants);
-    this.experimentResults.set(experimentId, []);
-    
-    // Her variant için stats initialize et
-    variants.forEach(variant => {
-      const statsKey = `${experimentId}_${variant.id}`;
-      this.experimentStats.set(statsKey, {
-        variantId: variant.id,
-        totalTests: 0,
-        successRate: 0,
-        avgResponseTime: 0,
-        avgUserEngagement: 0,
-        conversionRate: 0,
-        lastUpdated: Date.now()
-      });
-    });
+export interface ExperimentReport {
+  experimentId: string;
+  name: string;
+  status: ExperimentStatus;
+  primaryMetric: ExperimentMetric;
+  controlVariantId: string;
+  totalExposures: number;
+  requiredSampleSizePerVariant: number;
+  informationFraction: number;
+  significanceBoundary: number;
+  sampleRatioMismatch: boolean;
+  variants: VariantReport[];
+  winner?: string;
+  insights: string[];
+}
 
-    logger.log(`🧪 Experiment created: ${experimentId} with ${variants.length} variants`);
-  }
+const FLUSH_DELAY_MS = 5000;
+const MAX_BATCH_SIZE = 25; // recordExperimentResults limit
+const MAX_TRACKED_RESPONSES = 100;
 
-  // Kullanıcı için variant seç
-  selectVariant(experimentId: string, userId?: string, sessionId?: string): ExperimentVariant | null {
-    if (!this.activeExperiments.has(experimentId)) {
-      return null;
+/**
+ * A/B experiments for the assistant. Experiments, sticky per-user assignments and results
+ * live in Firestore; this class caches the signed-in user's assignments so variant
+ * selection stays synchronous, and batches results to the server where they are aggregated.
+ */
+class AIExperimentEngine {
+  private assignments: Map<string, ExperimentVariant> = new Map();
+  private assignmentsUserId: string | null = null;
+  private loading: Promise<void> | null = null;
+  private pendingResults: Array<Record<string, unknown>> = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  // Yanıt metni -> sonuç id'leri (mesaj geri bildirimini doğru sonuca bağlamak için)
+  private resultIdsByResponse: Map<string, string[]> = new Map();
+
+  // Kullanıcının atamalarını yükle (tüm cihazlarda aynı variant)
+  loadAssignments(userId: string | null | undefined): Promise<void> {
+    if (!userId) {
+      this.assignments.clear();
+      this.assignmentsUserId = null;
+      return Promise.resolve();
     }
-
-    const variants = this.experiments.get(experimentId);
-    if (!variants) return null;
-
-    // Kullanıcı bazlı consistent assignment (aynı kullanıcı hep aynı variant'ı alsın)
-    let seed = 0;
-    if (userId) {
-      seed = this.hashString(userId);
-    } else if (sessionId) {
-      seed = this.hashString(sessionId);
-    } else {
-      seed = Math.random();
+    if (this.assignmentsUserId === userId) {
+      return this.loading || Promise.resolve();
     }
 
-    // Weight'lere göre seçim yap
-    const randomValue = (seed % 100);
-    let cumulativeWeight = 0;
-
-    for (const variant of variants) {
-      cumulativeWeight += variant.weight;
-      if (randomValue < cumulativeWeight) {
-        logger.log(`🎯 Selected variant ${variant.id} for experiment ${experimentId}`);
-        return variant;
+    this.assignmentsUserId = userId;
+    this.assignments.clear();
+    this.loading = (async () => {
+      try {
+        const result = await httpsCallable(functions, 'getExperimentAssignments')({});
+        const assignments = (result.data as any).assignments as Record<string, { variantId: string; config: ExperimentVariant['config'] }>;
+        if (this.assignmentsUserId !== userId) return; // Signed out meanwhile
+
+        Object.entries(assignments || {}).forEach(([experimentId, assignment]) => {
+          this.assignments.set(experimentId, {
+            id: assignment.variantId,
+            name: assignment.variantId,
+            weight: 0,
+            config: assignment.config
+          });
+        });
+        logger.log(`🧪 Experiment assignments loaded: ${this.assignments.size}`);
+      } catch (error) {
+        // Without assignments the default prompt is used and nothing is recorded
+        logger.error('❌ Error loading experiment assignments:', error);
+        this.assignmentsUserId = null;
+      } finally {
+        this.loading = null;
       }
-    }
-
-    return variants[0]; // Fallback
+    })();
+    return this.loading;
   }
 
-  // String'i hash'e çevir (basit hash function)
-  private hashString(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32bit integer
+  // Kullanıcının atandığı tüm çalışan deneyler; her ayarı en fazla bir deney değiştirir
+  selectVariants(userId?: string | null): Array<{ experimentId: string; variant: ExperimentVariant }> {
+    if (!userId) return [];
+    if (this.assignmentsUserId !== userId) {
+      // Picked up from the next message on
+      void this.loadAssignments(userId);
+      return [];
     }
-    return Math.abs(hash) % 100;
+    return Array.from(this.assignments.entries()).map(([experimentId, variant]) => ({ experimentId, variant }));
   }
 
-  // Deney sonucunu kaydet
-  recordExperimentResult(experimentId: string, result: ExperimentResult): void {
-    const results = this.experimentResults.get(experimentId) || [];
-    results.push(result);
-    this.experimentResults.set(experimentId, results);
-
-    // Stats'ı güncelle
-    this.updateExperimentStats(experimentId, result);
+  // Deney sonucunu kaydet; sunucuya toplu gönderilir
+  recordExperimentResult(experimentId: string, result: ExperimentResult): string | null {
+    const assigned = this.assignments.get(experimentId);
+    if (!assigned || assigned.id !== result.variantId) {
+      return null; // Not a server-side experiment for this user
+    }
 
-    logger.log(`📊 Experiment result recorded for ${experimentId}:${result.variantId}`);
-  }
+    const resultId = `${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 12)}`;
+    this.pendingResults.push({
+      resultId,
+      experimentId,
+      variantId: result.variantId,
+      sessionId: result.sessionId,
+      responseTime: result.engagementMetrics.responseTime,
+      messageLength: result.engagementMetrics.messageLength,
+      converted: result.engagementMetrics.containsPackageClick || result.engagementMetrics.leadToBooking
+    });
 
-  // Deney istatistiklerini güncelle
-  private updateExperimentStats(experimentId: string, result: ExperimentResult): void {
-    const statsKey = `${experimentId}_${result.variantId}`;
-    let stats = this.experimentStats.get(statsKey);
-
-    if (!stats) {
-      stats = {
-        variantId: result.variantId,
-        totalTests: 0,
-        successRate: 0,
-        avgResponseTime: 0,
-        avgUserEngagement: 0,
-        conversionRate: 0,
-        lastUpdated: Date.now()
-      };
+    const key = result.response.trim();
+    this.resultIdsByResponse.set(key, [...(this.resultIdsByResponse.get(key) || []), resultId]);
+    if (this.resultIdsByResponse.size > MAX_TRACKED_RESPONSES) {
+      this.resultIdsByResponse.delete(this.resultIdsByResponse.keys().next().value);
     }
 
-    const oldTotal = stats.totalTests;
-    stats.totalTests++;
+    if (this.pendingResults.length >= MAX_BATCH_SIZE) {
+      void this.flushResults();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flushResults(), FLUSH_DELAY_MS);
+    }
 
-    // Running average calculations
-    stats.avgResponseTime = ((stats.avgResponseTime * oldTotal) + result.engagementMetrics.responseTime) / stats.totalTests;
-    stats.avgUserEngagement = ((stats.avgUserEngagement * oldTotal) + result.engagementMetrics.userResponseTime) / stats.totalTests;
+    logger.log(`📊 Experiment result queued for ${experimentId}:${result.variantId}`);
+    return resultId;
+  }
 
-    // Success rate (thumbs up)
-    if (result.userFeedback === 'thumbs_up') {
-      stats.successRate = ((stats.successRate * oldTotal) + 1) / stats.totalTests;
-    } else if (result.userFeedback === 'thumbs_down') {
-      stats.successRate = (stats.successRate * oldTotal) / stats.totalTests;
+  // Bekleyen sonuçları gönder
+  flushResults(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
     }
+    const batch = this.pendingResults.splice(0, MAX_BATCH_SIZE);
+    if (batch.length === 0) return this.flushing;
+
+    this.flushing = this.flushing.then(async () => {
+      try {
+        await httpsCallable(functions, 'recordExperimentResults')({ results: batch });
+      } catch (error) {
+        // Best effort: losing a few results only widens the confidence intervals
+        logger.error('❌ Error recording experiment results:', error);
+      }
+    });
+    return this.pendingResults.length > 0 ? this.flushResults() : this.flushing;
+  }
 
-    // Conversion rate (package click or booking)
-    if (result.engagementMetrics.containsPackageClick || result.engagementMetrics.leadToBooking) {
-      const oldConversions = stats.conversionRate * oldTotal;
-      stats.conversionRate = (oldConversions + 1) / stats.totalTests;
-    } else {
-      stats.conversionRate = (stats.conversionRate * oldTotal) / stats.totalTests;
+  // Mesaj geri bildirimini (👍/👎) o yanıtın deney sonuçlarına işle
+  async recordFeedback(response: string, feedback: 'thumbs_up' | 'thumbs_down' | null): Promise<void> {
+    const resultIds = this.resultIdsByResponse.get(response.trim());
+    if (!resultIds) return;
+
+    await this.flushResults(); // The results must exist server-side first
+    try {
+      const record = httpsCallable(functions, 'recordExperimentFeedback');
+      await Promise.all(resultIds.map(resultId => record({ resultId, feedback })));
+      logger.log(`👍👎 Experiment feedback recorded for ${resultIds.length} result(s)`);
+    } catch (error) {
+      logger.error('❌ Error recording experiment feedback:', error);
     }
-
-    stats.lastUpdated = Date.now();
-    this.experimentStats.set(statsKey, stats);
   }
 
   // Variant'a göre prompt modifikasyonu
@@ -327,105 +298,42 @@ class AIExperimentEngine {
     return modifiedPrompt;
   }
 
-  // Deney istatistiklerini al
-  getExperimentStats(experimentId: string): ExperimentStats[] {
-    const variants = this.experiments.get(experimentId);
-    if (!variants) return [];
-
-    return variants.map(variant => {
-      const statsKey = `${experimentId}_${variant.id}`;
-      return this.experimentStats.get(statsKey)!;
-    }).filter(stats => stats.totalTests > 0);
+  // Kullanıcının aktif atamaları
+  getAssignments(): Array<{ experimentId: string; variantId: string }> {
+    return Array.from(this.assignments.entries()).map(([experimentId, variant]) => ({
+      experimentId,
+      variantId: variant.id
+    }));
   }
 
-  // Kazanan variant'ı tespit et
-  identifyWinningVariant(experimentId: string, metric: 'successRate' | 'conversionRate' | 'avgUserEngagement' = 'successRate'): ExperimentStats | null {
-    const stats = this.getExperimentStats(experimentId);
-    if (stats.length === 0) return null;
-
-    // Minimum sample size kontrolü
-    const minSampleSize = 50;
-    const qualifiedStats = stats.filter(s => s.totalTests >= minSampleSize);
-    
-    if (qualifiedStats.length === 0) {
-      logger.log(`🧪 Not enough data for ${experimentId} (min ${minSampleSize} tests per variant)`);
-      return null;
-    }
-
-    return qualifiedStats.reduce((winner, current) => {
-      return current[metric] > winner[metric] ? current : winner;
-    });
+  // Tüm deneyler (admin)
+  async listExperiments(): Promise<ExperimentDefinition[]> {
+    const snapshot = await getDocs(query(collection(db, 'experiments'), orderBy('createdAt', 'desc')));
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as ExperimentDefinition);
   }
 
-  // Deney raporu oluştur
-  generateExperimentReport(experimentId: string): {
-    experimentId: string;
-    status: 'running' | 'concluded';
-    totalTests: number;
-    variants: Array<{
-      variantId: string;
-      tests: number;
-      successRate: number;
-      conversionRate: number;
-      isWinner?: boolean;
-    }>;
-    winner?: ExperimentStats;
-    insights: string[];
-  } {
-    const stats = this.getExperimentStats(experimentId);
-    const totalTests = stats.reduce((sum, s) => sum + s.totalTests, 0);
-    const winner = this.identifyWinningVariant(experimentId);
-
-    const insights: string[] = [];
-    
-    // Statistical insights
-    if (stats.length > 1) {
-      const sortedBySuccess = [...stats].sort((a, b) => b.successRate - a.successRate);
-      const best = sortedBySuccess[0];
-      const worst = sortedBySuccess[sortedBySuccess.length - 1];
-      
-      if (best.successRate - worst.successRate > 0.1) {
-        insights.push(`Significant difference: ${best.variantId} performs ${((best.successRate - worst.successRate) * 100).toFixed(1)}% better than ${worst.variantId}`);
-      }
-
-      // Conversion insights
-      const sortedByConversion = [...stats].sort((a, b) => b.conversionRate - a.conversionRate);
-      if (sortedByConversion[0].conversionRate > 0.05) {
-        insights.push(`${sortedByConversion[0].variantId} has the highest conversion rate at ${(sortedByConversion[0].conversionRate * 100).toFixed(1)}%`);
-      }
+  // Yeni deney oluştur ve başlat (admin)
+  async createExperiment(input: CreateExperimentInput): Promise<void> {
+    const totalWeight = input.variants.reduce((sum, variant) => sum + variant.weight, 0);
+    if (Math.abs(totalWeight - 100) > 0.1) {
+      throw new Error(`Variant weights must add up to 100 (got ${totalWeight})`);
     }
-
-    return {
-      experimentId,
-      status: winner ? 'concluded' : 'running',
-      totalTests,
-      variants: stats.map(s => ({
-        variantId: s.variantId,
-        tests: s.totalTests,
-        successRate: s.successRate,
-        conversionRate: s.conversionRate,
-        isWinner: winner?.variantId === s.variantId
-      })),
-      winner: winner || undefined,
-      insights
-    };
+    await httpsCallable(functions, 'createExperiment')(input);
+    logger.log(`🧪 Experiment created: ${input.experimentId} with ${input.variants.length} variants`);
   }
 
-  // Aktif deneyleri al
-  getActiveExperiments(): string[] {
-    return Array.from(this.activeExperiments);
+  // Deney başlat/durdur (admin)
+  async setExperimentStatus(experimentId: string, status: ExperimentStatus): Promise<void> {
+    await httpsCallable(functions, 'setExperimentStatus')({ experimentId, status });
+    logger.log(`🧪 Experiment ${experimentId} ${status}`);
   }
 
-  // Deney başlat/durdur
-  toggleExperiment(experimentId: string, active: boolean): void {
-    if (active) {
-      this.activeExperiments.add(experimentId);
-    } else {
-      this.activeExperiments.delete(experimentId);
-    }
-    
-    logger.log(`🧪 Experiment ${experimentId} ${active ? 'activated' : 'deactivated'}`);
+  // Deney raporu: güven aralıkları, ardışık test sınırı ve gereken örneklem (admin)
+  async generateExperimentReport(experimentId: string): Promise<ExperimentReport> {
+    const result = await httpsCallable(functions, 'getExperimentReport')({ experimentId });
+    const data = result.data as any;
+    return { experimentId: data.experimentId, name: data.name, status: data.status, ...data.report };
   }
 }
 
-export const aiExperimentEngine = new AIExperimentEngine();
\ No newline at end of file
+export const aiExperimentEngine = new AIExperimentEngine();
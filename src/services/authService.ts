@@ -24,6 +24,7 @@ import { auth, db, firebaseConfig } from '../firebase';
 import { getAuthFunctions, getFirestoreFunctions } from '../utils/firebase-lazy';
 import { logger } from '../utils/logger';
 import { validateCurrentDomain } from '../utils/environment';
+import { COUPLE_SESSION_PREFIX } from './coupleService';
 
 // Development/Debug mode configuration
 const isDevelopment = import.meta.env.DEV;
@@ -138,6 +139,7 @@ export interface User {
   name: string; // Zorunlu yapıldı
   surname?: string;
   chatSessionId?: string; // Her kullanıcı için Firestore'da saklanabilir
+  coupleId?: string; // Partnerle bağlıyken, sadece Functions yazar (couples/{coupleId})
   messageCount?: number;
   isPremium?: boolean;
   isVerified?: boolean; // Firebase Auth email verification kullanılabilir
@@ -698,6 +700,12 @@ class AuthService {
       logger.log('🔄 Getting user profile for session ID...');
       const userProfile = await this.getUserProfile(firebaseUser.uid);
       logger.log('👤 User profile:', userProfile);
+
+      // Partnerle bağlı kullanıcılar çiftin ortak sohbetini kullanır
+      if (userProfile?.coupleId) {
+        logger.log('💑 Using couple session for couple:', userProfile.coupleId);
+        return `${COUPLE_SESSION_PREFIX}${userProfile.coupleId}`;
+      }
       
       if (userProfile && userProfile.chatSessionId) {
         logger.log('✅ Found existing session ID:', userProfile.chatSessionId);
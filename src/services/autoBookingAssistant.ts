@@ -2,6 +2,10 @@ import { logger } from '../utils/logger';
 import { smartRecommendationEngine } from './smartRecommendationEngine';
 import { proactiveNotificationEngine } from './proactiveNotificationEngine';
 import { intelligentCacheSystem } from './intelligentCacheSystem';
+import { bookingService } from './bookingService';
+import { dynamicPricingEngine } from './dynamicPricingEngine';
+import { familyPlannerService } from './familyPlannerService';
+import { roomsForParty } from '../utils/family-party';
 
 interface BookingIntent {
   userId: string;
@@ -41,6 +45,7 @@ interface AutoBookingSession {
   startedAt: number;
   lastActivity: number;
   status: 'active' | 'paused' | 'completed' | 'abandoned' | 'failed';
+  bookingId?: string; // Set once createBooking has stored the booking
   totalEstimatedTime: number;
   completionPercentage: number;
   assistantPersonality: 'friendly' | 'professional' | 'enthusiastic';
@@ -763,7 +768,53 @@ class AutoBookingAssistant {
 
     logger.log(`🎉 Booking session completed: ${session.id} in ${completionTime}ms`);
 
-    return "🎉 Tebrikler! Rezervasyonunuz başarıyla tamamlandı. Onay emaili gönderildi. Size harika bir balayı diliyorum! 💕";
+    void this.submitBooking(session);
+
+    return "🎉 Tebrikler! Rezervasyon talebiniz oluşturuldu. Ödemeniz onaylandığında size onay emaili göndereceğiz. Size harika bir balayı diliyorum! 💕";
+  }
+
+  // Toplanan bilgileri createBooking callable'ı ile kaydet (fiyat ve durum sunucuda doğrulanır)
+  private async submitBooking(session: AutoBookingSession): Promise<void> {
+    const data = session.collectedData;
+    if (!session.packageId || !data.startDate || !data.endDate) {
+      logger.warn(`⚠️ Booking session ${session.id} has no package or dates, booking not created`);
+      return;
+    }
+
+    try {
+      // Sunucunun fiyat teklifi; createBooking quoteId ile aynı fiyatı kabul eder
+      const startDate = this.toIsoDate(data.startDate);
+      // Aile planlamasında rezervasyon aktif aile için yapılır, yoksa çift için
+      const party = familyPlannerService.getActiveParty();
+      const rooms = party ? roomsForParty(party) : 1;
+      const quote = await dynamicPricingEngine.getQuote(session.packageId, { rooms, travelDate: new Date(startDate) });
+
+      const result = await bookingService.createBooking({
+        packageId: session.packageId,
+        bookingDetails: {
+          startDate,
+          endDate: this.toIsoDate(data.endDate),
+          adults: party?.adults ?? 2,
+          ...(party && party.childAges.length > 0 ? { children: party.childAges.length, childAges: party.childAges } : {}),
+          rooms,
+          specialRequests: data.specialRequests?.join('\n')
+        },
+        customer: { email: data.email, phone: data.phone },
+        quoteId: quote.quoteId,
+        pricing: { totalPrice: quote.pricing.totalPrice, currency: quote.pricing.currency },
+        paymentPlan: data.paymentType
+      });
+      session.bookingId = result.bookingId;
+    } catch (error) {
+      session.status = 'failed';
+      logger.error(`❌ Booking could not be created for session ${session.id}:`, error);
+    }
+  }
+
+  // gg.aa.yyyy → yyyy-mm-dd
+  private toIsoDate(date: string): string {
+    const [day, month, year] = date.split(/[-/.]/);
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
   }
 
   // Abandoned session'ları kontrol et
@@ -0,0 +1,110 @@
+import { httpsCallable } from 'firebase/functions';
+import { collection, getDocs, orderBy, query, where } from 'firebase/firestore';
+import { db, functions } from '../firebase';
+import { logger } from '../utils/logger';
+import { COLLECTIONS } from '../types/firestore';
+import type { Booking } from '../types/firestore';
+
+export interface CreateBookingInput {
+  packageId: string;
+  bookingDetails: {
+    startDate: string; // ISO date
+    endDate: string; // ISO date
+    adults: number;
+    children?: number;
+    childAges?: number[];
+    rooms?: number;
+    specialRequests?: string;
+  };
+  customer: {
+    firstName?: string; // Defaults to the profile name on the server
+    lastName?: string;
+    email: string;
+    phone: string;
+    passportNumber?: string;
+    emergencyContact?: Booking['customer']['emergencyContact'];
+  };
+  // Price quote the user was shown (dynamicPricingEngine.getQuote); honoured while it is valid
+  quoteId?: string;
+  // Total the user was shown; without a valid quote the server rejects the booking if its own quote differs
+  pricing: {
+    totalPrice: number;
+    currency: string;
+  };
+  paymentMethod?: string;
+  paymentPlan?: 'full' | 'deposit' | 'installment';
+  installmentCount?: number; // 2-6, installment plan only
+}
+
+export interface BookingResult {
+  bookingId: string;
+  status: Booking['status'];
+  pricing?: Booking['pricing'];
+}
+
+/**
+ * Booking pipeline client. All writes go through Cloud Functions, which validate
+ * the payload, quote the price and enforce status transitions.
+ */
+class BookingService {
+  async createBooking(input: CreateBookingInput): Promise<BookingResult> {
+    const result = await httpsCallable(functions, 'createBooking')(input);
+    const data = result.data as any;
+    logger.log('📝 Booking created:', data.bookingId);
+    return { bookingId: data.bookingId, status: data.status, pricing: data.pricing };
+  }
+
+  async confirmBooking(bookingId: string, transactionId?: string): Promise<BookingResult> {
+    const result = await httpsCallable(functions, 'confirmBooking')({ bookingId, transactionId });
+    const data = result.data as any;
+    return { bookingId: data.bookingId, status: data.status };
+  }
+
+  async cancelBooking(bookingId: string, reason?: string): Promise<BookingResult> {
+    const result = await httpsCallable(functions, 'cancelBooking')({ bookingId, reason });
+    const data = result.data as any;
+    return { bookingId: data.bookingId, status: data.status };
+  }
+
+  /**
+   * Refund a cancelled, paid booking (admin only), possibly in several parts. Omit `amount` to
+   * refund everything that hasn't been refunded yet.
+   */
+  async refundBooking(bookingId: string, amount?: number): Promise<number> {
+    const result = await httpsCallable(functions, 'refundBooking')({ bookingId, amount });
+    return (result.data as any).refundAmount;
+  }
+
+  /**
+   * Start the payment of the booking's next open installment and return the payment page URL.
+   * The payment webhook records it and confirms the booking on the first payment.
+   */
+  async startCheckout(bookingId: string): Promise<string> {
+    const returnUrl = `${window.location.origin}${window.location.pathname}`;
+    const result = await httpsCallable(functions, 'createBookingCheckout')({
+      bookingId,
+      successUrl: `${returnUrl}?booking=${bookingId}&checkout=success`,
+      cancelUrl: `${returnUrl}?booking=${bookingId}&checkout=cancelled`
+    });
+    return (result.data as any).url;
+  }
+
+  /**
+   * The user's bookings, newest first (read directly, rules limit it to the owner)
+   */
+  async getUserBookings(userId: string): Promise<Booking[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, COLLECTIONS.BOOKINGS),
+        where('userId', '==', userId),
+        orderBy('createdAt', 'desc')
+      ));
+      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Booking);
+    } catch (error) {
+      logger.error('❌ Error loading bookings:', error);
+      return [];
+    }
+  }
+}
+
+export const bookingService = new BookingService();
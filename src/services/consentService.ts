@@ -0,0 +1,114 @@
+import { httpsCallable } from 'firebase/functions';
+import { collection, getDocs, orderBy, query } from 'firebase/firestore';
+import { db, functions } from '../firebase';
+import { logger } from '../utils/logger';
+
+export type ConsentCategory = 'marketing' | 'recommendations' | 'product_updates';
+export type ConsentChannel = 'email' | 'sms' | 'whatsapp' | 'push';
+export type SuppressionReason = 'unsubscribe' | 'hard_bounce' | 'complaint' | 'manual';
+export type SuppressionScope = 'marketing' | 'all';
+
+export const CONSENT_CATEGORIES: { id: ConsentCategory; label: string; description: string }[] = [
+  { id: 'marketing', label: 'Offers and campaigns', description: 'Discounts, special offers and seasonal campaigns' },
+  { id: 'recommendations', label: 'Personal recommendations', description: 'Price drops and packages picked for you' },
+  { id: 'product_updates', label: 'Product updates', description: 'New features and announcements' }
+];
+export const CONSENT_CHANNELS: { id: ConsentChannel; label: string }[] = [
+  { id: 'email', label: 'Email' },
+  { id: 'push', label: 'Push' },
+  { id: 'sms', label: 'SMS' },
+  { id: 'whatsapp', label: 'WhatsApp' }
+];
+
+export interface ChannelConsent {
+  channel: ConsentChannel;
+  granted: boolean;
+  source: string;
+  updatedAt: string | null; // ISO, null when the legacy settings decide
+}
+
+export interface CategoryConsent {
+  category: ConsentCategory;
+  channels: ChannelConsent[];
+}
+
+export interface ConsentChange {
+  category: ConsentCategory;
+  channel: ConsentChannel;
+  granted: boolean;
+}
+
+export interface ConsentExport {
+  userId: string;
+  exportedAt: string;
+  preferences: CategoryConsent[];
+  history: {
+    category: ConsentCategory;
+    channel: ConsentChannel;
+    granted: boolean;
+    source: string;
+    actor: string;
+    ipAddress: string | null;
+    userAgent: string | null;
+    at: string | null;
+  }[];
+  suppressions: { maskedAddress: string; reason: SuppressionReason; scope: SuppressionScope; createdAt: string | null }[];
+}
+
+export interface SuppressionEntry {
+  id: string;
+  kind: 'email' | 'phone';
+  maskedAddress: string;
+  reason: SuppressionReason;
+  scope: SuppressionScope;
+  note?: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+/**
+ * Communication consent per category and channel. Records and their history are written by
+ * Cloud Functions only, which also check them (and the suppression list) before every send.
+ */
+class ConsentService {
+  async getPreferences(): Promise<CategoryConsent[]> {
+    const result = await httpsCallable(functions, 'getConsentPreferences')();
+    return (result.data as any).preferences as CategoryConsent[];
+  }
+
+  async updateConsent(changes: ConsentChange[]): Promise<CategoryConsent[]> {
+    const result = await httpsCallable(functions, 'updateConsent')({ changes });
+    const preferences = (result.data as any).preferences as CategoryConsent[];
+    logger.log('✉️ Consent updated:', changes);
+    return preferences;
+  }
+
+  /**
+   * Full consent record for a GDPR / KVKK request. Admins can pass another user's id.
+   */
+  async exportHistory(userId?: string): Promise<ConsentExport> {
+    const result = await httpsCallable(functions, 'exportConsentHistory')({ userId });
+    return (result.data as any).export as ConsentExport;
+  }
+
+  // Suppression list (admin only)
+  async listSuppressions(): Promise<SuppressionEntry[]> {
+    const snapshot = await getDocs(query(collection(db, 'suppressionList'), orderBy('createdAt', 'desc')));
+    return snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data(),
+      createdAt: doc.data().createdAt?.toDate() || new Date()
+    }) as SuppressionEntry);
+  }
+
+  async suppressAddress(address: string, reason: SuppressionReason, scope: SuppressionScope, note?: string): Promise<void> {
+    await httpsCallable(functions, 'suppressAddress')({ address, reason, scope, note: note || undefined });
+  }
+
+  async removeSuppression(id: string): Promise<void> {
+    await httpsCallable(functions, 'unsuppressAddress')({ id });
+  }
+
+}
+
+export const consentService = new ConsentService();
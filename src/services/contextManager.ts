@@ -4,6 +4,7 @@ interface ConversationContext {
   userPreferences: {
     budget?: string;
     destinations?: string[];
+    travelDates?: string;
     travelStyle?: string;
     groupSize?: number;
     specialRequests?: string[];
@@ -45,6 +46,12 @@ class ContextManager {
       preferences.destinations = destinations;
     }
 
+    // Seyahat tarihi (ay adı veya gg.aa.yyyy)
+    const dateMatches = Array.from(allText.matchAll(/(?:^|\s)(\d{1,2}[./-]\d{1,2}[./-]\d{2,4}|(?:ocak|şubat|mart|nisan|mayıs|haziran|temmuz|ağustos|eylül|ekim|kasım|aralık|january|february|march|april|may|june|july|august|september|october|november|december)(?:\s+\d{4})?)(?=[\s.,!?]|$)/g));
+    if (dateMatches.length > 0) {
+      preferences.travelDates = dateMatches[dateMatches.length - 1][1]; // En son bahsedilen tarih
+    }
+
     // Grup büyüklüğü
     const groupMatches = allText.match(/(ikimiz|çift|2\s*kişi|iki kişi|tek|alone|solo)/gi);
     if (groupMatches) {
@@ -132,6 +139,10 @@ class ContextManager {
       summary += `Bütçesi: ${userPreferences.budget}. `;
     }
     
+    if (userPreferences.travelDates) {
+      summary += `Tarih: ${userPreferences.travelDates}. `;
+    }
+    
     if (userPreferences.travelStyle) {
       summary += `Seyahat tarzı: ${userPreferences.travelStyle}. `;
     }
@@ -243,10 +254,10 @@ class ContextManager {
 
 RESPONSE FORMAT: 100-200 words max, 2-3 emojis, actionable advice, specific recommendations, paragraph breaks.
 
-PACKAGE TRIGGERS:
-**SHOW_PACKAGES:[category]** - Shows packages (luxury, romantic, adventure, cultural, beach, city)
-**SHOW_PACKAGES:[location]** - Location-specific packages
-**SHOW_PACKAGES:cities** - Kapadokya, Antalya, İstanbul, Sri Lanka, Phuket, Bali
+PACKAGE TOOLS:
+searchPackages / getFeaturedPackages / getPackage - Look up real packages before recommending one, never invent packages or prices
+formatPrice - Format prices in the user's currency
+Packages returned by these tools are shown to the user as cards automatically.
 
 TONE: Sophisticated, warm, magical. Structure: intro → content → question.`;
 
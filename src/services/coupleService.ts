@@ -0,0 +1,192 @@
+import { httpsCallable } from 'firebase/functions';
+import { collection, deleteDoc, doc, onSnapshot, orderBy, query, serverTimestamp, setDoc } from 'firebase/firestore';
+import { db, functions } from '../firebase';
+import { logger } from '../utils/logger';
+
+// Chat session id of a couple's shared conversation, see functions/src/couples.ts
+export const COUPLE_SESSION_PREFIX = 'couple-session-';
+
+export interface CoupleCompatibility {
+  score: number;
+  breakdown: {
+    personality: number;
+    budget: number;
+    travelStyle: number;
+    duration: number;
+    energy: number;
+    priority: number;
+  };
+  calculatedAt: Date;
+}
+
+// couples/{coupleId}
+export interface Couple {
+  id: string;
+  memberIds: string[];
+  members: Record<string, { displayName: string; joinedAt: Date }>;
+  status: 'active' | 'dissolved';
+  chatSessionId: string;
+  compatibility?: CoupleCompatibility;
+  createdAt: Date;
+}
+
+export interface CoupleInvite {
+  code: string;
+  link: string;
+  expiresAt: Date;
+}
+
+// users/{uid}/favorites/{packageId} or, for a linked user, couples/{coupleId}/favorites/{packageId}
+export interface SavedPackage {
+  packageId: string;
+  title: string;
+  location: string;
+  price: number;
+  currency: string;
+  image?: string;
+  savedBy: string;
+  savedByName?: string;
+  savedAt: Date;
+}
+
+export interface SavePackageInput {
+  id: string;
+  title: string;
+  location: string;
+  price: number;
+  currency: string;
+  image?: string;
+}
+
+// Where a user's favorites and plans live: the couple's shared space once linked, otherwise their own
+export type SharedSpace = { type: 'couple'; id: string } | { type: 'user'; id: string };
+
+/**
+ * Partner linking and the couple's shared space. Linking and unlinking go through Cloud Functions;
+ * favorites and plans are written directly, firestore.rules lets both partners read and write them.
+ */
+class CoupleService {
+  async createInvite(): Promise<CoupleInvite> {
+    const result = await httpsCallable(functions, 'createCoupleInvite')({});
+    const data = result.data as any;
+    logger.log('💌 Partner invite created');
+    return { code: data.code, link: data.link, expiresAt: new Date(data.expiresAt) };
+  }
+
+  async acceptInvite(code: string): Promise<string> {
+    const result = await httpsCallable(functions, 'acceptCoupleInvite')({ code });
+    const coupleId = (result.data as any).coupleId as string;
+    logger.log(`💑 Linked with partner, couple ${coupleId}`);
+    return coupleId;
+  }
+
+  async leaveCouple(): Promise<void> {
+    await httpsCallable(functions, 'leaveCouple')({});
+    logger.log('💔 Partner link removed');
+  }
+
+  spaceFor(userId: string, coupleId?: string | null): SharedSpace {
+    return coupleId ? { type: 'couple', id: coupleId } : { type: 'user', id: userId };
+  }
+
+  /**
+   * Follows users/{uid}.coupleId and the couple it points to; calls back with null while the user
+   * is not linked. Returns the unsubscribe function.
+   */
+  subscribeToCouple(userId: string, callback: (couple: Couple | null) => void): () => void {
+    let unsubscribeCouple: (() => void) | null = null;
+    const unsubscribeUser = onSnapshot(
+      doc(db, 'users', userId),
+      snapshot => {
+        unsubscribeCouple?.();
+        unsubscribeCouple = null;
+        const coupleId = snapshot.data()?.coupleId as string | undefined;
+        if (!coupleId) {
+          callback(null);
+          return;
+        }
+        unsubscribeCouple = onSnapshot(
+          doc(db, 'couples', coupleId),
+          coupleSnapshot => {
+            const data = coupleSnapshot.data();
+            callback(data && data.status === 'active' ? this.toCouple(coupleSnapshot.id, data) : null);
+          },
+          error => logger.error('❌ Error listening to couple:', error)
+        );
+      },
+      error => logger.error('❌ Error listening to user couple link:', error)
+    );
+    return () => {
+      unsubscribeCouple?.();
+      unsubscribeUser();
+    };
+  }
+
+  async savePackage(space: SharedSpace, pkg: SavePackageInput, user: { uid: string; displayName?: string | null }): Promise<void> {
+    await setDoc(doc(db, this.spacePath(space), 'favorites', pkg.id), {
+      packageId: pkg.id,
+      title: pkg.title,
+      location: pkg.location,
+      price: pkg.price,
+      currency: pkg.currency,
+      ...(pkg.image ? { image: pkg.image } : {}),
+      savedBy: user.uid,
+      ...(user.displayName ? { savedByName: user.displayName } : {}),
+      savedAt: serverTimestamp()
+    });
+  }
+
+  async removeSavedPackage(space: SharedSpace, packageId: string): Promise<void> {
+    await deleteDoc(doc(db, this.spacePath(space), 'favorites', packageId));
+  }
+
+  /**
+   * Live list of saved packages in the space, newest first. Returns the unsubscribe function.
+   */
+  subscribeToSavedPackages(space: SharedSpace, callback: (packages: SavedPackage[]) => void): () => void {
+    return onSnapshot(
+      query(collection(db, this.spacePath(space), 'favorites'), orderBy('savedAt', 'desc')),
+      snapshot => callback(snapshot.docs.map(savedDoc => {
+        const data = savedDoc.data();
+        return {
+          packageId: data.packageId || savedDoc.id,
+          title: data.title,
+          location: data.location,
+          price: data.price,
+          currency: data.currency || 'USD',
+          image: data.image,
+          savedBy: data.savedBy,
+          savedByName: data.savedByName,
+          savedAt: data.savedAt?.toDate() || new Date()
+        };
+      })),
+      error => logger.error('❌ Error listening to saved packages:', error)
+    );
+  }
+
+  spacePath(space: SharedSpace): string {
+    return space.type === 'couple' ? `couples/${space.id}` : `users/${space.id}`;
+  }
+
+  private toCouple(id: string, data: any): Couple {
+    const members: Couple['members'] = {};
+    Object.entries(data.members || {}).forEach(([uid, member]: [string, any]) => {
+      members[uid] = { displayName: member.displayName, joinedAt: member.joinedAt?.toDate() || new Date() };
+    });
+    return {
+      id,
+      memberIds: data.memberIds || [],
+      members,
+      status: data.status,
+      chatSessionId: data.chatSessionId,
+      compatibility: data.compatibility && {
+        score: data.compatibility.score,
+        breakdown: data.compatibility.breakdown,
+        calculatedAt: data.compatibility.calculatedAt?.toDate() || new Date()
+      },
+      createdAt: data.createdAt?.toDate() || new Date()
+    };
+  }
+}
+
+export const coupleService = new CoupleService();
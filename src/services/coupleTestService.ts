@@ -0,0 +1,184 @@
+import { doc, getDoc, onSnapshot, serverTimestamp, setDoc, updateDoc } from 'firebase/firestore';
+import { db } from '../firebase';
+import { logger } from '../utils/logger';
+import { coupleService, type SharedSpace } from './coupleService';
+import { currencyService } from './currencyService';
+import { packageService } from './packageService';
+import { personalityService } from './personalityService';
+import { romanticRelationshipAI } from './romanticRelationshipAI';
+import {
+  answersToProfile,
+  buildCoupleTestPrompt,
+  isCoupleTestComplete,
+  suggestCompromiseDestinations,
+  type CoupleTestAnswers,
+  type CoupleTestSummary
+} from '../utils/couple-test';
+
+// Each partner on their own device, or both taking turns on one
+export type CoupleTestMode = 'remote' | 'pass_and_play';
+
+// Remote tests key partners by uid, pass-and-play tests by turn
+export const PASS_AND_PLAY_SLOTS = ['partner1', 'partner2'] as const;
+
+export interface CoupleTestPartner {
+  name: string;
+  uid?: string;
+  answers: CoupleTestAnswers;
+  completedAt?: Date;
+}
+
+export interface CoupleTestResult extends CoupleTestSummary {
+  relationshipStrengtheners: string[];
+  communicationTips: string[];
+  calculatedAt: Date;
+}
+
+// {couples/{coupleId} | users/{uid}}/coupleTests/latest
+export interface CoupleTest {
+  mode: CoupleTestMode;
+  startedBy: string;
+  partners: Record<string, CoupleTestPartner>;
+  result?: CoupleTestResult;
+}
+
+const PROMPT_CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * The couple compatibility quiz. Answers live in the couple's shared space (or the user's own for a
+ * pass-and-play test before linking); whoever finishes second computes the result for both.
+ */
+class CoupleTestService {
+  private promptCache = new Map<string, { prompt: string | null; expiresAt: number }>();
+
+  subscribe(space: SharedSpace, callback: (test: CoupleTest | null) => void): () => void {
+    return onSnapshot(
+      this.testRef(space),
+      snapshot => callback(snapshot.exists() ? this.toTest(snapshot.data()) : null),
+      error => logger.error('❌ Error listening to couple test:', error)
+    );
+  }
+
+  /**
+   * Starts a new test in the space, replacing the previous answers and result.
+   */
+  async startTest(space: SharedSpace, mode: CoupleTestMode, userId: string): Promise<void> {
+    await setDoc(this.testRef(space), {
+      mode,
+      startedBy: userId,
+      partners: {},
+      updatedAt: serverTimestamp()
+    });
+    this.promptCache.clear();
+    logger.log(`💞 Couple test started (${mode})`);
+  }
+
+  async saveAnswers(space: SharedSpace, slot: string, partner: CoupleTestPartner): Promise<void> {
+    const complete = isCoupleTestComplete(partner.answers);
+    await updateDoc(this.testRef(space), {
+      [`partners.${slot}`]: {
+        name: partner.name,
+        ...(partner.uid ? { uid: partner.uid } : {}),
+        answers: partner.answers,
+        ...(complete ? { completedAt: serverTimestamp() } : {})
+      },
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  /**
+   * Scores two finished partners, picks compromise packages from the catalog and adds the
+   * relationship tips, then stores the result for both partners.
+   */
+  async computeResult(space: SharedSpace, test: CoupleTest, userId: string): Promise<CoupleTestResult | null> {
+    const partners = this.finishedPartners(test);
+    if (!partners) return null;
+
+    const profiles = [answersToProfile(partners[0].answers), answersToProfile(partners[1].answers)] as CoupleTestSummary['profiles'];
+    const partnerNames = [partners[0].name, partners[1].name] as CoupleTestSummary['partnerNames'];
+    const packages = await packageService.getPackages({ status: 'published', availability: true });
+    const compromiseDestinations = suggestCompromiseDestinations(profiles, partnerNames, packages, currencyService.getRates());
+
+    const partnerUserId = partners.map(partner => partner.uid).find(uid => uid && uid !== userId);
+    const relationship = await romanticRelationshipAI.analyzeHoneymoonCompatibility(
+      userId,
+      partnerUserId,
+      compromiseDestinations.map(destination => destination.location),
+      { profiles }
+    );
+
+    const result: CoupleTestResult = {
+      score: personalityService.calculateCompatibilityScore(profiles[0], profiles[1]),
+      breakdown: personalityService.getCompatibilityBreakdown(profiles[0], profiles[1]),
+      partnerNames,
+      profiles,
+      compromiseDestinations,
+      relationshipStrengtheners: relationship.relationshipStrengtheners,
+      communicationTips: relationship.communicationTips,
+      calculatedAt: new Date()
+    };
+    await updateDoc(this.testRef(space), {
+      result: { ...result, calculatedAt: serverTimestamp() },
+      updatedAt: serverTimestamp()
+    });
+    this.promptCache.clear();
+    logger.log(`💞 Couple test result: ${result.score}/100, ${compromiseDestinations.length} compromise destinations`);
+    return result;
+  }
+
+  /**
+   * The two partners once both have answered every question, null before that.
+   */
+  finishedPartners(test: CoupleTest | null): [CoupleTestPartner, CoupleTestPartner] | null {
+    const finished = Object.values(test?.partners || {}).filter(partner => isCoupleTestComplete(partner.answers));
+    return finished.length >= 2 ? [finished[0], finished[1]] : null;
+  }
+
+  /**
+   * The latest result as a system prompt section for the chat, null when there is none.
+   */
+  async getPromptSection(userId: string): Promise<string | null> {
+    const cached = this.promptCache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) return cached.prompt;
+
+    let prompt: string | null = null;
+    try {
+      const userDoc = await getDoc(doc(db, 'users', userId));
+      const space = coupleService.spaceFor(userId, userDoc.data()?.coupleId);
+      const testDoc = await getDoc(this.testRef(space));
+      const result = testDoc.exists() ? this.toTest(testDoc.data()).result : undefined;
+      prompt = result ? buildCoupleTestPrompt(result) : null;
+    } catch (error) {
+      logger.error('❌ Error loading couple test for chat:', error);
+    }
+    this.promptCache.set(userId, { prompt, expiresAt: Date.now() + PROMPT_CACHE_TTL });
+    return prompt;
+  }
+
+  private testRef(space: SharedSpace) {
+    return doc(db, coupleService.spacePath(space), 'coupleTests', 'latest');
+  }
+
+  private toTest(data: any): CoupleTest {
+    const partners: CoupleTest['partners'] = {};
+    Object.entries(data.partners || {}).forEach(([slot, partner]: [string, any]) => {
+      partners[slot] = {
+        name: partner.name,
+        uid: partner.uid,
+        answers: partner.answers || {},
+        completedAt: partner.completedAt?.toDate()
+      };
+    });
+    return {
+      mode: data.mode,
+      startedBy: data.startedBy,
+      partners,
+      result: data.result && {
+        ...data.result,
+        calculatedAt: data.result.calculatedAt?.toDate() || new Date()
+      }
+    };
+  }
+}
+
+export const coupleTestService = new CoupleTestService();
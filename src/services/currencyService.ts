@@ -0,0 +1,77 @@
+import { doc, onSnapshot } from 'firebase/firestore';
+import { db } from '../firebase';
+import { logger } from '../utils/logger';
+import { settingsService } from './settingsService';
+import type { DisplayCurrency, FxRates } from '../utils/currency';
+
+type Listener = () => void;
+
+/**
+ * Stored FX rates (fxRates/latest, refreshed every 6 hours by Cloud Functions) and the display
+ * currency the user picked in settings. Components read both through the useCurrency hook.
+ */
+class CurrencyService {
+  private rates: FxRates | null = null;
+  private displayCurrency: DisplayCurrency = 'original';
+  private preferenceUserId: string | null = null;
+  private listeners = new Set<Listener>();
+  private unsubscribeRates: (() => void) | null = null;
+
+  getRates(): FxRates | null {
+    return this.rates;
+  }
+
+  getDisplayCurrency(): DisplayCurrency {
+    return this.displayCurrency;
+  }
+
+  /**
+   * Calls the listener whenever the rates or the display currency change. Returns the unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    this.startRatesListener();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async loadPreference(userId: string | null): Promise<void> {
+    if (userId === this.preferenceUserId) return;
+    this.preferenceUserId = userId;
+    const settings = userId ? await settingsService.getUserSettings(userId) : null;
+    if (this.preferenceUserId !== userId) return;
+    this.displayCurrency = settings?.currency || 'original';
+    this.notify();
+  }
+
+  async setDisplayCurrency(userId: string, currency: DisplayCurrency): Promise<boolean> {
+    const success = await settingsService.updateSingleSetting(userId, 'currency', currency);
+    if (success) {
+      this.displayCurrency = currency;
+      this.notify();
+    }
+    return success;
+  }
+
+  private startRatesListener(): void {
+    if (this.unsubscribeRates) return;
+    this.unsubscribeRates = onSnapshot(
+      doc(db, 'fxRates', 'latest'),
+      snapshot => {
+        const data = snapshot.data();
+        if (!data) return;
+        this.rates = { base: data.base, rates: data.rates, fetchedAt: data.fetchedAt?.toDate() || new Date() };
+        logger.log(`💱 FX rates loaded (${data.provider}, ${this.rates.fetchedAt.toISOString()})`);
+        this.notify();
+      },
+      error => logger.error('❌ Error listening to FX rates:', error)
+    );
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const currencyService = new CurrencyService();
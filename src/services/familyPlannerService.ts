@@ -0,0 +1,64 @@
+import { logger } from '../utils/logger';
+import { isValidParty, type FamilyParty } from '../utils/family-party';
+
+type Listener = () => void;
+
+const STORAGE_KEY = 'ailovve_family_party';
+
+/**
+ * Family planning mode. While a party is active the chat uses the family system prompt and
+ * bookings are made for the party instead of a couple; the party is kept in localStorage.
+ */
+class FamilyPlannerService {
+  private party: FamilyParty | null = this.loadParty();
+  private listeners = new Set<Listener>();
+
+  getActiveParty(): FamilyParty | null {
+    return this.party;
+  }
+
+  setActiveParty(party: FamilyParty): void {
+    if (!isValidParty(party)) {
+      throw new Error('Add at least one adult, and an age between 0 and 17 for every child');
+    }
+    this.party = { adults: party.adults, childAges: [...party.childAges] };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.party));
+    logger.log(`👨‍👩‍👧 Family mode on: ${this.party.adults} adults, ${this.party.childAges.length} children`);
+    this.notify();
+  }
+
+  // Back to honeymoon planning
+  clearActiveParty(): void {
+    this.party = null;
+    localStorage.removeItem(STORAGE_KEY);
+    logger.log('💕 Family mode off');
+    this.notify();
+  }
+
+  /**
+   * Calls the listener whenever the party changes. Returns the unsubscribe function.
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private loadParty(): FamilyParty | null {
+    try {
+      const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+      const party = stored ? JSON.parse(stored) as FamilyParty : null;
+      return party && Array.isArray(party.childAges) && isValidParty(party) ? party : null;
+    } catch (error) {
+      logger.warn('⚠️ Ignoring stored family party:', error);
+      return null;
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const familyPlannerService = new FamilyPlannerService();
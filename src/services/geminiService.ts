@@ -1,6 +1,6 @@
 import { Part, Content } from "@google/generative-ai";
 import { httpsCallable } from "firebase/functions";
-import { functions } from "../firebase";
+import { auth, functions, firebaseConfig } from "../firebase";
 import { logger } from "../utils/logger";
 import { contextManager } from "./contextManager";
 import { responseCache } from "./responseCache";
@@ -16,6 +16,9 @@ import { semanticSearchEngine } from "./semanticSearch";
 import { geminiVisionService, VisionAnalysis } from "./geminiVision";
 import { dynamicInstructionsEngine, InstructionContext } from "./dynamicInstructions";
 import { selfEvaluationSystem, ResponseEvaluation } from "./selfEvaluationSystem";
+import { coupleTestService } from "./coupleTestService";
+import { familyPlannerService } from "./familyPlannerService";
+import { buildFamilySystemPrompt } from "../utils/family-party";
 
 // Type definitions for our application
 interface AppMessage {
@@ -168,6 +171,19 @@ export class GeminiError extends Error {
   }
 }
 
+// Raised when the server rejects a message because the plan's quota is used up
+export class QuotaExceededError extends GeminiError {
+  constructor(
+    message: string,
+    public resetTime?: number,
+    public remaining = 0,
+    public total?: number
+  ) {
+    super(message, 'resource-exhausted');
+    this.name = 'QuotaExceededError';
+  }
+}
+
 // Luxury honeymoon system prompt with safety guidelines
 const HONEYMOON_SYSTEM_PROMPT = `You are AI LOVVE, an exclusive luxury honeymoon planning concierge assistant. Your expertise includes:
 
@@ -556,8 +572,112 @@ function detectLanguage(message: string): string {
   return 'en';
 }
 
+// Streaming endpoint (HTTPS function, Server-Sent Events)
+const STREAM_FUNCTION_URL = import.meta.env.VITE_STREAM_FUNCTION_URL ||
+  `https://europe-west1-${firebaseConfig.projectId}.cloudfunctions.net/streamGeminiResponse`;
+
+// Reads the SSE stream from streamGeminiResponse and yields text chunks as they arrive.
+// Breaking out of the consumer loop aborts the request, so the server persists the partial reply.
+// Package ids found by the model's tool calls arrive in a separate `packages` event.
+async function* streamGeminiFunction(
+  payload: Record<string, unknown>,
+  idleTimeoutMs: number,
+  onPackageIds?: (packageIds: string[]) => void
+): AsyncGenerator<string> {
+  const controller = new AbortController();
+  let idleTimer: ReturnType<typeof setTimeout> | undefined;
+  const resetIdleTimer = () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => controller.abort(), idleTimeoutMs);
+  };
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const idToken = await auth.currentUser?.getIdToken().catch(() => null);
+  if (idToken) {
+    headers['Authorization'] = `Bearer ${idToken}`;
+  }
+
+  try {
+    resetIdleTimer();
+    const response = await fetch(STREAM_FUNCTION_URL, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(payload),
+      signal: controller.signal
+    });
+
+    if (!response.ok || !response.body) {
+      const errorBody = await response.json().catch(() => null);
+      if (errorBody?.details?.reason === 'quota_exceeded') {
+        const { resetTime, remaining, total } = errorBody.details;
+        throw new QuotaExceededError(errorBody.message, resetTime, remaining, total);
+      }
+      if (errorBody?.code) {
+        throw new GeminiError(errorBody.message, errorBody.code);
+      }
+      throw new Error(errorBody?.message || `Streaming request failed with status ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      resetIdleTimer();
+      buffer += decoder.decode(value, { stream: true });
+
+      // SSE events are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        let eventType = 'message';
+        let eventData = '';
+        for (const line of rawEvent.split('\n')) {
+          if (line.startsWith('event:')) eventType = line.slice(6).trim();
+          else if (line.startsWith('data:')) eventData += line.slice(5).trim();
+        }
+        if (!eventData) continue;
+
+        const parsed = JSON.parse(eventData);
+        if (eventType === 'error') {
+          throw new Error(parsed.message || 'Streaming error');
+        }
+        if (eventType === 'done') {
+          return;
+        }
+        if (eventType === 'packages') {
+          onPackageIds?.(parsed.packageIds || []);
+          continue;
+        }
+        if (parsed.text) {
+          yield parsed.text as string;
+        }
+      }
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error('Streaming timeout: no data received');
+    }
+    throw error;
+  } finally {
+    if (idleTimer) clearTimeout(idleTimer);
+    controller.abort();
+  }
+}
+
 // Ultimate AI System: Learning + Experimentation + Prediction + Intelligence
-export async function* generateGeminiStream(messages: AppMessage[], sessionId?: string, userId?: string | null, modelType?: string) {
+export async function* generateGeminiStream(
+  messages: AppMessage[],
+  sessionId?: string,
+  userId?: string | null,
+  modelType?: string,
+  onPackageIds?: (packageIds: string[]) => void
+) {
   const startTime = Date.now();
   logger.log("🚀 Ultimate AI called with full intelligence stack", { messages, sessionId, userId, modelType });
   
@@ -704,24 +824,6 @@ export async function* generateGeminiStream(messages: AppMessage[], sessionId?:
         yield intelligentCache.response;
       }
       
-      // Record experiment result for intelligent cache usage
-      const cacheExperimentResult = {
-        variantId: 'intelligent_cache_hit',
-        sessionId: finalSessionId,
-        userId: userId || undefined,
-        query: lastUserMessage.content,
-        response: intelligentCache.response,
-        engagementMetrics: {
-          responseTime: Date.now() - startTime,
-          userResponseTime: 0,
-          messageLength: intelligentCache.response.length,
-          containsPackageClick: intelligentCache.response.includes('SHOW_PACKAGES'),
-          leadToBooking: false
-        },
-        timestamp: Date.now()
-      };
-      
-      aiExperimentEngine.recordExperimentResult('response_source', cacheExperimentResult);
       return;
     }
     
@@ -731,24 +833,6 @@ export async function* generateGeminiStream(messages: AppMessage[], sessionId?:
       if (cachedResponse) {
         logger.log(`✅ Fallback cache hit! Similarity: ${cachedResponse.similarity}`);
         
-        // Record experiment result for fallback cache usage
-        const cacheExperimentResult = {
-          variantId: 'fallback_cache_hit',
-          sessionId: finalSessionId,
-          userId: userId || undefined,
-          query: lastUserMessage.content,
-          response: cachedResponse.response,
-          engagementMetrics: {
-            responseTime: Date.now() - startTime,
-            userResponseTime: 0,
-            messageLength: cachedResponse.response.length,
-            containsPackageClick: cachedResponse.response.includes('SHOW_PACKAGES'),
-            leadToBooking: false
-          },
-          timestamp: Date.now()
-        };
-        
-        aiExperimentEngine.recordExperimentResult('response_source', cacheExperimentResult);
         yield cachedResponse.response;
         return;
       }
@@ -787,13 +871,14 @@ export async function* generateGeminiStream(messages: AppMessage[], sessionId?:
   }
   
   // 🧪 4. A/B Testing - Select experimental variant
-  const promptStyleVariant = aiExperimentEngine.selectVariant('prompt_style', userId, finalSessionId);
-  const packageStrategyVariant = aiExperimentEngine.selectVariant('package_strategy', userId, finalSessionId);
+  // Family planning replaces the honeymoon framing; couple results only apply to honeymoons
+  const familyParty = familyPlannerService.getActiveParty();
+  const coupleTestPrompt = userId && !familyParty ? await coupleTestService.getPromptSection(userId) : null;
+  // Every running experiment the user is in, including ones created from the admin dashboard
+  const experimentVariants = aiExperimentEngine.selectVariants(userId);
+  const experimentVariantIds = Object.fromEntries(experimentVariants.map(({ experimentId, variant }) => [experimentId, variant.id]));
   
-  logger.log(`🧪 Experiment variants:`, {
-    promptStyle: promptStyleVariant?.id,
-    packageStrategy: packageStrategyVariant?.id
-  });
+  logger.log(`🧪 Experiment variants:`, experimentVariantIds);
   
   logger.log(`🎯 Context-aware: Selected ${relevantMessages.length}/${messages.length} messages`);
   logger.log(`📊 User preferences:`, context.userPreferences);
@@ -801,6 +886,8 @@ export async function* generateGeminiStream(messages: AppMessage[], sessionId?:
   
   const maxRetries = 3;
   let attempt = 0;
+  // Once text has reached the UI a retry would duplicate it, so streamed attempts are never retried
+  let streamedAnyContent = false;
   
   while (attempt < maxRetries) {
     try {
@@ -813,7 +900,9 @@ export async function* generateGeminiStream(messages: AppMessage[], sessionId?:
       }));
       
       // 🎯 5. Multi-layer prompt generation with conversation flow awareness
-      const baseSystemPrompt = contextManager.generateDynamicSystemPrompt(context);
+      const baseSystemPrompt = familyParty
+        ? buildFamilySystemPrompt(familyParty)
+        : contextManager.generateDynamicSystemPrompt(context);
       
       // 🧠 5.5. Dynamic Instructions Optimization
       let systemPrompt = baseSystemPrompt;
@@ -1075,16 +1164,12 @@ export async function* generateGeminiStream(messages: AppMessage[], sessionId?:
         systemPrompt += `\n- Match their visual preferences in your recommendations`;
         systemPrompt += `\n- Reference the image they shared to create a more personalized connection`;
         
-        // Add specific package triggers based on vision
-        if (visionAnalysis.sceneType === 'beach') {
-          systemPrompt += `\n- Use **SHOW_PACKAGES:beach** for beach-related recommendations`;
-        } else if (visionAnalysis.sceneType === 'luxury') {
-          systemPrompt += `\n- Use **SHOW_PACKAGES:luxury** for luxury experiences`;
-        } else if (visionAnalysis.sceneType === 'romantic') {
-          systemPrompt += `\n- Use **SHOW_PACKAGES:romantic** for romantic packages`;
+        // Steer the package tools based on vision
+        if (['beach', 'luxury', 'romantic'].includes(visionAnalysis.sceneType)) {
+          systemPrompt += `\n- Call searchPackages with category "${visionAnalysis.sceneType}" for matching packages`;
         } else if (visionAnalysis.suggestedDestinations.length > 0) {
-          const topDestination = visionAnalysis.suggestedDestinations[0].toLowerCase();
-          systemPrompt += `\n- Use **SHOW_PACKAGES:${topDestination}** for destination-specific packages`;
+          const topDestination = visionAnalysis.suggestedDestinations[0];
+          systemPrompt += `\n- Call searchPackages with query "${topDestination}" for destination-specific packages`;
         }
         
         systemPrompt += `\n\nVISUAL RESPONSE ENHANCEMENT: Incorporate the visual aesthetic they shared into your language and recommendations. Make them feel understood based on their image choice.`;
@@ -1116,25 +1201,6 @@ export async function* generateGeminiStream(messages: AppMessage[], sessionId?:
           if (agentResult.systemInsights.qualityScore > 0.85 && !agentResult.agentContributions.some(a => a.requiresHumanReview)) {
             logger.log('🎯 Using Multi-Agent System response directly (high quality)');
             
-            // Record experiment result for multi-agent usage
-            const multiAgentExperimentResult = {
-              variantId: 'multi_agent_direct',
-              sessionId: finalSessionId,
-              userId: userId || undefined,
-              query: lastUserMessage.content,
-              response: multiAgentResponse,
-              engagementMetrics: {
-                responseTime: Date.now() - startTime,
-                userResponseTime: 0,
-                messageLength: multiAgentResponse.length,
-                containsPackageClick: multiAgentResponse.includes('SHOW_PACKAGES'),
-                leadToBooking: false
-              },
-              timestamp: Date.now()
-            };
-            
-            aiExperimentEngine.recordExperimentResult('response_source', multiAgentExperimentResult);
-            
             // Cache the high-quality multi-agent response
             responseCache.addToCache(lastUserMessage.content, multiAgentResponse, detectedLanguage, 'thumbs_up');
             
@@ -1174,11 +1240,16 @@ export async function* generateGeminiStream(messages: AppMessage[], sessionId?:
       if (userId) {
         systemPrompt = aiLearningEngine.generatePersonalizedPrompt(userId, systemPrompt);
       }
+
+      // Couple compatibility test results, so suggestions balance both partners
+      if (coupleTestPrompt) {
+        systemPrompt += `\n\n${coupleTestPrompt}`;
+      }
       
       // Apply A/B testing modifications
-      if (promptStyleVariant) {
-        systemPrompt = aiExperimentEngine.modifyPromptForVariant(systemPrompt, promptStyleVariant);
-      }
+      experimentVariants.forEach(({ variant }) => {
+        systemPrompt = aiExperimentEngine.modifyPromptForVariant(systemPrompt, variant);
+      });
       
       // Apply response optimization insights
       if (responseOptimization) {
@@ -1196,17 +1267,19 @@ export async function* generateGeminiStream(messages: AppMessage[], sessionId?:
       if (detectedLanguage !== 'en') {
         systemPrompt += `\n\nIMPORTANT: Respond in ${detectedLanguage} language.`;
       }
+
+      // Later layers can add romantic wording, the family framing has the last word
+      if (familyParty) {
+        systemPrompt += `\n\nREMINDER: Family holiday for ${familyParty.adults} adults and ${familyParty.childAges.length} children, not a honeymoon.`;
+      }
       
       // Model type optimizasyonu
       if (modelType === 'ai-lovv2') {
         systemPrompt = `AI LOVE v2 - Next-gen personalized concierge with learning capabilities! ✨💕\n\n${systemPrompt}`;
       }
       
-      // Firebase Functions call with progressive timeout
+      // Streaming call with progressive idle timeout
       const timeoutMs = Math.min(15000 + (attempt * 5000), 30000);
-      const generateGeminiResponse = httpsCallable(functions, 'generateGeminiResponse', {
-        timeout: timeoutMs
-      });
       
       logger.log(`🚀 Ultimate AI attempt ${attempt + 1}/${maxRetries}`, {
         relevantMessages: messagesToSend.length,
@@ -1218,19 +1291,17 @@ export async function* generateGeminiStream(messages: AppMessage[], sessionId?:
         emotionalState: emotionalState?.primary,
         emotionalIntensity: emotionalState?.intensity,
         personalityStyle: personalityProfile?.communicationStyle,
-        experimentVariants: {
-          promptStyle: promptStyleVariant?.id,
-          packageStrategy: packageStrategyVariant?.id
-        },
+        experimentVariants: experimentVariantIds,
         timeout: timeoutMs
       });
       
-      const result = await generateGeminiResponse({
+      const streamPayload = {
         messages: messagesToSend,
         sessionId: finalSessionId,
         userId: userId || null,
         systemInstruction: systemPrompt,
-        modelType: modelType || 'ai-lovv3',
+        modelId: modelType || undefined, // Resolved against the model registry server-side
+        pinnedFacts: context.userPreferences, // Merged into the server-side session memory
         language: detectedLanguage,
         // Enhanced context bilgileri
         userPreferences: context.userPreferences,
@@ -1262,19 +1333,22 @@ export async function* generateGeminiStream(messages: AppMessage[], sessionId?:
           recommendedTone: emotionalResponse?.tone,
           recommendedApproach: emotionalResponse?.approach
         } : null,
-        experimentVariants: {
-          promptStyle: promptStyleVariant?.id,
-          packageStrategy: packageStrategyVariant?.id
-        }
-      });
-      
-      const data = result.data as any;
+        experimentVariants: experimentVariantIds
+      };
       
-      if (!data.success) {
-        throw new Error(data.message || 'Firebase Functions error');
+      // Yield tokens as soon as they arrive instead of waiting for the full reply
+      let content = '';
+      let packagesShown = false;
+      const handlePackageIds = (packageIds: string[]) => {
+        packagesShown = packageIds.length > 0;
+        onPackageIds?.(packageIds);
+      };
+      for await (const delta of streamGeminiFunction(streamPayload, timeoutMs, handlePackageIds)) {
+        content += delta;
+        streamedAnyContent = true;
+        yield delta;
       }
       
-      const content = data.generatedContent?.parts?.[0]?.text || data.message || '';
       const responseTime = Date.now() - startTime;
       
       // 💾 6. Multi-layer result processing
@@ -1308,9 +1382,9 @@ export async function* generateGeminiStream(messages: AppMessage[], sessionId?:
       }
       
       // Record experiment results
-      if (promptStyleVariant && lastUserMessage?.role === 'user') {
+      if (lastUserMessage?.role === 'user') {
         const experimentResult = {
-          variantId: promptStyleVariant.id,
+          variantId: 'ai_generated',
           sessionId: finalSessionId,
           userId: userId || undefined,
           query: lastUserMessage.content,
@@ -1319,16 +1393,14 @@ export async function* generateGeminiStream(messages: AppMessage[], sessionId?:
             responseTime,
             userResponseTime: 0, // Will be updated when user responds
             messageLength: content.length,
-            containsPackageClick: content.includes('SHOW_PACKAGES'),
+            containsPackageClick: packagesShown || content.includes('SHOW_PACKAGES'),
             leadToBooking: false // Will be updated based on user actions
           },
           timestamp: Date.now()
         };
         
-        aiExperimentEngine.recordExperimentResult('prompt_style', experimentResult);
-        aiExperimentEngine.recordExperimentResult('response_source', {
-          ...experimentResult,
-          variantId: 'ai_generated'
+        experimentVariants.forEach(({ experimentId, variant }) => {
+          aiExperimentEngine.recordExperimentResult(experimentId, { ...experimentResult, variantId: variant.id });
         });
       }
       
@@ -1451,15 +1523,19 @@ export async function* generateGeminiStream(messages: AppMessage[], sessionId?:
         }, 200); // Increased delay to let response be sent first
       }
       
-      yield content;
       return; // Success - exit retry loop
       
     } catch (error: unknown) {
       attempt++;
       logger.error(`Next-gen attempt ${attempt}/${maxRetries} failed:`, error);
       
-      // If this was the last attempt or non-retryable error, throw
-      if (attempt >= maxRetries || !isRetryableError(error)) {
+      // Backend rejections (e.g. model not in the user's plan) are surfaced as-is
+      if (error instanceof GeminiError) {
+        throw error;
+      }
+      
+      // If this was the last attempt, a non-retryable error or a partially streamed reply, throw
+      if (attempt >= maxRetries || streamedAnyContent || !isRetryableError(error)) {
         const errorMessage = getLocalizedErrorMessage(error, messages);
         throw new Error(errorMessage);
       }
@@ -1540,7 +1616,7 @@ export function getEmotionalInsights(userId: string): {
 // Enhanced AI stats with all intelligence systems including new components
 export function getAIStats(): {
   learning: ReturnType<typeof aiLearningEngine.getLearningStats>;
-  experiments: Array<ReturnType<typeof aiExperimentEngine.generateExperimentReport>>;
+  experiments: ReturnType<typeof aiExperimentEngine.getAssignments>;
   cache: ReturnType<typeof responseCache.getCacheStats>;
   intelligentCache: ReturnType<typeof intelligentCacheSystem.getCacheStats>;
   recommendations: ReturnType<typeof smartRecommendationEngine.getRecommendationAnalytics>;
@@ -1553,11 +1629,9 @@ export function getAIStats(): {
   dynamicInstructions: ReturnType<typeof dynamicInstructionsEngine.getInstructionAnalytics>;
   selfEvaluation: ReturnType<typeof selfEvaluationSystem.getEvaluationAnalytics>;
 } {
-  const activeExperiments = aiExperimentEngine.getActiveExperiments();
-  
   return {
     learning: aiLearningEngine.getLearningStats(),
-    experiments: activeExperiments.map(expId => aiExperimentEngine.generateExperimentReport(expId)),
+    experiments: aiExperimentEngine.getAssignments(), // Reports are in the admin dashboard
     cache: responseCache.getCacheStats(),
     intelligentCache: intelligentCacheSystem.getCacheStats(),
     recommendations: smartRecommendationEngine.getRecommendationAnalytics(),
@@ -1692,11 +1766,7 @@ export async function createPaymentIntent(reservationId: number, amount: number)
   throw new Error("Payment functionality Firebase Functions'a taşınacak");
 }
 
-// Get reservations
-export async function getReservations(customerId?: number) {
-  // Bu fonksiyon Firebase Functions'a taşınacak
-  return [];
-}
+// Rezervasyonlar artık bookingService.getUserBookings() üzerinden (createBooking/cancelBooking callable'ları)
 */
 
 // Sample packages for development (Firebase Functions'da gerçek data olacak)
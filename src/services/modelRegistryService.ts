@@ -0,0 +1,74 @@
+import { httpsCallable } from 'firebase/functions';
+import { doc, getDoc } from 'firebase/firestore';
+import { db, functions } from '../firebase';
+import { logger } from '../utils/logger';
+import { COLLECTIONS, GeminiModelConfig } from '../types/firestore';
+import type { PlanType } from './subscriptionService';
+
+export interface AvailableModel {
+  id: string;
+  label: string;
+  description?: string;
+  allowed: boolean;
+  allowedPlans: PlanType[];
+}
+
+export interface ModelRegistry {
+  defaultModelId: string;
+  models: GeminiModelConfig[];
+}
+
+export const APP_SETTINGS_DOC_ID = 'app';
+
+// Shown when the backend can't be reached, matches the server defaults
+export const FALLBACK_MODELS: AvailableModel[] = [
+  { id: 'ai-lovv3', label: 'ai-lovv3', description: 'Advanced AI', allowed: true, allowedPlans: ['free', 'pro', 'pro_bride'] },
+  { id: 'ai-lovv2', label: 'ai-lovv2', description: 'Fast AI', allowed: true, allowedPlans: ['free', 'pro', 'pro_bride'] }
+];
+
+class ModelRegistryService {
+  /**
+   * Models the current user can pick in the chat model selector
+   */
+  async getAvailableModels(): Promise<{ defaultModelId: string; models: AvailableModel[] }> {
+    try {
+      const result = await httpsCallable(functions, 'getAvailableGeminiModels')({});
+      const data = result.data as any;
+      if (data?.success && Array.isArray(data.models) && data.models.length > 0) {
+        return { defaultModelId: data.defaultModelId, models: data.models };
+      }
+    } catch (error) {
+      logger.error('❌ Error loading available models:', error);
+    }
+    return { defaultModelId: FALLBACK_MODELS[0].id, models: FALLBACK_MODELS };
+  }
+
+  /**
+   * Full registry for the admin editor (requires admin read access to settings)
+   */
+  async getModelRegistry(): Promise<ModelRegistry | null> {
+    try {
+      const settingsDoc = await getDoc(doc(db, COLLECTIONS.SETTINGS, APP_SETTINGS_DOC_ID));
+      const gemini = settingsDoc.exists() ? settingsDoc.data().gemini : null;
+      if (gemini?.models?.length) {
+        return {
+          defaultModelId: gemini.defaultModelId || gemini.models[0].id,
+          models: gemini.models
+        };
+      }
+      return null;
+    } catch (error) {
+      logger.error('❌ Error loading model registry:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save the registry through the admin callable, which validates every entry
+   */
+  async saveModelRegistry(registry: ModelRegistry): Promise<void> {
+    await httpsCallable(functions, 'updateGeminiModelRegistry')(registry);
+  }
+}
+
+export const modelRegistryService = new ModelRegistryService();
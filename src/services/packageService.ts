@@ -21,6 +21,9 @@ import {
 } from 'firebase/firestore';
 import { db } from '../firebase';
 import { Package, CreatePackageData, COLLECTIONS } from '../types/firestore';
+import { searchPackages as rankPackages, PackageSearchFilters, PackageSearchOptions, PackageSearchResult } from '../utils/package-search';
+import { semanticSearchEngine } from './semanticSearch';
+import { formatMoney } from '../utils/currency';
 
 export interface PackageFilters {
   category?: string;
@@ -36,6 +39,9 @@ export interface PackageFilters {
   startAfter?: QueryDocumentSnapshot<DocumentData>;
 }
 
+// Semantic matches considered per query, on top of the keyword hits
+const SEMANTIC_CANDIDATES = 20;
+
 class PackageService {
   private packagesCollection = collection(db, COLLECTIONS.PACKAGES);
 
@@ -331,44 +337,56 @@ class PackageService {
   }
 
   /**
-   * Increment package bookings
+   * Hybrid search: BM25 keyword scoring with typo tolerance, blended with semantic
+   * similarity from the embedding index, plus facet counts for the filter UI.
+   * Searches the published catalog unless `packages` is given (e.g. the admin list with drafts).
+   * Price filters compare prices converted to `prices.priceCurrency` (USD by default).
    */
-  async incrementPackageBookings(packageId: string): Promise<void> {
+  async searchPackages(
+    searchTerm: string,
+    filters: PackageSearchFilters = {},
+    packages?: Package[],
+    prices: Pick<PackageSearchOptions, 'priceCurrency' | 'fx'> = {}
+  ): Promise<PackageSearchResult<Package>> {
     try {
-      const packageRef = doc(this.packagesCollection, packageId);
-      await updateDoc(packageRef, {
-        bookings: increment(1)
+      console.log('🔍 Searching packages:', searchTerm);
+
+      const trimmed = searchTerm.trim();
+      const [catalog, semanticMatches] = await Promise.all([
+        packages ? Promise.resolve(packages) : this.getPackages({ status: 'published', availability: true }),
+        // Falls back to keyword-only ranking when the index is unreachable ([] on error)
+        trimmed ? semanticSearchEngine.searchPackages(trimmed, SEMANTIC_CANDIDATES) : Promise.resolve([])
+      ]);
+
+      const result = rankPackages(catalog, {
+        query: trimmed,
+        filters,
+        semanticScores: new Map(semanticMatches.map(match => [match.packageId, match.score])),
+        ...prices
       });
+
+      console.log(`🔍 Found ${result.hits.length} packages matching "${searchTerm}"`);
+      return result;
+      
     } catch (error) {
-      console.error('❌ Error incrementing bookings:', error);
+      console.error('❌ Error searching packages:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to search packages');
     }
   }
 
   /**
-   * Search packages by text
+   * Get packages by id, keeping the given order (ids chosen by the chat's package tools)
    */
-  async searchPackages(searchTerm: string, filters: PackageFilters = {}): Promise<Package[]> {
+  async getPackagesByIds(packageIds: string[]): Promise<Package[]> {
     try {
-      console.log('🔍 Searching packages:', searchTerm);
-      
-      // Get all packages first (Firestore doesn't support full-text search natively)
-      const packages = await this.getPackages(filters);
-      
-      // Filter by search term
-      const searchResults = packages.filter(pkg => 
-        pkg.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        pkg.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        pkg.location.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        pkg.country.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        pkg.tags?.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()))
-      );
-
-      console.log(`🔍 Found ${searchResults.length} packages matching "${searchTerm}"`);
-      return searchResults;
-      
+      // Direct reads: showing a card isn't a view, so incrementPackageViews is skipped
+      const packageDocs = await Promise.all(packageIds.map(id => getDoc(doc(this.packagesCollection, id))));
+      return packageDocs
+        .filter(packageDoc => packageDoc.exists())
+        .map(packageDoc => ({ id: packageDoc.id, ...packageDoc.data() } as Package));
     } catch (error) {
-      console.error('❌ Error searching packages:', error);
-      throw new Error(error instanceof Error ? error.message : 'Failed to search packages');
+      console.error('❌ Error fetching packages by id:', error);
+      return [];
     }
   }
 
@@ -469,15 +487,10 @@ class PackageService {
   }
 
   /**
-   * Format package price for display
+   * Format package price for display, in the package currency (useCurrency converts to the user's)
    */
   formatPrice(price: number, currency: string = 'USD'): string {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency,
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(price);
+    return formatMoney(price, currency);
   }
 
   /**
@@ -15,6 +15,24 @@ interface PersonalityProfile {
   profileScore: number;
 }
 
+interface CompatibilityBreakdown {
+  personality: number;
+  budget: number;
+  travelStyle: number;
+  duration: number;
+  energy: number;
+  priority: number;
+}
+
+const COMPATIBILITY_MAX_POINTS: CompatibilityBreakdown = {
+  personality: 25,
+  budget: 20,
+  travelStyle: 20,
+  duration: 15,
+  energy: 10,
+  priority: 10
+};
+
 class PersonalityService {
   async savePersonalityProfile(userId: string, profile: PersonalityProfile): Promise<void> {
     try {
@@ -129,11 +147,18 @@ Remember: You're not just recommending packages, you're creating a personalized
   }
 
   calculateCompatibilityScore(profile1: PersonalityProfile, profile2: PersonalityProfile): number {
-    let compatibilityScore = 0;
+    const breakdown = this.getCompatibilityBreakdown(profile1, profile2);
+    const compatibilityScore = Object.values(breakdown).reduce((sum, points) => sum + points, 0);
+    return Math.min(compatibilityScore, 100);
+  }
+
+  // Points per factor behind calculateCompatibilityScore, see COMPATIBILITY_MAX_POINTS
+  getCompatibilityBreakdown(profile1: PersonalityProfile, profile2: PersonalityProfile): CompatibilityBreakdown {
+    const breakdown: CompatibilityBreakdown = { personality: 0, budget: 0, travelStyle: 0, duration: 0, energy: 0, priority: 0 };
 
     // Personality type compatibility
     if (profile1.personalityType === profile2.personalityType) {
-      compatibilityScore += 25;
+      breakdown.personality = 25;
     } else {
       const compatibleTypes = {
         luxury_seeker: ['romantic_dreamer'],
@@ -143,42 +168,43 @@ Remember: You're not just recommending packages, you're creating a personalized
       };
       
       if (compatibleTypes[profile1.personalityType]?.includes(profile2.personalityType)) {
-        compatibilityScore += 15;
+        breakdown.personality = 15;
       }
     }
 
     // Budget compatibility
     const budgetValues = { budget: 1, mid_range: 2, luxury: 3, ultra_luxury: 4 };
     const budgetDiff = Math.abs(budgetValues[profile1.budgetRange] - budgetValues[profile2.budgetRange]);
-    compatibilityScore += Math.max(0, 20 - (budgetDiff * 7));
+    breakdown.budget = Math.max(0, 20 - (budgetDiff * 7));
 
     // Travel style compatibility
     if (profile1.travelStyle === profile2.travelStyle || 
         profile1.travelStyle === 'mixed' || 
         profile2.travelStyle === 'mixed') {
-      compatibilityScore += 20;
+      breakdown.travelStyle = 20;
     }
 
     // Duration preference compatibility
     if (profile1.durationPreference === profile2.durationPreference) {
-      compatibilityScore += 15;
+      breakdown.duration = 15;
     }
 
     // Energy style compatibility
     if (profile1.energyStyle === profile2.energyStyle || 
         profile1.energyStyle === 'mixed' || 
         profile2.energyStyle === 'mixed') {
-      compatibilityScore += 10;
+      breakdown.energy = 10;
     }
 
     // Priority alignment
     if (profile1.mainPriority === profile2.mainPriority) {
-      compatibilityScore += 10;
+      breakdown.priority = 10;
     }
 
-    return Math.min(compatibilityScore, 100);
+    return breakdown;
   }
 }
 
 export const personalityService = new PersonalityService();
-export type { PersonalityProfile };
\ No newline at end of file
+export { COMPATIBILITY_MAX_POINTS };
+export type { PersonalityProfile, CompatibilityBreakdown };
\ No newline at end of file
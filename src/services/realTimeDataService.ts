@@ -1,4 +1,7 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../firebase';
 import { logger } from '../utils/logger';
+import { convertAmount, FIXTURE_FX_RATES, type FxRates } from '../utils/currency';
 
 interface WeatherData {
   destination: string;
@@ -179,7 +182,7 @@ class RealTimeDataService {
     }
   }
 
-  // Currency Exchange API (gerçek API için ExchangeRate-API kullanılabilir)
+  // Döviz kurları: Cloud Functions'ın 6 saatte bir güncellediği fxRates deposundan
   async getCurrencyData(baseCurrency: string = 'USD'): Promise<CurrencyData> {
     const cacheKey = `currency_${baseCurrency}`;
     const cached = this.getCachedData(cacheKey, this.CACHE_TTL.currency);
@@ -187,7 +190,7 @@ class RealTimeDataService {
 
     try {
       // Gerçek API çağrısı burada olacak
-      const currencyData = await this.fetchRealCurrencyData(baseCurrency);
+      const currencyData = await this.fetchStoredCurrencyData(baseCurrency);
       this.setCachedData(cacheKey, currencyData);
       
       logger.log(`💱 Currency data fetched for ${baseCurrency}`);
@@ -361,37 +364,49 @@ class RealTimeDataService {
     };
   }
 
-  private async fetchRealCurrencyData(baseCurrency: string): Promise<CurrencyData> {
-    try {
-      // Gerçek ücretsiz API kullanımı
-      const response = await fetch(`https://api.exchangerate-api.com/v4/latest/${baseCurrency}`);
-      const data = await response.json();
-      
-      return {
-        baseCurrency,
-        rates: data.rates,
-        lastUpdated: Date.now(),
-        trends: this.generateCurrencyTrends(data.rates)
-      };
-    } catch (error) {
-      throw new Error('Currency API failed');
-    }
+  private async fetchStoredCurrencyData(baseCurrency: string): Promise<CurrencyData> {
+    const day = (daysAgo: number) => new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const [latest, dayAgo, weekAgo] = await Promise.all(
+      ['latest', day(1), day(7)].map(async id => {
+        const data = (await getDoc(doc(db, 'fxRates', id))).data();
+        return data ? { base: data.base, rates: data.rates, fetchedAt: data.fetchedAt.toDate() } as FxRates : null;
+      })
+    );
+    if (!latest) throw new Error('No stored FX rates');
+
+    return {
+      ...this.rebaseRates(latest, baseCurrency),
+      trends: this.calculateCurrencyTrends(latest, dayAgo, weekAgo, baseCurrency)
+    };
   }
 
-  private generateCurrencyTrends(rates: Record<string, number>): CurrencyData['trends'] {
+  private rebaseRates(fx: FxRates, baseCurrency: string): Pick<CurrencyData, 'baseCurrency' | 'rates' | 'lastUpdated'> {
+    const rates: Record<string, number> = {};
+    Object.keys(fx.rates).forEach(currency => {
+      const rate = convertAmount(1, baseCurrency, currency, fx);
+      if (rate !== null && currency !== baseCurrency) rates[currency] = rate;
+    });
+    return { baseCurrency, rates, lastUpdated: fx.fetchedAt.getTime() };
+  }
+
+  // Change of each rate against the stored rates of 1 and 7 days ago
+  private calculateCurrencyTrends(latest: FxRates, dayAgo: FxRates | null, weekAgo: FxRates | null, baseCurrency: string): CurrencyData['trends'] {
     const trends: CurrencyData['trends'] = {};
-    
-    Object.keys(rates).forEach(currency => {
-      const change24h = (Math.random() - 0.5) * 0.1; // -5% to +5%
-      const change7d = (Math.random() - 0.5) * 0.3; // -15% to +15%
-      
+    const change = (past: FxRates | null, currency: string) => {
+      const now = convertAmount(1, baseCurrency, currency, latest);
+      const before = convertAmount(1, baseCurrency, currency, past);
+      return now !== null && before ? (now - before) / before : 0;
+    };
+
+    Object.keys(latest.rates).filter(currency => currency !== baseCurrency).forEach(currency => {
+      const change24h = change(dayAgo, currency);
       trends[currency] = {
         change24h,
-        change7d,
+        change7d: change(weekAgo, currency),
         trend: change24h > 0.01 ? 'up' : change24h < -0.01 ? 'down' : 'stable'
       };
     });
-    
+
     return trends;
   }
 
@@ -478,10 +493,7 @@ class RealTimeDataService {
   }
 
   private getFallbackCurrencyData(baseCurrency: string): CurrencyData {
-    return {
-      baseCurrency, rates: { 'EUR': 0.85, 'TRY': 27.5, 'GBP': 0.75 },
-      trends: {}, lastUpdated: Date.now()
-    };
+    return { ...this.rebaseRates(FIXTURE_FX_RATES, baseCurrency), trends: {} };
   }
 
   private getFallbackEventsData(destination: string): LocalEventsData {
@@ -0,0 +1,81 @@
+import { httpsCallable } from 'firebase/functions';
+import { collection, getDocs, limit, orderBy, query, where } from 'firebase/firestore';
+import { db, functions } from '../firebase';
+import { logger } from '../utils/logger';
+import { COLLECTIONS } from '../types/firestore';
+import type { Booking, Review } from '../types/firestore';
+import { bookingService } from './bookingService';
+
+export interface SubmitReviewInput {
+  bookingId: string;
+  rating: number; // 1-5
+  title: string;
+  content: string;
+  pros?: string[];
+  cons?: string[];
+}
+
+/**
+ * Package reviews. Approved reviews are read directly; submitting and moderating go
+ * through Cloud Functions, which check the booking and recompute the package rating.
+ */
+class ReviewService {
+  async getPackageReviews(packageId: string, max = 20): Promise<Review[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, COLLECTIONS.REVIEWS),
+        where('packageId', '==', packageId),
+        where('status', '==', 'approved'),
+        orderBy('createdAt', 'desc'),
+        limit(max)
+      ));
+      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Review);
+    } catch (error) {
+      logger.error('❌ Error loading reviews:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The user's completed bookings of this package that haven't been reviewed yet
+   */
+  async getReviewableBookings(userId: string, packageId: string): Promise<Booking[]> {
+    const completed = (await bookingService.getUserBookings(userId))
+      .filter(booking => booking.packageId === packageId && booking.status === 'completed');
+    if (completed.length === 0) return [];
+
+    // Review ids are booking ids
+    const reviewed = await getDocs(query(
+      collection(db, COLLECTIONS.REVIEWS),
+      where('userId', '==', userId),
+      where('packageId', '==', packageId)
+    ));
+    const reviewedIds = new Set(reviewed.docs.map(doc => doc.id));
+    return completed.filter(booking => !reviewedIds.has(booking.id));
+  }
+
+  async submitReview(input: SubmitReviewInput): Promise<string> {
+    const result = await httpsCallable(functions, 'submitReview')(input);
+    const reviewId = (result.data as any).reviewId;
+    logger.log('⭐ Review submitted:', reviewId);
+    return reviewId;
+  }
+
+  /**
+   * Moderation queue, oldest first (admin only)
+   */
+  async getPendingReviews(): Promise<Review[]> {
+    const snapshot = await getDocs(query(
+      collection(db, COLLECTIONS.REVIEWS),
+      where('status', '==', 'pending'),
+      orderBy('createdAt', 'asc')
+    ));
+    return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Review);
+  }
+
+  async moderateReview(reviewId: string, status: 'approved' | 'rejected', response?: string): Promise<void> {
+    await httpsCallable(functions, 'moderateReview')({ reviewId, status, response: response || undefined });
+  }
+}
+
+export const reviewService = new ReviewService();
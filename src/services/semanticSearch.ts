@@ -1,3 +1,5 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../firebase';
 import { logger } from '../utils/logger';
 
 // Vector embedding interface
@@ -22,6 +24,12 @@ interface SemanticMatch {
   metadata: any;
 }
 
+// Package ranked by the server-side embedding index (packageEmbeddings)
+export interface PackageMatch {
+  packageId: string;
+  score: number; // Cosine similarity
+}
+
 interface QueryIntent {
   primary: 'discovery' | 'comparison' | 'booking' | 'information' | 'support';
   confidence: number;
@@ -455,6 +463,20 @@ class SemanticSearchEngine {
     return magnitude > 0 ? dotProduct / magnitude : 0;
   }
 
+  // Ranked package ids from the live catalog; embeddings are computed and kept in sync by Cloud Functions.
+  // Without minScore the server applies its relevance cut-off for the active embedding model.
+  async searchPackages(query: string, limit: number = 10, minScore?: number): Promise<PackageMatch[]> {
+    try {
+      const result = await httpsCallable(functions, 'semanticPackageSearch')({ query, limit, minScore });
+      const matches = (result.data as any).results as PackageMatch[];
+      logger.log(`🔎 Semantic package search: ${matches.length} matches for "${query.substring(0, 50)}"`);
+      return matches;
+    } catch (error) {
+      logger.error('❌ Semantic package search failed:', error);
+      return [];
+    }
+  }
+
   // Add new embedding to knowledge base
   addEmbedding(text: string, category: VectorEmbedding['metadata']['category'], keywords: string[]): void {
     const relatedConcepts = this.inferRelatedConcepts(text, this.classifyQueryIntent(text));
@@ -1,10 +1,12 @@
 import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
 import { db } from '../firebase';
+import type { DisplayCurrency } from '../utils/currency';
 
 export interface UserSettings {
   notifications: boolean;
   emailUpdates: boolean;
   language: string;
+  currency: DisplayCurrency; // Prices are converted to it; bookings are charged in the package currency
   profileVisible: boolean;
   dataCollection: boolean;
   theme: 'light' | 'dark' | 'system';
@@ -16,6 +18,7 @@ export const defaultSettings: UserSettings = {
   notifications: true,
   emailUpdates: false,
   language: 'English',
+  currency: 'original',
   profileVisible: true,
   dataCollection: true,
   theme: 'dark',
@@ -1,5 +1,6 @@
-import { auth, db } from '../firebase';
-import { doc, getDoc, setDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { auth, db, functions } from '../firebase';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
 
 export type PlanType = 'free' | 'pro' | 'pro_bride';
 
@@ -14,6 +15,7 @@ export interface UserSubscription {
   quotaResetTime?: Date;
   stripeCustomerId?: string;
   stripeSubscriptionId?: string;
+  paymentProvider?: 'stripe' | 'fake';
   cancelAtPeriodEnd?: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -147,12 +149,11 @@ class SubscriptionService {
         return { canSend: true };
       }
       
-      // Check if quota needs reset
+      // Expired period: the backend starts a fresh one on the next message
       const now = new Date();
       if (subscription.quotaResetTime && now >= subscription.quotaResetTime) {
-        console.log('⏰ Quota expired, resetting...');
-        await this.resetMessageQuota(userId);
-        return { canSend: true }; // After reset, user can send
+        console.log('⏰ Quota period expired, can send message');
+        return { canSend: true };
       }
       
       // Check if under limit
@@ -175,105 +176,30 @@ class SubscriptionService {
   }
 
   /**
-   * Record a message usage
-   */
-  async recordMessageUsage(userId: string): Promise<void> {
-    try {
-      const subscription = await this.getUserSubscription(userId);
-      const limits = PLAN_LIMITS[subscription.planType];
-      
-      // Don't track usage for unlimited plans
-      if (limits.hasUnlimitedMessages) {
-        console.log('🔓 Unlimited plan, not tracking usage');
-        return;
-      }
-      
-      console.log('📝 Recording message usage:', {
-        before: subscription.messagesUsed,
-        after: subscription.messagesUsed + 1,
-        quota: subscription.messageQuota
-      });
-      
-      try {
-        await updateDoc(doc(db, 'subscriptions', userId), {
-          messagesUsed: subscription.messagesUsed + 1,
-          updatedAt: serverTimestamp(),
-        });
-      } catch (firestoreError) {
-        console.warn('⚠️ Could not update Firestore, message usage not persisted:', firestoreError);
-        // In memory-only mode, we can't persist usage, but we can still track in session
-      }
-    } catch (error) {
-      console.error('Error recording message usage:', error);
-    }
-  }
-
-  /**
-   * Reset message quota
+   * Start a checkout for a paid plan and return the payment page URL.
+   * The plan itself is granted by the payment webhook once the payment goes through.
    */
-  async resetMessageQuota(userId: string): Promise<void> {
+  async startCheckout(planType: Exclude<PlanType, 'free'>): Promise<string> {
     try {
-      const subscription = await this.getUserSubscription(userId);
-      const nextResetTime = this.getNextResetTime(subscription.planType);
-      
-      await updateDoc(doc(db, 'subscriptions', userId), {
-        messagesUsed: 0,
-        quotaResetTime: nextResetTime,
-        updatedAt: serverTimestamp(),
-      });
-    } catch (error) {
-      console.error('Error resetting message quota:', error);
-    }
-  }
-
-  /**
-   * Upgrade user subscription
-   */
-  async upgradeSubscription(userId: string, planType: PlanType, stripeData?: any): Promise<void> {
-    try {
-      const updates: any = {
+      const returnUrl = `${window.location.origin}${window.location.pathname}`;
+      const result = await httpsCallable(functions, 'createSubscriptionCheckout')({
         planType,
-        isActive: true,
-        messagesUsed: 0,
-        updatedAt: serverTimestamp(),
-      };
-      
-      const limits = PLAN_LIMITS[planType];
-      if (!limits.hasUnlimitedMessages) {
-        updates.messageQuota = limits.messagesPerPeriod;
-        updates.quotaResetTime = this.getNextResetTime(planType);
-      }
-      
-      if (stripeData) {
-        updates.stripeCustomerId = stripeData.customerId;
-        updates.stripeSubscriptionId = stripeData.subscriptionId;
-        updates.endDate = stripeData.endDate;
-      }
-      
-      await updateDoc(doc(db, 'subscriptions', userId), updates);
+        successUrl: `${returnUrl}?checkout=success`,
+        cancelUrl: `${returnUrl}?checkout=cancelled`,
+      });
+      return (result.data as any).url;
     } catch (error) {
-      console.error('Error upgrading subscription:', error);
-      throw new Error('Failed to upgrade subscription');
+      console.error('Error starting checkout:', error);
+      throw new Error('Failed to start checkout');
     }
   }
 
   /**
-   * Cancel user subscription
+   * Cancel renewal; the plan stays active until the end of the billing period
    */
-  async cancelSubscription(userId: string): Promise<void> {
+  async cancelSubscription(): Promise<void> {
     try {
-      await updateDoc(doc(db, 'subscriptions', userId), {
-        planType: 'free',
-        isActive: true,
-        messageQuota: PLAN_LIMITS.free.messagesPerPeriod,
-        messagesUsed: 0,
-        quotaResetTime: this.getNextResetTime('free'),
-        stripeCustomerId: null,
-        stripeSubscriptionId: null,
-        endDate: null,
-        cancelAtPeriodEnd: false,
-        updatedAt: serverTimestamp(),
-      });
+      await httpsCallable(functions, 'cancelPaidSubscription')({});
     } catch (error) {
       console.error('Error canceling subscription:', error);
       throw new Error('Failed to cancel subscription');
@@ -334,10 +260,9 @@ class SubscriptionService {
         return { remaining: -1, total: -1 }; // Unlimited
       }
       
-      // Check if quota needs reset
+      // Expired period counts as a full quota until the backend starts a new one
       const now = new Date();
       if (subscription.quotaResetTime && now >= subscription.quotaResetTime) {
-        await this.resetMessageQuota(userId);
         return {
           remaining: subscription.messageQuota,
           total: subscription.messageQuota,
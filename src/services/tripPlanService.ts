@@ -0,0 +1,134 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { logger } from '../utils/logger';
+import { coupleService, type SharedSpace } from './coupleService';
+import { EMPTY_HONEYMOON_PLAN, planTitle, type CustomHoneymoonPlan } from '../utils/trip-plan';
+
+// {couples/{coupleId} | users/{uid}}/plans/{planId}
+export interface TripPlan {
+  id: string;
+  title: string;
+  details: CustomHoneymoonPlan;
+  packageId?: string; // Package the plan is attached to
+  packageTitle?: string;
+  bookingId?: string; // Booking made for the plan
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PlanAttachment {
+  packageId?: string;
+  packageTitle?: string;
+  bookingId?: string;
+}
+
+/**
+ * Honeymoon plans saved from HoneymoonPlannerWizard, so they can be reopened, edited and discussed
+ * in chat without going through the wizard again. Linked couples share their plans.
+ */
+class TripPlanService {
+  async createPlan(space: SharedSpace, details: CustomHoneymoonPlan, userId: string): Promise<string> {
+    const ref = await addDoc(collection(db, coupleService.spacePath(space), 'plans'), {
+      title: planTitle(details),
+      details: this.toFirestoreDetails(details),
+      createdBy: userId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    logger.log(`🗺️ Trip plan saved: ${ref.id}`);
+    return ref.id;
+  }
+
+  async updatePlan(space: SharedSpace, planId: string, details: CustomHoneymoonPlan): Promise<void> {
+    await updateDoc(this.planRef(space, planId), {
+      title: planTitle(details),
+      details: this.toFirestoreDetails(details),
+      updatedAt: serverTimestamp()
+    });
+  }
+
+  async renamePlan(space: SharedSpace, planId: string, title: string): Promise<void> {
+    await updateDoc(this.planRef(space, planId), { title: title.trim(), updatedAt: serverTimestamp() });
+  }
+
+  async deletePlan(space: SharedSpace, planId: string): Promise<void> {
+    await deleteDoc(this.planRef(space, planId));
+  }
+
+  /**
+   * Attaches a package and/or booking to the plan; null clears the field. Firestore rules only
+   * accept existing packages and bookings made by the plan's owner or, for couples, either partner.
+   */
+  async attach(space: SharedSpace, planId: string, attachment: { [key in keyof PlanAttachment]?: string | null }): Promise<void> {
+    const update: Record<string, unknown> = { updatedAt: serverTimestamp() };
+    Object.entries(attachment).forEach(([field, value]) => {
+      if (value !== undefined) update[field] = value === null ? deleteField() : value;
+    });
+    await updateDoc(this.planRef(space, planId), update);
+  }
+
+  async getPlan(space: SharedSpace, planId: string): Promise<TripPlan | null> {
+    const snapshot = await getDoc(this.planRef(space, planId));
+    return snapshot.exists() ? this.toPlan(snapshot.id, snapshot.data()) : null;
+  }
+
+  /**
+   * Live list of plans in the space, last edited first. Returns the unsubscribe function.
+   */
+  subscribeToPlans(space: SharedSpace, callback: (plans: TripPlan[]) => void): () => void {
+    return onSnapshot(
+      query(collection(db, coupleService.spacePath(space), 'plans'), orderBy('updatedAt', 'desc')),
+      snapshot => callback(snapshot.docs.map(planDoc => this.toPlan(planDoc.id, planDoc.data()))),
+      error => logger.error('❌ Error listening to trip plans:', error)
+    );
+  }
+
+  private planRef(space: SharedSpace, planId: string) {
+    return doc(db, coupleService.spacePath(space), 'plans', planId);
+  }
+
+  private toFirestoreDetails(details: CustomHoneymoonPlan) {
+    return {
+      ...details,
+      startDate: details.startDate ? Timestamp.fromDate(details.startDate) : null,
+      endDate: details.endDate ? Timestamp.fromDate(details.endDate) : null
+    };
+  }
+
+  private toPlan(id: string, data: any): TripPlan {
+    const details = data.details || {};
+    return {
+      id,
+      title: data.title,
+      details: {
+        ...EMPTY_HONEYMOON_PLAN,
+        ...details,
+        startDate: details.startDate?.toDate() || null,
+        endDate: details.endDate?.toDate() || null
+      },
+      packageId: data.packageId,
+      packageTitle: data.packageTitle,
+      bookingId: data.bookingId,
+      createdBy: data.createdBy,
+      // Pending server timestamps read as null until the write is acknowledged
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date()
+    };
+  }
+}
+
+export const tripPlanService = new TripPlanService();
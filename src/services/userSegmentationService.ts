@@ -1,4 +1,5 @@
 import { logger } from '../utils/logger';
+import { DocumentSnapshot } from 'firebase/firestore';
 import { DetailedUserProfile, advancedUserProfileService } from './advancedUserProfileService';
 
 export interface SegmentCriteria {
@@ -394,6 +395,25 @@ class UserSegmentationService {
     }
   }
 
+  // Members of one segment ('general' = users matching no predefined segment), read-only
+  async getUsersBySegment(segmentId: string): Promise<DetailedUserProfile[]> {
+    const members: DetailedUserProfile[] = [];
+    let lastDoc: DocumentSnapshot | null = null;
+
+    do {
+      const page = await advancedUserProfileService.getBatchUsers(lastDoc || undefined, SEGMENT_SCAN_PAGE_SIZE);
+      for (const user of page.users) {
+        const userSegments = await this.segmentUser(user);
+        if (userSegments.includes(segmentId)) {
+          members.push(user);
+        }
+      }
+      lastDoc = page.users.length === SEGMENT_SCAN_PAGE_SIZE ? page.lastDoc : null;
+    } while (lastDoc);
+
+    return members;
+  }
+
   getSegmentDefinition(segmentId: string): UserSegmentDefinition | null {
     return this.predefinedSegments.find(segment => segment.id === segmentId) || null;
   }
@@ -535,4 +555,7 @@ class UserSegmentationService {
   }
 }
 
+// Profiles read per getBatchUsers call while scanning for segment members
+const SEGMENT_SCAN_PAGE_SIZE = 500;
+
 export const userSegmentationService = new UserSegmentationService();
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { httpsCallable } from 'firebase/functions';
+import { collection, onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import { db, functions } from '../firebase';
+import { logger } from '../utils/logger';
+
+export type WatchCondition = 'price_below' | 'available';
+export type WatchStatus = 'active' | 'triggered' | 'cancelled';
+
+// watches/{watchId}, see functions/src/watchlists.ts
+export interface PackageWatch {
+  id: string;
+  packageId?: string;
+  packageTitle?: string;
+  destination?: string;
+  condition: WatchCondition;
+  targetPrice?: number;
+  currency: string;
+  notifyByEmail: boolean;
+  source: 'package_card' | 'package_detail' | 'chat';
+  status: WatchStatus;
+  lastPrice?: number;
+  matchedPackageId?: string;
+  matchedPrice?: number;
+  createdAt: Date;
+  triggeredAt?: Date;
+}
+
+export interface CreateWatchInput {
+  packageId: string;
+  condition: WatchCondition;
+  targetPrice?: number;
+  notifyByEmail: boolean;
+  source: 'package_card' | 'package_detail';
+}
+
+/**
+ * Price and availability watches. They are saved and re-evaluated every hour by Cloud Functions,
+ * which notify the user through NotificationCenter and email; the assistant can add them from chat.
+ */
+class WatchlistService {
+  async createWatch(input: CreateWatchInput): Promise<string> {
+    const result = await httpsCallable(functions, 'createWatch')(input);
+    logger.log(`🔔 Watch saved for package ${input.packageId}`);
+    return (result.data as any).watchId as string;
+  }
+
+  async cancelWatch(watchId: string): Promise<void> {
+    await httpsCallable(functions, 'cancelWatch')({ watchId });
+  }
+
+  /**
+   * Live list of the user's watches, newest first. Returns the unsubscribe function.
+   */
+  subscribeToWatches(userId: string, callback: (watches: PackageWatch[]) => void): () => void {
+    return onSnapshot(
+      query(collection(db, 'watches'), where('userId', '==', userId), orderBy('createdAt', 'desc')),
+      snapshot => callback(snapshot.docs.map(watchDoc => this.toWatch(watchDoc.id, watchDoc.data()))),
+      error => logger.error('❌ Error listening to watches:', error)
+    );
+  }
+
+  private toWatch(id: string, data: any): PackageWatch {
+    return {
+      id,
+      packageId: data.packageId,
+      packageTitle: data.packageTitle,
+      destination: data.destination,
+      condition: data.condition,
+      targetPrice: data.targetPrice,
+      currency: data.currency || 'USD',
+      notifyByEmail: data.notifyByEmail !== false,
+      source: data.source,
+      status: data.status,
+      lastPrice: data.lastPrice,
+      matchedPackageId: data.matchedPackageId,
+      matchedPrice: data.matchedPrice,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      triggeredAt: data.triggeredAt?.toDate()
+    };
+  }
+}
+
+export const watchlistService = new WatchlistService();
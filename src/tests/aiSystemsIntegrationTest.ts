@@ -250,7 +250,7 @@ class AISystemsIntegrationTest {
 
     // Test 1: User Profile Update
     await this.runTest('User Profile Update Test', async () => {
-      proactiveNotificationEngine.updateUserProfile('test_user', {
+      await proactiveNotificationEngine.updateUserProfile('test_user', {
         packageView: 'santorini-sunset',
         activity: { duration: 600000 }
       });
@@ -260,7 +260,7 @@ class AISystemsIntegrationTest {
 
     // Test 2: Notification Preferences
     await this.runTest('Notification Preferences Test', async () => {
-      proactiveNotificationEngine.updateNotificationPreferences('test_user', {
+      await proactiveNotificationEngine.updateNotificationPreferences('test_user', {
         enableNotifications: true,
         allowedTypes: ['behavior', 'price', 'availability'],
         frequency: 'medium'
@@ -271,7 +271,7 @@ class AISystemsIntegrationTest {
 
     // Test 3: Get User Notifications
     await this.runTest('Get User Notifications Test', async () => {
-      const notifications = proactiveNotificationEngine.getUserNotifications('test_user', 5);
+      const notifications = await proactiveNotificationEngine.getUserNotifications('test_user', 5);
       
       return {
         notificationCount: notifications.length,
@@ -285,7 +285,7 @@ class AISystemsIntegrationTest {
 
     // Test 4: Notification Analytics
     await this.runTest('Notification Analytics Test', async () => {
-      const analytics = proactiveNotificationEngine.getNotificationAnalytics();
+      const analytics = await proactiveNotificationEngine.getNotificationAnalytics();
       
       return {
         totalSent: analytics.totalSent,
@@ -378,58 +378,26 @@ class AISystemsIntegrationTest {
   async testDynamicPricingEngine(): Promise<void> {
     this.startTestSuite('Dynamic Pricing Engine');
 
-    // Test 1: Dynamic Price Calculation
-    await this.runTest('Dynamic Price Calculation Test', async () => {
-      const dynamicPrice = await dynamicPricingEngine.calculateDynamicPrice(
-        'romantic-bali',
-        'test_user',
-        {
-          basePrice: 3500,
-          destination: 'bali',
-          travelDate: new Date(Date.now() + 60 * 24 * 60 * 60 * 1000), // 60 days ahead
-          bookingDate: new Date()
-        }
-      );
-
-      return {
-        packageId: dynamicPrice.packageId,
-        basePrice: dynamicPrice.basePrice,
-        currentPrice: dynamicPrice.currentPrice,
-        adjustmentPercentage: dynamicPrice.adjustmentPercentage,
-        factors: dynamicPrice.factors.map(f => ({
-          name: f.name,
-          weight: f.weight,
-          impact: f.impact
-        })),
-        urgencyLevel: dynamicPrice.urgencyLevel,
-        reason: dynamicPrice.reason,
-        confidence: dynamicPrice.confidence
-      };
-    });
-
-    // Test 2: Price Interaction Recording
-    await this.runTest('Price Interaction Recording Test', async () => {
-      dynamicPricingEngine.recordPriceInteraction(
-        'test_user',
-        'romantic-bali',
-        3150,
-        'interested'
-      );
-
-      const userProfile = dynamicPricingEngine.getUserPricingProfilePublic('test_user');
-      if (!userProfile) throw new Error('User pricing profile not found');
+    // Test 1: Server-side Price Quote
+    await this.runTest('Price Quote Test', async () => {
+      const quote = await dynamicPricingEngine.getQuote('romantic-bali', {
+        travelDate: new Date(Date.now() + 60 * 24 * 60 * 60 * 1000) // 60 days ahead
+      });
 
       return {
-        priceElasticity: userProfile.priceElasticity,
-        conversionProbability: userProfile.conversionProbability,
-        segmentProfile: userProfile.segmentProfile,
-        interactionHistoryLength: userProfile.priceInteractionHistory.length
+        quoteId: quote.quoteId,
+        packageId: quote.packageId,
+        totalPrice: quote.pricing.totalPrice,
+        adjustmentPercent: quote.adjustmentPercent,
+        strategies: quote.strategies.map(s => s.name),
+        guardrailApplied: quote.guardrailApplied,
+        expiresAt: quote.expiresAt.toISOString()
       };
     });
 
-    // Test 3: Pricing Strategies
+    // Test 2: Pricing Strategies (admin only)
     await this.runTest('Pricing Strategies Test', async () => {
-      const strategies = dynamicPricingEngine.getPricingStrategies();
+      const strategies = await dynamicPricingEngine.getPricingStrategies();
       const activeStrategies = strategies.filter(s => s.active);
 
       return {
@@ -439,30 +407,6 @@ class AISystemsIntegrationTest {
       };
     });
 
-    // Test 4: Market Conditions
-    await this.runTest('Market Conditions Test', async () => {
-      const marketCondition = dynamicPricingEngine.getMarketCondition('bali');
-
-      return {
-        destination: marketCondition?.destination,
-        seasonality: marketCondition?.seasonality,
-        demand: marketCondition?.demand,
-        weatherImpact: marketCondition?.weatherImpact,
-        eventsCount: marketCondition?.events.length
-      };
-    });
-
-    // Test 5: Price Optimization Recommendations
-    await this.runTest('Price Optimization Recommendations Test', async () => {
-      const recommendations = dynamicPricingEngine.getPriceOptimizationRecommendations('romantic-bali');
-
-      return {
-        currentPerformance: recommendations.currentPerformance,
-        recommendationsCount: recommendations.recommendations.length,
-        topRecommendation: recommendations.recommendations[0]
-      };
-    });
-
     this.endTestSuite();
   }
 
@@ -558,18 +502,11 @@ class AISystemsIntegrationTest {
 
       // 3. Get dynamic pricing
       journey.step3 = 'Dynamic pricing';
-      const pricing = await dynamicPricingEngine.calculateDynamicPrice(
-        'romantic-bali',
-        userId,
-        {
-          basePrice: 3500,
-          destination: 'bali',
-          travelDate: new Date(Date.now() + 45 * 24 * 60 * 60 * 1000),
-          bookingDate: new Date()
-        }
-      );
-      journey.finalPrice = pricing.currentPrice;
-      journey.priceAdjustment = pricing.adjustmentPercentage;
+      const quote = await dynamicPricingEngine.getQuote('romantic-bali', {
+        travelDate: new Date(Date.now() + 45 * 24 * 60 * 60 * 1000)
+      });
+      journey.finalPrice = quote.pricing.totalPrice;
+      journey.priceAdjustment = quote.adjustmentPercent;
 
       // 4. Start booking process
       journey.step4 = 'Auto-booking';
@@ -593,7 +530,7 @@ class AISystemsIntegrationTest {
       journey.step5 = 'Cache optimization';
       intelligentCacheSystem.addSmartCache(
         'Bali lüks paket önerisi',
-        `Mükemmel! ${pricing.currentPrice} USD fiyatla harika Bali paketi. **SHOW_PACKAGES:bali**`,
+        `Mükemmel! ${quote.pricing.totalPrice} ${quote.pricing.currency} fiyatla harika Bali paketi. **SHOW_PACKAGES:bali**`,
         userId,
         'tr',
         300,
@@ -620,13 +557,6 @@ class AISystemsIntegrationTest {
         satisfactionRate: userProfile?.analytics.satisfactionRate
       };
 
-      // This should influence pricing profile
-      const pricingProfile = dynamicPricingEngine.getUserPricingProfilePublic(userId);
-      dataFlow.pricingProfile = pricingProfile ? {
-        priceElasticity: pricingProfile.priceElasticity,
-        segment: pricingProfile.segmentProfile.segment
-      } : null;
-
       // Notification system should be aware of user behavior
       proactiveNotificationEngine.updateUserProfile(userId, {
         packageView: 'luxury-package',
@@ -646,7 +576,7 @@ class AISystemsIntegrationTest {
       // Simulate rapid consecutive calls
       const tasks = await Promise.all([
         smartRecommendationEngine.generateSmartRecommendations(userId, 'Paris honeymoon package'),
-        dynamicPricingEngine.calculateDynamicPrice('paris-luxury', userId),
+        dynamicPricingEngine.getQuote('paris-luxury'),
         intelligentCacheSystem.findSmartCache('Paris package', userId, 'tr'),
         autoBookingAssistant.extractBookingIntent(userId, 'perf_session', 'Paris için rezervasyon istiyorum')
       ]);
@@ -195,6 +195,7 @@ export interface Booking {
     guests: number;
     adults: number;
     children: number;
+    childAges?: number[];
     rooms: number;
     specialRequests?: string;
   };
@@ -203,15 +204,30 @@ export interface Booking {
     taxes: number;
     fees: number;
     discounts: number;
+    adjustment?: number; // Dynamic pricing strategies and guardrails
     totalPrice: number;
     currency: string;
+    quoteId?: string;
+    // Rate locked at quote time for the user's display currency; charged amounts stay in currency
+    fx?: {
+      currency: string;
+      rate: number;
+      totalPrice: number;
+      ratesAt: string;
+      provider: string;
+    };
   };
   payment: {
     method: string;
-    status: 'pending' | 'paid' | 'failed' | 'refunded';
+    status: 'pending' | 'paid' | 'failed' | 'partially_refunded' | 'refunded';
     transactionId?: string;
     paidAt?: Timestamp;
+    provider?: 'stripe' | 'fake';
+    amountPaid?: number; // Sum of the paid installments
+    refundedAmount?: number; // Sum of all refunds so far
+    refundIds?: string[];
   };
+  paymentSchedule?: PaymentSchedule;
   customer: {
     firstName: string;
     lastName: string;
@@ -227,7 +243,28 @@ export interface Booking {
   createdAt: Timestamp;
   updatedAt: Timestamp;
   cancellationReason?: string;
-  refundAmount?: number;
+  refundAmount?: number; // Older refunds only, see payment.refundedAmount
+}
+
+// Booking payment schedule (bookings/{id}.paymentSchedule), maintained by Functions
+export interface PaymentInstallment {
+  id: string;
+  kind: 'full' | 'deposit' | 'installment' | 'balance';
+  amount: number;
+  dueDate: Timestamp;
+  status: 'pending' | 'paid' | 'overdue';
+  paidAt?: Timestamp;
+  transactionId?: string;
+}
+
+export interface PaymentSchedule {
+  plan: 'full' | 'deposit' | 'installment';
+  currency: string;
+  installments: PaymentInstallment[];
+  amountPaid: number;
+  outstandingBalance: number;
+  nextDueDate: Timestamp | null;
+  status: 'active' | 'overdue' | 'completed' | 'cancelled';
 }
 
 // Review document structure
@@ -236,6 +273,7 @@ export interface Review {
   userId: string;
   packageId: string;
   bookingId?: string;
+  authorName?: string; // First name and last initial from the booking
   rating: number;
   title: string;
   content: string;
@@ -253,6 +291,7 @@ export interface Review {
   createdAt: Timestamp;
   updatedAt: Timestamp;
   status: 'pending' | 'approved' | 'rejected';
+  moderatedBy?: string;
 }
 
 // Analytics aggregation document
@@ -293,6 +332,24 @@ export interface Analytics {
   updatedAt: Timestamp;
 }
 
+// Gemini model registry entry (settings/app → gemini.models)
+export interface GeminiModelConfig {
+  id: string; // Client facing id, e.g. 'ai-lovv3'
+  label: string;
+  description?: string;
+  model: string; // Gemini model name, e.g. 'gemini-1.5-flash-8b'
+  temperature: number;
+  maxTokens: number;
+  topP?: number;
+  topK?: number;
+  safetyThresholds: Partial<Record<
+    'HARM_CATEGORY_HARASSMENT' | 'HARM_CATEGORY_HATE_SPEECH' | 'HARM_CATEGORY_SEXUALLY_EXPLICIT' | 'HARM_CATEGORY_DANGEROUS_CONTENT',
+    'BLOCK_LOW_AND_ABOVE' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_NONE'
+  >>;
+  allowedPlans: ('free' | 'pro' | 'pro_bride')[];
+  enabled: boolean;
+}
+
 // Settings document structure
 export interface AppSettings {
   id: string;
@@ -303,6 +360,8 @@ export interface AppSettings {
     temperature: number;
     maxTokens: number;
     enablePackageIntegration: boolean;
+    defaultModelId?: string;
+    models?: GeminiModelConfig[];
   };
   features: {
     chatEnabled: boolean;
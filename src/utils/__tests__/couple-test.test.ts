@@ -0,0 +1,81 @@
+// Unit tests for the couple compatibility test helpers
+import { describe, it, expect } from 'vitest';
+import {
+  answersToProfile,
+  buildCoupleTestPrompt,
+  COUPLE_TEST_QUESTIONS,
+  isCoupleTestComplete,
+  suggestCompromiseDestinations,
+  type CompromisePackageInput
+} from '../couple-test';
+import { FIXTURE_FX_RATES } from '../currency';
+
+const packages: CompromisePackageInput[] = [
+  { id: 'santorini', title: 'Santorini Sunset Escape', location: 'Santorini', category: 'romantic', duration: 7, price: 4500, currency: 'USD' },
+  { id: 'maldives', title: 'Maldives Overwater Villa', location: 'Malé', category: 'beach', duration: 10, price: 8200, currency: 'USD' },
+  { id: 'cappadocia', title: 'Kapadokya Balon Turu', location: 'Göreme', category: 'adventure', duration: 4, price: 1800, currency: 'USD' },
+  { id: 'rome', title: 'Roman Holiday', location: 'Rome', category: 'cultural', duration: 5, price: 3450, currency: 'EUR' }
+];
+
+const beachLover = answersToProfile({ vision: 'beach', budget: 'luxury', duration: '5-7', energy: 'relaxation', priority: 'romantic_connection' });
+const cultureFan = answersToProfile({ vision: 'culture', budget: 'mid_range', duration: '5-7', energy: 'mixed', priority: 'new_discoveries' });
+
+describe('answersToProfile', () => {
+  it('maps the vision answer to a personality type and travel style', () => {
+    expect(beachLover.personalityType).toBe('romantic_dreamer');
+    expect(beachLover.travelStyle).toBe('relaxation');
+    expect(cultureFan.personalityType).toBe('culture_explorer');
+    expect(cultureFan.budgetRange).toBe('mid_range');
+  });
+
+  it('knows when every question has an answer', () => {
+    expect(isCoupleTestComplete({ vision: 'beach' })).toBe(false);
+    const all = Object.fromEntries(COUPLE_TEST_QUESTIONS.map(question => [question.id, question.options[0].id]));
+    expect(isCoupleTestComplete(all)).toBe(true);
+  });
+});
+
+describe('suggestCompromiseDestinations', () => {
+  it('ranks packages by the partner they suit least', () => {
+    const result = suggestCompromiseDestinations([beachLover, cultureFan], ['Ada', 'Can'], packages, FIXTURE_FX_RATES);
+
+    expect(result.map(destination => destination.packageId)).toEqual(['rome', 'santorini', 'cappadocia']);
+  });
+
+  it('leaves out packages that only suit one partner', () => {
+    const result = suggestCompromiseDestinations([beachLover, cultureFan], ['Ada', 'Can'], packages, FIXTURE_FX_RATES, 10);
+
+    expect(result.map(destination => destination.packageId)).not.toContain('maldives');
+  });
+
+  it('explains the compromise with both partners in mind', () => {
+    const [, santorini] = suggestCompromiseDestinations([beachLover, cultureFan], ['Ada', 'Can'], packages, FIXTURE_FX_RATES);
+
+    expect(santorini.reasons).toContain("A small stretch on Can's budget");
+    expect(santorini.reasons).toContain('7 days fits the trip length you both want');
+  });
+
+  it('converts prices to USD before comparing them with the budgets', () => {
+    const result = suggestCompromiseDestinations([cultureFan, cultureFan], ['Ada', 'Can'], packages, FIXTURE_FX_RATES);
+
+    expect(result[0].packageId).toBe('rome');
+    expect(result[0].reasons).toContain('Within both your budgets');
+  });
+});
+
+describe('buildCoupleTestPrompt', () => {
+  it('lists both partners, the gaps and the compromise destinations', () => {
+    const prompt = buildCoupleTestPrompt({
+      score: 35,
+      breakdown: { personality: 15, budget: 13, travelStyle: 0, duration: 15, energy: 10, priority: 0 },
+      partnerNames: ['Ada', 'Can'],
+      profiles: [beachLover, cultureFan],
+      compromiseDestinations: [{ packageId: 'santorini', title: 'Santorini Sunset Escape', location: 'Santorini', price: 4500, currency: 'USD', reasons: [] }]
+    });
+
+    expect(prompt).toContain('Compatibility score: 35/100');
+    expect(prompt).toContain('- Ada: romantic_dreamer, budget luxury');
+    expect(prompt).toContain('They differ on: travelStyle, priority');
+    expect(prompt).toContain('Santorini Sunset Escape (Santorini)');
+  });
+});
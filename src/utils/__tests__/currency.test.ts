@@ -0,0 +1,58 @@
+// Unit tests for currency conversion, using the fixture FX rates
+import { describe, it, expect } from 'vitest';
+import { convertAmount, FIXTURE_FX_RATES, formatMoney, isSupportedCurrency, toDisplayPrice } from '../currency';
+
+describe('convertAmount', () => {
+  it('returns the amount unchanged for the same currency, even without rates', () => {
+    expect(convertAmount(1500, 'EUR', 'EUR', null)).toBe(1500);
+  });
+
+  it('converts from the base currency', () => {
+    expect(convertAmount(100, 'USD', 'TRY', FIXTURE_FX_RATES)).toBeCloseTo(3420);
+  });
+
+  it('converts between two non-base currencies through the base', () => {
+    expect(convertAmount(92, 'EUR', 'USD', FIXTURE_FX_RATES)).toBeCloseTo(100);
+    expect(convertAmount(920, 'EUR', 'TRY', FIXTURE_FX_RATES)).toBeCloseTo(34200);
+  });
+
+  it('returns null when a rate is missing', () => {
+    expect(convertAmount(100, 'USD', 'JPY', FIXTURE_FX_RATES)).toBeNull();
+    expect(convertAmount(100, 'USD', 'TRY', null)).toBeNull();
+  });
+});
+
+describe('toDisplayPrice', () => {
+  it('keeps the package currency when the user prefers the original', () => {
+    expect(toDisplayPrice(4500, 'USD', 'original', FIXTURE_FX_RATES)).toEqual({ amount: 4500, currency: 'USD', converted: false });
+  });
+
+  it('does not mark a price as converted when the currencies already match', () => {
+    expect(toDisplayPrice(4500, 'TRY', 'TRY', FIXTURE_FX_RATES).converted).toBe(false);
+  });
+
+  it('converts, rounds and keeps the original price', () => {
+    expect(toDisplayPrice(4500, 'USD', 'TRY', FIXTURE_FX_RATES)).toEqual({
+      amount: 153900,
+      currency: 'TRY',
+      converted: true,
+      original: { amount: 4500, currency: 'USD' }
+    });
+  });
+
+  it('falls back to the original price without rates', () => {
+    expect(toDisplayPrice(4500, 'USD', 'EUR', null)).toEqual({ amount: 4500, currency: 'USD', converted: false });
+  });
+});
+
+describe('currency helpers', () => {
+  it('knows the supported currencies', () => {
+    expect(isSupportedCurrency('TRY')).toBe(true);
+    expect(isSupportedCurrency('JPY')).toBe(false);
+  });
+
+  it('formats without decimals', () => {
+    expect(formatMoney(4500, 'USD')).toBe('$4,500');
+    expect(formatMoney(1500.6, 'EUR')).toBe('€1,501');
+  });
+});
@@ -0,0 +1,80 @@
+// Unit tests for the family holiday party helpers
+import { describe, it, expect } from 'vitest';
+import {
+  buildFamilySystemPrompt,
+  describeParty,
+  filterPackagesForParty,
+  isValidParty,
+  partyMismatch,
+  roomsForParty,
+  type FamilyFilterablePackage,
+  type FamilyParty
+} from '../family-party';
+
+const family: FamilyParty = { adults: 2, childAges: [9, 4] };
+
+describe('isValidParty', () => {
+  it('needs an adult and child ages between 0 and 17', () => {
+    expect(isValidParty(family)).toBe(true);
+    expect(isValidParty({ adults: 0, childAges: [10] })).toBe(false);
+    expect(isValidParty({ adults: 2, childAges: [18] })).toBe(false);
+    expect(isValidParty({ adults: 2, childAges: [2.5] })).toBe(false);
+  });
+
+  it('caps the party size', () => {
+    expect(isValidParty({ adults: 10, childAges: [3, 4, 5] })).toBe(false);
+  });
+});
+
+describe('roomsForParty', () => {
+  it('puts up to four guests in a room', () => {
+    expect(roomsForParty(family)).toBe(1);
+    expect(roomsForParty({ adults: 3, childAges: [1, 2] })).toBe(2);
+  });
+});
+
+describe('partyMismatch', () => {
+  it('leaves out packages with too few places', () => {
+    expect(partyMismatch({ maxGuests: 2 }, family)?.reason).toBe('too_many_guests');
+  });
+
+  it('checks the youngest child against the minimum age', () => {
+    expect(partyMismatch({ minAge: 6 }, family)?.reason).toBe('too_young');
+    expect(partyMismatch({ minAge: 4 }, family)).toBeNull();
+  });
+
+  it('only allows easy packages for young children', () => {
+    expect(partyMismatch({ difficulty: 'moderate' }, family)?.reason).toBe('too_demanding');
+    expect(partyMismatch({ difficulty: 'moderate' }, { adults: 2, childAges: [8] })).toBeNull();
+    expect(partyMismatch({ difficulty: 'challenging' }, { adults: 2, childAges: [8] })?.reason).toBe('too_demanding');
+  });
+
+  it('does not restrict adult-only parties by age or difficulty', () => {
+    expect(partyMismatch({ minAge: 18, difficulty: 'challenging' }, { adults: 2, childAges: [] })).toBeNull();
+  });
+});
+
+describe('filterPackagesForParty', () => {
+  it('splits packages into suitable and excluded with the reason', () => {
+    const packages: Array<FamilyFilterablePackage & { id: string }> = [
+      { id: 'beach', maxGuests: 6, difficulty: 'easy' },
+      { id: 'trek', maxGuests: 8, minAge: 12, difficulty: 'challenging' }
+    ];
+
+    const { suitable, excluded } = filterPackagesForParty(packages, family);
+
+    expect(suitable.map(pkg => pkg.id)).toEqual(['beach']);
+    expect(excluded).toEqual([{ package: packages[1], message: 'For ages 12 and over' }]);
+  });
+});
+
+describe('buildFamilySystemPrompt', () => {
+  it('describes the party and passes it to the package search', () => {
+    const prompt = buildFamilySystemPrompt(family);
+
+    expect(describeParty(family)).toBe('2 adults, 2 children (aged 4, 9)');
+    expect(prompt).toContain('TRAVELLING PARTY: 2 adults, 2 children (aged 4, 9), 4 travellers.');
+    expect(prompt).toContain('guests=4 and youngestChildAge=4');
+    expect(prompt).not.toMatch(/honeymoon expert/i);
+  });
+});
@@ -0,0 +1,138 @@
+// Unit tests for the hybrid package search
+import { describe, it, expect } from 'vitest';
+import { editDistance, resolvePriceBuckets, searchPackages, seasonalityMonths, SearchablePackage } from '../package-search';
+import { FIXTURE_FX_RATES } from '../currency';
+
+const packages: SearchablePackage[] = [
+  {
+    id: 'cappadocia',
+    title: 'Kapadokya Balon Turu',
+    description: 'Peri bacaları üzerinde gün doğumu balon turu ve mağara otel.',
+    location: 'Göreme',
+    country: 'Türkiye',
+    category: 'adventure',
+    duration: 4,
+    price: 1800,
+    tags: ['balon', 'mağara otel'],
+    seasonality: ['Spring', 'Fall']
+  },
+  {
+    id: 'santorini',
+    title: 'Santorini Sunset Escape',
+    description: 'Caldera view suite with private sunset cruise and wine tasting.',
+    location: 'Santorini',
+    country: 'Greece',
+    category: 'romantic',
+    duration: 7,
+    price: 4500,
+    tags: ['sunset', 'island'],
+    seasonality: ['Spring', 'Summer', 'Fall']
+  },
+  {
+    id: 'maldives',
+    title: 'Maldives Overwater Villa',
+    description: 'Overwater bungalow with snorkeling, spa and private dinners on the beach.',
+    location: 'Malé',
+    country: 'Maldives',
+    category: 'beach',
+    duration: 10,
+    price: 8200,
+    tags: ['beach', 'luxury'],
+    seasonality: ['Winter', 'Spring']
+  }
+];
+
+describe('Package Search', () => {
+  describe('Typo tolerance', () => {
+    it('should count adjacent transpositions as one edit', () => {
+      expect(editDistance('maldvies', 'maldives', 2)).toBe(1);
+      expect(editDistance('paris', 'bali', 1)).toBe(2);
+    });
+
+    it('should match English destination names to Turkish ones', () => {
+      const result = searchPackages(packages, { query: 'cappadocia' });
+
+      expect(result.hits[0].package.id).toBe('cappadocia');
+      expect(result.expandedTerms).toContain('kapadokya');
+    });
+
+    it('should match misspelled and accent-free Turkish words', () => {
+      expect(searchPackages(packages, { query: 'kapadoyka' }).hits[0].package.id).toBe('cappadocia');
+      expect(searchPackages(packages, { query: 'magara otel' }).hits[0].package.id).toBe('cappadocia');
+      expect(searchPackages(packages, { query: 'maldivler' }).hits[0].package.id).toBe('maldives');
+    });
+  });
+
+  describe('Ranking', () => {
+    it('should keep every package in input order without a query', () => {
+      const result = searchPackages(packages);
+
+      expect(result.hits.map(hit => hit.package.id)).toEqual(['cappadocia', 'santorini', 'maldives']);
+    });
+
+    it('should only return packages matching a keyword or a semantic score', () => {
+      const keywordOnly = searchPackages(packages, { query: 'sunset cruise' });
+      expect(keywordOnly.hits.map(hit => hit.package.id)).toEqual(['santorini']);
+
+      const hybrid = searchPackages(packages, {
+        query: 'sunset cruise',
+        semanticScores: new Map([['santorini', 0.8], ['maldives', 0.6]])
+      });
+      expect(hybrid.hits.map(hit => hit.package.id)).toEqual(['santorini', 'maldives']);
+      expect(hybrid.hits[0].score).toBeGreaterThan(hybrid.hits[1].score);
+    });
+  });
+
+  describe('Facets', () => {
+    it('should map seasons and month names to months', () => {
+      expect(seasonalityMonths(['Winter'])).toEqual([1, 2, 12]);
+      expect(seasonalityMonths(['Haziran', 'july'])).toEqual([6, 7]);
+      expect(seasonalityMonths(['Year-round'])).toHaveLength(12);
+    });
+
+    it('should count facets ignoring the facet\'s own filter', () => {
+      const result = searchPackages(packages, { filters: { category: 'beach' } });
+
+      expect(result.hits.map(hit => hit.package.id)).toEqual(['maldives']);
+      expect(result.facets.category).toEqual({ adventure: 1, romantic: 1, beach: 1 });
+      expect(result.facets.price).toEqual({ 'under-2000': 0, '2000-4000': 0, '4000-7000': 0, '7000-plus': 1 });
+      expect(result.facets.duration.long).toBe(1);
+    });
+
+    it('should bucket prices in other currencies after converting them', () => {
+      const priced: SearchablePackage[] = [
+        { ...packages[0], id: 'try', price: 100000, currency: 'TRY' },
+        { ...packages[0], id: 'eur', price: 1500, currency: 'EUR' },
+        { ...packages[0], id: 'gbp', price: 5000, currency: 'GBP' }
+      ];
+
+      const inUsd = searchPackages(priced, { fx: FIXTURE_FX_RATES });
+      expect(inUsd.priceBuckets.currency).toBe('USD');
+      expect(inUsd.facets.price).toEqual({ 'under-2000': 1, '2000-4000': 1, '4000-7000': 1, '7000-plus': 0 });
+
+      const inTry = searchPackages(priced, { priceCurrency: 'TRY', fx: FIXTURE_FX_RATES, filters: { price: '2000-4000' } });
+      expect(inTry.priceBuckets.currency).toBe('TRY');
+      expect(inTry.hits.map(hit => hit.package.id)).toEqual(['try']);
+    });
+
+    it('should leave out packages without a rate from price buckets', () => {
+      const result = searchPackages([{ ...packages[0], currency: 'JPY' }], { fx: FIXTURE_FX_RATES, filters: { price: 'under-2000' } });
+
+      expect(result.hits).toEqual([]);
+      expect(result.facets.price['under-2000']).toBe(0);
+    });
+
+    it('should label price buckets in the compared currency', () => {
+      expect(resolvePriceBuckets('USD').buckets.map(b => b.label)).toEqual(['Under $2,000', '$2,000 - $4,000', '$4,000 - $7,000', '$7,000+']);
+      expect(resolvePriceBuckets('EUR', FIXTURE_FX_RATES).buckets[1]).toMatchObject({ label: '€1,800 - €3,700', min: 1800, max: 3700 });
+      expect(resolvePriceBuckets('EUR', null).currency).toBe('USD');
+    });
+
+    it('should filter by travel month', () => {
+      const result = searchPackages(packages, { filters: { month: 7 } });
+
+      expect(result.hits.map(hit => hit.package.id)).toEqual(['santorini']);
+      expect(result.facets.month[4]).toBe(3);
+    });
+  });
+});
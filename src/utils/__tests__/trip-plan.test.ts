@@ -0,0 +1,65 @@
+// Unit tests for the saved honeymoon plan helpers
+import { describe, it, expect } from 'vitest';
+import {
+  buildPlanChatPrompt,
+  EMPTY_HONEYMOON_PLAN,
+  formatPlanDates,
+  planNights,
+  planTitle,
+  type CustomHoneymoonPlan
+} from '../trip-plan';
+
+const plan: CustomHoneymoonPlan = {
+  ...EMPTY_HONEYMOON_PLAN,
+  destinations: ['Bali', 'Santorini'],
+  startDate: new Date(2027, 5, 1),
+  endDate: new Date(2027, 5, 10),
+  budget: { min: 50000, max: 75000 },
+  activities: ['Sunset Cruise', 'Couples Massage'],
+  roomType: 'Ocean View Suite',
+  specialRequests: '  Vegetarian meals  '
+};
+
+describe('planTitle', () => {
+  it('names the plan after its destinations and month', () => {
+    expect(planTitle(plan)).toBe('Bali & Santorini · Jun 2027');
+  });
+
+  it('counts destinations beyond the first two', () => {
+    expect(planTitle({ ...plan, destinations: ['Bali', 'Santorini', 'Paris', 'Dubai'], startDate: null })).toBe('Bali & Santorini +2');
+  });
+
+  it('falls back to a generic title', () => {
+    expect(planTitle(EMPTY_HONEYMOON_PLAN)).toBe('Honeymoon plan');
+  });
+});
+
+describe('formatPlanDates', () => {
+  it('shows the dates and the number of nights', () => {
+    expect(planNights(plan)).toBe(9);
+    expect(formatPlanDates(plan)).toBe('2027-06-01 to 2027-06-10 (9 nights)');
+  });
+
+  it('handles missing dates', () => {
+    expect(formatPlanDates({ startDate: new Date(2027, 5, 1), endDate: null })).toBe('from 2027-06-01');
+    expect(formatPlanDates(EMPTY_HONEYMOON_PLAN)).toBeNull();
+  });
+});
+
+describe('buildPlanChatPrompt', () => {
+  it('lists the filled in parts of the plan', () => {
+    const prompt = buildPlanChatPrompt(plan);
+
+    expect(prompt).toContain('- Destinations: Bali, Santorini');
+    expect(prompt).toContain('- Dates: 2027-06-01 to 2027-06-10 (9 nights)');
+    expect(prompt).toContain('- Activities: Sunset Cruise, Couples Massage');
+    expect(prompt).toContain('- Special requests: Vegetarian meals');
+    expect(prompt).not.toContain('- Meals:');
+    expect(prompt).not.toContain('- Package we are considering');
+  });
+
+  it('mentions the attached package', () => {
+    expect(buildPlanChatPrompt(EMPTY_HONEYMOON_PLAN, 'Bali Bliss')).toContain('- Package we are considering: Bali Bliss');
+    expect(buildPlanChatPrompt(EMPTY_HONEYMOON_PLAN)).toContain('- Destinations: open to suggestions');
+  });
+});
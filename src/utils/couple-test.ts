@@ -0,0 +1,257 @@
+// Couple compatibility test for AI LOVVE: quiz questions, answers to profiles, compromise packages and the chat prompt
+import type { CompatibilityBreakdown, PersonalityProfile } from '../services/personalityService';
+import { convertAmount, type FxRates } from './currency';
+
+export type CoupleTestQuestionId = 'vision' | 'budget' | 'duration' | 'energy' | 'priority';
+export type CoupleTestAnswers = Partial<Record<CoupleTestQuestionId, string>>; // Question id -> option id
+
+export interface CoupleTestQuestion {
+  id: CoupleTestQuestionId;
+  title: string;
+  options: Array<{ id: string; label: string; description: string; icon: string }>;
+}
+
+// Same choices as PersonalityOnboarding, so the answers map onto a PersonalityProfile
+export const COUPLE_TEST_QUESTIONS: CoupleTestQuestion[] = [
+  {
+    id: 'vision',
+    title: 'Which honeymoon sounds most like you?',
+    options: [
+      { id: 'beach', label: 'Beach & sun', description: 'Sand, sea and cocktails', icon: '🏖️' },
+      { id: 'adventure', label: 'Adventure', description: 'Nature, hiking and discovery', icon: '🏔️' },
+      { id: 'culture', label: 'Art & history', description: 'Museums, old towns and local life', icon: '🏛️' },
+      { id: 'luxury', label: 'Luxury', description: 'Suites, spa and VIP service', icon: '💎' }
+    ]
+  },
+  {
+    id: 'budget',
+    title: 'What would you spend on the trip?',
+    options: [
+      { id: 'budget', label: 'Budget friendly', description: 'Up to $2,000', icon: '💰' },
+      { id: 'mid_range', label: 'Mid range', description: '$2,000 - $4,000', icon: '💳' },
+      { id: 'luxury', label: 'Luxury', description: '$4,000 - $7,000', icon: '💎' },
+      { id: 'ultra_luxury', label: 'Ultra luxury', description: '$7,000 and up', icon: '👑' }
+    ]
+  },
+  {
+    id: 'duration',
+    title: 'How long should it be?',
+    options: [
+      { id: '3-5', label: 'Short escape', description: '3-5 days', icon: '⚡' },
+      { id: '5-7', label: 'Classic', description: '5-7 days', icon: '🌅' },
+      { id: '7-10', label: 'Extended', description: '7-10 days', icon: '🌴' },
+      { id: '10+', label: 'Grand tour', description: '10+ days', icon: '🌍' }
+    ]
+  },
+  {
+    id: 'energy',
+    title: 'How do you like to spend your days away?',
+    options: [
+      { id: 'relaxation', label: 'Calm', description: 'Spa, pool and a good book', icon: '🧘' },
+      { id: 'active', label: 'Active', description: 'Tours and activities', icon: '🚁' },
+      { id: 'cultural', label: 'Cultural', description: 'Shows, markets and local life', icon: '🎭' },
+      { id: 'mixed', label: 'A bit of everything', description: 'Sometimes busy, sometimes lazy', icon: '🔀' }
+    ]
+  },
+  {
+    id: 'priority',
+    title: 'What matters most to you on this trip?',
+    options: [
+      { id: 'unforgettable_memories', label: 'Unforgettable memories', description: 'Once in a lifetime moments', icon: '💫' },
+      { id: 'maximum_comfort', label: 'Comfort', description: 'Stress free with great service', icon: '🛏️' },
+      { id: 'new_discoveries', label: 'Discovery', description: 'New places and cultures', icon: '🗺️' },
+      { id: 'romantic_connection', label: 'Romance', description: 'Quality time together', icon: '💝' }
+    ]
+  }
+];
+
+const VISION_PROFILES: Record<string, Pick<PersonalityProfile, 'personalityType' | 'travelStyle'>> = {
+  beach: { personalityType: 'romantic_dreamer', travelStyle: 'relaxation' },
+  adventure: { personalityType: 'adventure_lover', travelStyle: 'adventure' },
+  culture: { personalityType: 'culture_explorer', travelStyle: 'cultural' },
+  luxury: { personalityType: 'luxury_seeker', travelStyle: 'relaxation' }
+};
+
+// Package categories that suit each travel style and personality type
+const STYLE_CATEGORIES: Record<PersonalityProfile['travelStyle'], string[]> = {
+  relaxation: ['beach', 'romantic', 'luxury'],
+  adventure: ['adventure', 'mountain', 'safari'],
+  cultural: ['cultural', 'city'],
+  mixed: ['luxury', 'adventure', 'romantic', 'cultural', 'beach', 'city', 'mountain', 'safari']
+};
+const TYPE_CATEGORIES: Record<PersonalityProfile['personalityType'], string[]> = {
+  luxury_seeker: ['luxury', 'beach'],
+  adventure_lover: ['adventure', 'mountain', 'safari'],
+  culture_explorer: ['cultural', 'city'],
+  romantic_dreamer: ['romantic', 'beach']
+};
+
+// Upper price per budget range in USD, the package search price buckets
+const BUDGET_CEILINGS_USD: Record<PersonalityProfile['budgetRange'], number> = {
+  budget: 2000,
+  mid_range: 4000,
+  luxury: 7000,
+  ultra_luxury: Infinity
+};
+const DURATION_RANGES: Record<PersonalityProfile['durationPreference'], [number, number]> = {
+  '3-5': [3, 5],
+  '5-7': [5, 7],
+  '7-10': [7, 10],
+  '10+': [10, Infinity]
+};
+
+export function isCoupleTestComplete(answers: CoupleTestAnswers | undefined): boolean {
+  return COUPLE_TEST_QUESTIONS.every(question => !!answers?.[question.id]);
+}
+
+/**
+ * The profile fields calculateCompatibilityScore compares, from one partner's test answers.
+ */
+export function answersToProfile(answers: CoupleTestAnswers): PersonalityProfile {
+  const vision = VISION_PROFILES[answers.vision || 'beach'] || VISION_PROFILES.beach;
+  const mainPriority = answers.priority || 'romantic_connection';
+  const energyStyle = answers.energy || 'mixed';
+  return {
+    ...vision,
+    budgetRange: (answers.budget || 'mid_range') as PersonalityProfile['budgetRange'],
+    durationPreference: (answers.duration || '5-7') as PersonalityProfile['durationPreference'],
+    priorities: [mainPriority, energyStyle],
+    socialMediaStyle: 'romantic_moments',
+    energyStyle,
+    mainPriority,
+    aiPersonality: '',
+    profileScore: 0
+  };
+}
+
+export interface CompromisePackageInput {
+  id: string;
+  title: string;
+  location: string;
+  category: string;
+  duration: number;
+  price: number;
+  currency?: string;
+}
+
+export interface CompromiseDestination {
+  packageId: string;
+  title: string;
+  location: string;
+  price: number;
+  currency: string;
+  reasons: string[];
+}
+
+// 0-6: travel style 2, personality 1, budget 2 (1 when one range over), duration 1
+function packageFit(profile: PersonalityProfile, pkg: CompromisePackageInput, priceUsd: number): number {
+  let fit = 0;
+  if (STYLE_CATEGORIES[profile.travelStyle]?.includes(pkg.category)) fit += 2;
+  if (TYPE_CATEGORIES[profile.personalityType]?.includes(pkg.category)) fit += 1;
+
+  const ranges = Object.keys(BUDGET_CEILINGS_USD) as PersonalityProfile['budgetRange'][];
+  const rangeIndex = ranges.indexOf(profile.budgetRange);
+  if (priceUsd <= BUDGET_CEILINGS_USD[profile.budgetRange]) fit += 2;
+  else if (rangeIndex >= 0 && rangeIndex < ranges.length - 1 && priceUsd <= BUDGET_CEILINGS_USD[ranges[rangeIndex + 1]]) fit += 1;
+
+  const [minDays, maxDays] = DURATION_RANGES[profile.durationPreference] || [0, Infinity];
+  if (pkg.duration >= minDays && pkg.duration <= maxDays) fit += 1;
+  return fit;
+}
+
+/**
+ * Catalog packages that work for both partners, best compromise first: ranked by the fit of the
+ * partner it suits least, then by the combined fit. Packages that suit only one of them are left out.
+ */
+export function suggestCompromiseDestinations(
+  profiles: [PersonalityProfile, PersonalityProfile],
+  names: [string, string],
+  packages: CompromisePackageInput[],
+  fx: FxRates | null,
+  limit: number = 3
+): CompromiseDestination[] {
+  return packages
+    .map(pkg => {
+      const currency = pkg.currency || 'USD';
+      const priceUsd = convertAmount(pkg.price, currency, 'USD', fx) ?? pkg.price;
+      const fits = profiles.map(profile => packageFit(profile, pkg, priceUsd));
+      return { pkg, currency, priceUsd, fits, least: Math.min(...fits), total: fits[0] + fits[1] };
+    })
+    .filter(candidate => candidate.least >= 2)
+    .sort((a, b) => b.least - a.least || b.total - a.total || a.priceUsd - b.priceUsd)
+    .slice(0, limit)
+    .map(({ pkg, currency, priceUsd }) => ({
+      packageId: pkg.id,
+      title: pkg.title,
+      location: pkg.location,
+      price: pkg.price,
+      currency,
+      reasons: compromiseReasons(profiles, names, pkg, priceUsd)
+    }));
+}
+
+function compromiseReasons(
+  profiles: [PersonalityProfile, PersonalityProfile],
+  names: [string, string],
+  pkg: CompromisePackageInput,
+  priceUsd: number
+): string[] {
+  const reasons: string[] = [];
+  const styleMatches = profiles.map(profile => STYLE_CATEGORIES[profile.travelStyle]?.includes(pkg.category));
+  if (styleMatches[0] && styleMatches[1]) {
+    reasons.push(`A ${pkg.category} trip suits both your travel styles`);
+  } else if (styleMatches[0] || styleMatches[1]) {
+    const suited = styleMatches[0] ? names[0] : names[1];
+    reasons.push(`A ${pkg.category} trip for ${suited}, with room for ${suited === names[0] ? names[1] : names[0]}'s plans`);
+  }
+
+  const withinBudget = profiles.map(profile => priceUsd <= BUDGET_CEILINGS_USD[profile.budgetRange]);
+  if (withinBudget[0] && withinBudget[1]) {
+    reasons.push('Within both your budgets');
+  } else {
+    reasons.push(`A small stretch on ${withinBudget[0] ? names[1] : names[0]}'s budget`);
+  }
+
+  const durationMatches = profiles.map(profile => {
+    const [minDays, maxDays] = DURATION_RANGES[profile.durationPreference] || [0, Infinity];
+    return pkg.duration >= minDays && pkg.duration <= maxDays;
+  });
+  if (durationMatches[0] && durationMatches[1]) {
+    reasons.push(`${pkg.duration} days fits the trip length you both want`);
+  }
+  return reasons;
+}
+
+export interface CoupleTestSummary {
+  score: number;
+  breakdown: CompatibilityBreakdown;
+  partnerNames: [string, string];
+  profiles: [PersonalityProfile, PersonalityProfile];
+  compromiseDestinations: CompromiseDestination[];
+}
+
+/**
+ * System prompt section that tells the assistant about the couple's test results.
+ */
+export function buildCoupleTestPrompt(summary: CoupleTestSummary): string {
+  const [nameA, nameB] = summary.partnerNames;
+  const [profileA, profileB] = summary.profiles;
+  const describe = (profile: PersonalityProfile) =>
+    `${profile.personalityType}, budget ${profile.budgetRange}, ${profile.travelStyle} travel, ${profile.durationPreference} days, ${profile.energyStyle} energy, priority ${profile.mainPriority}`;
+  const gaps = (Object.keys(summary.breakdown) as (keyof CompatibilityBreakdown)[])
+    .filter(factor => summary.breakdown[factor] === 0);
+
+  const lines = [
+    'COUPLE COMPATIBILITY TEST:',
+    `- Compatibility score: ${summary.score}/100`,
+    `- ${nameA}: ${describe(profileA)}`,
+    `- ${nameB}: ${describe(profileB)}`
+  ];
+  if (gaps.length > 0) {
+    lines.push(`- They differ on: ${gaps.join(', ')}. Suggest options that balance both partners here instead of favouring one.`);
+  }
+  if (summary.compromiseDestinations.length > 0) {
+    lines.push(`- Compromise destinations from the catalog: ${summary.compromiseDestinations.map(destination => `${destination.title} (${destination.location})`).join(', ')}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,72 @@
+// Currency conversion and formatting for AI LOVVE; rates come from the fxRates store (functions/src/fx-rates.ts)
+
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'TRY', 'GBP'] as const;
+export type CurrencyCode = typeof SUPPORTED_CURRENCIES[number];
+
+// 'original' keeps every package in the currency it is sold in
+export type DisplayCurrency = 'original' | CurrencyCode;
+
+export interface FxRates {
+  base: string;
+  rates: Record<string, number>; // Units per one unit of base
+  fetchedAt: Date;
+}
+
+// Units per USD; the same fixture the emulator's FixtureFxProvider serves
+export const FIXTURE_FX_RATES: FxRates = {
+  base: 'USD',
+  rates: { USD: 1, EUR: 0.92, TRY: 34.2, GBP: 0.79 },
+  fetchedAt: new Date('2026-01-01T00:00:00Z')
+};
+
+export interface DisplayPrice {
+  amount: number;
+  currency: string;
+  converted: boolean;
+  // Set when converted: the price in the currency the package is sold in
+  original?: { amount: number; currency: string };
+}
+
+export function isSupportedCurrency(currency: string): currency is CurrencyCode {
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(currency);
+}
+
+/**
+ * Converts between two currencies with base-relative rates, null when a rate is missing.
+ */
+export function convertAmount(amount: number, from: string, to: string, fx: FxRates | null): number | null {
+  if (from === to) return amount;
+  const fromRate = fx?.rates[from];
+  const toRate = fx?.rates[to];
+  if (!fromRate || !toRate) return null;
+  return amount * (toRate / fromRate);
+}
+
+/**
+ * Price to show for an amount in `currency` when the user prefers `displayCurrency`. Falls back to
+ * the original price when there are no rates for the pair.
+ */
+export function toDisplayPrice(amount: number, currency: string, displayCurrency: DisplayCurrency, fx: FxRates | null): DisplayPrice {
+  if (displayCurrency === 'original' || displayCurrency === currency) {
+    return { amount, currency, converted: false };
+  }
+  const converted = convertAmount(amount, currency, displayCurrency, fx);
+  if (converted === null) {
+    return { amount, currency, converted: false };
+  }
+  return {
+    amount: Math.round(converted),
+    currency: displayCurrency,
+    converted: true,
+    original: { amount, currency }
+  };
+}
+
+export function formatMoney(amount: number, currency: string = 'USD'): string {
+  return new Intl.NumberFormat(currency === 'TRY' ? 'tr-TR' : 'en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
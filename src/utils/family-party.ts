@@ -0,0 +1,105 @@
+// Family holiday planning for AI LOVVE: the travelling party, child-aware package filtering and the family chat prompt
+
+export interface FamilyParty {
+  adults: number;
+  childAges: number[]; // One entry per child, 0-17
+}
+
+export const MAX_CHILD_AGE = 17;
+export const MAX_PARTY_SIZE = 12;
+// Youngest child ages below which only easy, or no challenging, packages fit (same in functions/src/package-tools.ts)
+export const EASY_ONLY_UNDER_AGE = 6;
+export const NO_CHALLENGING_UNDER_AGE = 12;
+// Guests per room, as createBooking allows
+const GUESTS_PER_ROOM = 4;
+
+export interface FamilyFilterablePackage {
+  minAge?: number;
+  maxGuests?: number;
+  difficulty?: 'easy' | 'moderate' | 'challenging';
+}
+
+export type PartyMismatch = 'too_young' | 'too_many_guests' | 'too_demanding';
+
+export function partySize(party: FamilyParty): number {
+  return party.adults + party.childAges.length;
+}
+
+export function youngestChildAge(party: FamilyParty): number | null {
+  return party.childAges.length > 0 ? Math.min(...party.childAges) : null;
+}
+
+export function roomsForParty(party: FamilyParty): number {
+  return Math.max(1, Math.ceil(partySize(party) / GUESTS_PER_ROOM));
+}
+
+export function isValidParty(party: FamilyParty): boolean {
+  return Number.isInteger(party.adults) && party.adults >= 1 &&
+    partySize(party) <= MAX_PARTY_SIZE &&
+    party.childAges.every(age => Number.isInteger(age) && age >= 0 && age <= MAX_CHILD_AGE);
+}
+
+/**
+ * Why a package does not suit the party, or null when it does.
+ */
+export function partyMismatch(pkg: FamilyFilterablePackage, party: FamilyParty): { reason: PartyMismatch; message: string } | null {
+  if (pkg.maxGuests && partySize(party) > pkg.maxGuests) {
+    return { reason: 'too_many_guests', message: `Up to ${pkg.maxGuests} guests` };
+  }
+  const youngest = youngestChildAge(party);
+  if (youngest === null) return null;
+  if (pkg.minAge && youngest < pkg.minAge) {
+    return { reason: 'too_young', message: `For ages ${pkg.minAge} and over` };
+  }
+  if ((youngest < EASY_ONLY_UNDER_AGE && pkg.difficulty && pkg.difficulty !== 'easy') ||
+      (youngest < NO_CHALLENGING_UNDER_AGE && pkg.difficulty === 'challenging')) {
+    return { reason: 'too_demanding', message: `Too ${pkg.difficulty === 'challenging' ? 'challenging' : 'demanding'} for a ${youngest} year old` };
+  }
+  return null;
+}
+
+/**
+ * Splits packages into the ones that suit the party and the ones left out, with the reason.
+ */
+export function filterPackagesForParty<T extends FamilyFilterablePackage>(
+  packages: T[],
+  party: FamilyParty
+): { suitable: T[]; excluded: Array<{ package: T; message: string }> } {
+  const suitable: T[] = [];
+  const excluded: Array<{ package: T; message: string }> = [];
+  packages.forEach(pkg => {
+    const mismatch = partyMismatch(pkg, party);
+    if (mismatch) excluded.push({ package: pkg, message: mismatch.message });
+    else suitable.push(pkg);
+  });
+  return { suitable, excluded };
+}
+
+export function describeParty(party: FamilyParty): string {
+  const adults = `${party.adults} ${party.adults === 1 ? 'adult' : 'adults'}`;
+  if (party.childAges.length === 0) return adults;
+  const children = `${party.childAges.length} ${party.childAges.length === 1 ? 'child' : 'children'}`;
+  return `${adults}, ${children} (aged ${[...party.childAges].sort((a, b) => a - b).join(', ')})`;
+}
+
+/**
+ * Base system prompt for family planning, used instead of the honeymoon prompt.
+ */
+export function buildFamilySystemPrompt(party: FamilyParty): string {
+  const youngest = youngestChildAge(party);
+  return `AI LOVVE - family holiday planner. EXPERTISE: family friendly destinations, kid friendly hotels and activities, travel logistics with children.
+
+TRAVELLING PARTY: ${describeParty(party)}, ${partySize(party)} travellers.
+
+RESPONSE FORMAT: 100-200 words max, 2-3 emojis, actionable advice, specific recommendations, paragraph breaks.
+
+PACKAGE TOOLS:
+searchPackages / getFeaturedPackages / getPackage - Look up real packages before recommending one, never invent packages or prices
+Always call searchPackages with guests=${partySize(party)}${youngest !== null ? ` and youngestChildAge=${youngest}` : ''} so only packages this family can book are shown
+formatPrice - Format prices in the user's currency
+Packages returned by these tools are shown to the user as cards automatically.
+
+FAMILY MODE: This is a family holiday, not a honeymoon. Do not use romantic or couple framing. Think about the children's ages: pace, nap and meal times, pools and kids clubs, short transfers, family rooms and safety.
+
+TONE: Warm, practical, reassuring. Structure: intro → content → question.`;
+}
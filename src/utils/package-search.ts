@@ -0,0 +1,408 @@
+// Hybrid package search for AI LOVVE: BM25 keyword scoring, semantic scores and facet counts
+import { convertAmount, formatMoney, type FxRates } from './currency';
+
+export interface SearchablePackage {
+  id: string;
+  title: string;
+  description: string;
+  location: string;
+  country: string;
+  category: string;
+  duration: number;
+  price: number;
+  currency?: string; // USD when missing, like the rest of the catalog
+  tags?: string[];
+  highlights?: string[];
+  seasonality?: string[];
+}
+
+export type DurationBucket = 'short' | 'week' | 'long' | 'extended';
+export type PriceBucket = 'under-2000' | '2000-4000' | '4000-7000' | '7000-plus';
+
+export interface PackageSearchFilters {
+  category?: string;
+  country?: string;
+  duration?: DurationBucket;
+  price?: PriceBucket;
+  month?: number; // 1-12, matched against seasonality
+}
+
+export interface PackageSearchOptions {
+  query?: string;
+  filters?: PackageSearchFilters;
+  // Package id -> cosine similarity from the embedding index; ids missing here only match by keyword
+  semanticScores?: Map<string, number>;
+  keywordWeight?: number; // 0-1, the rest goes to the semantic score
+  // Prices are compared in this currency, converted with fx; USD when there is no rate for it
+  priceCurrency?: string;
+  fx?: FxRates | null;
+}
+
+export interface PackageSearchHit<T extends SearchablePackage> {
+  package: T;
+  score: number;
+  keywordScore: number; // Normalized to 0-1 within the result set
+  semanticScore: number; // Normalized to 0-1 within the result set
+}
+
+export interface PackageFacets {
+  category: Record<string, number>;
+  country: Record<string, number>;
+  duration: Record<DurationBucket, number>;
+  price: Record<PriceBucket, number>;
+  month: Record<number, number>;
+}
+
+export interface PackageSearchResult<T extends SearchablePackage> {
+  hits: PackageSearchHit<T>[];
+  facets: PackageFacets;
+  // Query terms after typo correction and destination aliases, for "showing results for"
+  expandedTerms: string[];
+  // Price buckets in the currency the prices were compared in, for the facet labels
+  priceBuckets: PriceBuckets;
+}
+
+export interface PriceBuckets {
+  currency: string;
+  buckets: { key: PriceBucket; label: string; min: number; max: number }[];
+}
+
+export const DURATION_BUCKETS: { key: DurationBucket; label: string; min: number; max: number }[] = [
+  { key: 'short', label: '1-5 days', min: 1, max: 5 },
+  { key: 'week', label: '6-8 days', min: 6, max: 8 },
+  { key: 'long', label: '9-12 days', min: 9, max: 12 },
+  { key: 'extended', label: '13+ days', min: 13, max: Infinity }
+];
+
+// Bounds in PRICE_BUCKET_CURRENCY; resolvePriceBuckets converts them to the currency prices are compared in
+export const PRICE_BUCKET_CURRENCY = 'USD';
+export const PRICE_BUCKETS: { key: PriceBucket; min: number; max: number }[] = [
+  { key: 'under-2000', min: 0, max: 2000 },
+  { key: '2000-4000', min: 2000, max: 4000 },
+  { key: '4000-7000', min: 4000, max: 7000 },
+  { key: '7000-plus', min: 7000, max: Infinity }
+];
+
+// Turkish and English names of the destinations in the catalog (already folded, see normalizeTerm)
+const DESTINATION_ALIASES: string[][] = [
+  ['kapadokya', 'cappadocia', 'goreme'],
+  ['istanbul', 'constantinople'],
+  ['antalya', 'antalia'],
+  ['bodrum', 'halicarnassus'],
+  ['maldivler', 'maldives', 'maldiv'],
+  ['santorini', 'santorin', 'thira'],
+  ['yunanistan', 'greece', 'hellas'],
+  ['italya', 'italy', 'italia'],
+  ['roma', 'rome'],
+  ['venedik', 'venice', 'venezia'],
+  ['floransa', 'florence', 'firenze'],
+  ['fransa', 'france'],
+  ['paris', 'pariz'],
+  ['ispanya', 'spain', 'espana'],
+  ['barselona', 'barcelona'],
+  ['endonezya', 'indonesia'],
+  ['bali'],
+  ['tayland', 'thailand'],
+  ['puket', 'phuket'],
+  ['japonya', 'japan'],
+  ['misir', 'egypt'],
+  ['fas', 'morocco'],
+  ['isvicre', 'switzerland'],
+  ['avusturya', 'austria'],
+  ['hirvatistan', 'croatia'],
+  ['portekiz', 'portugal'],
+  ['meksika', 'mexico'],
+  ['seyseller', 'seychelles'],
+  ['mauritius', 'morityus']
+];
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'are',
+  've', 'veya', 'ile', 'icin', 'bir', 'bu', 'su', 'de', 'da', 'mi', 'cok', 'en'
+]);
+
+const TURKISH_FOLDING: Record<string, string> = { ç: 'c', ğ: 'g', ı: 'i', ö: 'o', ş: 's', ü: 'u', â: 'a', î: 'i', û: 'u' };
+
+// Field weights for BM25F: matches in the title count more than in the description
+const FIELD_WEIGHTS = { title: 3, location: 2.5, tags: 2, highlights: 1.5, description: 1 };
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const ALIAS_WEIGHT = 1;
+const TYPO_WEIGHT = 0.7;
+const DEFAULT_KEYWORD_WEIGHT = 0.6;
+
+const SEASON_MONTHS: Record<string, number[]> = {
+  spring: [3, 4, 5], ilkbahar: [3, 4, 5],
+  summer: [6, 7, 8], yaz: [6, 7, 8],
+  fall: [9, 10, 11], autumn: [9, 10, 11], sonbahar: [9, 10, 11],
+  winter: [12, 1, 2], kis: [12, 1, 2]
+};
+
+const MONTH_NAMES: string[][] = [
+  ['january', 'ocak'], ['february', 'subat'], ['march', 'mart'], ['april', 'nisan'],
+  ['may', 'mayis'], ['june', 'haziran'], ['july', 'temmuz'], ['august', 'agustos'],
+  ['september', 'eylul'], ['october', 'ekim'], ['november', 'kasim'], ['december', 'aralik']
+];
+
+export function normalizeTerm(text: string): string {
+  return text.toLocaleLowerCase('tr').replace(/[çğıöşüâîû]/g, c => TURKISH_FOLDING[c]);
+}
+
+export function tokenize(text: string): string[] {
+  return normalizeTerm(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+// Allowed edits grow with the word: none for short words, where a typo is another word
+function typoTolerance(term: string): number {
+  if (term.length <= 3) return 0;
+  return term.length <= 6 ? 1 : 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions),
+ * giving up as soon as it exceeds `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], prevPrev[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+  return prev[b.length];
+}
+
+function withinTolerance(term: string, candidate: string): boolean {
+  const tolerance = typoTolerance(term);
+  return term === candidate || (tolerance > 0 && editDistance(term, candidate, tolerance) <= tolerance);
+}
+
+/**
+ * Expands query terms with destination aliases ("cappadocia" also searches "kapadokya")
+ * and corrects typos against the catalog vocabulary.
+ */
+export function expandQueryTerms(terms: string[], vocabulary: Set<string>): Map<string, number> {
+  const expanded = new Map<string, number>();
+  const add = (term: string, weight: number) => expanded.set(term, Math.max(expanded.get(term) || 0, weight));
+
+  for (const term of terms) {
+    add(term, 1);
+    for (const group of DESTINATION_ALIASES) {
+      if (group.some(alias => withinTolerance(term, alias))) {
+        group.forEach(alias => add(alias, ALIAS_WEIGHT));
+      }
+    }
+    if (!vocabulary.has(term)) {
+      for (const word of vocabulary) {
+        if (withinTolerance(term, word)) add(word, TYPO_WEIGHT);
+      }
+    }
+  }
+  return expanded;
+}
+
+/**
+ * Months (1-12) a package is recommended for: season names, month names (EN/TR) or "year round".
+ */
+export function seasonalityMonths(seasonality: string[] = []): number[] {
+  const months = new Set<number>();
+  for (const entry of seasonality) {
+    const value = normalizeTerm(entry);
+    if (/year|tum yil|yil boyu|her mevsim/.test(value)) {
+      for (let m = 1; m <= 12; m++) months.add(m);
+      continue;
+    }
+    for (const word of tokenize(value)) {
+      SEASON_MONTHS[word]?.forEach(m => months.add(m));
+      const monthIndex = MONTH_NAMES.findIndex(names => names.some(name => name === word || name.slice(0, 3) === word));
+      if (monthIndex >= 0) months.add(monthIndex + 1);
+    }
+  }
+  return [...months].sort((a, b) => a - b);
+}
+
+export function durationBucket(days: number): DurationBucket {
+  return (DURATION_BUCKETS.find(b => days >= b.min && days <= b.max) || DURATION_BUCKETS[0]).key;
+}
+
+// Two significant digits, so converted bounds read like 68,000 instead of 68,400
+function roundBound(amount: number): number {
+  if (!isFinite(amount) || amount <= 0) return amount;
+  const step = Math.pow(10, Math.max(0, Math.floor(Math.log10(amount)) - 1));
+  return Math.round(amount / step) * step;
+}
+
+/**
+ * PRICE_BUCKETS converted to `currency` and labelled in it. Falls back to PRICE_BUCKET_CURRENCY
+ * when there is no rate for it.
+ */
+export function resolvePriceBuckets(currency: string = PRICE_BUCKET_CURRENCY, fx: FxRates | null = null): PriceBuckets {
+  const resolved = convertAmount(1, PRICE_BUCKET_CURRENCY, currency, fx) === null ? PRICE_BUCKET_CURRENCY : currency;
+  const convert = (amount: number) => roundBound(convertAmount(amount, PRICE_BUCKET_CURRENCY, resolved, fx) ?? amount);
+  return {
+    currency: resolved,
+    buckets: PRICE_BUCKETS.map(bucket => {
+      const min = convert(bucket.min);
+      const max = convert(bucket.max);
+      const label = min === 0
+        ? `Under ${formatMoney(max, resolved)}`
+        : max === Infinity ? `${formatMoney(min, resolved)}+` : `${formatMoney(min, resolved)} - ${formatMoney(max, resolved)}`;
+      return { key: bucket.key, label, min, max };
+    })
+  };
+}
+
+/**
+ * Bucket of a price already in the buckets' currency.
+ */
+export function priceBucket(price: number, priceBuckets: PriceBuckets = resolvePriceBuckets()): PriceBucket {
+  const { buckets } = priceBuckets;
+  return (buckets.find(b => price >= b.min && price < b.max) || buckets[0]).key;
+}
+
+interface IndexedDocument<T extends SearchablePackage> {
+  pkg: T;
+  termFrequencies: Map<string, number>; // Field-weighted
+  length: number; // Field-weighted
+  months: number[];
+  duration: DurationBucket;
+  price: PriceBucket | null; // Null without a rate for the package currency
+}
+
+function indexDocument<T extends SearchablePackage>(pkg: T, priceBuckets: PriceBuckets, fx: FxRates | null): IndexedDocument<T> {
+  const fields: [keyof typeof FIELD_WEIGHTS, string][] = [
+    ['title', pkg.title],
+    ['location', `${pkg.location} ${pkg.country}`],
+    ['tags', (pkg.tags || []).join(' ')],
+    ['highlights', (pkg.highlights || []).join(' ')],
+    ['description', pkg.description]
+  ];
+  const termFrequencies = new Map<string, number>();
+  const price = convertAmount(pkg.price, pkg.currency || 'USD', priceBuckets.currency, fx);
+  let length = 0;
+  for (const [field, text] of fields) {
+    const weight = FIELD_WEIGHTS[field];
+    for (const term of tokenize(text || '')) {
+      termFrequencies.set(term, (termFrequencies.get(term) || 0) + weight);
+      length += weight;
+    }
+  }
+  return {
+    pkg,
+    termFrequencies,
+    length,
+    months: seasonalityMonths(pkg.seasonality),
+    duration: durationBucket(pkg.duration),
+    price: price === null ? null : priceBucket(price, priceBuckets)
+  };
+}
+
+type FacetName = keyof PackageFacets;
+
+function matchesFilters(doc: IndexedDocument<SearchablePackage>, filters: PackageSearchFilters, skip?: FacetName): boolean {
+  return (skip === 'category' || !filters.category || doc.pkg.category === filters.category) &&
+    (skip === 'country' || !filters.country || doc.pkg.country === filters.country) &&
+    (skip === 'duration' || !filters.duration || doc.duration === filters.duration) &&
+    (skip === 'price' || !filters.price || doc.price === filters.price) &&
+    (skip === 'month' || !filters.month || doc.months.includes(filters.month));
+}
+
+function emptyFacets(): PackageFacets {
+  return {
+    category: {},
+    country: {},
+    duration: { short: 0, week: 0, long: 0, extended: 0 },
+    price: { 'under-2000': 0, '2000-4000': 0, '4000-7000': 0, '7000-plus': 0 },
+    month: {}
+  };
+}
+
+/**
+ * Ranks packages for a query and filters. Without a query every package matches and the
+ * input order is kept. Facet counts ignore the facet's own filter, so the other values of
+ * a selected facet still show how many results they would give. Prices in other currencies
+ * are converted before bucketing; packages that can't be converted match no price bucket.
+ */
+export function searchPackages<T extends SearchablePackage>(
+  packages: T[],
+  options: PackageSearchOptions = {}
+): PackageSearchResult<T> {
+  const filters = options.filters || {};
+  const semanticScores = options.semanticScores || new Map<string, number>();
+  const keywordWeight = options.keywordWeight ?? DEFAULT_KEYWORD_WEIGHT;
+  const priceBuckets = resolvePriceBuckets(options.priceCurrency, options.fx ?? null);
+  const docs = packages.map(pkg => indexDocument(pkg, priceBuckets, options.fx ?? null));
+
+  const queryTerms = tokenize(options.query || '');
+  const vocabulary = new Set<string>();
+  docs.forEach(doc => doc.termFrequencies.forEach((_, term) => vocabulary.add(term)));
+  const expanded = expandQueryTerms(queryTerms, vocabulary);
+
+  // BM25 over the field-weighted term frequencies
+  const averageLength = docs.reduce((sum, doc) => sum + doc.length, 0) / Math.max(1, docs.length);
+  const idf = new Map<string, number>();
+  expanded.forEach((_, term) => {
+    const documentFrequency = docs.filter(doc => doc.termFrequencies.has(term)).length;
+    idf.set(term, Math.log(1 + (docs.length - documentFrequency + 0.5) / (documentFrequency + 0.5)));
+  });
+
+  const scored = docs.map(doc => {
+    let keyword = 0;
+    expanded.forEach((weight, term) => {
+      const tf = doc.termFrequencies.get(term);
+      if (!tf) return;
+      const norm = BM25_K1 * (1 - BM25_B + BM25_B * doc.length / (averageLength || 1));
+      keyword += weight * (idf.get(term) || 0) * (tf * (BM25_K1 + 1)) / (tf + norm);
+    });
+    return { doc, keyword, semantic: semanticScores.get(doc.pkg.id) ?? 0 };
+  });
+
+  const candidates = queryTerms.length === 0
+    ? scored
+    : scored.filter(s => s.keyword > 0 || semanticScores.has(s.doc.pkg.id));
+
+  const maxKeyword = Math.max(0, ...candidates.map(c => c.keyword));
+  const maxSemantic = Math.max(0, ...candidates.map(c => c.semantic));
+  const semanticShare = maxSemantic > 0 ? 1 - keywordWeight : 0;
+
+  const facets = emptyFacets();
+  for (const { doc } of candidates) {
+    if (matchesFilters(doc, filters, 'category')) facets.category[doc.pkg.category] = (facets.category[doc.pkg.category] || 0) + 1;
+    if (matchesFilters(doc, filters, 'country')) facets.country[doc.pkg.country] = (facets.country[doc.pkg.country] || 0) + 1;
+    if (matchesFilters(doc, filters, 'duration')) facets.duration[doc.duration]++;
+    if (doc.price && matchesFilters(doc, filters, 'price')) facets.price[doc.price]++;
+    if (matchesFilters(doc, filters, 'month')) doc.months.forEach(m => { facets.month[m] = (facets.month[m] || 0) + 1; });
+  }
+
+  const hits = candidates
+    .filter(c => matchesFilters(c.doc, filters))
+    .map(c => {
+      const keywordScore = maxKeyword > 0 ? c.keyword / maxKeyword : 0;
+      const semanticScore = maxSemantic > 0 ? c.semantic / maxSemantic : 0;
+      return {
+        package: c.doc.pkg,
+        keywordScore,
+        semanticScore,
+        score: (1 - semanticShare) * keywordScore + semanticShare * semanticScore
+      };
+    });
+  if (queryTerms.length > 0) {
+    hits.sort((a, b) => b.score - a.score);
+  }
+
+  return { hits, facets, expandedTerms: [...expanded.keys()], priceBuckets };
+}
@@ -13,6 +13,14 @@ interface ChatExportData {
   userEmail?: string;
 }
 
+interface CoupleTestExportData {
+  partnerNames: [string, string];
+  score: number;
+  breakdown: Array<{ label: string; points: number; max: number }>;
+  destinations: Array<{ title: string; location: string; price: string; reasons: string[] }>;
+  tips: string[];
+}
+
 class PDFExporter {
   private readonly margins = {
     top: 20,
@@ -138,6 +146,93 @@ class PDFExporter {
     }
   }
 
+  /**
+   * Export couple compatibility test results to PDF
+   */
+  public async exportCoupleTest(report: CoupleTestExportData): Promise<void> {
+    try {
+      const { jsPDF } = await import('jspdf');
+
+      const doc = new jsPDF({
+        orientation: 'portrait',
+        unit: 'mm',
+        format: 'a4'
+      });
+
+      doc.setProperties({
+        title: `AI LOVVE Couple Compatibility - ${report.partnerNames.join(' & ')}`,
+        subject: 'Couple Compatibility Test Results',
+        author: 'AI LOVVE',
+        creator: 'AI LOVVE Chat App',
+        keywords: 'couple, compatibility, honeymoon, ai'
+      });
+
+      const pageWidth = doc.internal.pageSize.getWidth();
+      const pageHeight = doc.internal.pageSize.getHeight();
+      const contentWidth = pageWidth - this.margins.left - this.margins.right;
+      let yPosition = await this.addHeader(doc, this.margins.top, contentWidth, 'Couple Compatibility Test');
+
+      const ensureSpace = (needed: number) => {
+        if (yPosition + needed > pageHeight - 30) {
+          doc.addPage();
+          yPosition = this.margins.top;
+        }
+      };
+      const addSection = (title: string) => {
+        ensureSpace(14);
+        doc.setFontSize(13);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(217, 119, 6);
+        doc.text(title, this.margins.left, yPosition);
+        yPosition += 8;
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(40, 40, 40);
+      };
+      const addLines = (text: string, indent = 0) => {
+        const lines = doc.splitTextToSize(text, contentWidth - indent);
+        ensureSpace(lines.length * 5);
+        doc.text(lines, this.margins.left + indent, yPosition);
+        yPosition += lines.length * 5;
+      };
+
+      doc.setFontSize(16);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(40, 40, 40);
+      doc.text(`${report.partnerNames[0]} & ${report.partnerNames[1]}: ${report.score}/100`, this.margins.left, yPosition);
+      yPosition += 12;
+
+      addSection('Alignment');
+      report.breakdown.forEach(row => addLines(`${row.label}: ${row.points}/${row.max}`));
+      yPosition += 6;
+
+      if (report.destinations.length > 0) {
+        addSection('Compromise destinations');
+        report.destinations.forEach(destination => {
+          addLines(`${destination.title} - ${destination.location} (${destination.price})`);
+          destination.reasons.forEach(reason => addLines(`- ${reason}`, 4));
+          yPosition += 3;
+        });
+        yPosition += 3;
+      }
+
+      if (report.tips.length > 0) {
+        addSection('Tips for planning together');
+        report.tips.forEach(tip => addLines(`- ${tip}`));
+      }
+
+      await this.addFooter(doc, pageHeight);
+
+      const fileName = `AI_LOVVE_Couple_Test_${this.sanitizeFileName(report.partnerNames.join('_'))}_${new Date().toISOString().split('T')[0]}.pdf`;
+      doc.save(fileName);
+
+      console.log('📄 Couple test exported to PDF successfully:', fileName);
+    } catch (error) {
+      console.error('❌ Error exporting couple test to PDF:', error);
+      throw new Error('Failed to export couple test to PDF');
+    }
+  }
+
   /**
    * Generate PDF content for a single chat
    */
@@ -203,7 +298,7 @@ class PDFExporter {
   /**
    * Add PDF header
    */
-  private async addHeader(doc: any, yPosition: number, contentWidth: number): Promise<number> {
+  private async addHeader(doc: any, yPosition: number, contentWidth: number, subtitle = 'Honeymoon Chat Export'): Promise<number> {
     // AI LOVVE Title
     doc.setFontSize(24);
     doc.setFont('helvetica', 'bold');
@@ -214,7 +309,7 @@ class PDFExporter {
     doc.setFontSize(12);
     doc.setFont('helvetica', 'normal');
     doc.setTextColor(60, 60, 60);
-    doc.text('Honeymoon Chat Export', this.margins.left, yPosition + 8);
+    doc.text(subtitle, this.margins.left, yPosition + 8);
 
     // Decorative line
     doc.setDrawColor(217, 119, 6);
@@ -398,6 +493,8 @@ class PDFExporter {
   }
 }
 
+export type { CoupleTestExportData };
+
 // Export singleton instance
 export const pdfExporter = new PDFExporter();
 
@@ -418,6 +515,9 @@ export const exportAllChatsToPDF = (
   userEmail?: string
 ) => pdfExporter.exportMultipleChats(chats, userEmail);
 
+export const exportCoupleTestToPDF = (report: CoupleTestExportData) =>
+  pdfExporter.exportCoupleTest(report);
+
 export const estimatePDFSize = (messageCount: number) => 
   pdfExporter.estimatePDFSize(messageCount);
 
@@ -1,6 +1,8 @@
 // Push Notifications System for AI LOVVE
 import { getMessaging, getToken, onMessage, Messaging } from 'firebase/messaging';
-import { app } from '../firebase';
+import { onAuthStateChanged } from 'firebase/auth';
+import { deleteDoc, doc, serverTimestamp, setDoc } from 'firebase/firestore';
+import { app, auth, db } from '../firebase';
 
 // Types for notification system
 interface NotificationPermission {
@@ -51,6 +53,14 @@ class PushNotificationManager {
   constructor() {
     this.checkSupport();
     this.initializeNotifications();
+
+    // A token obtained before sign-in is attached to the account once the user logs in
+    onAuthStateChanged(auth, user => {
+      const token = this.getToken();
+      if (user && token) {
+        this.syncTokenToFirestore(token);
+      }
+    });
   }
 
   /**
@@ -150,18 +160,35 @@ class PushNotificationManager {
    */
   private async saveTokenToServer(token: string) {
     try {
-      // Here you would typically save the token to your backend or Firestore
-      // For now, we'll store it locally
       localStorage.setItem('fcm_token', token);
       console.log('💾 FCM token saved locally');
       
-      // TODO: Send token to backend/Firestore for user-specific notifications
-      // await saveUserNotificationToken(userId, token);
+      await this.syncTokenToFirestore(token);
     } catch (error) {
       console.error('❌ Error saving FCM token:', error);
     }
   }
 
+  /**
+   * Store the token under users/{uid}/pushTokens so Cloud Functions can push to this device
+   */
+  private async syncTokenToFirestore(token: string) {
+    const user = auth.currentUser;
+    if (!user) return;
+
+    try {
+      await setDoc(doc(db, 'users', user.uid, 'pushTokens', token), {
+        enabled: true,
+        types: this.getNotificationTypes(),
+        userAgent: navigator.userAgent,
+        updatedAt: serverTimestamp()
+      }, { merge: true });
+      console.log('💾 FCM token saved to Firestore');
+    } catch (error) {
+      console.error('❌ Error saving FCM token to Firestore:', error);
+    }
+  }
+
   /**
    * Setup listener for foreground messages
    */
@@ -315,6 +342,11 @@ class PushNotificationManager {
     if (this.subscription) {
       this.subscription.types = updatedTypes;
     }
+
+    const token = this.getToken();
+    if (token) {
+      this.syncTokenToFirestore(token);
+    }
     
     console.log('🔔 Notification types updated:', updatedTypes);
   }
@@ -339,9 +371,8 @@ class PushNotificationManager {
     try {
       // Clear token from server
       const token = this.token || localStorage.getItem('fcm_token');
-      if (token) {
-        // TODO: Remove token from backend/Firestore
-        // await removeUserNotificationToken(userId, token);
+      if (token && auth.currentUser) {
+        await deleteDoc(doc(db, 'users', auth.currentUser.uid, 'pushTokens', token));
       }
       
       // Clear local storage
@@ -0,0 +1,82 @@
+// Honeymoon plans built with HoneymoonPlannerWizard: titles, summaries and the prompt that starts a chat about a plan
+import { differenceInCalendarDays, format } from 'date-fns';
+import { formatMoney } from './currency';
+
+export interface CustomHoneymoonPlan {
+  destinations: string[];
+  startDate: Date | null;
+  endDate: Date | null;
+  budget: { min: number; max: number };
+  travelers: number;
+  accommodationType: string[];
+  activities: string[];
+  specialRequests: string;
+  mealPreferences: string[];
+  transportationPreference: string;
+  roomType: string;
+  specialOccasions: string[];
+}
+
+// The wizard's budget ranges are in Turkish lira
+export const PLAN_BUDGET_CURRENCY = 'TRY';
+
+export const EMPTY_HONEYMOON_PLAN: CustomHoneymoonPlan = {
+  destinations: [],
+  startDate: null,
+  endDate: null,
+  budget: { min: 25000, max: 50000 },
+  travelers: 2,
+  accommodationType: [],
+  activities: [],
+  specialRequests: '',
+  mealPreferences: [],
+  transportationPreference: '',
+  roomType: '',
+  specialOccasions: []
+};
+
+export function planNights(plan: Pick<CustomHoneymoonPlan, 'startDate' | 'endDate'>): number | null {
+  if (!plan.startDate || !plan.endDate) return null;
+  return Math.max(0, differenceInCalendarDays(plan.endDate, plan.startDate));
+}
+
+/**
+ * Default title for a saved plan, e.g. "Bali & Santorini · Jun 2027".
+ */
+export function planTitle(plan: CustomHoneymoonPlan): string {
+  const [first, second, ...rest] = plan.destinations;
+  const places = !first
+    ? 'Honeymoon plan'
+    : [first, second].filter(Boolean).join(' & ') + (rest.length > 0 ? ` +${rest.length}` : '');
+  return plan.startDate ? `${places} · ${format(plan.startDate, 'MMM yyyy')}` : places;
+}
+
+export function formatPlanDates(plan: Pick<CustomHoneymoonPlan, 'startDate' | 'endDate'>): string | null {
+  if (!plan.startDate) return null;
+  if (!plan.endDate) return `from ${format(plan.startDate, 'yyyy-MM-dd')}`;
+  return `${format(plan.startDate, 'yyyy-MM-dd')} to ${format(plan.endDate, 'yyyy-MM-dd')} (${planNights(plan)} nights)`;
+}
+
+/**
+ * First chat message for a saved plan, so the assistant starts from the plan instead of asking
+ * the wizard questions again.
+ */
+export function buildPlanChatPrompt(plan: CustomHoneymoonPlan, attachedPackageTitle?: string): string {
+  const dates = formatPlanDates(plan);
+  const lines: Array<string | false> = [
+    `- Destinations: ${plan.destinations.length > 0 ? plan.destinations.join(', ') : 'open to suggestions'}`,
+    `- Dates: ${dates ?? 'flexible'}`,
+    `- Budget: ${formatMoney(plan.budget.min, PLAN_BUDGET_CURRENCY)} - ${formatMoney(plan.budget.max, PLAN_BUDGET_CURRENCY)}`,
+    `- Travellers: ${plan.travelers}`,
+    plan.accommodationType.length > 0 && `- Accommodation: ${plan.accommodationType.join(', ')}`,
+    !!plan.roomType && `- Room: ${plan.roomType}`,
+    plan.activities.length > 0 && `- Activities: ${plan.activities.join(', ')}`,
+    plan.mealPreferences.length > 0 && `- Meals: ${plan.mealPreferences.join(', ')}`,
+    !!plan.transportationPreference && `- Transport: ${plan.transportationPreference}`,
+    plan.specialOccasions.length > 0 && `- Special occasions: ${plan.specialOccasions.join(', ')}`,
+    !!plan.specialRequests.trim() && `- Special requests: ${plan.specialRequests.trim()}`,
+    !!attachedPackageTitle && `- Package we are considering: ${attachedPackageTitle}`
+  ];
+
+  return `Here is our saved honeymoon plan. Please help us refine it and suggest matching packages.\n${lines.filter(Boolean).join('\n')}`;
+}
@@ -60,7 +60,20 @@ export default defineConfig({
     // Mock configuration
     deps: {
       inline: ['@testing-library/jest-dom']
-    }
+    },
+
+    // Cloud Functions helpers run in Node, without the browser setup
+    projects: [
+      { extends: true, test: { name: 'app' } },
+      {
+        test: {
+          name: 'functions',
+          environment: 'node',
+          globals: true,
+          include: ['functions/src/**/*.test.ts']
+        }
+      }
+    ]
   },
   
   // Resolve aliases for testing